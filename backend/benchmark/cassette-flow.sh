@@ -0,0 +1,38 @@
+#!/bin/sh
+# Run the evaluation flow of benchmark/cassette-flow.json on a fresh database with the AI cassettes
+# of benchmark/cassettes (`npm run benchmark:cassettes -- [replay|record]`, see OPENAI_INTEGRATION.md):
+# - replay (default): offline, fails if a request has no cassette or the flow doesn't complete
+#   (record the cassettes first, none are committed yet)
+# - record: with the configured AI providers, replacing the cassettes
+set -eu
+cd "$(dirname "$0")/.."
+
+mode="${1:-replay}"
+cassettes=benchmark/cassettes
+case "$mode" in
+  replay)
+    if ! ls "$cassettes"/*.json > /dev/null 2>&1; then
+      echo "❌ No AI cassettes in $cassettes: record them with npm run benchmark:cassettes -- record" >&2
+      exit 1
+    fi
+    ;;
+  record)
+    rm -rf "$cassettes"
+    ;;
+  *)
+    echo "Usage: $0 [replay|record]" >&2
+    exit 1
+    ;;
+esac
+
+workdir=$(mktemp -d)
+trap 'rm -rf "$workdir"' EXIT
+
+export DATABASE_URL="file:$workdir/cassette-flow.db"
+export AI_CASSETTE_MODE="$mode"
+export AI_CASSETTES_DIR="$cassettes"
+# The fetched pages are part of the injection check requests
+export SOURCE_FETCHER=none
+
+npx prisma migrate deploy
+npm run benchmark -- --golden benchmark/cassette-flow.json --record "$workdir/recording.json" --require-completed
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "evaluation_summaries" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "taskId" INTEGER,
+    "worthAsFractionOfGDP" REAL NOT NULL,
+    "rationale" TEXT NOT NULL,
+    "sources" TEXT NOT NULL,
+    "summary" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "evaluation_summaries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "evaluation_summaries_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "evaluation_summaries_taskId_key" ON "evaluation_summaries"("taskId");
+
+-- CreateIndex
+CREATE INDEX "evaluation_summaries_userId_createdAt_idx" ON "evaluation_summaries"("userId", "createdAt");
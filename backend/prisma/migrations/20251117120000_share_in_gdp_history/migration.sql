@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "share_in_gdp_history" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "taskId" INTEGER,
+    "rawShareInGDP" REAL NOT NULL,
+    "smoothedShareInGDP" REAL NOT NULL,
+    "smoothingPolicy" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "share_in_gdp_history_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "share_in_gdp_history_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "share_in_gdp_history_userId_createdAt_idx" ON "share_in_gdp_history"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "share_in_gdp_history_taskId_idx" ON "share_in_gdp_history"("taskId");
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "appeals" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "taskId" INTEGER,
+    "statement" TEXT NOT NULL,
+    "evidenceLinks" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "reviewerId" INTEGER,
+    "reviewerNote" TEXT,
+    "reevaluationTaskId" INTEGER,
+    "previousShareInGDP" REAL,
+    "newShareInGDP" REAL,
+    "resolvedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "appeals_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "appeals_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "appeals_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "appeals_userId_createdAt_idx" ON "appeals"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "appeals_status_createdAt_idx" ON "appeals"("status", "createdAt");
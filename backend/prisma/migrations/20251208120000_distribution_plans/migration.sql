@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "distribution_plans" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING_APPROVAL',
+    "tokenType" TEXT NOT NULL DEFAULT 'NATIVE',
+    "networks" TEXT NOT NULL,
+    "createdById" INTEGER,
+    "approvedById" INTEGER,
+    "autoApproved" BOOLEAN NOT NULL DEFAULT false,
+    "approvedAt" DATETIME,
+    "executedAt" DATETIME,
+    "result" TEXT,
+    "errorMessage" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "distribution_plans_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "distribution_plans_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "distribution_plans_status_createdAt_idx" ON "distribution_plans"("status", "createdAt");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "gas_token_distributions" ADD COLUMN "planId" INTEGER;
+ALTER TABLE "gas_token_distributions" ADD COLUMN "idempotencyKey" TEXT;
+ALTER TABLE "gas_token_distributions" ADD COLUMN "recipientAddress" TEXT;
+ALTER TABLE "gas_token_distributions" ADD COLUMN "confirmedAt" DATETIME;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "gas_token_distributions_idempotencyKey_key" ON "gas_token_distributions"("idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "gas_token_distributions_planId_idx" ON "gas_token_distributions"("planId");
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "evaluation_flows" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "cycleType" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "appealId" INTEGER,
+    "result" TEXT,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "evaluation_flows_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_tasks" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "status" TEXT NOT NULL DEFAULT 'NOT_STARTED',
+    "runnerClassName" TEXT NOT NULL,
+    "runnerData" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "completedAt" DATETIME,
+    "storeId" TEXT,
+    "lockTime" DATETIME,
+    "flowId" INTEGER,
+    CONSTRAINT "tasks_flowId_fkey" FOREIGN KEY ("flowId") REFERENCES "evaluation_flows" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_tasks" ("completedAt", "createdAt", "id", "lockTime", "runnerClassName", "runnerData", "status", "storeId", "updatedAt") SELECT "completedAt", "createdAt", "id", "lockTime", "runnerClassName", "runnerData", "status", "storeId", "updatedAt" FROM "tasks";
+DROP TABLE "tasks";
+ALTER TABLE "new_tasks" RENAME TO "tasks";
+CREATE INDEX "tasks_status_idx" ON "tasks"("status");
+CREATE INDEX "tasks_runnerClassName_idx" ON "tasks"("runnerClassName");
+CREATE INDEX "tasks_completedAt_idx" ON "tasks"("completedAt");
+CREATE INDEX "tasks_lockTime_idx" ON "tasks"("lockTime");
+CREATE INDEX "tasks_flowId_idx" ON "tasks"("flowId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "evaluation_flows_userId_status_idx" ON "evaluation_flows"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "evaluation_flows_status_idx" ON "evaluation_flows"("status");
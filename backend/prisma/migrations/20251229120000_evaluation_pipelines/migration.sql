@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "evaluation_flows" ADD COLUMN "pipeline" TEXT;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "tasks" ADD COLUMN "retryAt" DATETIME;
+ALTER TABLE "tasks" ADD COLUMN "lastError" TEXT;
+
+-- CreateTable
+CREATE TABLE "task_attempts" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "taskId" INTEGER NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "error" TEXT NOT NULL,
+    "retryAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "task_attempts_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "tasks_status_retryAt_idx" ON "tasks"("status", "retryAt");
+
+-- CreateIndex
+CREATE INDEX "task_attempts_taskId_idx" ON "task_attempts"("taskId");
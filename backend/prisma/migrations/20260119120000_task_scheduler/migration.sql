@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "pendingDependencies" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "tasks" ADD COLUMN "nextPollAt" DATETIME;
+
+-- Backfill the remaining-dependency counters of the existing tasks
+UPDATE "tasks" SET "pendingDependencies" = (
+    SELECT COUNT(*) FROM "task_dependencies"
+    INNER JOIN "tasks" AS "dependency" ON "dependency"."id" = "task_dependencies"."dependencyId"
+    WHERE "task_dependencies"."taskId" = "tasks"."id"
+    AND "dependency"."status" NOT IN ('COMPLETED', 'CANCELLED', 'FAILED')
+);
+
+-- CreateIndex
+CREATE INDEX "tasks_status_pendingDependencies_idx" ON "tasks"("status", "pendingDependencies");
+
+-- CreateIndex
+CREATE INDEX "tasks_status_nextPollAt_idx" ON "tasks"("status", "nextPollAt");
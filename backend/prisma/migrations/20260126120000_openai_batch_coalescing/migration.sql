@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "queued_ai_requests" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "batchId" INTEGER NOT NULL,
+    "taskId" INTEGER NOT NULL,
+    "customId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "queued_ai_requests_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "batches" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "queued_ai_requests_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_batches" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "taskId" INTEGER,
+    "submittedAt" DATETIME,
+    "requestCount" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "batches_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_batches" ("createdAt", "id", "taskId", "submittedAt", "requestCount") SELECT "createdAt", "id", "taskId", "createdAt", 1 FROM "batches";
+DROP TABLE "batches";
+ALTER TABLE "new_batches" RENAME TO "batches";
+CREATE INDEX "batches_submittedAt_idx" ON "batches"("submittedAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "queued_ai_requests_customId_key" ON "queued_ai_requests"("customId");
+
+-- CreateIndex
+CREATE INDEX "queued_ai_requests_batchId_idx" ON "queued_ai_requests"("batchId");
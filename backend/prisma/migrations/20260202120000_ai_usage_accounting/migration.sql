@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "openai_logs" ADD COLUMN "flowId" INTEGER;
+ALTER TABLE "openai_logs" ADD COLUMN "model" TEXT;
+ALTER TABLE "openai_logs" ADD COLUMN "inputTokens" INTEGER;
+ALTER TABLE "openai_logs" ADD COLUMN "cachedInputTokens" INTEGER;
+ALTER TABLE "openai_logs" ADD COLUMN "outputTokens" INTEGER;
+ALTER TABLE "openai_logs" ADD COLUMN "reasoningTokens" INTEGER;
+ALTER TABLE "openai_logs" ADD COLUMN "toolCalls" INTEGER;
+ALTER TABLE "openai_logs" ADD COLUMN "costUSD" REAL;
+
+-- Backfill the flows of the logged requests whose task still exists
+UPDATE "openai_logs" SET "flowId" = (SELECT "flowId" FROM "tasks" WHERE "tasks"."id" = "openai_logs"."taskId")
+WHERE "taskId" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "openai_logs_flowId_idx" ON "openai_logs"("flowId");
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "prompt_versions" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "schema" TEXT NOT NULL,
+    "notes" TEXT,
+    "publishedById" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "prompt_versions_publishedById_fkey" FOREIGN KEY ("publishedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_tasks" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "status" TEXT NOT NULL DEFAULT 'NOT_STARTED',
+    "runnerClassName" TEXT NOT NULL,
+    "runnerData" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "completedAt" DATETIME,
+    "storeId" TEXT,
+    "lockTime" DATETIME,
+    "leaseOwner" TEXT,
+    "pendingDependencies" INTEGER NOT NULL DEFAULT 0,
+    "nextPollAt" DATETIME,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "retryAt" DATETIME,
+    "lastError" TEXT,
+    "flowId" INTEGER,
+    "promptVersionId" INTEGER,
+    CONSTRAINT "tasks_flowId_fkey" FOREIGN KEY ("flowId") REFERENCES "evaluation_flows" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "tasks_promptVersionId_fkey" FOREIGN KEY ("promptVersionId") REFERENCES "prompt_versions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_tasks" ("attempts", "completedAt", "createdAt", "flowId", "id", "lastError", "leaseOwner", "lockTime", "nextPollAt", "pendingDependencies", "retryAt", "runnerClassName", "runnerData", "status", "storeId", "updatedAt") SELECT "attempts", "completedAt", "createdAt", "flowId", "id", "lastError", "leaseOwner", "lockTime", "nextPollAt", "pendingDependencies", "retryAt", "runnerClassName", "runnerData", "status", "storeId", "updatedAt" FROM "tasks";
+DROP TABLE "tasks";
+ALTER TABLE "new_tasks" RENAME TO "tasks";
+CREATE INDEX "tasks_status_idx" ON "tasks"("status");
+CREATE INDEX "tasks_runnerClassName_idx" ON "tasks"("runnerClassName");
+CREATE INDEX "tasks_completedAt_idx" ON "tasks"("completedAt");
+CREATE INDEX "tasks_lockTime_idx" ON "tasks"("lockTime");
+CREATE INDEX "tasks_flowId_idx" ON "tasks"("flowId");
+CREATE INDEX "tasks_promptVersionId_idx" ON "tasks"("promptVersionId");
+CREATE INDEX "tasks_status_retryAt_idx" ON "tasks"("status", "retryAt");
+CREATE INDEX "tasks_status_pendingDependencies_idx" ON "tasks"("status", "pendingDependencies");
+CREATE INDEX "tasks_status_nextPollAt_idx" ON "tasks"("status", "nextPollAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_versions_name_version_key" ON "prompt_versions"("name", "version");
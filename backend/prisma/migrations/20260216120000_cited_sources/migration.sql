@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "sources" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "taskId" INTEGER NOT NULL,
+    "userId" INTEGER,
+    "url" TEXT NOT NULL,
+    "title" TEXT,
+    "snippet" TEXT,
+    "origin" TEXT NOT NULL,
+    "retrievedAt" DATETIME NOT NULL,
+    CONSTRAINT "sources_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "sources_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "sources_userId_idx" ON "sources"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sources_taskId_url_key" ON "sources"("taskId", "url");
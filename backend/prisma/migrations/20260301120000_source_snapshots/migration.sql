@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "source_snapshots" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "sourceId" INTEGER NOT NULL,
+    "contentHash" TEXT,
+    "contentType" TEXT,
+    "httpStatus" INTEGER,
+    "fetcher" TEXT NOT NULL,
+    "error" TEXT,
+    "capturedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "source_snapshots_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "sources" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "source_snapshots_sourceId_key" ON "source_snapshots"("sourceId");
+
+-- CreateIndex
+CREATE INDEX "source_snapshots_contentHash_idx" ON "source_snapshots"("contentHash");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "share_in_gdp_history" ADD COLUMN "components" TEXT;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "evaluation_flows" ADD COLUMN "variables" TEXT;
+ALTER TABLE "evaluation_flows" ADD COLUMN "aiModel" TEXT;
+
+-- CreateTable
+CREATE TABLE "worth_reviews" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "flowId" INTEGER,
+    "taskId" INTEGER,
+    "appealId" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "medianWorth" REAL NOT NULL,
+    "band" TEXT NOT NULL,
+    "componentMedians" TEXT,
+    "reason" TEXT NOT NULL,
+    "reviewerId" INTEGER,
+    "reviewerNote" TEXT,
+    "approvedShareInGDP" REAL,
+    "resolvedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "worth_reviews_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "worth_reviews_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "worth_reviews_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "worth_reviews_userId_createdAt_idx" ON "worth_reviews"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "worth_reviews_status_createdAt_idx" ON "worth_reviews"("status", "createdAt");
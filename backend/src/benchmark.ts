@@ -0,0 +1,93 @@
+// Polyfill fetch for Node.js - must be first
+import fetch from 'node-fetch';
+if (!globalThis.fetch) {
+  globalThis.fetch = fetch as any;
+}
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import fs from 'fs';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { registerAllRunners } from './runners/OpenAIRunners.js';
+import { loadEvaluationPipelines } from './services/evaluationPipeline.js';
+import { EvaluationFlowStatus } from './services/UserEvaluationFlow.js';
+import {
+  BenchmarkRecording,
+  formatBenchmarkReport,
+  loadBenchmarkRecording,
+  loadGoldenSet,
+  runBenchmark,
+  scoreBenchmark
+} from './services/calibrationBenchmark.js';
+
+/**
+ * Calibration benchmark (`npm run benchmark -- [options]`, see USER_EVALUATION.md):
+ * - `--golden <file>` - golden set (default: benchmark/golden.json)
+ * - `--replay <file>` - score a recording offline instead of running the evaluations
+ * - `--record <file>` - where to save the recording of a run (default: benchmark/recordings/<golden set>-<time>.json)
+ * - `--timeout <seconds>` - give up waiting for the evaluations after this long (default: 3600)
+ * - `--json` - print the report as JSON
+ * - `--require-completed` - fail unless the evaluation flows of all profiles completed, e.g. when replaying AI cassettes
+ *
+ * A run evaluates fresh users with the configured runners and AI providers, so it refuses to run on a database
+ * with other users: point DATABASE_URL to a dedicated database.
+ */
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const goldenSet = loadGoldenSet(readOption('golden') ?? 'benchmark/golden.json');
+  const replayPath = readOption('replay');
+
+  let recording: BenchmarkRecording;
+  if (replayPath) {
+    recording = loadBenchmarkRecording(replayPath);
+    console.log(`📼 Scoring recording ${replayPath}`);
+  } else {
+    const prisma = new PrismaClient();
+    try {
+      const otherUsers = await prisma.user.count({ where: { NOT: { email: { endsWith: '@benchmark.invalid' } } } });
+      if (otherUsers > 0) {
+        throw new Error(`The database has ${otherUsers} non-benchmark user(s): set DATABASE_URL to a dedicated benchmark database`);
+      }
+      registerAllRunners();
+      loadEvaluationPipelines();
+
+      const timeoutSeconds = parseFloat(readOption('timeout') ?? '3600');
+      recording = await runBenchmark(prisma, goldenSet, { timeoutMs: timeoutSeconds * 1000 });
+    } finally {
+      await prisma.$disconnect();
+    }
+
+    const recordPath = readOption('record') ??
+      path.join('benchmark', 'recordings', `${goldenSet.name}-${recording.recordedAt.replace(/[:.]/g, '-')}.json`);
+    fs.mkdirSync(path.dirname(recordPath), { recursive: true });
+    fs.writeFileSync(recordPath, JSON.stringify(recording, null, 2));
+    console.log(`💾 Recording saved to ${recordPath}`);
+  }
+
+  const report = scoreBenchmark(goldenSet, recording);
+  console.log(process.argv.includes('--json') ? JSON.stringify(report, null, 2) : formatBenchmarkReport(report));
+
+  if (process.argv.includes('--require-completed')) {
+    const incomplete = goldenSet.profiles
+      .filter(profile => recording.profiles[profile.id]?.flowStatus !== EvaluationFlowStatus.COMPLETED)
+      .map(profile => `${profile.id} (${recording.profiles[profile.id]?.flowStatus ?? 'missing'})`);
+    if (incomplete.length > 0) {
+      throw new Error(`Evaluation flows not completed: ${incomplete.join(', ')}`);
+    }
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('❌ Benchmark failed:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+);
@@ -25,16 +25,26 @@ import logsRoutes from './routes/logs.js';
 import cronRoutes from './routes/cron.js';
 import multiNetworkGasRoutes from './routes/multi-network-gas.js';
 import cleanupRoutes from './routes/cleanup.js';
+import appealRoutes from './routes/appeals.js';
+import worthReviewRoutes from './routes/worthReviews.js';
+import promptRoutes from './routes/prompts.js';
 
 // Register TaskRunners
 import { registerAllRunners } from './runners/OpenAIRunners.js';
 import { GlobalDataService } from './services/GlobalDataService.js';
 import { CronService } from './services/CronService.js';
+import { RoleService } from './services/RoleService.js';
+import { PromptRegistry } from './services/PromptRegistry.js';
+import { loadEvaluationPipelines } from './services/evaluationPipeline.js';
+import { TaskWorker } from './services/TaskWorker.js';
 import { PrismaClient } from '@prisma/client';
 
 // Register all TaskRunners on startup
 registerAllRunners();
 
+// Fail fast on an invalid evaluation pipeline definition
+loadEvaluationPipelines();
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -87,6 +97,9 @@ app.use('/api/logs', logsRoutes);
 app.use('/api/cron', cronRoutes);
 app.use('/api/multi-network-gas', multiNetworkGasRoutes);
 app.use('/api/cleanup', cleanupRoutes);
+app.use('/api/appeals', appealRoutes);
+app.use('/api/worth-reviews', worthReviewRoutes);
+app.use('/api/prompts', promptRoutes);
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -126,9 +139,12 @@ async function initializeApp() {
     
     console.log('✅ Global data initialization complete');
     
+    const prisma = new PrismaClient();
+    await new RoleService(prisma).bootstrapAdmins();
+    await new PromptRegistry(prisma).publishChangedBuiltinPrompts();
+
     // Initialize cron service
     console.log('🔄 Initializing cron service...');
-    const prisma = new PrismaClient();
     const cronService = new CronService(prisma);
     
     // Start the bi-monthly evaluation cron job
@@ -139,20 +155,29 @@ async function initializeApp() {
     
     // Start the monthly disconnected account cleanup cron job
     cronService.startMonthlyCleanupCron();
+
+    // Start the cron job reconciling sent gas token transfers
+    cronService.startTransferReconciliationCron();
     
     console.log('✅ Cron service initialization complete');
+
+    // Process the task queue in this process too, unless only standalone workers (`npm run worker`) should
+    const taskWorker = process.env.TASK_WORKER_EMBEDDED !== 'false' ? new TaskWorker(prisma) : null;
+    taskWorker?.start();
     
     // Graceful shutdown handling
-    process.on('SIGINT', () => {
+    process.on('SIGINT', async () => {
       console.log('🛑 Shutting down gracefully...');
       cronService.destroy();
+      await taskWorker?.stop();
       prisma.$disconnect();
       process.exit(0);
     });
     
-    process.on('SIGTERM', () => {
+    process.on('SIGTERM', async () => {
       console.log('🛑 Shutting down gracefully...');
       cronService.destroy();
+      await taskWorker?.stop();
       prisma.$disconnect();
       process.exit(0);
     });
@@ -1,7 +1,11 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
+import { RoleService, UserRole } from '../services/RoleService.js';
+import { AuditLogService } from '../services/AuditLogService.js';
 
 const prisma = new PrismaClient();
+const roleService = new RoleService(prisma);
+const auditLogService = new AuditLogService(prisma);
 
 // Middleware to extract user ID from authorization token
 export async function getCurrentUserFromToken(req: express.Request): Promise<number | null> {
@@ -144,3 +148,50 @@ export async function requireAdditionalConnections(req: express.Request, res: ex
     res.status(500).json({ error: 'Failed to verify additional connections' });
   }
 }
+
+// Middleware to require one of the roles; use after requireAuth.
+// Every invocation, including refused ones, is recorded in the audit log.
+export function requireRole(...roles: UserRole[]) {
+  return async (req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> => {
+    try {
+      const userId = (req as any).userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const role = await roleService.getUserRole(userId);
+      if (!role) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const action = `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`;
+      res.on('finish', () => {
+        auditLogService.record({
+          userId,
+          role,
+          action,
+          params: { params: req.params, query: req.query, body: req.body },
+          statusCode: res.statusCode,
+          ip: req.ip
+        }).catch(error => console.error('Error recording audit log:', error));
+      });
+
+      if (!roles.includes(role)) {
+        res.status(403).json({
+          error: 'Insufficient role',
+          role,
+          requiredRoles: roles
+        });
+        return;
+      }
+
+      (req as any).userRole = role;
+      next();
+    } catch (error) {
+      console.error('Error checking user role:', error);
+      res.status(500).json({ error: 'Failed to verify user role' });
+    }
+  };
+}
@@ -0,0 +1,115 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { UserRole } from '../services/RoleService.js';
+import { AppealDecision, AppealError, AppealService, AppealStatus } from '../services/AppealService.js';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+const appealService = new AppealService(prisma);
+
+function sendAppealError(res: express.Response, error: unknown, message: string): void {
+  if (error instanceof AppealError) {
+    res.status(error.statusCode).json({ error: error.message });
+    return;
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    error: message,
+    message: error instanceof Error ? error.message : String(error)
+  });
+}
+
+/**
+ * POST /api/appeals
+ * Appeal a ban or the assessed share in GDP
+ * Body:
+ * - kind: BAN or ASSESSMENT
+ * - statement: Why the decision is wrong
+ * - evidenceLinks: URLs supporting the statement (optional)
+ * - taskId: The appealed task (optional, default: the latest ban or assessment)
+ */
+router.post('/', requireAuth, async (req, res): Promise<void> => {
+  try {
+    const userId = (req as any).userId;
+    const { kind, statement, evidenceLinks, taskId } = req.body;
+    const appealedTaskId = taskId !== undefined ? parseInt(taskId) : undefined;
+    if (appealedTaskId !== undefined && isNaN(appealedTaskId)) {
+      res.status(400).json({ error: 'Invalid task ID' });
+      return;
+    }
+
+    const appeal = await appealService.submitAppeal(userId, {
+      kind,
+      statement,
+      evidenceLinks,
+      taskId: appealedTaskId
+    });
+    res.status(201).json({ success: true, data: appeal });
+  } catch (error) {
+    sendAppealError(res, error, 'Failed to submit appeal');
+  }
+});
+
+/**
+ * GET /api/appeals/my
+ * Get the appeals of the current user
+ */
+router.get('/my', requireAuth, async (req, res): Promise<void> => {
+  try {
+    const userId = (req as any).userId;
+    const appeals = await appealService.getUserAppeals(userId);
+    res.json({ success: true, data: appeals });
+  } catch (error) {
+    sendAppealError(res, error, 'Failed to fetch appeals');
+  }
+});
+
+/**
+ * GET /api/appeals/queue
+ * Get the review queue (admins and auditors)
+ * Query parameters:
+ * - status: Status of the listed appeals (default: PENDING)
+ */
+router.get('/queue', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req, res): Promise<void> => {
+  try {
+    const status = (req.query.status as AppealStatus | undefined) ?? AppealStatus.PENDING;
+    if (!Object.values(AppealStatus).includes(status)) {
+      res.status(400).json({ error: 'Invalid status parameter. Must be one of: ' + Object.values(AppealStatus).join(', ') });
+      return;
+    }
+
+    const appeals = await appealService.getReviewQueue(status);
+    res.json({ success: true, data: appeals, count: appeals.length });
+  } catch (error) {
+    sendAppealError(res, error, 'Failed to fetch appeal queue');
+  }
+});
+
+/**
+ * POST /api/appeals/:id/resolve
+ * Decide on a pending appeal (admins only)
+ * Body:
+ * - decision: uphold, lift (bans only) or reevaluate (queues a new evaluation flow with the appeal in the context)
+ * - note: Explanation for the user (optional)
+ */
+router.post('/:id/resolve', requireAuth, requireRole(UserRole.ADMIN), async (req, res): Promise<void> => {
+  try {
+    const appealId = parseInt(req.params.id);
+    if (isNaN(appealId)) {
+      res.status(400).json({ error: 'Invalid appeal ID' });
+      return;
+    }
+    const reviewerId = (req as any).userId;
+    const { decision, note } = req.body as { decision: AppealDecision; note?: string };
+
+    const appeal = await appealService.resolveAppeal(appealId, reviewerId, decision, note);
+
+    // The tasks of a reevaluation are run by the task workers
+    res.json({ success: true, data: appeal });
+  } catch (error) {
+    sendAppealError(res, error, 'Failed to resolve appeal');
+  }
+});
+
+export default router;
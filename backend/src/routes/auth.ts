@@ -4,7 +4,8 @@ import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
 import { ethers } from 'ethers';
-import { getCurrentUserFromToken } from '../middleware/auth.js';
+import { getCurrentUserFromToken, requireAuth, requireRole } from '../middleware/auth.js';
+import { UserRole } from '../services/RoleService.js';
 import EmailService from '../services/EmailService.js';
 
 const router = express.Router();
@@ -1765,8 +1766,8 @@ router.post('/kyc/initiate', async (req, res): Promise<void> => {
   }
 });
 
-// Cleanup expired sessions (should be called periodically)
-router.delete('/sessions/cleanup', async (req, res) => {
+// Cleanup expired sessions (should be called periodically, admins only)
+router.delete('/sessions/cleanup', requireAuth, requireRole(UserRole.ADMIN), async (req, res) => {
   try {
     const deletedSessions = await prisma.session.deleteMany({
       where: {
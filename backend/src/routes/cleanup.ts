@@ -1,7 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { DisconnectedAccountCleanupService } from '../services/DisconnectedAccountCleanupService.js';
 import { PrismaClient } from '@prisma/client';
-import { requireAuth } from '../middleware/auth.js';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { UserRole } from '../services/RoleService.js';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -10,9 +11,9 @@ const cleanupService = new DisconnectedAccountCleanupService(prisma);
 /**
  * GET /api/cleanup/stats
  * Get statistics about disconnected accounts without deleting them
- * Requires authentication
+ * Requires the admin or auditor role
  */
-router.get('/stats', requireAuth, async (req: Request, res: Response) => {
+router.get('/stats', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req: Request, res: Response) => {
   try {
     const gracePeriodDays = parseInt(req.query.gracePeriodDays as string) || 30;
     
@@ -59,9 +60,9 @@ router.get('/stats', requireAuth, async (req: Request, res: Response) => {
 /**
  * POST /api/cleanup/dry-run
  * Perform a dry run of the cleanup process to see what would be deleted
- * Requires authentication
+ * Requires the admin or auditor role
  */
-router.post('/dry-run', requireAuth, async (req: Request, res: Response) => {
+router.post('/dry-run', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req: Request, res: Response) => {
   try {
     const { gracePeriodDays = 30 } = req.body;
     
@@ -100,11 +101,11 @@ router.post('/dry-run', requireAuth, async (req: Request, res: Response) => {
 /**
  * POST /api/cleanup/execute
  * Execute the actual cleanup process to delete disconnected accounts
- * Requires authentication
+ * Requires the admin role
  * WARNING: This will permanently delete user accounts and their data
  * SECURITY: Banned and KYC accounts are never deleted to prevent ban evasion
  */
-router.post('/execute', requireAuth, async (req: Request, res: Response) => {
+router.post('/execute', requireAuth, requireRole(UserRole.ADMIN), async (req: Request, res: Response) => {
   try {
     const { gracePeriodDays = 30, confirmDeletion = false } = req.body;
     
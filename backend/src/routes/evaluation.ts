@@ -1,17 +1,31 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
-import { UserEvaluationFlow } from '../services/UserEvaluationFlow.js';
+import { EvaluationFlowError, UserEvaluationFlow } from '../services/UserEvaluationFlow.js';
 import { TaskExecutor } from '../services/TaskExecutor.js';
-import { TaskManager } from '../services/TaskManager.js';
 import { registerAllRunners } from '../runners/OpenAIRunners.js';
 import { requireAuth, requireKYC, requireAdditionalConnections } from '../middleware/auth.js';
+import { RoleService, UserRole } from '../services/RoleService.js';
+import { getFlowCitedSources } from '../services/citedSources.js';
+import { diffFlowSources, findPreviousFlowId, getSnapshotSegments, getSourceSnapshot } from '../services/sourceSnapshots.js';
 
 const router = express.Router();
 const prisma = new PrismaClient();
+const roleService = new RoleService(prisma);
 
 // Register TaskRunners
 registerAllRunners();
 
+/**
+ * Users can only see their own evaluation data, admins and auditors can see everybody's
+ */
+async function canViewUserData(viewerId: number, ownerId: number | null): Promise<boolean> {
+  if (ownerId === viewerId) {
+    return true;
+  }
+  const role = await roleService.getUserRole(viewerId);
+  return role === UserRole.ADMIN || role === UserRole.AUDITOR;
+}
+
 /**
  * POST /api/evaluation/start
  * Start a user evaluation flow
@@ -36,7 +50,7 @@ router.post('/start', requireAuth, requireKYC, requireAdditionalConnections, asy
     const evaluationFlow = new UserEvaluationFlow(prisma);
     
     // Create the evaluation flow
-    const _rootTaskId = await evaluationFlow.createOnboardingFlow({
+    const { flowId } = await evaluationFlow.createOnboardingFlow({
       userId,
       userData
     });
@@ -46,17 +60,18 @@ router.post('/start', requireAuth, requireKYC, requireAdditionalConnections, asy
       data: { onboarded: true }
     });
 
-    const taskManager = new TaskManager(prisma);
-    const success = await taskManager.runAllPendingTasks();
-
+    // The tasks of the flow are run by the task workers
     return res.json({
       success: true,
-      message: 'Evaluation flow started',
+      message: 'Evaluation flow queued',
       userId,
-      executed: success
+      flowId
     });
 
   } catch (error) {
+    if (error instanceof EvaluationFlowError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Error starting evaluation:', error);
     return res.status(500).json({
       error: 'Failed to start evaluation',
@@ -65,4 +80,167 @@ router.post('/start', requireAuth, requireKYC, requireAdditionalConnections, asy
   }
 });
 
+/**
+ * GET /api/evaluation/flows
+ * Get the evaluation flows of the current user, newest first
+ */
+router.get('/flows', requireAuth, async (req, res) => {
+  try {
+    const userId = (req as any).userId;
+    const flows = await new UserEvaluationFlow(prisma).getUserFlows(userId);
+    return res.json({ success: true, data: flows });
+  } catch (error) {
+    console.error('Error fetching evaluation flows:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch evaluation flows',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+/**
+ * GET /api/evaluation/flows/:id
+ * Get an evaluation flow with the status of each of its tasks
+ * Users can only see their own flows, admins and auditors can see all of them
+ */
+router.get('/flows/:id', requireAuth, async (req, res) => {
+  try {
+    const userId = (req as any).userId;
+    const flowId = parseInt(req.params.id);
+    if (isNaN(flowId)) {
+      return res.status(400).json({ error: 'Invalid flow ID' });
+    }
+
+    const progress = await new UserEvaluationFlow(prisma).getFlowProgress(flowId);
+    if (!await canViewUserData(userId, progress.flow.userId)) {
+      return res.status(404).json({ error: 'Evaluation flow not found' });
+    }
+
+    return res.json({ success: true, data: progress });
+  } catch (error) {
+    if (error instanceof EvaluationFlowError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error fetching evaluation flow:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch evaluation flow',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+/**
+ * GET /api/evaluation/flows/:id/sources
+ * Get the pages cited or found by the worth assessments of an evaluation flow, cited pages first
+ * Users can only see the sources of their own flows, admins and auditors can see all of them
+ */
+router.get('/flows/:id/sources', requireAuth, async (req, res) => {
+  try {
+    const userId = (req as any).userId;
+    const flowId = parseInt(req.params.id);
+    if (isNaN(flowId)) {
+      return res.status(400).json({ error: 'Invalid flow ID' });
+    }
+
+    const flow = await prisma.evaluationFlow.findUnique({ where: { id: flowId }, select: { userId: true } });
+    if (!flow || !await canViewUserData(userId, flow.userId)) {
+      return res.status(404).json({ error: 'Evaluation flow not found' });
+    }
+
+    const sources = await getFlowCitedSources(prisma, flowId);
+    return res.json({ success: true, data: { flowId, sources } });
+  } catch (error) {
+    console.error('Error fetching evaluation flow sources:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch evaluation flow sources',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+/**
+ * GET /api/evaluation/flows/:id/sources/diff?against=<flowId>
+ * Compare the archived pages cited in a flow with those of another flow of the same user
+ * (default: the flow started before it)
+ */
+router.get('/flows/:id/sources/diff', requireAuth, async (req, res) => {
+  try {
+    const userId = (req as any).userId;
+    const flowId = parseInt(req.params.id);
+    if (isNaN(flowId)) {
+      return res.status(400).json({ error: 'Invalid flow ID' });
+    }
+
+    const flow = await prisma.evaluationFlow.findUnique({ where: { id: flowId }, select: { userId: true } });
+    if (!flow || !await canViewUserData(userId, flow.userId)) {
+      return res.status(404).json({ error: 'Evaluation flow not found' });
+    }
+
+    let againstFlowId: number | undefined;
+    if (req.query.against !== undefined) {
+      againstFlowId = parseInt(req.query.against as string);
+      const against = isNaN(againstFlowId) ? null :
+        await prisma.evaluationFlow.findUnique({ where: { id: againstFlowId }, select: { userId: true } });
+      if (!against || against.userId !== flow.userId) {
+        return res.status(400).json({ error: 'The compared flow must be another flow of the same user' });
+      }
+    } else {
+      againstFlowId = await findPreviousFlowId(prisma, flowId);
+      if (againstFlowId === undefined) {
+        return res.status(404).json({ error: 'No previous evaluation flow to compare with' });
+      }
+    }
+
+    const sources = await diffFlowSources(prisma, againstFlowId, flowId);
+    return res.json({ success: true, data: { fromFlowId: againstFlowId, toFlowId: flowId, sources } });
+  } catch (error) {
+    console.error('Error comparing evaluation flow sources:', error);
+    return res.status(500).json({
+      error: 'Failed to compare evaluation flow sources',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+/**
+ * GET /api/evaluation/sources/:id/snapshot[?raw=true]
+ * Get the archived copy of a source page, as taken when the assessment cited it: metadata and visible text,
+ * or the archived body as plain text with `raw=true`
+ */
+router.get('/sources/:id/snapshot', requireAuth, async (req, res) => {
+  try {
+    const userId = (req as any).userId;
+    const sourceId = parseInt(req.params.id);
+    if (isNaN(sourceId)) {
+      return res.status(400).json({ error: 'Invalid source ID' });
+    }
+
+    const snapshot = await getSourceSnapshot(prisma, sourceId);
+    if (!snapshot || !await canViewUserData(userId, snapshot.userId)) {
+      return res.status(404).json({ error: 'Source snapshot not found' });
+    }
+
+    const { body, ...metadata } = snapshot;
+    if (req.query.raw === 'true') {
+      if (body === null) {
+        return res.status(404).json({ error: 'No archived content', message: snapshot.error ?? undefined });
+      }
+      // Never let archived pages run in the context of the app
+      res.set('Content-Security-Policy', 'sandbox');
+      res.set('X-Content-Type-Options', 'nosniff');
+      return res.type('text/plain').send(body);
+    }
+    return res.json({
+      success: true,
+      data: { ...metadata, text: body === null ? null : getSnapshotSegments(body, snapshot.contentType).join('\n') }
+    });
+  } catch (error) {
+    console.error('Error fetching source snapshot:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch source snapshot',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
 export default router;
@@ -1,5 +1,7 @@
 import express from 'express';
 import { GlobalDataService } from '../services/GlobalDataService.js';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { UserRole } from '../services/RoleService.js';
 
 const router = express.Router();
 
@@ -41,9 +43,9 @@ router.get('/gdp', async (req, res) => {
 
 /**
  * POST /api/global/refresh-gdp
- * Manually refresh world GDP data
+ * Manually refresh world GDP data (admins only)
  */
-router.post('/refresh-gdp', async (req, res) => {
+router.post('/refresh-gdp', requireAuth, requireRole(UserRole.ADMIN), async (req, res) => {
   try {
     const success = await GlobalDataService.fetchAndUpdateWorldGdp();
     
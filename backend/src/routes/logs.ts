@@ -1,27 +1,29 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
 import { DBLogsService, LogsFilter } from '../services/DBLogsService.js';
-import { requireAuth, getCurrentUserFromToken } from '../middleware/auth.js';
+import { requireAuth, requireRole, getCurrentUserFromToken } from '../middleware/auth.js';
+import { RoleService, UserRole } from '../services/RoleService.js';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 const dbLogsService = new DBLogsService(prisma);
+const roleService = new RoleService(prisma);
 
 // Remove duplicate auth middleware - now imported from shared module
 
 /**
  * GET /api/logs
- * Get all database logs with optional filtering
+ * Get all database logs with optional filtering (admins and auditors)
  * Query parameters:
  * - userId: Filter by specific user ID
  * - taskId: Filter by specific task ID
- * - type: Filter by log type (openai, task, user, session)
+ * - type: Filter by log type (openai, task, user, session, appeal, audit)
  * - startDate: Filter logs from this date (ISO string)
  * - endDate: Filter logs to this date (ISO string)
  * - limit: Number of logs to return (default: 100)
  * - offset: Number of logs to skip (default: 0)
  */
-router.get('/', async (req, res): Promise<void> => {
+router.get('/', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req, res): Promise<void> => {
   try {
     const {
       userId,
@@ -52,14 +54,14 @@ router.get('/', async (req, res): Promise<void> => {
     }
 
     if (type) {
-      const validTypes = ['openai', 'task', 'user', 'session'];
+      const validTypes = ['openai', 'task', 'user', 'session', 'appeal', 'audit'];
       if (!validTypes.includes(type as string)) {
         res.status(400).json({ 
           error: 'Invalid type parameter. Must be one of: ' + validTypes.join(', ')
         });
         return;
       }
-      filter.type = type as 'openai' | 'task' | 'user' | 'session';
+      filter.type = type as 'openai' | 'task' | 'user' | 'session' | 'appeal' | 'audit';
     }
 
     if (startDate) {
@@ -157,7 +159,7 @@ router.get('/my', requireAuth, async (req, res): Promise<void> => {
 
 /**
  * GET /api/logs/user/:userId
- * Get logs for a specific user (requires authentication)
+ * Get logs for a specific user (the user themselves, admins and auditors)
  */
 router.get('/user/:userId', requireAuth, async (req, res): Promise<void> => {
   try {
@@ -171,8 +173,11 @@ router.get('/user/:userId', requireAuth, async (req, res): Promise<void> => {
 
     // Users can only access their own logs
     if (requestedUserId !== authenticatedUserId) {
-      res.status(403).json({ error: 'Forbidden: You can only access your own logs' });
-      return;
+      const role = await roleService.getUserRole(authenticatedUserId);
+      if (role !== UserRole.ADMIN && role !== UserRole.AUDITOR) {
+        res.status(403).json({ error: 'Forbidden: You can only access your own logs' });
+        return;
+      }
     }
 
     const {
@@ -213,11 +218,19 @@ router.get('/user/:userId', requireAuth, async (req, res): Promise<void> => {
 
 /**
  * GET /api/logs/stats
- * Get log statistics
+ * Get log statistics (admins and auditors), with the token usage and cost of the AI requests
+ * in total, per user, per runner class and per evaluation flow, and the monthly AI budget status
+ * Query parameters:
+ * - aiUsageSince: Only count the AI requests initiated since this date (ISO string)
  */
-router.get('/stats', async (req, res): Promise<void> => {
+router.get('/stats', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req, res): Promise<void> => {
   try {
-    const stats = await dbLogsService.getLogStats();
+    const aiUsageSince = req.query.aiUsageSince ? new Date(req.query.aiUsageSince as string) : undefined;
+    if (aiUsageSince && isNaN(aiUsageSince.getTime())) {
+      res.status(400).json({ error: 'Invalid aiUsageSince parameter. Use ISO date format.' });
+      return;
+    }
+    const stats = await dbLogsService.getLogStats(aiUsageSince);
 
     res.json({
       success: true,
@@ -264,6 +277,16 @@ router.get('/types', async (req, res): Promise<void> => {
         name: 'Authentication Session Logs',
         description: 'User authentication sessions',
         fields: ['token', 'expiresAt', 'isExpired']
+      },
+      appeal: {
+        name: 'Appeal Logs',
+        description: 'Appeals against bans and assessments, and their outcomes (upheld, lifted, re-scored)',
+        fields: ['kind', 'statement', 'evidenceLinks', 'status', 'reviewerNote', 'previousShareInGDP', 'newShareInGDP']
+      },
+      audit: {
+        name: 'Audit Logs',
+        description: 'Invocations of operational routes: who, with which role and parameters, and whether it was allowed',
+        fields: ['action', 'role', 'params', 'statusCode', 'ip']
       }
     };
 
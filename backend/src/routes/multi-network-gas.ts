@@ -1,12 +1,16 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { MultiNetworkGasTokenDistributionService } from '../services/MultiNetworkGasTokenDistributionService.js';
 import type { TokenDistributionOptions } from '../services/gas-networks/types.js';
 import { multiNetworkEthereumService } from '../services/MultiNetworkEthereumService.js';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { UserRole } from '../services/RoleService.js';
+import { DistributionPlanError, DistributionPlanService, DistributionPlanStatus } from '../services/DistributionPlanService.js';
 
 const router = Router();
 const prisma = new PrismaClient();
 const multiNetworkGasTokenDistributionService = new MultiNetworkGasTokenDistributionService(prisma);
+const distributionPlanService = new DistributionPlanService(prisma, multiNetworkGasTokenDistributionService);
 
 const parseNumber = (value: unknown): number | undefined => {
   if (value === undefined || value === null || value === '') return undefined;
@@ -34,6 +38,26 @@ const parseTokenDistributionOverrides = (source: any): TokenDistributionOptions
   return overrides;
 };
 
+const sendDistributionPlanError = (res: Response, error: unknown, message: string) => {
+  if (error instanceof DistributionPlanError) {
+    return res.status(error.statusCode).json({ success: false, error: error.message });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+};
+
+const parsePlanId = (req: Request, res: Response): number | undefined => {
+  const planId = parseInt(req.params.id);
+  if (isNaN(planId)) {
+    res.status(400).json({ success: false, error: 'Invalid plan ID' });
+    return undefined;
+  }
+  return planId;
+};
+
 /**
  * GET /api/multi-network-gas/status
  * Get status of all enabled networks
@@ -95,9 +119,9 @@ router.get('/reserve-status', async (req, res) => {
 
 /**
  * GET /api/multi-network-gas/distribution-history
- * Get distribution history across all networks
+ * Get distribution history across all networks (admins and auditors)
  */
-router.get('/distribution-history', async (req, res) => {
+router.get('/distribution-history', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req, res) => {
   try {
     const { network, userId, limit = 100 } = req.query;
     
@@ -193,9 +217,9 @@ router.get('/network/:networkName/status', async (req, res) => {
 
 /**
  * GET /api/multi-network-gas/network/:networkName/distribution-history
- * Get distribution history for a specific network
+ * Get distribution history for a specific network (admins and auditors)
  */
-router.get('/network/:networkName/distribution-history', async (req, res) => {
+router.get('/network/:networkName/distribution-history', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req, res) => {
   try {
     const { networkName } = req.params;
     const { limit = 100 } = req.query;
@@ -221,9 +245,9 @@ router.get('/network/:networkName/distribution-history', async (req, res) => {
 
 /**
  * GET /api/multi-network-gas/user/:userId/distribution-history
- * Get distribution history for a specific user across all networks
+ * Get distribution history for a specific user across all networks (admins and auditors)
  */
-router.get('/user/:userId/distribution-history', async (req, res) => {
+router.get('/user/:userId/distribution-history', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req, res) => {
   try {
     const { userId } = req.params;
     const { limit = 100 } = req.query;
@@ -249,23 +273,26 @@ router.get('/user/:userId/distribution-history', async (req, res) => {
 
 /**
  * POST /api/multi-network-gas/run-distribution
- * Manually trigger multi-network gas token distribution
- * Note: This endpoint should be protected in production
+ * Manually trigger multi-network gas token distribution (admins only)
+ * Plans, approves and sends in one step without review; use the /plans endpoints to review a plan before funds move
  */
-router.post('/run-distribution', async (req, res) => {
+router.post('/run-distribution', requireAuth, requireRole(UserRole.ADMIN), async (req, res) => {
   try {
-    console.log('🔄 Manual multi-network gas token distribution triggered via API');
+    console.log(`🔄 Manual multi-network gas token distribution triggered via API by user ${(req as any).userId}`);
     
     const overrides = parseTokenDistributionOverrides(req.body);
-    const result = await multiNetworkGasTokenDistributionService.processMultiNetworkDistribution(overrides);
-    
+    const plan = await distributionPlanService.runImmediately(overrides, (req as any).userId);
+    const result = plan.result;
+
     res.json({
-      success: result.success,
+      success: result?.success ?? false,
       data: {
-        totalDistributed: result.totalDistributed,
-        totalReserved: result.totalReserved,
-        networkResults: Object.fromEntries(result.networkResults),
-        errors: result.errors,
+        planId: plan.id,
+        status: plan.status,
+        totalDistributed: result?.totalDistributed ?? 0,
+        totalReserved: result?.totalReserved ?? 0,
+        networkResults: result?.networkResults ?? {},
+        errors: result?.errors ?? [plan.errorMessage],
         token: {
           type: overrides.tokenType ?? 'NATIVE',
         }
@@ -281,4 +308,130 @@ router.post('/run-distribution', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/multi-network-gas/plans
+ * Compute a distribution plan without sending anything (admins only); open older plans are superseded
+ */
+router.post('/plans', requireAuth, requireRole(UserRole.ADMIN), async (req, res) => {
+  try {
+    const overrides = parseTokenDistributionOverrides(req.body);
+    const plan = await distributionPlanService.createPlan(overrides, (req as any).userId);
+    res.status(201).json({ success: true, data: plan });
+  } catch (error) {
+    sendDistributionPlanError(res, error, 'Error creating distribution plan');
+  }
+});
+
+/**
+ * GET /api/multi-network-gas/plans
+ * List distribution plans, newest first (admins and auditors)
+ * Query parameters:
+ * - status: Only plans with this status (optional)
+ * - limit: Maximum number of plans (default: 50)
+ */
+router.get('/plans', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req, res) => {
+  try {
+    const status = req.query.status as DistributionPlanStatus | undefined;
+    if (status !== undefined && !Object.values(DistributionPlanStatus).includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid status parameter. Must be one of: ' + Object.values(DistributionPlanStatus).join(', ')
+      });
+    }
+    const limit = parseNumber(req.query.limit) ?? 50;
+
+    const plans = await distributionPlanService.listPlans(status, limit);
+    return res.json({ success: true, data: plans, count: plans.length });
+  } catch (error) {
+    return sendDistributionPlanError(res, error, 'Error listing distribution plans');
+  }
+});
+
+/**
+ * GET /api/multi-network-gas/plans/:id
+ * Get a distribution plan (admins and auditors)
+ */
+router.get('/plans/:id', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req, res) => {
+  try {
+    const planId = parsePlanId(req, res);
+    if (planId === undefined) return;
+    res.json({ success: true, data: await distributionPlanService.getPlan(planId) });
+  } catch (error) {
+    sendDistributionPlanError(res, error, 'Error getting distribution plan');
+  }
+});
+
+/**
+ * POST /api/multi-network-gas/plans/:id/approve
+ * Approve a plan waiting for an operator (admins only)
+ */
+router.post('/plans/:id/approve', requireAuth, requireRole(UserRole.ADMIN), async (req, res) => {
+  try {
+    const planId = parsePlanId(req, res);
+    if (planId === undefined) return;
+    res.json({ success: true, data: await distributionPlanService.approvePlan(planId, (req as any).userId) });
+  } catch (error) {
+    sendDistributionPlanError(res, error, 'Error approving distribution plan');
+  }
+});
+
+/**
+ * POST /api/multi-network-gas/plans/:id/reject
+ * Reject a plan that hasn't been executed (admins only)
+ * Body:
+ * - reason: Why the plan is rejected (optional)
+ */
+router.post('/plans/:id/reject', requireAuth, requireRole(UserRole.ADMIN), async (req, res) => {
+  try {
+    const planId = parsePlanId(req, res);
+    if (planId === undefined) return;
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : undefined;
+    res.json({ success: true, data: await distributionPlanService.rejectPlan(planId, (req as any).userId, reason) });
+  } catch (error) {
+    sendDistributionPlanError(res, error, 'Error rejecting distribution plan');
+  }
+});
+
+/**
+ * POST /api/multi-network-gas/plans/:id/execute
+ * Send the transfers of an approved plan (admins only).
+ * Refused, and the plan marked STALE, if a wallet balance changed by more than DISTRIBUTION_BALANCE_TOLERANCE since planning.
+ * Body:
+ * - resume: Resume a plan left EXECUTING or FAILED; transfers already recorded for the plan are skipped (optional)
+ */
+router.post('/plans/:id/execute', requireAuth, requireRole(UserRole.ADMIN), async (req, res) => {
+  try {
+    const planId = parsePlanId(req, res);
+    if (planId === undefined) return;
+    const resume = req.body?.resume === true;
+    console.log(`🔄 Distribution plan ${planId} ${resume ? 'resumption' : 'execution'} triggered via API by user ${(req as any).userId}`);
+
+    const plan = await distributionPlanService.executePlan(planId, resume);
+    res.status(plan.status === DistributionPlanStatus.EXECUTED ? 200 : 409).json({
+      success: plan.status === DistributionPlanStatus.EXECUTED,
+      data: plan,
+      error: plan.status === DistributionPlanStatus.EXECUTED ? undefined : plan.errorMessage
+    });
+  } catch (error) {
+    sendDistributionPlanError(res, error, 'Error executing distribution plan');
+  }
+});
+
+/**
+ * POST /api/multi-network-gas/reconcile
+ * Check the on-chain status of sent transfers now instead of waiting for the reconciliation cron job (admins only)
+ */
+router.post('/reconcile', requireAuth, requireRole(UserRole.ADMIN), async (req, res) => {
+  try {
+    const result = await multiNetworkGasTokenDistributionService.reconcilePendingTransfers();
+    res.json({ success: result.errors.length === 0, data: result });
+  } catch (error) {
+    console.error('Error reconciling gas token transfers:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 export default router;
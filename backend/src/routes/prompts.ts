@@ -0,0 +1,89 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { UserRole } from '../services/RoleService.js';
+import { PromptRegistry, PromptRegistryError } from '../services/PromptRegistry.js';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+const promptRegistry = new PromptRegistry(prisma);
+
+function sendPromptError(res: express.Response, error: unknown, message: string): void {
+  if (error instanceof PromptRegistryError) {
+    res.status(error.statusCode).json({ error: error.message });
+    return;
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    error: message,
+    message: error instanceof Error ? error.message : String(error)
+  });
+}
+
+/**
+ * GET /api/prompts/versions/:id
+ * Get a prompt version (admins and auditors)
+ */
+router.get('/versions/:id', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req, res): Promise<void> => {
+  try {
+    const promptVersionId = parseInt(req.params.id);
+    if (isNaN(promptVersionId)) {
+      res.status(400).json({ error: 'Invalid prompt version ID' });
+      return;
+    }
+
+    const promptVersion = await promptRegistry.getVersion(promptVersionId);
+    res.json({ success: true, data: promptVersion });
+  } catch (error) {
+    sendPromptError(res, error, 'Failed to fetch prompt version');
+  }
+});
+
+/**
+ * GET /api/prompts/:name/versions
+ * List the versions of a prompt, latest (current) first (admins and auditors)
+ */
+router.get('/:name/versions', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req, res): Promise<void> => {
+  try {
+    const versions = await promptRegistry.listVersions(req.params.name);
+    res.json({ success: true, data: versions, count: versions.length });
+  } catch (error) {
+    sendPromptError(res, error, 'Failed to fetch prompt versions');
+  }
+});
+
+/**
+ * POST /api/prompts/:name/versions
+ * Publish a new version of a prompt, used by the evaluations started from now on (admins)
+ * Body:
+ * - text: The prompt, with the placeholders of the built-in prompt (e.g. <WORLD_GDP>)
+ * - schema: JSON schema of the response (optional, default: the schema of the current version)
+ * - notes: What changed (optional)
+ */
+router.post('/:name/versions', requireAuth, requireRole(UserRole.ADMIN), async (req, res): Promise<void> => {
+  try {
+    const userId = (req as any).userId;
+    const { text, schema, notes } = req.body;
+
+    const promptVersion = await promptRegistry.publishVersion(req.params.name, { text, schema, notes }, userId);
+    res.status(201).json({ success: true, data: promptVersion });
+  } catch (error) {
+    sendPromptError(res, error, 'Failed to publish prompt version');
+  }
+});
+
+/**
+ * GET /api/prompts/:name/compare[?limit=500]
+ * Compare the outputs of the latest tasks made with each version of a prompt (admins and auditors)
+ */
+router.get('/:name/compare', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req, res): Promise<void> => {
+  try {
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+    const comparisons = await promptRegistry.compareVersions(req.params.name, limit);
+    res.json({ success: true, data: comparisons });
+  } catch (error) {
+    sendPromptError(res, error, 'Failed to compare prompt versions');
+  }
+});
+
+export default router;
@@ -1,15 +1,20 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
-import { requireAuth } from '../middleware/auth.js';
+import { requireAuth, requireRole } from '../middleware/auth.js';
 import { validateNonEvmAddresses } from '../utils/addressValidation.js';
+import { ShareInGdpService } from '../services/ShareInGdpService.js';
+import { isUserRole, RoleService, UserRole } from '../services/RoleService.js';
+import { getCurrentScoreSources } from '../services/citedSources.js';
 
 const router = express.Router();
 const prisma = new PrismaClient();
+const shareInGdpService = new ShareInGdpService(prisma);
+const roleService = new RoleService(prisma);
 
 // Remove duplicate auth middleware - now imported from shared module
 
-// GET /api/users - Get all users
-router.get('/', async (req, res): Promise<void> => {
+// GET /api/users - Get all users (admins and auditors)
+router.get('/', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req, res): Promise<void> => {
   try {
     const users = await prisma.user.findMany();
     res.json(users);
@@ -83,6 +88,17 @@ router.get('/:id', async (req, res): Promise<void> => {
   }
 });
 
+// GET /api/users/gdp-share/components - Get statistics per worth component (science, FOSS, account platforms)
+router.get('/gdp-share/components', async (req, res): Promise<void> => {
+  try {
+    const statistics = await shareInGdpService.getComponentStatistics();
+    res.json({ success: true, data: { statistics } });
+  } catch (error: any) {
+    console.error('Error fetching worth component statistics:', error);
+    res.status(500).json({ error: 'Failed to fetch worth component statistics' });
+  }
+});
+
 // GET /api/users/me/gdp-share - Get current user's GDP share
 router.get('/me/gdp-share', requireAuth, async (req, res): Promise<void> => {
   try {
@@ -133,6 +149,63 @@ router.get('/me/gdp-share', requireAuth, async (req, res): Promise<void> => {
   }
 });
 
+// GET /api/users/me/gdp-share/history - Get current user's raw and smoothed GDP share series
+router.get('/me/gdp-share/history', requireAuth, async (req, res): Promise<void> => {
+  try {
+    const userId = (req as any).userId;
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 100);
+
+    const history = await shareInGdpService.getHistory(userId, limit);
+    res.json({ success: true, data: { userId, history } });
+  } catch (error: any) {
+    console.error('Error fetching user GDP share history:', error);
+    res.status(500).json({ error: 'Failed to fetch user GDP share history' });
+  }
+});
+
+// GET /api/users/me/gdp-share/sources - Get the pages the current user's latest GDP share was based on
+router.get('/me/gdp-share/sources', requireAuth, async (req, res): Promise<void> => {
+  try {
+    const userId = (req as any).userId;
+
+    const scoreSources = await getCurrentScoreSources(prisma, userId);
+    if (!scoreSources) {
+      res.json({ success: true, message: 'No GDP share computed yet', data: { userId, taskId: null, computedAt: null, sources: [] } });
+      return;
+    }
+    res.json({ success: true, data: { userId, ...scoreSources } });
+  } catch (error: any) {
+    console.error('Error fetching user GDP share sources:', error);
+    res.status(500).json({ error: 'Failed to fetch user GDP share sources' });
+  }
+});
+
+// GET /api/users/:id/gdp-share/history - Get a user's raw and smoothed GDP share series (the user, admins and auditors)
+router.get('/:id/gdp-share/history', requireAuth, async (req, res): Promise<void> => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      res.status(400).json({ error: 'Invalid user ID' });
+      return;
+    }
+    const viewerId = (req as any).userId;
+    if (viewerId !== userId) {
+      const role = await roleService.getUserRole(viewerId);
+      if (role !== UserRole.ADMIN && role !== UserRole.AUDITOR) {
+        res.status(403).json({ error: 'Forbidden: You can only view your own GDP share history' });
+        return;
+      }
+    }
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 100);
+
+    const history = await shareInGdpService.getHistory(userId, limit);
+    res.json({ success: true, data: { userId, history } });
+  } catch (error: any) {
+    console.error('Error fetching user GDP share history:', error);
+    res.status(500).json({ error: 'Failed to fetch user GDP share history' });
+  }
+});
+
 // POST /api/users - Create new user
 router.post('/', async (req, res): Promise<void> => {
   try {
@@ -226,6 +299,32 @@ router.put('/:id', requireAuth, async (req, res): Promise<void> => {
   }
 });
 
+// PUT /api/users/:id/role - Change the role of a user (admins only)
+router.put('/:id/role', requireAuth, requireRole(UserRole.ADMIN), async (req, res): Promise<void> => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      res.status(400).json({ error: 'Invalid user ID' });
+      return;
+    }
+    const { role } = req.body;
+    if (!isUserRole(role)) {
+      res.status(400).json({ error: 'Invalid role. Must be one of: ' + Object.values(UserRole).join(', ') });
+      return;
+    }
+
+    await roleService.setUserRole(userId, role);
+    res.json({ success: true, data: { userId, role } });
+  } catch (error: any) {
+    console.error('Error changing user role:', error);
+    if ((error as any).code === 'P2025') {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
 // DELETE /api/users/:id - Delete user
 router.delete('/:id', requireAuth, async (req, res): Promise<void> => {
   try {
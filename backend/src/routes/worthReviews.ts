@@ -0,0 +1,83 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { UserRole } from '../services/RoleService.js';
+import { WorthReviewDecision, WorthReviewError, WorthReviewService, WorthReviewStatus } from '../services/WorthReviewService.js';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+const worthReviewService = new WorthReviewService(prisma);
+
+function sendWorthReviewError(res: express.Response, error: unknown, message: string): void {
+  if (error instanceof WorthReviewError) {
+    res.status(error.statusCode).json({ error: error.message });
+    return;
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    error: message,
+    message: error instanceof Error ? error.message : String(error)
+  });
+}
+
+/**
+ * GET /api/worth-reviews/my
+ * Get the manual reviews of the evaluation results of the current user
+ */
+router.get('/my', requireAuth, async (req, res): Promise<void> => {
+  try {
+    const userId = (req as any).userId;
+    const reviews = await worthReviewService.getUserReviews(userId);
+    res.json({ success: true, data: reviews });
+  } catch (error) {
+    sendWorthReviewError(res, error, 'Failed to fetch worth reviews');
+  }
+});
+
+/**
+ * GET /api/worth-reviews/queue
+ * Get the evaluation results too uncertain to be recorded without review (admins and auditors)
+ * Query parameters:
+ * - status: Status of the listed reviews (default: PENDING)
+ */
+router.get('/queue', requireAuth, requireRole(UserRole.ADMIN, UserRole.AUDITOR), async (req, res): Promise<void> => {
+  try {
+    const status = (req.query.status as WorthReviewStatus | undefined) ?? WorthReviewStatus.PENDING;
+    if (!Object.values(WorthReviewStatus).includes(status)) {
+      res.status(400).json({ error: 'Invalid status parameter. Must be one of: ' + Object.values(WorthReviewStatus).join(', ') });
+      return;
+    }
+
+    const reviews = await worthReviewService.getReviewQueue(status);
+    res.json({ success: true, data: reviews, count: reviews.length });
+  } catch (error) {
+    sendWorthReviewError(res, error, 'Failed to fetch worth review queue');
+  }
+});
+
+/**
+ * POST /api/worth-reviews/:id/resolve
+ * Decide on a pending review (admins only)
+ * Body:
+ * - decision: approve (records the share in GDP) or reject (the user keeps the previous share)
+ * - shareInGDP: Raw share in GDP to record on approval (optional, default: the median of the samples)
+ * - note: Explanation for the user (optional)
+ */
+router.post('/:id/resolve', requireAuth, requireRole(UserRole.ADMIN), async (req, res): Promise<void> => {
+  try {
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      res.status(400).json({ error: 'Invalid worth review ID' });
+      return;
+    }
+    const reviewerId = (req as any).userId;
+    const { decision, note, shareInGDP } = req.body as { decision: WorthReviewDecision; note?: string; shareInGDP?: number };
+
+    const review = await worthReviewService.resolveReview(reviewId, reviewerId, decision, { note, shareInGDP });
+    res.json({ success: true, data: review });
+  } catch (error) {
+    sendWorthReviewError(res, error, 'Failed to resolve worth review');
+  }
+});
+
+export default router;
@@ -1,31 +1,39 @@
-import { TaskRunner, TaskRunnerData, TaskRunnerRegistry } from '../types/task.js';
+import { TaskRunner, TaskRunnerData, TaskRunnerRegistry, TaskStatus } from '../types/task.js';
 import { PrismaClient } from '@prisma/client';
-import { createAIBatchStore, createAIRunner, createAIOutputter } from '../services/openai.js';
-import { onboardingPrompt, randomizePrompt, worthPrompt, injectionPrompt, scientistCheckSchema, worthAssessmentSchema, promptInjectionSchema, randomizedPromptSchema } from '../prompts.js';
+import { AIModelOptions, AIProviderBinding, buildStubValue, getAIProviderBinding, resolveTaskAIProvider } from '../services/ai-providers/index.js';
+import { AppealService } from '../services/AppealService.js';
+import { formatSourceVerificationReport, SourceVerificationReport, SourceVerifier } from '../services/source-verifier/index.js';
+import { addCanaryInstructions, addCanaryToSchema, createPromptCanary, PromptCanary, wrapUntrustedInput } from '../services/promptCanary.js';
+import { worthAssessmentSchema, promptInjectionSchema } from '../prompts.js';
+import { getCitedSources, recordCitedSources } from '../services/citedSources.js';
+import { snapshotTaskSources } from '../services/sourceSnapshots.js';
+import type { WorthComponents } from '../services/worthEnsemble.js';
+import { PromptName, PromptRegistry, PromptVersionEntry } from '../services/PromptRegistry.js';
+import { buildPromptComparisonInput, checkPromptStructure, PromptEquivalenceResult, PromptEquivalenceVerdict, readPromptEquivalenceConfig, RejectedRewrite } from '../services/promptEquivalence.js';
 import { v4 as uuidv4 } from 'uuid';
-import { ResponseCreateParams, ResponseCreateParamsNonStreaming, ResponseTextConfig, Tool, ToolChoiceOptions } from 'openai/resources/responses/responses';
-import { ReasoningEffort } from 'openai/resources';
 import { BaseRunner, registerUtilityRunners } from './UtilityRunners.js';
-import { isConfigValueTrue } from '../services/utils.js';
 
 // Constants
-const DEFAULT_MODEL = process.env.OPENAI_MODEL!;
-const NO_REASONING = isConfigValueTrue(process.env.OPENAI_NO_REASONING);
-const OVERRIDE_REASONING_EFFORT = process.env.OPENAI_OVERRIDE_REASONING_EFFORT ?
-  process.env.OPENAI_OVERRIDE_REASONING_EFFORT as ReasoningEffort : undefined;
-const OVERRIDE_MAX_TOOL_CALLS = process.env.OPENAI_OVERRIDE_MAX_TOOL_CALLS ?
-  parseInt(process.env.OPENAI_OVERRIDE_MAX_TOOL_CALLS) : undefined;
-const DEFAULT_TEMPERATURE = 0.2;
 const BAN_DURATION_YEARS = 1;
-const OPEN_AI_FAKE = isConfigValueTrue(process.env.OPEN_AI_FAKE);
+
+/**
+ * Result of the previous evaluation cycle of a user, see `EvaluationSummary`
+ */
+interface PreviousEvaluationSummary {
+  worthAsFractionOfGDP: number;
+  summary: string;
+  sources: string[];
+  createdAt: Date;
+}
 
 /**
  * Generate a user prompt string from user data for AI analysis
  * Only includes connected accounts (non-null values) in the prompt
  * @param userData - User data object containing account information
+ * @param previousSummary - Summary of the previous evaluation to build on, if any
  * @returns Formatted string with connected account information
  */
-function generateUserPrompt(userData: any): string {
+function generateUserPrompt(userData: any, previousSummary?: PreviousEvaluationSummary): string {
   if (!userData || typeof userData !== 'object') {
     return 'No user account information available.';
   }
@@ -75,20 +83,32 @@ function generateUserPrompt(userData: any): string {
     return 'No connected accounts or profile information available.';
   }
 
+  if (userData.appeal) {
+    const evidence = userData.appeal.evidenceLinks.map((url: string) => `- ${url}`).join('\n');
+    accountInfo.push(
+      '',
+      'This is a re-evaluation on the appeal of the person against a previous ban or assessment.',
+      `Statement of the appeal:\n${userData.appeal.statement}`,
+      ...(evidence ? [`Evidence given with the appeal:\n${evidence}`] : [])
+    );
+  }
+
+  if (previousSummary) {
+    const sources = previousSummary.sources.map(url => `- ${url}`).join('\n');
+    accountInfo.push(
+      '',
+      `Previous assessment (${previousSummary.createdAt.toISOString().slice(0, 10)}): ` +
+        `${previousSummary.worthAsFractionOfGDP} of world GDP.`,
+      `Summary of the previous assessment:\n${previousSummary.summary}`,
+      ...(sources ? [`Sources of the previous assessment:\n${sources}`] : []),
+      'Build on the previous assessment: check what has changed since then instead of researching everything again.'
+    );
+  }
+
   // return `User account information:\n${accountInfo.join('\n')}`;
   return accountInfo.join('\n');
 }
 
-const USE_WEB_SEARCH_TOOL = {
-  tools: <Tool[]>[
-    {
-      // "name": "web",
-      "type": "web_search"
-    }
-  ],
-  // tool_choice: <ToolChoiceOptions>'required', // commented out to eliminate infinite loop with Web search.
-};
-
 // Custom error classes for better error handling
 class TaskRunnerError extends Error {
   constructor(message: string, public readonly taskId?: number, public readonly runnerName?: string) {
@@ -139,6 +159,12 @@ interface ScientistCheckResponse {
 interface WorthAssessmentResponse {
   worthAsFractionOfGDP: number;
   why: string;
+  /** Missing in responses to prompt versions without uncertainty */
+  lowWorthAsFractionOfGDP?: number;
+  highWorthAsFractionOfGDP?: number;
+  confidence?: number;
+  /** Missing in responses to prompt versions without components */
+  components?: WorthComponents;
 }
 
 interface PromptInjectionResponse {
@@ -148,6 +174,12 @@ interface PromptInjectionResponse {
 
 interface RandomizedPromptResponse {
   randomizedPrompt: string;
+  equivalence?: PromptEquivalenceResult;
+}
+
+interface PromptEquivalenceResponse {
+  equivalent: boolean;
+  differences: string;
 }
 
 interface TaskRunnerResult {
@@ -165,7 +197,9 @@ interface TaskRunnerResult {
  * Extends BaseRunner with OpenAI request capabilities
  */
 export abstract class BaseOpenAIRunner extends BaseRunner {
-  protected getModelOptions(): ResponseCreateParams | undefined {
+  protected readonly prompts = new PromptRegistry(this.prisma);
+
+  protected getModelOptions(): AIModelOptions | undefined {
     return undefined;
   }
 
@@ -173,6 +207,15 @@ export abstract class BaseOpenAIRunner extends BaseRunner {
     return false;
   }
 
+  /**
+   * Deterministic output returned when this runner is bound to the stub provider
+   * @param input - The user message of the request
+   * @returns The output, or `undefined` to derive it from the response schema
+   */
+  protected getStubOutput(input: string): Record<string, unknown> | undefined {
+    return undefined;
+  }
+
   /**
    * Log an OpenAI request to the database
    * @param customId - Unique identifier for this request
@@ -187,6 +230,10 @@ export abstract class BaseOpenAIRunner extends BaseRunner {
     taskId?: number
   ): Promise<void> {
     try {
+      const task = taskId ? await this.prisma.task.findUnique({
+        where: { id: taskId },
+        select: { flowId: true }
+      }) : null;
       await this.prisma.openAILog.create({
         data: {
           customId,
@@ -195,7 +242,8 @@ export abstract class BaseOpenAIRunner extends BaseRunner {
           requestData: JSON.stringify(requestData),
           requestInitiated: new Date(),
           userId: this.data.userId || null,
-          taskId: taskId || null
+          taskId: taskId || null,
+          flowId: task?.flowId ?? null
         }
       });
     } catch (error) {
@@ -235,12 +283,15 @@ export abstract class BaseOpenAIRunner extends BaseRunner {
   }
 
   /**
-   * Make an OpenAI request using the `flexible-batches` API
+   * Make an AI request through the provider configured for this runner class
    * @param prompt - The prompt to send to OpenAI
+   * @param input - The user message
    * @param schema - The JSON schema for response format
    * @param customId - Unique identifier for this request
    * @param options - Additional options for the request
-   * @param taskId - Optional task ID that initiated the request
+   * @param taskId - Task ID that initiated the request
+   * @param binding - Provider and model to use
+   * @param canary - Delimiters for the (untrusted) input and nonce the response must echo
    * @returns Promise resolving to store ID for result retrieval
    */
   protected async makeOpenAIRequest(
@@ -248,53 +299,37 @@ export abstract class BaseOpenAIRunner extends BaseRunner {
     input: string,
     schema: any,
     customId: string,
-    options: ResponseCreateParams | undefined = {},
-    taskId: number
+    options: AIModelOptions | undefined = {},
+    taskId: number,
+    binding: AIProviderBinding = getAIProviderBinding(this.runnerName, options?.model),
+    canary: PromptCanary = createPromptCanary()
   ): Promise<OpenAIRequestResult> {
-    const store = await createAIBatchStore(undefined, taskId);
-    const storeId = store.getStoreId();
+    const { provider, model } = binding;
+    const storeId = await provider.createStore(taskId);
     await this.prisma.task.update({
       where: { id: taskId },
       data: { storeId }
     });
-    const runner = await createAIRunner(store);
-    
-    const requestBody = <ResponseCreateParamsNonStreaming | {max_tool_calls: number}>{
-      instructions: prompt, // system/developer message.
-      input: input, // user's message - use the prompt as input
-      model: options?.model ?? DEFAULT_MODEL,
-      ...(/gpt-5-mini/.test(options?.model ?? DEFAULT_MODEL)
-        ? {/* temperature not supported */} : options?.temperature === undefined
-        ? { temperature: options.temperature } : {temperature: DEFAULT_TEMPERATURE}),
-      // include: ['web_search_call.action.sources'], // TODO@P3: doesn't work due to https://github.com/openai/openai-node/issues/1645
-      reasoning: NO_REASONING ? null : options?.reasoning === null ? null : {
-        effort: OVERRIDE_REASONING_EFFORT ?? options?.reasoning?.effort ?? 'medium'
-      },
-      max_tool_calls: OVERRIDE_MAX_TOOL_CALLS ?? 10, // TODO@P3
-      text: <ResponseTextConfig>{
-        format: {
-          type: "json_schema" as const,
-          name: "response",
-          schema: schema,
-          strict: true
-        },
-        verbosity: 'medium'
+
+    const requestData = await provider.submitRequest(storeId, {
+      ...options,
+      model,
+      customId,
+      taskId,
+      runnerClassName: this.runnerName,
+      instructions: addCanaryInstructions(prompt, canary), // system/developer message.
+      input: wrapUntrustedInput(input, canary), // user's message
+      schema: addCanaryToSchema(schema, canary),
+      canary,
+      useWebSearch: this.useWebSearchTool(),
+      stubOutput: {
+        ...(this.getStubOutput(input) ?? buildStubValue(schema) as Record<string, unknown>),
+        [canary.nonceKey]: canary.nonce
       }
-    };
-    
-    // Add the request to the runner
-    await runner.addItem({
-      custom_id: customId,
-      method: "POST",
-      body: requestBody
     });
-    
-    // Flush to execute the request
-    await runner.flush();
-    
-    
+
     // Log the request to the database
-    await this.logOpenAIRequest(customId, storeId, requestBody, taskId);
+    await this.logOpenAIRequest(customId, storeId, requestData, taskId);
     
     // Return the store ID for later result retrieval
     return { storeId };
@@ -305,16 +340,19 @@ export abstract class BaseOpenAIRunner extends BaseRunner {
    * @param task - The task to update
    * @param customId - Unique identifier for the request
    * @param additionalData - Additional data to include in runner data
+   * @param promptVersionId - The prompt version the request is made with
    */
   protected async updateTaskWithRequestData(
     task: TaskWithDependencies, 
     customId: string, 
-    additionalData: Record<string, any> = {}
+    additionalData: Record<string, any> = {},
+    promptVersionId?: number
   ): Promise<void> {
     // Need set something except `customId`?
     await this.prisma.task.update({
       where: { id: task.id },
       data: {
+        promptVersionId: promptVersionId ?? null,
         runnerData: JSON.stringify({
           ...this.data,
           ...additionalData,
@@ -327,127 +365,55 @@ export abstract class BaseOpenAIRunner extends BaseRunner {
   }
 
   /**
-   * Common method to initiate an OpenAI request and update task data
+   * Common method to initiate an OpenAI request and update task data.
+   * `aiProviderSpec` and `temperature` in the runner data (set e.g. for ensemble members)
+   * take precedence over the runner's configuration and model options, and so does `aiModelOverride`
+   * (set when the soft AI budget cap is exceeded) for the OpenAI provider.
+   * The prompt version, exact prompt, model and parameters are recorded in `provenance` in the runner data.
    * @param task - The task to process
    * @param prompt - The prompt to send to OpenAI
    * @param schema - The JSON schema for response format
    * @param additionalData - Additional data to include in runner data
+   * @param promptVersion - The registry version `prompt` was made from (possibly randomized or rendered)
    */
   protected async initiateOpenAIRequest(
     task: TaskWithDependencies,
     prompt: string,
     input: string,
     schema: any,
-    options: ResponseCreateParams | undefined = {},
-    additionalData: Record<string, any> = {}
+    options: AIModelOptions | undefined = {},
+    additionalData: Record<string, any> = {},
+    promptVersion?: PromptVersionEntry
   ): Promise<void> {
     const customId = uuidv4();
-    // Update database first to ensure consistent state
-    await this.updateTaskWithRequestData(task, customId, additionalData);
-    
-   
-    // Check if fake mode is enabled
-    if (OPEN_AI_FAKE) {
-      await this.handleFakeModeResponse(task, customId, additionalData);
-      return;
-    } else {
-    // Then initiate the OpenAI request
-      await this.makeOpenAIRequest(prompt, input, schema, customId, options, task.id);
+    let binding = getAIProviderBinding(this.runnerName, options?.model, this.data.aiProviderSpec);
+    if (this.data.aiModelOverride && binding.provider.type === 'OPENAI') {
+      binding = { ...binding, model: this.data.aiModelOverride };
     }
-  }
-
-  /**
-   * Handle fake mode responses based on runner type
-   * @param task - The task to process
-   * @param customId - Unique identifier for this request
-   * @param additionalData - Additional data to include in runner data
-   */
-  protected async handleFakeModeResponse(
-    task: TaskWithDependencies,
-    customId: string,
-    additionalData: Record<string, any> = {}
-  ): Promise<void> {
-    const runnerName = this.constructor.name;
-    let fakeResponse: any = {};
-
-    // TODO@P3: Seems out-of-place here.
-    const store = await createAIBatchStore(undefined, task.id);
-    const storeId = store.getStoreId();
-    await this.prisma.task.update({ // Replace this by one `.insert`.
-      where: { id: task.id },
-      data: { storeId }
-    });
-
-    switch (runnerName) {
-      case 'ScientistOnboardingRunner':
-        fakeResponse = {
-          isActiveScientistOrFOSSDev: true,
-          why: 'Fake mode: Always return true for onboarding'
-        };
-        break;
-      case 'WorthAssessmentRunner':
-        fakeResponse = {
-          worthAsFractionOfGDP: 0.001, // 0.1% of GDP
-          why: 'Fake mode: Always return 0.1% of GDP'
-        };
-        break;
-      case 'PromptInjectionRunner':
-        fakeResponse = {
-          hasPromptInjectionOrPlagiarism: false,
-          why: 'Fake mode: Always return no injection'
-        };
-        break;
-      case 'RandomizePromptRunner':
-        fakeResponse = {
-          randomizedPrompt: this.data.originalPrompt || 'Original prompt not available'
-        };
-        break;
-      default:
-        fakeResponse = {
-          error: 'Unknown runner type in fake mode',
-          why: 'Fake mode: Unknown runner type'
-        };
-    }
-
-    // Log the fake response
-    await this.logOpenAIRequest(customId, 'fake-mode', { fakeResponse }, task.id);
-    await this.logOpenAIResponse(customId, fakeResponse);
-
-    // Store the fake response in nonBatchMapping table for getResponseByCustomId to find
-    // const fakeOpenAIResponse = {
-    //   choices: [{
-    //     message: {
-    //       content: fakeResponse
-    //     }
-    //   }]
-    // };
-    
-    // Only store if we have a non-batch store (which has storeResponseByCustomId method)
-    if ('storeResponseByCustomId' in store) {
-      await (store as any).storeResponseByCustomId({
-        customId,
-        response: fakeResponse/*fakeOpenAIResponse*/ as any
-      });
+    if (this.data.temperature !== undefined) {
+      options = { ...options, temperature: this.data.temperature };
     }
-
-    // Update task with fake response
-    await this.prisma.task.update({
-      where: { id: task.id },
-      data: {
-        runnerData: JSON.stringify({
-          ...this.data,
-          ...additionalData,
-          customId,
-          requestInitiated: true,
-          initiatedAt: new Date().toISOString(),
-          completedAt: new Date().toISOString(),
-          ...fakeResponse
-        }),
-        storeId
+    const canary = createPromptCanary();
+    // Update database first to ensure consistent state
+    await this.updateTaskWithRequestData(task, customId, {
+      ...additionalData,
+      aiProvider: binding.provider.name,
+      aiModel: binding.model,
+      canary, // To verify the response
+      provenance: {
+        promptName: promptVersion?.name,
+        promptVersion: promptVersion?.version,
+        promptVersionId: promptVersion?.id,
+        prompt,
+        provider: binding.provider.name,
+        model: binding.model,
+        parameters: { ...options, useWebSearch: this.useWebSearchTool() }
       }
-    });
-  }
+    }, promptVersion?.id);
 
+    // Then initiate the AI request
+    await this.makeOpenAIRequest(prompt, input, schema, customId, options, task.id, binding, canary);
+  }
 
   /**
    * Helper method to get a single dependency result by runner class name
@@ -484,9 +450,44 @@ export abstract class BaseOpenAIRunner extends BaseRunner {
 
     return await this.getOpenAIResult({ 
       customId: depData.customId, 
-      storeId: depTask.storeId 
+      storeId: depTask.storeId,
+      runnerClassName,
+      aiProvider: depData.aiProvider,
+      canary: depData.canary
     });
   }
+
+  /**
+   * Collect the URLs of the pages cited or found by all completed worth assessment dependencies
+   * @param task - The task with dependencies
+   * @returns Array of URLs from worth assessments, cited pages first
+   */
+  protected async collectUrlsFromWorthAssessments(task: TaskWithDependencies): Promise<string[]> {
+    const worthTasks = task.dependencies
+      .map(dep => dep.dependency)
+      .filter(dep => dep.runnerClassName === 'WorthAssessmentRunner' && dep.status === 'COMPLETED');
+    const citedSources = await getCitedSources(this.prisma, worthTasks.map(dep => dep.id));
+    const allUrls = citedSources.map(source => source.url);
+
+    // Assessments completed before sources were stored in the `Source` table only have them in their output
+    const recordedTaskIds = new Set(citedSources.map(source => source.taskId));
+    for (const dep of worthTasks.filter(dep => !recordedTaskIds.has(dep.id) && dep.runnerData)) {
+      try {
+        const sources = JSON.parse(dep.runnerData!).output?.sources;
+        if (Array.isArray(sources)) {
+          allUrls.push(...sources.filter((url: unknown) => typeof url === 'string'));
+        }
+      } catch (error) {
+        this.log('warn', 'Failed to parse worth assessment dependency data', {
+          dependencyId: dep.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    // Remove duplicates and return
+    return [...new Set(allUrls)];
+  }
 }
 
 /**
@@ -501,7 +502,10 @@ abstract class RunnerWithRandomizedPrompt extends BaseOpenAIRunner {
    * @throws Error if dependency is not found or has invalid data
    */
   protected async getRandomizedPromptFromDependency(task: TaskWithDependencies): Promise<string> {
-    const response: RandomizedPromptResponse = await this.getDependencyResult(task, 'RandomizePromptRunner');
+    // The checked prompt is in the recorded output: the last request of the task may be the equivalence check
+    const dependency = task.dependencies.find(dep => dep.dependency.runnerClassName === 'RandomizePromptRunner');
+    const depData = dependency?.dependency.runnerData ? JSON.parse(dependency.dependency.runnerData) : {};
+    const response: RandomizedPromptResponse = depData.output ?? await this.getDependencyResult(task, 'RandomizePromptRunner');
 
     if (!response) {
       throw new DependencyError('RandomizePromptRunner dependency returned no response', undefined, task.id, this.constructor.name);
@@ -515,17 +519,70 @@ abstract class RunnerWithRandomizedPrompt extends BaseOpenAIRunner {
   }
 
   /**
-   * Abstract method to get the original prompt that should be randomized
-   * @returns The original prompt string
+   * Get the version of the original prompt randomized by the RandomizePromptRunner dependency,
+   * recorded in its runner data (`originalPromptVersionId`) when the flow was created
+   * @param task - The task with dependencies
+   * @returns The prompt version, or `undefined` for flows created before the prompt registry
+   */
+  protected async getOriginalPromptVersion(task: TaskWithDependencies): Promise<PromptVersionEntry | undefined> {
+    const dependency = task.dependencies.find(dep => dep.dependency.runnerClassName === 'RandomizePromptRunner');
+    const depData = dependency?.dependency.runnerData ? JSON.parse(dependency.dependency.runnerData) : {};
+    if (depData.originalPromptVersionId === undefined) {
+      return undefined;
+    }
+    const promptVersion = await this.prompts.getVersion(depData.originalPromptVersionId);
+    if (promptVersion.name !== this.getPromptName()) {
+      throw new DependencyError(`RandomizePromptRunner dependency randomized the '${promptVersion.name}' prompt, not '${this.getPromptName()}'`, dependency!.dependency.id, task.id, this.constructor.name);
+    }
+    return promptVersion;
+  }
+
+  /**
+   * Abstract method to get the name of the original prompt that is randomized
+   * @returns The name of the prompt in the prompt registry
    */
-  protected abstract getOriginalPrompt(): string;
+  protected abstract getPromptName(): PromptName;
 
   /**
-   * Abstract method to get the JSON schema for the response
+   * Abstract method to get the JSON schema for the response, used when the prompt version is unknown
    * @returns The JSON schema object
    */
   protected abstract getResponseSchema(): any;
 
+  /**
+   * Whether to supply the summary of the user's previous evaluation in the user prompt
+   */
+  protected usePreviousEvaluationSummary(): boolean {
+    return false;
+  }
+
+  /**
+   * Get the latest evaluation summary of the user of this task
+   * @returns The summary, or `undefined` if the user has never been evaluated
+   */
+  protected async getPreviousEvaluationSummary(): Promise<PreviousEvaluationSummary | undefined> {
+    const userId = this.data.userId;
+    if (!userId) {
+      return undefined;
+    }
+
+    const previous = await this.prisma.evaluationSummary.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+    if (!previous) {
+      return undefined;
+    }
+
+    return {
+      worthAsFractionOfGDP: previous.worthAsFractionOfGDP,
+      // Until the AI condensed it, fall back to the rationale of the assessments as is.
+      summary: previous.summary ?? (JSON.parse(previous.rationale) as string[]).join('\n'),
+      sources: JSON.parse(previous.sources),
+      createdAt: previous.createdAt
+    };
+  }
+
   /**
    * Execute the task using a randomized prompt from dependency
    * @param task - The task containing user data and dependencies
@@ -533,18 +590,15 @@ abstract class RunnerWithRandomizedPrompt extends BaseOpenAIRunner {
   protected async executeTask(task: TaskWithDependencies): Promise<void> {
     const userData = this.data.userData || {};
     
-    // In fake mode, use the original prompt directly instead of getting randomized prompt
-    let promptToUse: string;
-    if (OPEN_AI_FAKE) {
-      promptToUse = this.getOriginalPrompt();
-    } else {
-      // Get randomized prompt from dependency (randomizePrompt task)
-      promptToUse = await this.getRandomizedPromptFromDependency(task);
-    }
+    // Get randomized prompt from dependency (randomizePrompt task)
+    const promptToUse = await this.getRandomizedPromptFromDependency(task);
     
-    const userPrompt: string = generateUserPrompt(userData);
+    const previousSummary = this.usePreviousEvaluationSummary() ?
+      await this.getPreviousEvaluationSummary() : undefined;
+    const userPrompt: string = generateUserPrompt(userData, previousSummary);
+    const promptVersion = await this.getOriginalPromptVersion(task);
     
-    await this.initiateOpenAIRequest(task, promptToUse, userPrompt, this.getResponseSchema(), this.getModelOptions());
+    await this.initiateOpenAIRequest(task, promptToUse, userPrompt, promptVersion?.schema ?? this.getResponseSchema(), this.getModelOptions(), {}, promptVersion);
   }
 
 }
@@ -554,22 +608,27 @@ abstract class RunnerWithRandomizedPrompt extends BaseOpenAIRunner {
  * Uses OpenAI to analyze user data and determine if they are an active scientist or FOSS developer
  */
 export class ScientistOnboardingRunner extends BaseOpenAIRunner {
-  protected getModelOptions(): ResponseCreateParams | undefined { // https://github.com/openai/openai-node/issues/1572
+  protected getModelOptions(): AIModelOptions | undefined {
     return {
       model: 'gpt-5-mini', // Don't use gpt-5-nano: it tends to enter infinite loop with Web search.
       // temperature: 0.0, // Cursor says, it's unsupported.
-      prompt_cache_key: 'scientist-onboarding',
-      reasoning: {
-        effort: OVERRIDE_REASONING_EFFORT ?? 'low'
-      },
-      max_tool_calls: 3
-    } as any;
+      promptCacheKey: 'scientist-onboarding',
+      reasoningEffort: 'low',
+      maxToolCalls: 3
+    };
   }
 
   protected useWebSearchTool(): boolean {
     return true;
   }
 
+  protected getStubOutput(input: string): Record<string, unknown> | undefined {
+    return {
+      isActiveScientistOrFOSSDev: true,
+      why: 'Stub mode: Always return true for onboarding'
+    };
+  }
+
   /**
    * Initiate the scientist check request
    * @param task - The task containing user data to analyze
@@ -578,7 +637,8 @@ export class ScientistOnboardingRunner extends BaseOpenAIRunner {
     const userData = this.data.userData || {};
     const userPrompt: string = generateUserPrompt(userData);
     
-    await this.initiateOpenAIRequest(task, onboardingPrompt, userPrompt, scientistCheckSchema, this.getModelOptions());
+    const promptVersion = await this.prompts.getCurrentVersion(PromptName.ONBOARDING);
+    await this.initiateOpenAIRequest(task, promptVersion.text, userPrompt, promptVersion.schema, this.getModelOptions(), {}, promptVersion);
   }
 
   // Simplify this and similar functions.
@@ -586,7 +646,7 @@ export class ScientistOnboardingRunner extends BaseOpenAIRunner {
     if (output.isActiveScientistOrFOSSDev) {
       await TaskRunnerRegistry.completeTask(this.prisma, this.taskId, output);
     } else {
-      await TaskRunnerRegistry.markTaskAsCancelled(this.prisma, this.taskId);
+      await TaskRunnerRegistry.markTaskAsCancelled(this.prisma, this.taskId, undefined, output);
     }
   }
 }
@@ -596,18 +656,18 @@ export class ScientistOnboardingRunner extends BaseOpenAIRunner {
  * Uses a randomized prompt from a dependency to assess user worth
  */
 export class WorthAssessmentRunner extends RunnerWithRandomizedPrompt {
-  /**
-   * Get the original prompt that should be randomized
-   * @returns The original worth prompt
-   */
-  protected getOriginalPrompt(): string { // This method (in parent class, too) seems to be useless.
-    return worthPrompt;
+  protected getPromptName(): PromptName {
+    return PromptName.WORTH;
   }
 
   protected useWebSearchTool(): boolean {
     return true;
   }
 
+  protected usePreviousEvaluationSummary(): boolean {
+    return true;
+  }
+
   /**
    * Get the JSON schema for the response
    * @returns The worth assessment schema
@@ -616,18 +676,55 @@ export class WorthAssessmentRunner extends RunnerWithRandomizedPrompt {
     return worthAssessmentSchema;
   }
 
+  protected getStubOutput(input: string): Record<string, unknown> | undefined {
+    return {
+      worthAsFractionOfGDP: 0.001, // 0.1% of GDP
+      why: 'Stub mode: Always return 0.1% of GDP',
+      lowWorthAsFractionOfGDP: 0.0005,
+      highWorthAsFractionOfGDP: 0.002,
+      confidence: 0.8,
+      components: {
+        scientist: { worthAsFractionOfGDP: 0.0006, why: 'Stub mode: 60% of the total as a scientist' },
+        foss: { worthAsFractionOfGDP: 0.0004, why: 'Stub mode: 40% of the total as a FOSS dev' },
+        orcid: { worthAsFractionOfGDP: 0.0006, why: 'Stub mode: the scientist part' },
+        github: { worthAsFractionOfGDP: 0.0004, why: 'Stub mode: the FOSS part' },
+        gitlab: { worthAsFractionOfGDP: 0, why: 'Stub mode: none' },
+        bitbucket: { worthAsFractionOfGDP: 0, why: 'Stub mode: none' }
+      }
+    };
+  }
+
   /**
-   * Override onOutput to capture sources from the OpenAI response
+   * Override onOutput to store the sources of the response: its URL citations and Web search results
    */
   protected async onOutput(customId: string, output: any): Promise<void> {
-    // Get the full response to extract sources
+    const provider = resolveTaskAIProvider(this.runnerName, this.data.aiProvider);
     const fullResponse = await this.getFullOpenAIResponse(customId);
-    const sources = this.extractSourcesFromResponse(fullResponse);
-    
-    // Store the output with sources
+    const sources = await recordCitedSources(
+      this.prisma,
+      this.taskId,
+      this.data.userId,
+      fullResponse ? provider.extractSources(fullResponse) : []
+    );
+    this.log('info', '📚 Recorded worth assessment sources', {
+      cited: sources.filter(source => source.origin === 'citation').length,
+      searched: sources.filter(source => source.origin === 'search').length
+    });
+
+    // Archive the pages as they are now, for appeals and audits; a failure must not lose the assessment
+    try {
+      const snapshots = await snapshotTaskSources(this.prisma, this.taskId);
+      this.log('info', '🗄️ Archived worth assessment sources', snapshots);
+    } catch (error) {
+      this.log('warn', 'Failed to archive worth assessment sources', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    // Store the output with the source URLs
     const outputWithSources = {
       ...output,
-      sources: sources
+      sources: sources.map(source => source.url)
     };
     
     await TaskRunnerRegistry.completeTask(this.prisma, this.taskId, outputWithSources);
@@ -642,64 +739,16 @@ export class WorthAssessmentRunner extends RunnerWithRandomizedPrompt {
       throw new Error('No storeId found for task');
     }
     
-    const store = await createAIBatchStore(task.storeId, this.taskId);
-    const outputter = await createAIOutputter(store);
+    const provider = resolveTaskAIProvider(this.runnerName, this.data.aiProvider);
     
     try {
-      const response = (await outputter.getOutput(customId))!;
+      const response = (await provider.getResponse(task.storeId, customId, this.taskId))!;
       return response;
     } catch (error) {
       this.log('error', 'Failed to get full OpenAI response', { customId, error });
       return null;
     }
   }
-
-  /**
-   * Extract sources from OpenAI response
-   */
-  private extractSourcesFromResponse(response: any): string[] {
-    if (!response || !response.output) {
-      return [];
-    }
-
-    const sources: string[] = [];
-    
-    // Look through all output messages for web search results
-    for (const message of response.output) {
-      if (message && message.content) {
-        for (const content of message.content) {
-          if (content.type === 'text' && content.text) {
-            // Look for URLs in the text content
-            const urlMatches = content.text.match(/https?:\/\/[^\s\)]+/g);
-            if (urlMatches) {
-              sources.push(...urlMatches);
-            }
-          }
-          
-          // Look for web search sources in the content
-          if (content.sources && Array.isArray(content.sources)) {
-            for (const source of content.sources) {
-              if (source.url) {
-                sources.push(source.url);
-              }
-            }
-          }
-        }
-      }
-      
-      // Look for web search calls in the message
-      if (message.web_search_call && message.web_search_call.action && message.web_search_call.action.sources) {
-        for (const source of message.web_search_call.action.sources) {
-          if (source.url) {
-            sources.push(source.url);
-          }
-        }
-      }
-    }
-    
-    // Remove duplicates
-    return [...new Set(sources)];
-  }
 }
 
 
@@ -709,12 +758,23 @@ export class WorthAssessmentRunner extends RunnerWithRandomizedPrompt {
  * Can be conditionally cancelled based on worth threshold dependencies
  */
 export class RandomizePromptRunner extends BaseOpenAIRunner {
-  protected getModelOptions(): ResponseCreateParams | undefined {
+  private verifyingEquivalence = false;
+
+  protected getModelOptions(): AIModelOptions | undefined {
     return {
       temperature: 1.0, // We want randomized responses.
     };
   }
 
+  protected getStubOutput(input: string): Record<string, unknown> | undefined {
+    if (this.verifyingEquivalence) {
+      return { equivalent: true, differences: '' };
+    }
+    return {
+      randomizedPrompt: input // Don't randomize: pass the prompt as is.
+    };
+  }
+
   /**
    * Execute the prompt randomization task
    * @param task - The task containing the original prompt to randomize
@@ -725,11 +785,130 @@ export class RandomizePromptRunner extends BaseOpenAIRunner {
       throw new TaskRunnerError('Original prompt is required for randomization', task.id, this.constructor.name);
     }
     
-    await this.initiateOpenAIRequest(task, randomizePrompt, originalPrompt, randomizedPromptSchema, this.getModelOptions());
+    await this.requestRandomization(task, 1, []);
+  }
+
+  /**
+   * Request a rewrite of the original prompt
+   * @param task - The task
+   * @param attempt - Number of the rewrite, from 1
+   * @param rejectedRewrites - The rewrites rejected so far
+   */
+  private async requestRandomization(task: TaskWithDependencies, attempt: number, rejectedRewrites: RejectedRewrite[]): Promise<void> {
+    const promptVersion = await this.prompts.getCurrentVersion(PromptName.RANDOMIZE);
+    await this.initiateOpenAIRequest(task, promptVersion.text, this.data.originalPrompt, promptVersion.schema, this.getModelOptions(), {
+      equivalenceCheck: { attempt, rejectedRewrites }
+    }, promptVersion);
+  }
+
+  /**
+   * Ask a model whether a rewrite that passed the structural checks means the same as the original prompt
+   * @param task - The task
+   * @param randomizedPrompt - The rewrite to check
+   */
+  private async requestEquivalenceCheck(task: TaskWithDependencies, randomizedPrompt: string): Promise<void> {
+    const promptVersion = await this.prompts.getCurrentVersion(PromptName.PROMPT_EQUIVALENCE);
+    this.verifyingEquivalence = true;
+    await this.initiateOpenAIRequest(task, promptVersion.text, buildPromptComparisonInput(this.data.originalPrompt, randomizedPrompt), promptVersion.schema, { temperature: 0 }, {
+      equivalenceCheck: { ...this.data.equivalenceCheck, randomizedPrompt, verifying: true }
+    }, promptVersion);
   }
 
+  /**
+   * The task keeps the prompt version and provenance of the randomization during the equivalence check,
+   * whose provenance is recorded in `equivalenceCheck`
+   */
+  protected async updateTaskWithRequestData(
+    task: TaskWithDependencies,
+    customId: string,
+    additionalData: Record<string, any> = {},
+    promptVersionId?: number
+  ): Promise<void> {
+    if (!additionalData.equivalenceCheck?.verifying) {
+      await super.updateTaskWithRequestData(task, customId, additionalData, promptVersionId);
+      return;
+    }
+    const { provenance, ...data } = additionalData;
+    await super.updateTaskWithRequestData(task, customId, {
+      ...data,
+      equivalenceCheck: { ...data.equivalenceCheck, provenance }
+    }, this.data.provenance?.promptVersionId);
+  }
+
+  /**
+   * Handle a rejected rewrite: request another one, or use the original prompt after the last attempt
+   * @param rejected - The rejected rewrite
+   */
+  private async rejectRewrite(rejected: RejectedRewrite): Promise<void> {
+    const rejectedRewrites: RejectedRewrite[] = [...(this.data.equivalenceCheck?.rejectedRewrites ?? []), rejected];
+    this.log('warn', `🔀 Randomized prompt rejected: ${rejected.reasons.join('; ')}`, { taskId: this.taskId, attempt: rejected.attempt });
+
+    if (rejected.attempt < readPromptEquivalenceConfig().maxAttempts) {
+      await this.requestRandomization(await this.loadTask(), rejected.attempt + 1, rejectedRewrites);
+      return;
+    }
+    await this.completeWithPrompt(this.data.originalPrompt, {
+      verdict: PromptEquivalenceVerdict.REPLACED_BY_ORIGINAL,
+      attempts: rejected.attempt,
+      rejectedRewrites
+    });
+  }
+
+  /**
+   * Complete the task with the prompt to use, and the verdict of the equivalence checks in the output
+   */
+  private async completeWithPrompt(randomizedPrompt: string, equivalence: PromptEquivalenceResult): Promise<void> {
+    await TaskRunnerRegistry.completeTask(this.prisma, this.taskId, { randomizedPrompt, equivalence });
+  }
+
+  private async loadTask(): Promise<TaskWithDependencies> {
+    return await this.prisma.task.findUniqueOrThrow({
+      where: { id: this.taskId },
+      include: { dependencies: { include: { dependency: true } } }
+    });
+  }
+
+  /**
+   * Check the rewrite (structure, then meaning by a model) or the verdict of the model on it
+   */
   protected async onOutput(customId: string, output: any): Promise<void> {
-    await TaskRunnerRegistry.completeTask(this.prisma, this.taskId, output);
+    const check = this.data.equivalenceCheck;
+    if (!check) { // Initiated before equivalence checks existed
+      await TaskRunnerRegistry.completeTask(this.prisma, this.taskId, output);
+      return;
+    }
+
+    if (check.verifying) {
+      const verdict = output as PromptEquivalenceResponse;
+      if (verdict.equivalent) {
+        await this.completeWithPrompt(check.randomizedPrompt, {
+          verdict: PromptEquivalenceVerdict.EQUIVALENT,
+          attempts: check.attempt,
+          rejectedRewrites: check.rejectedRewrites
+        });
+      } else {
+        await this.rejectRewrite({
+          attempt: check.attempt,
+          randomizedPrompt: check.randomizedPrompt,
+          reasons: [`meaning changed: ${verdict.differences}`]
+        });
+      }
+      return;
+    }
+
+    const randomizedPrompt: string = (output as RandomizedPromptResponse).randomizedPrompt ?? '';
+    const reasons = checkPromptStructure(this.data.originalPrompt, randomizedPrompt);
+    if (reasons.length > 0) {
+      await this.rejectRewrite({ attempt: check.attempt, randomizedPrompt, reasons });
+    } else if (readPromptEquivalenceConfig().semanticCheck) {
+      await this.requestEquivalenceCheck(await this.loadTask(), randomizedPrompt);
+    } else {
+      await this.completeWithPrompt(randomizedPrompt, {
+        verdict: PromptEquivalenceVerdict.EQUIVALENT,
+        attempts: check.attempt,
+        rejectedRewrites: check.rejectedRewrites
+      });
+    }
   }
 }
 
@@ -739,12 +918,8 @@ export class RandomizePromptRunner extends BaseOpenAIRunner {
  * If injection is detected, bans the user directly and marks task as CANCELLED
  */
 export class PromptInjectionRunner extends RunnerWithRandomizedPrompt {
-  /**
-   * Get the original prompt that should be randomized
-   * @returns The original injection prompt
-   */
-  protected getOriginalPrompt(): string {
-    return injectionPrompt;
+  protected getPromptName(): PromptName {
+    return PromptName.INJECTION;
   }
 
   protected useWebSearchTool(): boolean {
@@ -783,21 +958,24 @@ export class PromptInjectionRunner extends RunnerWithRandomizedPrompt {
     });
 
     // Mark task as CANCELLED (not COMPLETED) since injection was detected
-    await this.prisma.task.update({ // seems to have superfluous parameters.
-      where: { id: task.id },
-      data: {
-        status: 'CANCELLED',
-        runnerData: JSON.stringify({
-          ...this.data,
-          hasPromptInjectionOrPlagiarism: true,
-          why: reason,
-          bannedUntil: banUntil.toISOString(),
-          reason: 'Prompt injection detected - user banned',
-          cancelledAt: new Date().toISOString()
-        })
-      }
+    await TaskRunnerRegistry.finishTask(this.prisma, task.id, { // seems to have superfluous parameters.
+      status: TaskStatus.CANCELLED,
+      completedAt: new Date(),
+      runnerData: JSON.stringify({
+        ...this.data,
+        hasPromptInjectionOrPlagiarism: true,
+        why: reason,
+        output: { hasPromptInjectionOrPlagiarism: true, why: reason },
+        bannedUntil: banUntil.toISOString(),
+        reason: 'Prompt injection detected - user banned',
+        cancelledAt: new Date().toISOString()
+      })
     });
 
+    if (this.data.appealId) {
+      await new AppealService(this.prisma).recordReevaluationBan(this.data.appealId, reason);
+    }
+
     this.log('info', `🚫 Prompt injection detected - user banned and task cancelled`, { 
       taskId: task.id,
       userId, 
@@ -816,8 +994,11 @@ export class PromptInjectionRunner extends RunnerWithRandomizedPrompt {
     // Get randomized prompt from dependency (randomizePrompt task)
     let randomizedPrompt = await this.getRandomizedPromptFromDependency(task);
     
-    // Collect URLs from all worth assessment dependencies
-    const urlsFromWorthAssessments = await this.collectUrlsFromWorthAssessments(task);
+    // Collect URLs from all worth assessment dependencies, and the evidence of an appeal being re-evaluated
+    const urlsFromWorthAssessments = [
+      ...await this.collectUrlsFromWorthAssessments(task),
+      ...(userData.appeal?.evidenceLinks ?? [])
+    ];
     
     // If we have URLs from worth assessments, modify the prompt to include them
     const sourcesList = urlsFromWorthAssessments.length > 0 ?
@@ -825,63 +1006,23 @@ export class PromptInjectionRunner extends RunnerWithRandomizedPrompt {
 
     // Prompt injection detector should list URLs in the user prompt, not system one,
     // to avoid depending on URLs containing injections.
-    const userPrompt: string = generateUserPrompt(userData) + '\n\n' + `URLs to check:\n${sourcesList}`; // TODO@P3: Refactor.
-    
-    await this.initiateOpenAIRequest(task, randomizedPrompt, userPrompt, this.getResponseSchema(), this.getModelOptions());
-  }
-
-  /**
-   * Collect URLs from all worth assessment dependencies
-   * @param task - The task with dependencies
-   * @returns Array of URLs from worth assessments
-   */
-  private async collectUrlsFromWorthAssessments(task: TaskWithDependencies): Promise<string[]> {
-    const allUrls: string[] = [];
-    
-    // Look for worth assessment tasks in the dependency chain
-    for (const dep of task.dependencies) {
-      // Check if this dependency is a worth assessment task
-      if (dep.dependency.runnerClassName === 'WorthAssessmentRunner' && 
-          dep.dependency.status === 'COMPLETED' && 
-          dep.dependency.runnerData) {
-        
-        try {
-          const depData = JSON.parse(dep.dependency.runnerData);
-          
-          // Check if the worth assessment has sources
-          if (depData.sources && Array.isArray(depData.sources)) {
-            allUrls.push(...depData.sources);
-          }
-          
-          // Also try to get sources from the OpenAI response if available
-          if (depData.customId && dep.dependency.storeId) {
-            try {
-              const response = await this.getOpenAIResult({
-                customId: depData.customId,
-                storeId: dep.dependency.storeId
-              });
-              
-              if (response && response.sources && Array.isArray(response.sources)) {
-                allUrls.push(...response.sources);
-              }
-            } catch (error) {
-              this.log('warn', 'Failed to get sources from worth assessment response', {
-                dependencyId: dep.dependency.id,
-                error: error instanceof Error ? error.message : String(error)
-              });
-            }
-          }
-        } catch (error) {
-          this.log('warn', 'Failed to parse worth assessment dependency data', {
-            dependencyId: dep.dependency.id,
-            error: error instanceof Error ? error.message : String(error)
-          });
-        }
-      }
+    let userPrompt: string = generateUserPrompt(userData) + '\n\n' + `URLs to check:\n${sourcesList}`; // TODO@P3: Refactor.
+
+    // Check the pages locally first, so that the AI doesn't have to notice hidden content by itself.
+    // The report is stored with the task, as evidence for appeals.
+    const sourceVerifier = SourceVerifier.fromEnv();
+    let sourceVerification: SourceVerificationReport | undefined;
+    if (sourceVerifier && urlsFromWorthAssessments.length > 0) {
+      sourceVerification = await sourceVerifier.verify(urlsFromWorthAssessments);
+      userPrompt += '\n\n' + `Findings of the automatic check of these URLs:\n${formatSourceVerificationReport(sourceVerification)}`;
+      this.log('info', `🔎 Verified ${sourceVerification.sources.length} sources`, {
+        taskId: task.id,
+        suspicious: sourceVerification.suspicious
+      });
     }
     
-    // Remove duplicates and return
-    return [...new Set(allUrls)];
+    const promptVersion = await this.getOriginalPromptVersion(task);
+    await this.initiateOpenAIRequest(task, randomizedPrompt, userPrompt, promptVersion?.schema ?? this.getResponseSchema(), this.getModelOptions(), { sourceVerification }, promptVersion);
   }
 
   protected async onOutput(customId: string, output: any): Promise<void> {
@@ -895,6 +1036,120 @@ export class PromptInjectionRunner extends RunnerWithRandomizedPrompt {
   }
 }
 
+/**
+ * TaskRunner for condensing the worth assessments of an evaluation cycle
+ * Stores an `EvaluationSummary` (value, rationale, sources) right away and asks the AI to condense
+ * the rationale together with the previous summary, so that the next cycle can build on it
+ */
+export class EvaluationSummaryRunner extends BaseOpenAIRunner {
+  shouldCheckCancelledDependencies(): boolean {
+    return false;
+  }
+
+  shouldRunOnFailedDependencies(): boolean {
+    return true;
+  }
+
+  protected getModelOptions(): AIModelOptions | undefined {
+    return {
+      promptCacheKey: 'evaluation-summary',
+      reasoningEffort: 'low'
+    };
+  }
+
+  /**
+   * Collect the results of the cycle and initiate the summary request
+   * @param task - The task depending on the MedianRunner task and the worth assessment tasks
+   */
+  protected async executeTask(task: TaskWithDependencies): Promise<void> {
+    const userId = this.data.userId;
+    if (!userId) {
+      throw new TaskRunnerError('User ID is required for an evaluation summary', task.id, this.constructor.name);
+    }
+
+    const medianDep = task.dependencies.find(dep => dep.dependency.runnerClassName === 'MedianRunner');
+    if (medianDep && medianDep.dependency.status !== 'COMPLETED') {
+      // Nothing to summarize; retrying wouldn't help
+      await TaskRunnerRegistry.markTaskAsCancelled(this.prisma, task.id, `MedianRunner dependency is ${medianDep.dependency.status}`);
+      return;
+    }
+    if (!medianDep || !medianDep.dependency.runnerData) {
+      throw new DependencyError('MedianRunner dependency not completed', medianDep?.dependency.id, task.id, this.constructor.name);
+    }
+    const medianData = JSON.parse(medianDep.dependency.runnerData);
+
+    const rationale: string[] = [];
+    for (const dep of task.dependencies) {
+      if (dep.dependency.runnerClassName !== 'WorthAssessmentRunner' ||
+          dep.dependency.status !== 'COMPLETED' ||
+          !dep.dependency.runnerData ||
+          !dep.dependency.storeId) {
+        continue;
+      }
+      try {
+        const depData = JSON.parse(dep.dependency.runnerData);
+        const response = await this.getOpenAIResult({
+          customId: depData.customId,
+          storeId: dep.dependency.storeId,
+          runnerClassName: dep.dependency.runnerClassName,
+          aiProvider: depData.aiProvider,
+          canary: depData.canary
+        });
+        if (response?.why) {
+          rationale.push(`${response.worthAsFractionOfGDP} of world GDP: ${response.why}`);
+        }
+      } catch (error) {
+        this.log('warn', 'Failed to get worth assessment rationale', {
+          dependencyId: dep.dependency.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    const sources = await this.collectUrlsFromWorthAssessments(task);
+
+    const previousSummary = await this.prisma.evaluationSummary.findFirst({
+      where: { userId, OR: [{ taskId: null }, { taskId: { not: task.id } }] },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    // A retry of the task finds the row of its previous attempt
+    const summaryData = {
+      worthAsFractionOfGDP: medianData.medianWorth,
+      rationale: JSON.stringify(rationale),
+      sources: JSON.stringify(sources)
+    };
+    await this.prisma.evaluationSummary.upsert({
+      where: { taskId: task.id },
+      create: { userId, taskId: task.id, ...summaryData },
+      update: summaryData
+    });
+
+    const input = [
+      generateUserPrompt(this.data.userData || {}),
+      '',
+      ...(previousSummary ? [
+        `Previous summary (${previousSummary.createdAt.toISOString().slice(0, 10)}, ` +
+          `${previousSummary.worthAsFractionOfGDP} of world GDP):`,
+        previousSummary.summary ?? (JSON.parse(previousSummary.rationale) as string[]).join('\n'),
+        ''
+      ] : []),
+      `Resulting fraction of world GDP: ${medianData.medianWorth}`,
+      `Assessments:\n${rationale.map(why => `- ${why}`).join('\n')}`,
+      `Sources:\n${sources.map(url => `- ${url}`).join('\n')}`
+    ].join('\n');
+
+    const promptVersion = await this.prompts.getCurrentVersion(PromptName.SUMMARIZE_EVALUATION);
+    await this.initiateOpenAIRequest(task, promptVersion.text, input, promptVersion.schema, this.getModelOptions(), {}, promptVersion);
+  }
+
+  protected async onOutput(customId: string, output: any): Promise<void> {
+    await this.prisma.evaluationSummary.update({
+      where: { taskId: this.taskId },
+      data: { summary: output.summary }
+    });
+    await TaskRunnerRegistry.completeTask(this.prisma, this.taskId, output);
+  }
+}
 
 /**
  * Register all OpenAI TaskRunners with the TaskRunnerRegistry
@@ -905,6 +1160,7 @@ export function registerOpenAIRunners(): void {
   TaskRunnerRegistry.register('RandomizePromptRunner', RandomizePromptRunner);
   TaskRunnerRegistry.register('WorthAssessmentRunner', WorthAssessmentRunner);
   TaskRunnerRegistry.register('PromptInjectionRunner', PromptInjectionRunner);
+  TaskRunnerRegistry.register('EvaluationSummaryRunner', EvaluationSummaryRunner);
 }
 
 /**
@@ -1,12 +1,28 @@
 import { TaskRunner, TaskRunnerData, TaskRunnerRegistry } from '../types/task.js';
 import { PrismaClient } from '@prisma/client';
-import { createAIBatchStore, createAIOutputter } from '../services/openai.js';
-import OpenAI from 'openai';
-import { isConfigValueTrue } from '../services/utils.js';
+import { resolveTaskAIProvider } from '../services/ai-providers/index.js';
+import { ShareInGdpService } from '../services/ShareInGdpService.js';
+import { AppealService } from '../services/AppealService.js';
+import { PromptCanary, stripPromptCanary, verifyPromptCanary } from '../services/promptCanary.js';
+import { WorthReviewService } from '../services/WorthReviewService.js';
+import { UserEvaluationFlow } from '../services/UserEvaluationFlow.js';
+import {
+  aggregateWorthComponents,
+  aggregateWorthSamples,
+  aggregateWorthUncertainty,
+  DroppedWorthSample,
+  getWorthUncertaintyIssue,
+  parseWorthComponents,
+  parseWorthRange,
+  readWorthEnsembleConfig,
+  readWorthUncertaintyConfig,
+  WorthComponents,
+  WorthSample,
+  WorthUncertaintyBand
+} from '../services/worthEnsemble.js';
 
 // Constants
 const DEFAULT_THRESHOLD = 1e-11;
-const OPEN_AI_FAKE = isConfigValueTrue(process.env.OPEN_AI_FAKE);
 
 
 // Custom error classes for better error handling
@@ -60,6 +76,12 @@ interface TaskRunnerResult {
 interface WorthAssessmentResponse {
   worthAsFractionOfGDP: number;
   why: string;
+  /** Missing in responses to prompt versions without uncertainty */
+  lowWorthAsFractionOfGDP?: number;
+  highWorthAsFractionOfGDP?: number;
+  confidence?: number;
+  /** Missing in responses to prompt versions without components */
+  components?: WorthComponents;
 }
 
 /**
@@ -250,13 +272,25 @@ export abstract class BaseRunner implements TaskRunner {
     return true;
   }
 
+  /**
+   * Determines whether this runner runs when some dependencies FAILED (crashed or exhausted their retries).
+   * 
+   * By default a task with a failed dependency is cancelled. Runners that can work with partial
+   * results (like MedianRunner) override this to run on the dependencies that completed.
+   * 
+   * @returns `true` to run despite failed dependencies, `false` (default) to cancel the task
+   */
+  shouldRunOnFailedDependencies(): boolean {
+    return false;
+  }
+
   /**
    * Main entry point for running a task - implements the TaskRunner interface.
    * 
    * This method orchestrates the complete task execution flow:
    * 1. Fetches task data and dependencies from the database
    * 2. Checks if dependencies are completed (unless overridden)
-   * 3. Checks if any dependencies are cancelled (unless overridden)
+   * 3. Checks if any dependencies are cancelled or failed (unless overridden)
    * 4. Calls the abstract executeTask method for specific business logic
    * 5. Handles errors and provides structured logging
    * 6. Ensures database connection is properly closed
@@ -293,8 +327,18 @@ export abstract class BaseRunner implements TaskRunner {
         return;
       }
 
-      // Check if all dependencies are completed
-      if (!this.areDependenciesCompleted(task)) {
+      // Same for failed dependencies, unless the runner opted into running on failure
+      const failedDependencyIds = task.dependencies
+        .filter(dep => dep.dependency.status === 'FAILED')
+        .map(dep => dep.dependency.id);
+      if (failedDependencyIds.length > 0 && !this.shouldRunOnFailedDependencies()) {
+        const { TaskRunnerRegistry } = await import('../types/task.js');
+        await TaskRunnerRegistry.markTaskAsCancelled(this.prisma, task.id, `Dependencies failed: ${failedDependencyIds.join(', ')}`);
+        return;
+      }
+
+      // Check if all dependencies are completed (or finished, when bypassing cancellation and failure checks)
+      if (!this.areDependenciesFinished(task)) {
         this.log('info', `⏳ Task has incomplete dependencies, remaining NOT_STARTED`, { taskId, dependenciesCount: task.dependencies.length });
         return; // Task remains in NOT_STARTED state
       }
@@ -381,6 +425,21 @@ export abstract class BaseRunner implements TaskRunner {
     return incompleteDependencies.length === 0;
   }
 
+  /**
+   * Checks if the dependencies of a task can no longer change: COMPLETED, or CANCELLED and FAILED
+   * ones that this runner accepts (see `shouldCheckCancelledDependencies` and `shouldRunOnFailedDependencies`).
+   * 
+   * @param task - The task object with dependencies to check
+   * @returns `true` if the task can run on the results of its dependencies
+   */
+  protected areDependenciesFinished(task: TaskWithDependencies): boolean {
+    return task.dependencies.every(dep =>
+      dep.dependency.status === 'COMPLETED' ||
+      (dep.dependency.status === 'CANCELLED' && !this.shouldCheckCancelledDependencies()) ||
+      (dep.dependency.status === 'FAILED' && this.shouldRunOnFailedDependencies())
+    );
+  }
+
   /**
    * Checks if any dependencies of a task are cancelled.
    * 
@@ -445,52 +504,81 @@ export abstract class BaseRunner implements TaskRunner {
   protected abstract executeTask(task: TaskWithDependencies): Promise<void>;
 
   /**
-   * Retrieves and parses OpenAI results from the batch store.
-   * 
-   * This method is used by runners that need to access results from OpenAI API calls
-   * made by other runners. It connects to the OpenAI batch store, retrieves the
-   * response for the given custom ID, and parses the JSON content.
+   * Processes the AI output of the task, see {@link onOutput}.
+   *
+   * @param customId - The custom ID of the AI request
+   * @param output - The structured output, without the prompt canary
+   */
+  async handleOutput(customId: string, output: any): Promise<void> {
+    this.log('info', `📥 Output received for task ${this.taskId}`, { customId });
+    await this.onOutput(customId, output);
+  }
+
+  /**
+   * Business logic applied to the AI output of the task, which must complete or cancel the task.
+   * Completes the task by default.
+   *
+   * @param customId - The custom ID of the AI request
+   * @param output - The structured output, without the prompt canary
+   */
+  protected async onOutput(customId: string, output: any): Promise<void> {
+    await TaskRunnerRegistry.completeTask(this.prisma, this.taskId, output);
+  }
+
+  /**
+   * Retrieves and parses AI results from the store of the provider that served the request.
    * 
-   * @param params - Object containing the custom ID and store ID for the OpenAI result
-   * @param params.customId - The unique identifier used for the OpenAI request
-   * @param params.storeId - The store ID where the OpenAI result is stored
-   * @returns Promise resolving to the parsed OpenAI response object
+   * This method is used by runners that need to access results from AI calls
+   * made by other runners. It asks the provider recorded in the dependency's runner data
+   * (or, if none was recorded, the one configured for its runner class) for the response
+   * with the given custom ID, and parses the structured content.
    * 
-   * @throws {OpenAIError} When no response content is received from OpenAI
-   * @throws {Error} When the response cannot be parsed as JSON
+   * @param params - Object identifying the AI result
+   * @param params.customId - The unique identifier used for the AI request
+   * @param params.storeId - The store ID where the AI result is stored
+   * @param params.runnerClassName - The runner class that made the request
+   * @param params.aiProvider - The provider name recorded in the runner data of the request
+   * @param params.canary - The canary recorded in the runner data of the request; a response not echoing its nonce is rejected
+   * @returns Promise resolving to the parsed response object, or `undefined` on failure
    * 
    * @example
    * ```typescript
-   * // Get result from a dependency that made an OpenAI call
+   * // Get result from a dependency that made an AI call
    * const response = await this.getOpenAIResult({
    *   customId: depData.customId,
-   *   storeId: depData.storeId
+   *   storeId: dep.dependency.storeId,
+   *   runnerClassName: dep.dependency.runnerClassName,
+   *   aiProvider: depData.aiProvider,
+   *   canary: depData.canary
    * });
-   * console.log('OpenAI response:', response);
+   * console.log('AI response:', response);
    * ```
    */
-  protected async getOpenAIResult({ customId, storeId }: { customId: string; storeId: string }): Promise<any> {
-    const store = await createAIBatchStore(storeId, this.taskId);
-    const outputter = await createAIOutputter(store);
-    if (OPEN_AI_FAKE) {
-      this.log('info', `Using fake OpenAI response for testing`, { customId, storeId });
-      const fakeResponse = await (store as any).getResponseByCustomId(customId);
-      this.log('info', `Retrieved fake OpenAI response`, { customId, hasResponse: !!fakeResponse });
-      return fakeResponse;
-    }
-
+  protected async getOpenAIResult({ customId, storeId, runnerClassName, aiProvider, canary }: {
+    customId: string;
+    storeId: string;
+    runnerClassName: string;
+    aiProvider?: string;
+    canary?: PromptCanary;
+  }): Promise<any> {
     try {
-      const response = (await outputter.getOutput(customId))!;
-
-      const text = (response.output[response.output.length - 1]! as any).content[0].text;
-      if (!text) {
-        throw new OpenAIError('No response content received from OpenAI', customId);
+      const provider = resolveTaskAIProvider(runnerClassName, aiProvider);
+      const response = await provider.getResponse(storeId, customId, this.taskId);
+      if (response === undefined) {
+        throw new OpenAIError('No response received from AI provider', customId);
       }
-      const content = JSON.parse(text);
+      const content = provider.extractStructuredOutput(response);
       
       // Log the response to the database
       await this.logOpenAIResponse(customId, response, undefined);
 
+      if (canary) {
+        const rejectionReason = verifyPromptCanary(content, canary);
+        if (rejectionReason) {
+          throw new OpenAIError(`Canary check failed: ${rejectionReason}`, customId);
+        }
+        return stripPromptCanary(content, canary);
+      }
       return content;
     } catch (error) {
       // Log the error to the database
@@ -503,39 +591,91 @@ export abstract class BaseRunner implements TaskRunner {
 /**
  * TaskRunner for calculating median from dependency results
  * Processes worth assessment results from multiple dependencies and calculates the median
- * EXCEPTION: This runner is not cancelled if dependencies are cancelled - it processes available data
+ * (or another aggregate selected by `WORTH_AGGREGATION`, possibly rejecting outliers)
+ * EXCEPTION: This runner is not cancelled if dependencies are cancelled or failed - it processes available data
  */
 export class MedianRunner extends BaseRunner {
   shouldCheckCancelledDependencies(): boolean {
     return false;
   }
 
+  shouldRunOnFailedDependencies(): boolean {
+    return true;
+  }
+
   /**
-   * Execute the median calculation from dependency results
+   * Aggregate the worth assessments of the dependencies (by default, their median)
    * @param task - The task with dependencies containing worth assessment results
    */
   protected async executeTask(task: TaskWithDependencies): Promise<void> {
     // Extract worth values from dependency results
-    const worthValues = await this.processWorthDependencyResults(task);
-    console.log('DEBUG worthValues', worthValues);
+    const { samples, droppedSamples } = await this.processWorthDependencyResults(task);
 
-    // Calculate median
-    const median = worthValues.length === 0 ? 0 : this.calculateMedian(worthValues);
-    
-    // Update User.shareInGDP with the calculated median
+    const config = readWorthEnsembleConfig();
+    const aggregation = aggregateWorthSamples(samples, {
+      aggregation: this.data.aggregation ?? config.aggregation,
+      trimFraction: config.trimFraction,
+      madThreshold: config.madThreshold
+    });
+    const median = aggregation.value;
+    const componentMedians = aggregateWorthComponents(aggregation.keptSamples);
+
+    // Too uncertain: ask for more samples while allowed, then leave the result to a reviewer
+    const uncertaintyConfig = readWorthUncertaintyConfig();
+    const uncertainty = aggregateWorthUncertainty(aggregation.keptSamples);
+    const uncertaintyIssue = getWorthUncertaintyIssue(uncertainty, uncertaintyConfig);
+    const extraSampleRounds: number = this.data.extraSampleRounds ?? 0;
+    if (uncertaintyIssue && extraSampleRounds < uncertaintyConfig.maxExtraRounds &&
+      await this.requestExtraSamples(task.id, extraSampleRounds + 1, uncertaintyConfig.extraSamples, uncertainty, uncertaintyIssue)) {
+      return;
+    }
+
+    // Record the aggregated value and update User.shareInGDP with its smoothed value
     const userId = this.data.userId;
-    if (userId) {
+    let smoothedShareInGDP: number | undefined;
+    let manualReviewId: number | undefined;
+    if (userId && uncertaintyIssue) {
       try {
-        await this.prisma.user.update({
-          where: { id: userId },
-          data: {
-            shareInGDP: median
-          }
+        const flow = await this.prisma.task.findUnique({ where: { id: task.id }, select: { flowId: true } });
+        const review = await new WorthReviewService(this.prisma).openReview({
+          userId,
+          flowId: flow?.flowId ?? undefined,
+          taskId: task.id,
+          appealId: this.data.appealId,
+          medianWorth: median,
+          band: uncertainty,
+          componentMedians,
+          reason: uncertaintyIssue
+        });
+        manualReviewId = review.id;
+        this.log('warn', `🔍 Result too uncertain, User.shareInGDP left for manual review`, {
+          userId,
+          rawShareInGDP: median,
+          reason: uncertaintyIssue,
+          reviewId: review.id,
+          taskId: task.id
         });
+      } catch (error) {
+        this.log('error', `Failed to open the manual review`, {
+          userId,
+          error: error instanceof Error ? error.message : String(error),
+          taskId: task.id
+        });
+        throw error; // The result must not be lost, nor recorded without review
+      }
+    } else if (userId) {
+      try {
+        // A re-evaluation on appeal replaces the appealed value instead of being averaged with it.
+        const policy = this.data.appealId ? { emaAlpha: 1, logSpace: false } : undefined;
+        smoothedShareInGDP = await new ShareInGdpService(this.prisma).recordShareInGdp(userId, median, task.id, policy, componentMedians);
+        if (this.data.appealId) {
+          await new AppealService(this.prisma).recordReevaluationScore(this.data.appealId, smoothedShareInGDP);
+        }
         
         this.log('info', `📊 Updated User.shareInGDP`, { 
           userId, 
-          shareInGDP: median,
+          rawShareInGDP: median,
+          shareInGDP: smoothedShareInGDP,
           taskId: task.id 
         });
       } catch (error) {
@@ -550,32 +690,99 @@ export class MedianRunner extends BaseRunner {
       this.log('warn', `No userId provided, skipping User.shareInGDP update`, { taskId: task.id });
     }
     
-    // Store the result
-    await TaskRunnerRegistry.completeTask(this.prisma, task.id, {
+    // Store the result, including which samples were dropped and why
+    const result = {
       medianWorth: median,
-      sourceValues: worthValues,
+      smoothedShareInGDP,
+      aggregation: aggregation.strategy,
+      componentMedians,
+      sourceValues: samples.map(sample => sample.value),
+      keptSamples: aggregation.keptSamples,
+      droppedSamples: [...droppedSamples, ...aggregation.droppedSamples],
+      uncertainty,
+      extraSampleRounds,
+      manualReviewId,
       completedAt: new Date().toISOString()
+    };
+    await this.prisma.task.update({
+      where: { id: task.id },
+      data: { runnerData: JSON.stringify({ ...this.data, ...result }) }
+    });
+    await TaskRunnerRegistry.completeTask(this.prisma, task.id, result);
+
+    this.log('info', `✅ Median TaskRunner completed`, {
+      taskId: task.id,
+      median,
+      aggregation: aggregation.strategy,
+      sourceValuesCount: samples.length,
+      droppedCount: result.droppedSamples.length
     });
+  }
 
-    this.log('info', `✅ Median TaskRunner completed`, { taskId: task.id, median, sourceValuesCount: worthValues.length });
+  /**
+   * Add worth samples to the flow of the task and wait for them, see `UserEvaluationFlow.addWorthSamples`
+   * @param taskId - This MedianRunner task
+   * @param round - Number of this round of extra samples, starting at 1
+   * @param extraSamples - Number of samples to add
+   * @param uncertainty - Band of the samples so far
+   * @param reason - Why the result is too uncertain
+   * @returns false if the flow can't be extended (e.g. a task outside a flow or created before pipeline variables
+   *   were recorded), in which case the result goes to manual review
+   */
+  private async requestExtraSamples(
+    taskId: number,
+    round: number,
+    extraSamples: number,
+    uncertainty: WorthUncertaintyBand | undefined,
+    reason: string
+  ): Promise<boolean> {
+    const task = await this.prisma.task.findUnique({ where: { id: taskId }, select: { flowId: true } });
+    if (!task?.flowId) {
+      return false;
+    }
+    try {
+      // Recorded first, so that the rounds are counted even if the re-run sees this runner data only
+      await this.prisma.task.update({
+        where: { id: taskId },
+        data: { runnerData: JSON.stringify({ ...this.data, extraSampleRounds: round, uncertainty }) }
+      });
+      const createdTaskIds = await new UserEvaluationFlow(this.prisma).addWorthSamples(task.flowId, extraSamples, taskId);
+      this.log('info', `➕ Result too uncertain, waiting for ${extraSamples} more worth samples`, {
+        taskId,
+        flowId: task.flowId,
+        round,
+        reason,
+        createdTasks: createdTaskIds.length
+      });
+      return true;
+    } catch (error) {
+      this.log('warn', `Failed to add worth samples, leaving the result for manual review`, {
+        taskId,
+        flowId: task.flowId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
   }
 
   /**
    * Process dependency results and extract worth values from WorthAssessmentRunner
    * Handles both COMPLETED and CANCELLED dependencies gracefully
    * @param task - The task with dependencies
-   * @returns Array of worth values from dependencies
+   * @returns Worth samples from dependencies, and the dependencies that gave no sample with the reason
    */
-  private async processWorthDependencyResults(task: TaskWithDependencies): Promise<number[]> {
-    const worthValues: number[] = [];
-    let completedCount = 0;
-    let cancelledCount = 0;
+  private async processWorthDependencyResults(
+    task: TaskWithDependencies
+  ): Promise<{ samples: WorthSample[]; droppedSamples: DroppedWorthSample[] }> {
+    const samples: WorthSample[] = [];
+    const droppedSamples: DroppedWorthSample[] = [];
     
     for (const dep of task.dependencies) {
+      const taskId = dep.dependency.id;
       try {
-        // Skip cancelled dependencies - they don't have valid data
-        if (dep.dependency.status === 'CANCELLED') {
-          cancelledCount++;
+        // Skip cancelled and failed dependencies - they don't have valid data
+        if (dep.dependency.status === 'CANCELLED' || dep.dependency.status === 'FAILED') {
+          droppedSamples.push({ taskId, reason: `assessment task ${dep.dependency.status === 'FAILED' ? 'failed' : 'was cancelled'}` });
           this.log('info', `Skipping cancelled dependency`, { 
             dependencyId: dep.dependency.id,
             runnerClassName: dep.dependency.runnerClassName
@@ -585,6 +792,7 @@ export class MedianRunner extends BaseRunner {
 
         // Only process COMPLETED dependencies
         if (dep.dependency.status !== 'COMPLETED') {
+          droppedSamples.push({ taskId, reason: `assessment task is ${dep.dependency.status}` });
           this.log('warn', `Dependency not completed`, { 
             dependencyId: dep.dependency.id,
             status: dep.dependency.status
@@ -594,6 +802,7 @@ export class MedianRunner extends BaseRunner {
 
         // Get the dependency task data
         if (!dep.dependency.runnerData) {
+          droppedSamples.push({ taskId, reason: 'assessment task has no runner data' });
           this.log('warn', `Dependency has no runner data`, { dependencyId: dep.dependency.id });
           continue;
         }
@@ -601,6 +810,7 @@ export class MedianRunner extends BaseRunner {
         const depData: TaskRunnerResult = JSON.parse(dep.dependency.runnerData);
         
         if (!depData.customId || !dep.dependency.storeId) {
+          droppedSamples.push({ taskId, reason: 'assessment task has no AI request' });
           this.log('warn', `Dependency missing customId or storeId`, { dependencyId: dep.dependency.id });
           continue;
         }
@@ -608,14 +818,27 @@ export class MedianRunner extends BaseRunner {
         // Get the result from the dependency
         const response: WorthAssessmentResponse = await this.getOpenAIResult({ 
           customId: depData.customId, 
-          storeId: dep.dependency.storeId 
+          storeId: dep.dependency.storeId,
+          runnerClassName: dep.dependency.runnerClassName,
+          aiProvider: depData.aiProvider,
+          canary: depData.canary
         });
 
         if (typeof response.worthAsFractionOfGDP === 'number') {
-          worthValues.push(response.worthAsFractionOfGDP);
-          completedCount++;
+          samples.push({
+            taskId,
+            value: response.worthAsFractionOfGDP,
+            range: parseWorthRange(response, response.worthAsFractionOfGDP),
+            components: parseWorthComponents(response.components),
+            aiProvider: depData.aiProvider,
+            aiModel: depData.aiModel,
+            temperature: depData.temperature
+          });
+        } else {
+          droppedSamples.push({ taskId, reason: 'response has no numeric worthAsFractionOfGDP' });
         }
       } catch (error) {
+        droppedSamples.push({ taskId, reason: 'failed to retrieve the assessment result' });
         this.log('warn', `Failed to retrieve dependency result`, { 
           dependencyId: dep.dependency.id, 
           error: error instanceof Error ? error.message : String(error) 
@@ -623,23 +846,7 @@ export class MedianRunner extends BaseRunner {
       }
     }
 
-    return worthValues;
-  }
-
-  /**
-   * Calculate the median value from an array of numbers
-   * @param values - Array of numbers to calculate median from
-   * @returns The median value
-   */
-  private calculateMedian(values: number[]): number {
-    const sorted = [...values].sort((a, b) => a - b);
-    const mid = Math.floor(sorted.length / 2);
-    
-    if (sorted.length % 2 === 0) {
-      return (sorted[mid - 1] + sorted[mid]) / 2;
-    } else {
-      return sorted[mid];
-    }
+    return { samples, droppedSamples };
   }
 }
 
@@ -706,7 +913,10 @@ export class WorthThresholdCheckRunner extends BaseRunner {
         const depData: TaskRunnerResult = JSON.parse(dep.dependency.runnerData!); // hack
         const response: WorthAssessmentResponse = await this.getOpenAIResult({
           customId: depData.customId, 
-          storeId: dep.dependency.storeId!
+          storeId: dep.dependency.storeId!,
+          runnerClassName: dep.dependency.runnerClassName,
+          aiProvider: depData.aiProvider,
+          canary: depData.canary
         });
         worthValues.push(response.worthAsFractionOfGDP);
       }
@@ -719,7 +929,7 @@ export class WorthThresholdCheckRunner extends BaseRunner {
     if (output.exceedsThreshold) {
       await TaskRunnerRegistry.completeTask(this.prisma, this.taskId, output);
     } else {
-      await TaskRunnerRegistry.markTaskAsCancelled(this.prisma, this.taskId);
+      await TaskRunnerRegistry.markTaskAsCancelled(this.prisma, this.taskId, undefined, output);
     }
   }
 }
@@ -0,0 +1,413 @@
+import { Appeal, PrismaClient } from '@prisma/client';
+import { TaskStatus } from '../types/task.js';
+import { EvaluationFlowError, UserEvaluationData, UserEvaluationFlow } from './UserEvaluationFlow.js';
+
+export enum AppealKind {
+  BAN = 'BAN', // Against a ban by the prompt injection check
+  ASSESSMENT = 'ASSESSMENT' // Against the assessed share in GDP
+}
+
+export enum AppealStatus {
+  PENDING = 'PENDING', // Waiting for an admin
+  REEVALUATING = 'REEVALUATING', // A re-evaluation flow is running
+  UPHELD = 'UPHELD', // The decision stands
+  LIFTED = 'LIFTED', // The ban was lifted
+  RESCORED = 'RESCORED' // The re-evaluation set a new share in GDP
+}
+
+export type AppealDecision = 'uphold' | 'lift' | 'reevaluate';
+
+export const MAX_APPEAL_STATEMENT_LENGTH = 5000;
+export const MAX_APPEAL_EVIDENCE_LINKS = 10;
+
+/**
+ * Error in an appeal operation, to be reported to the client with `statusCode`
+ */
+export class AppealError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'AppealError';
+  }
+}
+
+export interface AppealSubmission {
+  kind: AppealKind;
+  statement: string;
+  evidenceLinks?: string[];
+  /** The appealed task; by default the latest ban or assessment of the user */
+  taskId?: number;
+}
+
+export interface AppealEntry extends Omit<Appeal, 'evidenceLinks'> {
+  evidenceLinks: string[];
+}
+
+/**
+ * Appeal context passed to the AI in `userData.appeal` of a re-evaluation flow
+ */
+export interface AppealContext {
+  statement: string;
+  evidenceLinks: string[];
+}
+
+const OPEN_STATUSES = [AppealStatus.PENDING, AppealStatus.REEVALUATING];
+
+function toAppealEntry(appeal: Appeal): AppealEntry {
+  return { ...appeal, evidenceLinks: JSON.parse(appeal.evidenceLinks) };
+}
+
+function validateEvidenceLinks(links: unknown): string[] {
+  if (links === undefined) {
+    return [];
+  }
+  if (!Array.isArray(links) || links.length > MAX_APPEAL_EVIDENCE_LINKS) {
+    throw new AppealError(`evidenceLinks must be an array of at most ${MAX_APPEAL_EVIDENCE_LINKS} URLs`);
+  }
+  return links.map(link => {
+    try {
+      const url = new URL(String(link));
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error();
+      }
+      return url.toString();
+    } catch {
+      throw new AppealError(`Invalid evidence link: ${link}`);
+    }
+  });
+}
+
+export class AppealService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Submit an appeal of the current user
+   * @param userId - The appealing user
+   * @param submission - Statement, evidence and what is appealed
+   * @throws AppealError if the appeal is invalid or the user already has an open appeal
+   */
+  async submitAppeal(userId: number, submission: AppealSubmission): Promise<AppealEntry> {
+    if (!Object.values(AppealKind).includes(submission.kind)) {
+      throw new AppealError(`kind must be one of: ${Object.values(AppealKind).join(', ')}`);
+    }
+    const statement = typeof submission.statement === 'string' ? submission.statement.trim() : '';
+    if (!statement || statement.length > MAX_APPEAL_STATEMENT_LENGTH) {
+      throw new AppealError(`statement is required and must be at most ${MAX_APPEAL_STATEMENT_LENGTH} characters`);
+    }
+    const evidenceLinks = validateEvidenceLinks(submission.evidenceLinks);
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { bannedTill: true, shareInGDP: true }
+    });
+    if (!user) {
+      throw new AppealError('User not found', 404);
+    }
+    if (submission.kind === AppealKind.BAN && !(user.bannedTill && user.bannedTill > new Date())) {
+      throw new AppealError('You are not banned');
+    }
+    if (submission.kind === AppealKind.ASSESSMENT && user.shareInGDP === null) {
+      throw new AppealError('You have not been assessed yet');
+    }
+
+    const openAppeal = await this.prisma.appeal.findFirst({
+      where: { userId, status: { in: OPEN_STATUSES } }
+    });
+    if (openAppeal) {
+      throw new AppealError('You already have an appeal under review', 409);
+    }
+
+    const taskId = submission.taskId ?? await this.findAppealedTaskId(userId, submission.kind);
+    if (taskId !== undefined) {
+      const task = await this.prisma.task.findUnique({ where: { id: taskId }, include: { flow: true } });
+      if (!task || task.flow?.userId !== userId) {
+        throw new AppealError('The appealed task is not one of your tasks');
+      }
+    }
+
+    const appeal = await this.prisma.appeal.create({
+      data: {
+        userId,
+        kind: submission.kind,
+        taskId,
+        statement,
+        evidenceLinks: JSON.stringify(evidenceLinks)
+      }
+    });
+    console.log(`📨 Appeal ${appeal.id} (${appeal.kind}) submitted by user ${userId}`);
+    return toAppealEntry(appeal);
+  }
+
+  /**
+   * The latest task that banned or assessed the user
+   */
+  private async findAppealedTaskId(userId: number, kind: AppealKind): Promise<number | undefined> {
+    const task = await this.prisma.task.findFirst({
+      where: kind === AppealKind.BAN
+        ? {
+          runnerClassName: 'PromptInjectionRunner',
+          status: TaskStatus.CANCELLED,
+          flow: { userId },
+          runnerData: { contains: '"hasPromptInjectionOrPlagiarism":true' }
+        }
+        : {
+          runnerClassName: 'MedianRunner',
+          status: TaskStatus.COMPLETED,
+          flow: { userId }
+        },
+      orderBy: { updatedAt: 'desc' }
+    });
+    return task?.id;
+  }
+
+  /**
+   * Get the appeals of a user, newest first
+   */
+  async getUserAppeals(userId: number): Promise<AppealEntry[]> {
+    const appeals = await this.prisma.appeal.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+    return appeals.map(toAppealEntry);
+  }
+
+  /**
+   * Get the appeals waiting for review, oldest first
+   * @param status - Status of the appeals to list
+   */
+  async getReviewQueue(status: AppealStatus = AppealStatus.PENDING) {
+    const appeals = await this.prisma.appeal.findMany({
+      where: { status },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true, bannedTill: true, shareInGDP: true }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+    return appeals.map(appeal => ({ ...toAppealEntry(appeal), user: appeal.user }));
+  }
+
+  /**
+   * Decide on a pending appeal
+   * - `uphold`: the ban or assessment stands
+   * - `lift`: lift the ban (ban appeals only)
+   * - `reevaluate`: run a new evaluation flow with the appeal added to the context;
+   *   a ban stays in place until the flow completes without detecting prompt injection, see `finishReevaluation`
+   * @param appealId - The appeal
+   * @param reviewerId - The admin deciding
+   * @param decision - The decision
+   * @param note - Reviewer's explanation, shown to the user
+   * @throws AppealError if the appeal doesn't exist, isn't pending or the decision doesn't apply to it
+   */
+  async resolveAppeal(appealId: number, reviewerId: number, decision: AppealDecision, note?: string): Promise<AppealEntry> {
+    const appeal = await this.prisma.appeal.findUnique({ where: { id: appealId } });
+    if (!appeal) {
+      throw new AppealError('Appeal not found', 404);
+    }
+    if (appeal.status !== AppealStatus.PENDING) {
+      throw new AppealError(`Appeal is already ${appeal.status}`, 409);
+    }
+
+    let updated: Appeal;
+    switch (decision) {
+      case 'uphold':
+        updated = await this.prisma.appeal.update({
+          where: { id: appealId },
+          data: { status: AppealStatus.UPHELD, reviewerId, reviewerNote: note, resolvedAt: new Date() }
+        });
+        break;
+
+      case 'lift':
+        if (appeal.kind !== AppealKind.BAN) {
+          throw new AppealError('Only bans can be lifted');
+        }
+        updated = await this.prisma.$transaction(async (tx) => {
+          await tx.user.update({ where: { id: appeal.userId }, data: { bannedTill: null } });
+          return await tx.appeal.update({
+            where: { id: appealId },
+            data: { status: AppealStatus.LIFTED, reviewerId, reviewerNote: note, resolvedAt: new Date() }
+          });
+        });
+        break;
+
+      case 'reevaluate':
+        updated = await this.startReevaluation(appeal, reviewerId, note);
+        break;
+
+      default:
+        throw new AppealError('decision must be one of: uphold, lift, reevaluate');
+    }
+
+    console.log(`⚖️ Appeal ${appealId} resolved by user ${reviewerId}: ${decision} → ${updated.status}`);
+    return toAppealEntry(updated);
+  }
+
+  /**
+   * Create the re-evaluation flow of an appeal; the caller runs the pending tasks
+   */
+  private async startReevaluation(appeal: Appeal, reviewerId: number, note?: string): Promise<Appeal> {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: appeal.userId },
+      select: {
+        orcidId: true,
+        githubHandle: true,
+        bitbucketHandle: true,
+        gitlabHandle: true,
+        name: true,
+        email: true,
+        shareInGDP: true
+      }
+    });
+
+    const appealContext: AppealContext = {
+      statement: appeal.statement,
+      evidenceLinks: JSON.parse(appeal.evidenceLinks)
+    };
+    const evaluationData: UserEvaluationData = {
+      userId: appeal.userId,
+      appealId: appeal.id,
+      userData: {
+        orcidId: user.orcidId || undefined,
+        githubHandle: user.githubHandle || undefined,
+        bitbucketHandle: user.bitbucketHandle || undefined,
+        gitlabHandle: user.gitlabHandle || undefined,
+        name: user.name || undefined,
+        email: user.email || undefined,
+        appeal: appealContext
+      }
+    };
+
+    let reevaluationTaskId: number;
+    try {
+      ({ rootTaskId: reevaluationTaskId } = await new UserEvaluationFlow(this.prisma).createEvaluationFlow(evaluationData));
+    } catch (error) {
+      if (error instanceof EvaluationFlowError) {
+        throw new AppealError(error.message, error.statusCode);
+      }
+      throw error;
+    }
+    return await this.prisma.appeal.update({
+      where: { id: appeal.id },
+      data: {
+        status: AppealStatus.REEVALUATING,
+        reviewerId,
+        reviewerNote: note,
+        reevaluationTaskId,
+        previousShareInGDP: user.shareInGDP
+      }
+    });
+  }
+
+  /**
+   * Record the share in GDP computed by the re-evaluation of an appeal
+   * @param appealId - The appeal
+   * @param newShareInGDP - The new effective share in GDP
+   */
+  async recordReevaluationScore(appealId: number, newShareInGDP: number): Promise<void> {
+    await this.prisma.appeal.updateMany({
+      where: { id: appealId, status: AppealStatus.REEVALUATING },
+      data: { status: AppealStatus.RESCORED, newShareInGDP, resolvedAt: new Date() }
+    });
+    console.log(`⚖️ Appeal ${appealId} re-scored: shareInGDP = ${newShareInGDP}`);
+  }
+
+  /**
+   * Record that the result of the re-evaluation of an appeal was too uncertain and rejected on review
+   * (see `WorthReviewService`), so the appealed share in GDP stands
+   * @param appealId - The appeal
+   * @param note - Explanation of the worth reviewer
+   */
+  async recordReevaluationRejected(appealId: number, note?: string): Promise<void> {
+    const appeal = await this.prisma.appeal.findUnique({ where: { id: appealId } });
+    if (!appeal || appeal.status !== AppealStatus.REEVALUATING) {
+      return;
+    }
+    await this.prisma.appeal.update({
+      where: { id: appealId },
+      data: {
+        status: AppealStatus.UPHELD,
+        reviewerNote: [appeal.reviewerNote, `Re-evaluation result rejected on review${note ? `: ${note}` : ''}`]
+          .filter(Boolean).join('\n'),
+        resolvedAt: new Date()
+      }
+    });
+    console.log(`⚖️ Appeal ${appealId} upheld: re-evaluation result rejected on review`);
+  }
+
+  /**
+   * Settle an appeal once its re-evaluation flow is closed, see `UserEvaluationFlow.closeFinishedFlows`:
+   * - ban appeals: the ban is lifted only if the flow completed and all its prompt injection checks passed;
+   *   otherwise it stands and the appeal goes back to the review queue, unless the re-evaluation upheld it already
+   * - assessment appeals: the appeal goes back to the review queue if the flow failed before re-scoring it
+   * @param appealId - The appeal
+   * @param flow - The closed re-evaluation flow
+   */
+  async finishReevaluation(appealId: number, flow: { id: number; completed: boolean }): Promise<void> {
+    const appeal = await this.prisma.appeal.findUnique({ where: { id: appealId } });
+    if (!appeal) {
+      return;
+    }
+
+    if (appeal.kind === AppealKind.ASSESSMENT) {
+      if (!flow.completed && appeal.status === AppealStatus.REEVALUATING) {
+        await this.returnToReviewQueue(appeal, flow.id, 'Re-evaluation failed; the assessment stands until reviewed again');
+      }
+      return;
+    }
+
+    if (appeal.status !== AppealStatus.REEVALUATING && appeal.status !== AppealStatus.RESCORED) {
+      return;
+    }
+    const uncleanInjectionChecks = await this.prisma.task.count({
+      where: { flowId: flow.id, runnerClassName: 'PromptInjectionRunner', status: { not: TaskStatus.COMPLETED } }
+    });
+    if (flow.completed && uncleanInjectionChecks === 0) {
+      await this.prisma.user.update({ where: { id: appeal.userId }, data: { bannedTill: null } });
+      console.log(`⚖️ Appeal ${appealId}: ban of user ${appeal.userId} lifted after a clean re-evaluation`);
+      return;
+    }
+    await this.returnToReviewQueue(appeal, flow.id, 'Re-evaluation did not complete cleanly; the ban stands until reviewed again');
+  }
+
+  /**
+   * Put an appeal whose re-evaluation went wrong back in the review queue, so that an admin decides again
+   */
+  private async returnToReviewQueue(appeal: Appeal, flowId: number, note: string): Promise<void> {
+    await this.prisma.appeal.update({
+      where: { id: appeal.id },
+      data: {
+        status: AppealStatus.PENDING,
+        reviewerNote: [appeal.reviewerNote, note].filter(Boolean).join('\n'),
+        resolvedAt: null
+      }
+    });
+    console.log(`⚖️ Appeal ${appeal.id} back in the review queue: re-evaluation flow ${flowId} did not complete cleanly`);
+  }
+
+  /**
+   * Record that the re-evaluation of an appeal detected prompt injection again (the user is banned again)
+   * @param appealId - The appeal
+   * @param reason - Reason given by the prompt injection check
+   */
+  async recordReevaluationBan(appealId: number, reason: string): Promise<void> {
+    // Can follow `recordReevaluationScore`, as the median may complete before the last injection check.
+    const appeal = await this.prisma.appeal.findUnique({ where: { id: appealId } });
+    if (!appeal || (appeal.status !== AppealStatus.REEVALUATING && appeal.status !== AppealStatus.RESCORED)) {
+      return;
+    }
+    await this.prisma.appeal.update({
+      where: { id: appealId },
+      data: {
+        status: AppealStatus.UPHELD,
+        reviewerNote: [appeal.reviewerNote, `Re-evaluation detected prompt injection again: ${reason}`]
+          .filter(Boolean).join('\n'),
+        resolvedAt: new Date()
+      }
+    });
+    console.log(`⚖️ Appeal ${appealId} upheld by re-evaluation: ${reason}`);
+  }
+}
@@ -0,0 +1,56 @@
+import { PrismaClient } from '@prisma/client';
+
+export interface AuditLogEntry {
+  userId: number | null;
+  role: string;
+  /** Method and path, e.g. `POST /api/cleanup/execute` */
+  action: string;
+  params?: Record<string, unknown>;
+  statusCode?: number;
+  ip?: string;
+}
+
+/** Request fields never stored in the audit log */
+const SECRET_FIELD = /token|password|secret|key|signature/i;
+
+/**
+ * Copy request parameters without the fields that look like secrets
+ */
+export function redactAuditParams(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactAuditParams);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, SECRET_FIELD.test(key) ? '[redacted]' : redactAuditParams(item)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Record of who invoked which operational route, see `requireRole`
+ */
+export class AuditLogService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Record an invocation
+   */
+  async record(entry: AuditLogEntry): Promise<void> {
+    await this.prisma.auditLog.create({
+      data: {
+        userId: entry.userId,
+        role: entry.role,
+        action: entry.action,
+        params: entry.params ? JSON.stringify(redactAuditParams(entry.params)) : null,
+        statusCode: entry.statusCode,
+        ip: entry.ip
+      }
+    });
+  }
+}
@@ -1,23 +1,27 @@
 import { PrismaClient } from '@prisma/client';
 import * as cron from 'node-cron';
-import { UserEvaluationFlow, UserEvaluationData } from './UserEvaluationFlow.js';
-import { TaskManager } from './TaskManager.js';
+import { EvaluationCycleType, UserEvaluationFlow, UserEvaluationData } from './UserEvaluationFlow.js';
 import { MultiNetworkGasTokenDistributionService } from './MultiNetworkGasTokenDistributionService.js';
+import { DistributionPlanService, DistributionPlanStatus } from './DistributionPlanService.js';
 import { DisconnectedAccountCleanupService } from './DisconnectedAccountCleanupService.js';
+import { AIBudgetState, getAIBudgetStatus } from './aiBudget.js';
 
 export class CronService {
   private prisma: PrismaClient;
   private userEvaluationFlow: UserEvaluationFlow;
   private multiNetworkGasTokenDistributionService: MultiNetworkGasTokenDistributionService;
+  private distributionPlanService: DistributionPlanService;
   private disconnectedAccountCleanupService: DisconnectedAccountCleanupService;
   private cronJob: cron.ScheduledTask | null = null;
   private weeklyGasDistributionJob: cron.ScheduledTask | null = null;
   private monthlyCleanupJob: cron.ScheduledTask | null = null;
+  private transferReconciliationJob: cron.ScheduledTask | null = null;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
     this.userEvaluationFlow = new UserEvaluationFlow(prisma);
     this.multiNetworkGasTokenDistributionService = new MultiNetworkGasTokenDistributionService(prisma);
+    this.distributionPlanService = new DistributionPlanService(prisma, this.multiNetworkGasTokenDistributionService);
     this.disconnectedAccountCleanupService = new DisconnectedAccountCleanupService(prisma);
   }
 
@@ -97,6 +101,41 @@ export class CronService {
     }
   }
 
+  /**
+   * Start the cron job reconciling sent gas token transfers with their on-chain status
+   * Runs every 10 minutes
+   */
+  startTransferReconciliationCron() {
+    if (this.transferReconciliationJob) {
+      console.log('⚠️  Transfer reconciliation cron job is already running');
+      return;
+    }
+
+    this.transferReconciliationJob = cron.schedule('*/10 * * * *', async () => {
+      try {
+        await this.multiNetworkGasTokenDistributionService.reconcilePendingTransfers();
+      } catch (error) {
+        console.error('💥 Fatal error in transfer reconciliation:', error);
+      }
+    }, {
+      timezone: 'UTC'
+    });
+
+    this.transferReconciliationJob.start();
+    console.log('✅ Transfer reconciliation cron job started (runs every 10 minutes)');
+  }
+
+  /**
+   * Stop the transfer reconciliation cron job
+   */
+  stopTransferReconciliationCron() {
+    if (this.transferReconciliationJob) {
+      this.transferReconciliationJob.stop();
+      this.transferReconciliationJob = null;
+      console.log('⏹️  Transfer reconciliation cron job stopped');
+    }
+  }
+
   /**
    * Start the monthly cron job for disconnected account cleanup
    * Runs on the 1st of every month at 4:00 AM UTC
@@ -138,19 +177,37 @@ export class CronService {
   /**
    * Manually trigger the weekly gas token distribution process
    * This can be called via API endpoint for testing
+   * Creates a distribution plan; with DISTRIBUTION_AUTO_APPROVE=false the plan waits for an operator
+   * to approve and execute it (see /api/multi-network-gas/plans), otherwise it is executed right away
    */
   async runWeeklyGasDistribution() {
     console.log('🔄 Starting weekly multi-network token distribution process...');
-    
+
     try {
-      const result = await this.multiNetworkGasTokenDistributionService.processMultiNetworkDistribution();
-      
+      const plan = await this.distributionPlanService.createPlan();
+
+      if (!this.distributionPlanService.autoApprove) {
+        console.log(`⏸️  Distribution plan ${plan.id} is waiting for an operator to approve it`);
+        return plan;
+      }
+
+      await this.distributionPlanService.approvePlan(plan.id, null);
+      const executed = await this.distributionPlanService.executePlan(plan.id);
+
+      if (executed.status !== DistributionPlanStatus.EXECUTED) {
+        console.error(`❌ Weekly multi-network token distribution not executed: plan ${plan.id} is ${executed.status}`);
+        console.error(`  - ${executed.errorMessage}`);
+        return executed;
+      }
+
+      const result = executed.result!;
+
       if (result.success) {
         console.log('✅ Weekly multi-network token distribution completed successfully');
-        console.log(`💰 Total distributed: ${result.totalDistributedAmount.toFixed(6)} tokens`);
-        console.log(`🏦 Total reserved: ${result.totalReservedAmount.toFixed(6)} tokens`);
+        console.log(`💰 Total distributed: ${result.totalDistributed.toFixed(6)} tokens`);
+        console.log(`🏦 Total reserved: ${result.totalReserved.toFixed(6)} tokens`);
         
-        for (const [networkName, networkResult] of result.networkResults) {
+        for (const [networkName, networkResult] of Object.entries(result.networkResults)) {
           console.log(
             `🌐 [${networkName}]: ${networkResult.distributedAmount.toFixed(6)} ${networkResult.tokenSymbol} distributed, ${networkResult.reservedAmount.toFixed(6)} ${networkResult.tokenSymbol} reserved`
           );
@@ -165,7 +222,7 @@ export class CronService {
         result.errors.forEach(error => console.error(`  - ${error}`));
       }
 
-      return result;
+      return executed;
     } catch (error) {
       console.error('💥 Fatal error in weekly multi-network token distribution process:', error);
       throw error;
@@ -246,10 +303,20 @@ export class CronService {
       const results = {
         successful: 0,
         failed: 0,
+        skippedForBudget: 0,
         errors: [] as string[]
       };
 
-      for (const user of eligibleUsers) {
+      for (const [index, user] of eligibleUsers.entries()) {
+        // The flows created before are still running: their estimated cost is reserved until their outputs arrive
+        const budget = await getAIBudgetStatus(this.prisma);
+        const committedUSD = budget.spentUSD + budget.reservedUSD;
+        if (budget.state === AIBudgetState.HARD_CAP_EXCEEDED) {
+          results.skippedForBudget = eligibleUsers.length - index;
+          console.warn(`💸 Monthly AI budget exhausted ($${budget.spentUSD.toFixed(2)} spent and $${budget.reservedUSD.toFixed(2)} reserved of $${budget.hardCapUSD}), ${results.skippedForBudget} user(s) left for next month`);
+          break;
+        }
+
         try {
           console.log(`🔄 Creating evaluation flow for user ${user.id} (${user.name || user.email || 'Unknown'})`);
           
@@ -262,18 +329,21 @@ export class CronService {
               gitlabHandle: user.gitlabHandle || undefined,
               name: user.name || undefined,
               email: user.email || undefined
-            }
+            },
+            aiModel: budget.downgradeModel
           };
+          if (budget.downgradeModel) {
+            console.log(`💸 Soft AI budget cap exceeded ($${committedUSD.toFixed(2)} of $${budget.softCapUSD}), using ${budget.downgradeModel}`);
+          }
 
           // Create evaluation flow (without scientist onboarding since user is already onboarded)
-          const rootTaskId = await this.userEvaluationFlow.createEvaluationFlow(evaluationData);
+          const { flowId, rootTaskId } = await this.userEvaluationFlow.createEvaluationFlow(
+            evaluationData,
+            EvaluationCycleType.PERIODIC
+          );
           
-          console.log(`✅ Created evaluation flow for user ${user.id}, root task ID: ${rootTaskId}`);
+          console.log(`✅ Created evaluation flow ${flowId} for user ${user.id}, root task ID: ${rootTaskId}`);
           results.successful++;
-
-          const taskManager = new TaskManager(this.prisma);
-          const success = await taskManager.runAllPendingTasks();
-      
         } catch (error) {
           const errorMessage = `Failed to create evaluation flow for user ${user.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
           console.error(`❌ ${errorMessage}`);
@@ -285,6 +355,9 @@ export class CronService {
       console.log('📊 Bi-monthly evaluation process completed:');
       console.log(`  ✅ Successful: ${results.successful}`);
       console.log(`  ❌ Failed: ${results.failed}`);
+      if (results.skippedForBudget > 0) {
+        console.log(`  💸 Skipped for budget: ${results.skippedForBudget}`);
+      }
       
       if (results.errors.length > 0) {
         console.log('  🚨 Errors:');
@@ -316,6 +389,10 @@ export class CronService {
         isRunning: this.monthlyCleanupJob !== null,
         nextRun: this.monthlyCleanupJob ? this.getNextMonthlyCleanupRunTime() : null,
         schedule: '0 4 1 * * (1st of every month at 4:00 AM UTC)'
+      },
+      transferReconciliation: {
+        isRunning: this.transferReconciliationJob !== null,
+        schedule: '*/10 * * * * (Every 10 minutes)'
       }
     };
   }
@@ -421,5 +498,6 @@ export class CronService {
     this.stopBiMonthlyEvaluationCron();
     this.stopWeeklyGasDistributionCron();
     this.stopMonthlyCleanupCron();
+    this.stopTransferReconciliationCron();
   }
 }
@@ -1,8 +1,10 @@
 import { PrismaClient, OpenAILog, Task, User, Session } from '@prisma/client';
+import { AIUsageStats, getAIUsageStats } from './aiUsage.js';
+import { AIBudgetStatus, getAIBudgetStatus } from './aiBudget.js';
 
 export interface DBLogEntry {
   id: string;
-  type: 'openai' | 'task' | 'user' | 'session';
+  type: 'openai' | 'task' | 'user' | 'session' | 'appeal' | 'audit';
   timestamp: Date;
   userId?: number;
   taskId?: number;
@@ -15,7 +17,7 @@ export interface DBLogEntry {
 export interface LogsFilter {
   userId?: number;
   taskId?: number;
-  type?: 'openai' | 'task' | 'user' | 'session';
+  type?: 'openai' | 'task' | 'user' | 'session' | 'appeal' | 'audit';
   startDate?: Date;
   endDate?: Date;
   limit?: number;
@@ -59,6 +61,18 @@ export class DBLogsService {
       logs.push(...sessionLogs);
     }
 
+    // Get Appeal logs
+    if (!filter.type || filter.type === 'appeal') {
+      const appealLogs = await this.getAppealLogs(filter);
+      logs.push(...appealLogs);
+    }
+
+    // Get Audit logs
+    if (!filter.type || filter.type === 'audit') {
+      const auditLogs = await this.getAuditLogs(filter);
+      logs.push(...auditLogs);
+    }
+
     // Sort by timestamp (newest first)
     logs.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
 
@@ -163,10 +177,8 @@ export class DBLogsService {
     const where: any = {};
     
     if (filter.userId) {
-      // Find tasks that contain this userId in their runnerData
-      where.runnerData = {
-        contains: `"userId":${filter.userId}`
-      };
+      // Tasks of the evaluation flows of this user
+      where.flow = { userId: filter.userId };
     }
     
     if (filter.taskId) {
@@ -210,7 +222,9 @@ export class DBLogsService {
         status: task.status,
         createdAt: task.createdAt,
         updatedAt: task.updatedAt,
-        completedAt: task.completedAt
+        completedAt: task.completedAt,
+        attempts: task.attempts,
+        retryAt: task.retryAt
       };
 
       // Parse runner data to extract more details
@@ -247,7 +261,9 @@ export class DBLogsService {
         action,
         details,
         status: task.status,
-        error: task.status === 'CANCELLED' ? 'Task was cancelled' : undefined
+        error: task.status === 'CANCELLED' ? 'Task was cancelled'
+          : task.status === 'FAILED' || task.status === 'RETRY_WAIT' ? task.lastError ?? 'Task failed'
+          : undefined
       };
     });
   }
@@ -376,22 +392,156 @@ export class DBLogsService {
   }
 
   /**
-   * Get log statistics
+   * Get Appeal logs: submissions and their outcomes (upheld, lifted, re-scored)
+   */
+  private async getAppealLogs(filter: LogsFilter): Promise<DBLogEntry[]> {
+    const where: any = {};
+    
+    if (filter.userId) {
+      where.userId = filter.userId;
+    }
+    
+    if (filter.taskId) {
+      where.OR = [
+        { taskId: filter.taskId },
+        { reevaluationTaskId: filter.taskId }
+      ];
+    }
+    
+    if (filter.startDate || filter.endDate) {
+      where.createdAt = {};
+      if (filter.startDate) {
+        where.createdAt.gte = filter.startDate;
+      }
+      if (filter.endDate) {
+        where.createdAt.lte = filter.endDate;
+      }
+    }
+
+    const appeals = await this.prisma.appeal.findMany({
+      where,
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        },
+        reviewer: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    return appeals.map(appeal => ({
+      id: `appeal-${appeal.id}`,
+      type: 'appeal' as const,
+      timestamp: appeal.resolvedAt ?? appeal.createdAt,
+      userId: appeal.userId,
+      taskId: appeal.taskId || undefined,
+      action: `Appeal against ${appeal.kind === 'BAN' ? 'ban' : 'assessment'}`,
+      details: {
+        id: appeal.id,
+        kind: appeal.kind,
+        statement: appeal.statement,
+        evidenceLinks: JSON.parse(appeal.evidenceLinks),
+        reviewer: appeal.reviewer,
+        reviewerNote: appeal.reviewerNote,
+        reevaluationTaskId: appeal.reevaluationTaskId,
+        previousShareInGDP: appeal.previousShareInGDP,
+        newShareInGDP: appeal.newShareInGDP,
+        createdAt: appeal.createdAt,
+        resolvedAt: appeal.resolvedAt,
+        user: appeal.user
+      },
+      status: appeal.status
+    }));
+  }
+
+  /**
+   * Get Audit logs: who invoked which operational route
+   */
+  private async getAuditLogs(filter: LogsFilter): Promise<DBLogEntry[]> {
+    const where: any = {};
+    
+    if (filter.userId) {
+      where.userId = filter.userId;
+    }
+    
+    if (filter.startDate || filter.endDate) {
+      where.createdAt = {};
+      if (filter.startDate) {
+        where.createdAt.gte = filter.startDate;
+      }
+      if (filter.endDate) {
+        where.createdAt.lte = filter.endDate;
+      }
+    }
+
+    const auditLogs = await this.prisma.auditLog.findMany({
+      where,
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    return auditLogs.map(log => ({
+      id: `audit-${log.id}`,
+      type: 'audit' as const,
+      timestamp: log.createdAt,
+      userId: log.userId || undefined,
+      action: log.action,
+      details: {
+        role: log.role,
+        params: log.params ? JSON.parse(log.params) : null,
+        statusCode: log.statusCode,
+        ip: log.ip,
+        user: log.user
+      },
+      status: log.statusCode === 403 ? 'denied' : 'allowed',
+      error: log.statusCode && log.statusCode >= 400 ? `HTTP ${log.statusCode}` : undefined
+    }));
+  }
+
+  /**
+   * Get log statistics, including the usage and cost of the AI requests
+   * @param aiUsageSince - Only count the AI requests initiated since then, if given
    */
-  async getLogStats(): Promise<{
+  async getLogStats(aiUsageSince?: Date): Promise<{
     totalLogs: number;
     logsByType: Record<string, number>;
     logsByUser: Record<number, number>;
     recentActivity: number;
+    aiUsage: AIUsageStats;
+    aiBudget: AIBudgetStatus;
   }> {
-    const [openaiCount, taskCount, userCount, sessionCount] = await Promise.all([
+    const [openaiCount, taskCount, userCount, sessionCount, appealCount, auditCount] = await Promise.all([
       this.prisma.openAILog.count(),
       this.prisma.task.count(),
       this.prisma.user.count(),
-      this.prisma.session.count()
+      this.prisma.session.count(),
+      this.prisma.appeal.count(),
+      this.prisma.auditLog.count()
     ]);
 
-    const totalLogs = openaiCount + taskCount + userCount + sessionCount;
+    const totalLogs = openaiCount + taskCount + userCount + sessionCount + appealCount + auditCount;
 
     // Get logs by user (from OpenAI logs and tasks)
     const userLogCounts = await this.prisma.openAILog.groupBy({
@@ -431,10 +581,14 @@ export class DBLogsService {
         openai: openaiCount,
         task: taskCount,
         user: userCount,
-        session: sessionCount
+        session: sessionCount,
+        appeal: appealCount,
+        audit: auditCount
       },
       logsByUser,
-      recentActivity
+      recentActivity,
+      aiUsage: await getAIUsageStats(this.prisma, aiUsageSince),
+      aiBudget: await getAIBudgetStatus(this.prisma)
     };
   }
 }
@@ -0,0 +1,284 @@
+import { DistributionPlan, PrismaClient } from '@prisma/client';
+import type { TokenDistributionOptions } from './gas-networks/types.js';
+import {
+  DistributionPlanStaleError,
+  MultiNetworkDistributionPlan,
+  MultiNetworkGasTokenDistributionService,
+  NetworkDistributionPlan,
+  NetworkDistributionResult
+} from './MultiNetworkGasTokenDistributionService.js';
+
+export enum DistributionPlanStatus {
+  PENDING_APPROVAL = 'PENDING_APPROVAL', // Waiting for an operator
+  APPROVED = 'APPROVED', // Ready to execute
+  EXECUTING = 'EXECUTING', // Transfers are being sent
+  EXECUTED = 'EXECUTED', // Transfers were sent, see `result`
+  FAILED = 'FAILED', // Execution raised an error, transfers may have been partially sent
+  REJECTED = 'REJECTED', // Refused by an operator
+  SUPERSEDED = 'SUPERSEDED', // A newer plan replaced it before execution
+  STALE = 'STALE' // Refused at execution, wallet balances changed since planning
+}
+
+export const DEFAULT_DISTRIBUTION_BALANCE_TOLERANCE = 0.05;
+
+/**
+ * Error in a distribution plan operation, to be reported to the client with `statusCode`
+ */
+export class DistributionPlanError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'DistributionPlanError';
+  }
+}
+
+/**
+ * Outcome of an executed plan, stored in `DistributionPlan.result`
+ */
+export interface DistributionPlanResult {
+  success: boolean;
+  totalDistributed: number;
+  totalReserved: number;
+  networkResults: Record<string, NetworkDistributionResult>;
+  errors: string[];
+}
+
+export interface DistributionPlanEntry extends Omit<DistributionPlan, 'networks' | 'result'> {
+  networks: NetworkDistributionPlan[];
+  result: DistributionPlanResult | null;
+}
+
+export interface DistributionPlanConfig {
+  /** Approve and execute the plans of the weekly cron job without an operator */
+  autoApprove: boolean;
+  /** Maximum relative change of a wallet balance between planning and execution */
+  balanceTolerance: number;
+}
+
+/**
+ * Read `DISTRIBUTION_AUTO_APPROVE` (default: true) and `DISTRIBUTION_BALANCE_TOLERANCE` (default: 0.05)
+ */
+export function readDistributionPlanConfig(): DistributionPlanConfig {
+  const tolerance = parseFloat(process.env.DISTRIBUTION_BALANCE_TOLERANCE ?? '');
+  return {
+    autoApprove: (process.env.DISTRIBUTION_AUTO_APPROVE ?? 'true').toLowerCase() !== 'false',
+    balanceTolerance: Number.isFinite(tolerance) && tolerance >= 0 ? tolerance : DEFAULT_DISTRIBUTION_BALANCE_TOLERANCE
+  };
+}
+
+const OPEN_STATUSES = [DistributionPlanStatus.PENDING_APPROVAL, DistributionPlanStatus.APPROVED];
+
+function toDistributionPlanEntry(plan: DistributionPlan): DistributionPlanEntry {
+  return {
+    ...plan,
+    networks: JSON.parse(plan.networks),
+    result: plan.result ? JSON.parse(plan.result) : null
+  };
+}
+
+/**
+ * Two-phase gas token distribution: a plan is computed and stored without moving funds,
+ * reviewed, and only sent once approved
+ */
+export class DistributionPlanService {
+  private prisma: PrismaClient;
+  private distributionService: MultiNetworkGasTokenDistributionService;
+  private config: DistributionPlanConfig;
+
+  constructor(
+    prisma: PrismaClient,
+    distributionService: MultiNetworkGasTokenDistributionService,
+    config: DistributionPlanConfig = readDistributionPlanConfig()
+  ) {
+    this.prisma = prisma;
+    this.distributionService = distributionService;
+    this.config = config;
+  }
+
+  get autoApprove(): boolean {
+    return this.config.autoApprove;
+  }
+
+  /**
+   * Compute and store a distribution plan; open older plans are superseded
+   * @param overrides - Token options
+   * @param createdById - The operator, or `null` for the cron job
+   */
+  async createPlan(
+    overrides?: Partial<TokenDistributionOptions>,
+    createdById: number | null = null
+  ): Promise<DistributionPlanEntry> {
+    const plan: MultiNetworkDistributionPlan = await this.distributionService.planDistribution(overrides);
+
+    const created = await this.prisma.$transaction(async (tx) => {
+      await tx.distributionPlan.updateMany({
+        where: { status: { in: OPEN_STATUSES } },
+        data: { status: DistributionPlanStatus.SUPERSEDED }
+      });
+      return await tx.distributionPlan.create({
+        data: {
+          tokenType: plan.tokenType,
+          networks: JSON.stringify(plan.networks),
+          createdById
+        }
+      });
+    });
+
+    console.log(`📝 Distribution plan ${created.id} created${createdById ? ` by user ${createdById}` : ''}`);
+    return toDistributionPlanEntry(created);
+  }
+
+  /**
+   * List plans, newest first
+   * @param status - Only plans with this status (optional)
+   * @param limit - Maximum number of plans
+   */
+  async listPlans(status?: DistributionPlanStatus, limit: number = 50): Promise<DistributionPlanEntry[]> {
+    const plans = await this.prisma.distributionPlan.findMany({
+      where: status ? { status } : undefined,
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+    return plans.map(toDistributionPlanEntry);
+  }
+
+  /**
+   * Get a plan
+   * @throws DistributionPlanError if the plan doesn't exist
+   */
+  async getPlan(planId: number): Promise<DistributionPlanEntry> {
+    const plan = await this.prisma.distributionPlan.findUnique({ where: { id: planId } });
+    if (!plan) {
+      throw new DistributionPlanError('Distribution plan not found', 404);
+    }
+    return toDistributionPlanEntry(plan);
+  }
+
+  /**
+   * Approve a plan waiting for an operator
+   * @param planId - The plan
+   * @param approvedById - The operator, or `null` when auto-approved by the cron job
+   * @throws DistributionPlanError if the plan doesn't exist or isn't waiting for approval
+   */
+  async approvePlan(planId: number, approvedById: number | null): Promise<DistributionPlanEntry> {
+    await this.transition(planId, DistributionPlanStatus.PENDING_APPROVAL, {
+      status: DistributionPlanStatus.APPROVED,
+      approvedById,
+      autoApproved: approvedById === null,
+      approvedAt: new Date()
+    });
+    console.log(`✅ Distribution plan ${planId} approved${approvedById ? ` by user ${approvedById}` : ' automatically'}`);
+    return await this.getPlan(planId);
+  }
+
+  /**
+   * Reject a plan waiting for an operator or approved but not executed
+   * @param planId - The plan
+   * @param userId - The operator
+   * @param reason - Why the plan is rejected (optional)
+   * @throws DistributionPlanError if the plan doesn't exist or can no longer be rejected
+   */
+  async rejectPlan(planId: number, userId: number, reason?: string): Promise<DistributionPlanEntry> {
+    await this.transition(planId, OPEN_STATUSES, {
+      status: DistributionPlanStatus.REJECTED,
+      errorMessage: reason || `Rejected by user ${userId}`
+    });
+    console.log(`🚫 Distribution plan ${planId} rejected by user ${userId}`);
+    return await this.getPlan(planId);
+  }
+
+  /**
+   * Send the transfers of an approved plan.
+   * The plan is marked STALE instead if a wallet balance changed beyond the tolerance since planning.
+   * @param planId - The plan
+   * @param resume - Resume a plan left EXECUTING or FAILED, e.g. by a crash: transfers already recorded
+   *   for the plan are skipped and wallet balances aren't compared, as part of the plan may have been sent
+   * @throws DistributionPlanError if the plan doesn't exist or isn't approved (or interrupted, when resuming)
+   */
+  async executePlan(planId: number, resume: boolean = false): Promise<DistributionPlanEntry> {
+    // Claimed atomically so that concurrent calls can't send the same plan twice
+    const planRow = await this.transition(
+      planId,
+      resume ? [DistributionPlanStatus.EXECUTING, DistributionPlanStatus.FAILED] : DistributionPlanStatus.APPROVED,
+      { status: DistributionPlanStatus.EXECUTING }
+    );
+    const plan: MultiNetworkDistributionPlan = {
+      tokenType: planRow.tokenType as MultiNetworkDistributionPlan['tokenType'],
+      networks: JSON.parse(planRow.networks),
+      totalPlannedAmount: 0,
+      totalDeferredAmount: 0
+    };
+
+    try {
+      const result = await this.distributionService.executeDistributionPlan(
+        planId,
+        plan,
+        resume ? undefined : this.config.balanceTolerance
+      );
+      await this.prisma.distributionPlan.update({
+        where: { id: planId },
+        data: {
+          status: DistributionPlanStatus.EXECUTED,
+          executedAt: new Date(),
+          result: JSON.stringify({
+            success: result.success,
+            totalDistributed: result.totalDistributedAmount,
+            totalReserved: result.totalReservedAmount,
+            networkResults: Object.fromEntries(result.networkResults),
+            errors: result.errors
+          } satisfies DistributionPlanResult),
+          errorMessage: result.errors.length > 0 ? result.errors.join('\n') : null
+        }
+      });
+      console.log(`💸 Distribution plan ${planId} executed`);
+    } catch (error) {
+      const stale = error instanceof DistributionPlanStaleError;
+      await this.prisma.distributionPlan.update({
+        where: { id: planId },
+        data: {
+          status: stale ? DistributionPlanStatus.STALE : DistributionPlanStatus.FAILED,
+          errorMessage: stale ? error.problems.join('\n') : (error instanceof Error ? error.message : String(error))
+        }
+      });
+      console.error(`❌ Distribution plan ${planId} not executed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return await this.getPlan(planId);
+  }
+
+  /**
+   * Plan, approve and execute a distribution in one step, without review
+   * @param overrides - Token options
+   * @param userId - The operator, or `null` for the cron job
+   */
+  async runImmediately(
+    overrides?: Partial<TokenDistributionOptions>,
+    userId: number | null = null
+  ): Promise<DistributionPlanEntry> {
+    const plan = await this.createPlan(overrides, userId);
+    await this.approvePlan(plan.id, userId);
+    return await this.executePlan(plan.id);
+  }
+
+  /**
+   * Change the status of a plan if it is still in one of the expected statuses
+   */
+  private async transition(
+    planId: number,
+    from: DistributionPlanStatus | DistributionPlanStatus[],
+    data: Partial<Omit<DistributionPlan, 'id' | 'createdAt' | 'updatedAt'>>
+  ): Promise<DistributionPlan> {
+    const expected = Array.isArray(from) ? from : [from];
+    const { count } = await this.prisma.distributionPlan.updateMany({
+      where: { id: planId, status: { in: expected } },
+      data
+    });
+    const plan = await this.prisma.distributionPlan.findUnique({ where: { id: planId } });
+    if (!plan) {
+      throw new DistributionPlanError('Distribution plan not found', 404);
+    }
+    if (count === 0) {
+      throw new DistributionPlanError(`Distribution plan is ${plan.status}, expected ${expected.join(' or ')}`, 409);
+    }
+    return plan;
+  }
+}
@@ -11,7 +11,9 @@ import {
     type Address,
     type Hash,
     type Chain,
-    defineChain
+    defineChain,
+    TransactionNotFoundError,
+    TransactionReceiptNotFoundError
 } from 'viem';
 import { mainnet, sepolia, polygon, arbitrum, optimism, base, localhost, celo, hedera } from 'viem/chains';
 import { privateKeyToAccount } from 'viem/accounts';
@@ -435,6 +437,39 @@ export class MultiNetworkEthereumService {
         });
     }
 
+    /**
+     * Get the state of a transaction on a specific network
+     * @returns CONFIRMED or FAILED once mined, PENDING while known to the node, DROPPED if unknown
+     */
+    public async getTransactionStatus(
+        networkName: string,
+        hash: Hash
+    ): Promise<'PENDING' | 'CONFIRMED' | 'FAILED' | 'DROPPED'> {
+        const client = this.networks.get(networkName);
+        if (!client) {
+            throw new Error(`Network ${networkName} not found or not enabled`);
+        }
+
+        try {
+            const receipt = await client.publicClient.getTransactionReceipt({ hash });
+            return receipt.status === 'success' ? 'CONFIRMED' : 'FAILED';
+        } catch (error) {
+            if (!(error instanceof TransactionReceiptNotFoundError)) {
+                throw error;
+            }
+        }
+
+        try {
+            await client.publicClient.getTransaction({ hash });
+            return 'PENDING';
+        } catch (error) {
+            if (error instanceof TransactionNotFoundError) {
+                return 'DROPPED';
+            }
+            throw error;
+        }
+    }
+
     /**
      * Get balance for all networks
      */
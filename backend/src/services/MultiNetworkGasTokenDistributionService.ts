@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import type { User } from '@prisma/client';
 import type { TokenType } from '../types/token.js';
 import { multiNetworkEthereumService } from './MultiNetworkEthereumService.js';
@@ -37,7 +37,7 @@ export interface NetworkDistributionResult {
   distributions: Array<{
     userId: number;
     amount: number;
-    status: 'SENT' | 'DEFERRED' | 'FAILED';
+    status: 'SENT' | 'DEFERRED' | 'FAILED' | 'SKIPPED';
     transactionHash?: string;
     errorMessage?: string;
     gasCostToken?: number;
@@ -57,6 +57,69 @@ export interface MultiNetworkDistributionResult {
   totalReserved?: number;
 }
 
+export interface PlannedTransfer {
+  userId: number;
+  recipientAddress: string;
+  amount: number;
+  /** Part of `amount` deferred by earlier distributions */
+  backlogToken: number;
+  gasCostToken?: number;
+  status: 'PLANNED' | 'DEFERRED';
+  deferReason?: string;
+}
+
+export interface NetworkDistributionPlan {
+  networkId: string;
+  networkName: string;
+  adapterType: string;
+  tokenSymbol: string;
+  tokenType: TokenType;
+  tokenDecimals: number;
+  /** Wallet balance when planning, compared at execution */
+  walletBalance: number;
+  reserve: number;
+  plannedAmount: number;
+  deferredAmount: number;
+  transfers: PlannedTransfer[];
+}
+
+export interface MultiNetworkDistributionPlan {
+  tokenType: TokenType;
+  networks: NetworkDistributionPlan[];
+  totalPlannedAmount: number;
+  totalDeferredAmount: number;
+}
+
+/**
+ * A distribution plan no longer matches the wallets, nothing was sent
+ */
+export class DistributionPlanStaleError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Distribution plan is stale: ${problems.join('; ')}`);
+    this.name = 'DistributionPlanStaleError';
+  }
+}
+
+/**
+ * Key of the single transfer (or deferral) of a user on a network in a plan
+ */
+export function buildTransferIdempotencyKey(planId: number, userId: number, networkId: string): string {
+  return `plan:${planId}:user:${userId}:network:${networkId}`;
+}
+
+export interface TransferReconciliationResult {
+  checked: number;
+  confirmed: number;
+  failed: number;
+  dropped: number;
+  pending: number;
+  /** PREPARED rows without transaction hash, interrupted around broadcast; to be checked by an operator */
+  unresolved: number[];
+  errors: string[];
+}
+
+export const DEFAULT_TRANSFER_DROP_TIMEOUT_MINUTES = 30;
+
 type ReserveStatusEntry = {
   tokenSymbol: string;
   tokenType: TokenType;
@@ -82,6 +145,12 @@ type AdapterContextEntry = {
   context: GasTokenNetworkContext;
 };
 
+type NetworkDistributionInput = AdapterContextEntry & {
+  distributions: DistributionFiber[];
+  walletBalance: number;
+  reserve: number;
+};
+
 export class MultiNetworkGasTokenDistributionService {
   private prisma: PrismaClient;
   private readonly GAS_COST_VALUE_MULTIPLIER = 5;
@@ -151,6 +220,10 @@ export class MultiNetworkGasTokenDistributionService {
     };
   }
 
+  /**
+   * Onboarded users with a share in GDP.
+   * `User.shareInGDP` is the effective (smoothed) value, see `ShareInGdpService`; raw values are in `ShareInGdpHistory`.
+   */
   private async fetchEligibleUsers(): Promise<User[]> {
     return await this.prisma.user.findMany({
       where: {
@@ -176,8 +249,19 @@ export class MultiNetworkGasTokenDistributionService {
     return reserve ? Number(reserve.totalReserve) : 0;
   }
 
-  private async updateGasTokenReserve(context: GasTokenNetworkContext, amount: number): Promise<void> {
-    await this.prisma.gasTokenReserve.upsert({
+  /**
+   * Add an amount to the reserve of a token, atomically, so that it doesn't race with other credits
+   * (e.g. `reconcilePendingTransfers`); run it in the transaction recording why the amount is reserved
+   * @param client - Prisma client or transaction
+   * @param context - The network and token
+   * @param amount - The amount to add (0 only records the distribution time)
+   */
+  private async creditGasTokenReserve(
+    client: PrismaClient | Prisma.TransactionClient,
+    context: GasTokenNetworkContext,
+    amount: number
+  ): Promise<void> {
+    await client.gasTokenReserve.upsert({
       where: {
         network_tokenSymbol_tokenType: {
           network: context.networkId,
@@ -186,7 +270,7 @@ export class MultiNetworkGasTokenDistributionService {
         }
       },
       update: {
-        totalReserve: amount,
+        totalReserve: { increment: amount },
         lastDistribution: new Date(),
         tokenDecimals: context.tokenDecimals
       },
@@ -203,29 +287,13 @@ export class MultiNetworkGasTokenDistributionService {
 
   private async calculateDistributions(
     tokenOptions: TokenDistributionOptions
-  ): Promise<
-    Map<
-      string,
-      {
-        adapter: GasTokenNetworkAdapter;
-        context: GasTokenNetworkContext;
-        distributions: DistributionFiber[];
-      }
-    >
-  > {
+  ): Promise<Map<string, NetworkDistributionInput>> {
     const users = await this.fetchEligibleUsers();
     if (users.length === 0) {
       return new Map();
     }
 
-    const networkDistributions = new Map<
-      string,
-      {
-        adapter: GasTokenNetworkAdapter;
-        context: GasTokenNetworkContext;
-        distributions: DistributionFiber[];
-      }
-    >();
+    const networkDistributions = new Map<string, NetworkDistributionInput>();
 
     for (const adapter of this.networkAdapters) {
       let contexts: GasTokenNetworkContext[] = [];
@@ -252,7 +320,9 @@ export class MultiNetworkGasTokenDistributionService {
           networkDistributions.set(context.networkId, {
             adapter,
             context,
-            distributions: []
+            distributions: [],
+            walletBalance: 0,
+            reserve: 0
           });
           continue;
         }
@@ -268,7 +338,9 @@ export class MultiNetworkGasTokenDistributionService {
           networkDistributions.set(context.networkId, {
             adapter,
             context,
-            distributions: []
+            distributions: [],
+            walletBalance: 0,
+            reserve: 0
           });
           continue;
         }
@@ -284,7 +356,9 @@ export class MultiNetworkGasTokenDistributionService {
           networkDistributions.set(context.networkId, {
             adapter,
             context,
-            distributions: []
+            distributions: [],
+            walletBalance,
+            reserve: currentReserve
           });
           continue;
         }
@@ -331,7 +405,9 @@ export class MultiNetworkGasTokenDistributionService {
         networkDistributions.set(context.networkId, {
           adapter,
           context,
-          distributions: filtered
+          distributions: filtered,
+          walletBalance,
+          reserve: currentReserve
         });
       }
     }
@@ -352,207 +428,277 @@ export class MultiNetworkGasTokenDistributionService {
     )} ${context.tokenSymbol})`;
   }
 
-  private async processNetworkDistribution(
-    adapter: GasTokenNetworkAdapter,
-    context: GasTokenNetworkContext,
-    distributions: DistributionFiber[]
-  ): Promise<NetworkDistributionResult> {
-    const result: NetworkDistributionResult = {
+  /**
+   * Decide the amount of each transfer on a network, estimating gas costs but sending nothing
+   */
+  private async planNetworkDistribution(
+    input: NetworkDistributionInput
+  ): Promise<NetworkDistributionPlan> {
+    const { adapter, context, distributions } = input;
+    const plan: NetworkDistributionPlan = {
       networkId: context.networkId,
       networkName: context.networkName,
       adapterType: context.adapterType,
       tokenSymbol: context.tokenSymbol,
       tokenType: context.tokenType,
       tokenDecimals: context.tokenDecimals,
-      distributedAmount: 0,
-      reservedAmount: 0,
-      distributions: [],
-      errors: []
+      walletBalance: input.walletBalance,
+      reserve: input.reserve,
+      plannedAmount: 0,
+      deferredAmount: 0,
+      transfers: []
     };
 
     console.log(
-      `🔄 Processing ${distributions.length} ${context.tokenSymbol} distributions on ${context.networkName} (${context.adapterType})...`
+      `🔄 Planning ${distributions.length} ${context.tokenSymbol} distributions on ${context.networkName} (${context.adapterType})...`
     );
 
     let remainingAmount = distributions.reduce((sum, dist) => sum + dist.amountToken, 0);
 
     for (const dist of distributions) {
+      if (remainingAmount <= 0) {
+        break;
+      }
+
+      let amountToken = Math.min(dist.amountToken, remainingAmount);
+      let gasCostToken: number | undefined;
+      let estimationError: string | undefined;
+      let shouldStopDueToGasCost = false;
+      let totalCostToken = amountToken;
+
+      let estimate: GasTransferEstimate | undefined;
       try {
-        if (remainingAmount <= 0) {
-          break;
+        estimate = await adapter.estimateTransfer(context, dist.recipientAddress, amountToken);
+      } catch (error) {
+        estimationError = error instanceof Error ? error.message : 'Failed to estimate gas cost';
+      }
+
+      if (estimate?.gasCostToken !== undefined) {
+        gasCostToken = estimate.gasCostToken;
+        const totalRequired = amountToken + gasCostToken;
+        if (totalRequired > remainingAmount + Number.EPSILON) {
+          const adjustedAmount = Math.max(0, remainingAmount - gasCostToken);
+          if (adjustedAmount <= 0) {
+            estimationError = `Insufficient ${context.tokenSymbol} to cover gas cost of ${gasCostToken.toFixed(
+              6
+            )} ${context.tokenSymbol}`;
+            shouldStopDueToGasCost = true;
+          } else {
+            amountToken = adjustedAmount;
+          }
         }
 
-        if (dist.amountToken > remainingAmount) {
-          dist.amountToken = remainingAmount;
+        const minimumRequired = gasCostToken * this.GAS_COST_VALUE_MULTIPLIER;
+        if (!estimationError && amountToken <= minimumRequired) {
+          estimationError = this.buildGasCostMessage(context, gasCostToken, amountToken);
+          shouldStopDueToGasCost = true;
         }
 
-        let gasCostToken: number | undefined;
-        let estimationError: string | undefined;
-        let shouldStopDueToGasCost = false;
-        let totalCostToken = dist.amountToken;
+        totalCostToken = amountToken + gasCostToken;
+      }
 
-        let estimate: GasTransferEstimate | undefined;
-        try {
-          estimate = await adapter.estimateTransfer(
-            context,
-            dist.recipientAddress,
-            dist.amountToken
+      if (estimate?.deferReason) {
+        estimationError = estimate.deferReason;
+      }
+
+      const transfer: PlannedTransfer = {
+        userId: dist.userId,
+        recipientAddress: dist.recipientAddress,
+        amount: amountToken,
+        backlogToken: dist.backlogToken ?? 0,
+        gasCostToken,
+        status: estimationError ? 'DEFERRED' : 'PLANNED',
+        deferReason: estimationError
+      };
+      plan.transfers.push(transfer);
+
+      if (estimationError) {
+        plan.deferredAmount += amountToken;
+        remainingAmount = Math.max(0, remainingAmount - amountToken);
+        if (shouldStopDueToGasCost) {
+          console.log(
+            `🛑 [${context.networkName}] Halting further distributions due to gas cost threshold.`
           );
-        } catch (error) {
-          estimationError = error instanceof Error ? error.message : 'Failed to estimate gas cost';
+          break;
         }
+        continue;
+      }
 
-        if (estimate?.gasCostToken !== undefined) {
-          gasCostToken = estimate.gasCostToken;
-          const totalRequired = dist.amountToken + gasCostToken;
-          if (totalRequired > remainingAmount + Number.EPSILON) {
-            const adjustedAmount = Math.max(0, remainingAmount - gasCostToken);
-            if (adjustedAmount <= 0) {
-              estimationError = `Insufficient ${context.tokenSymbol} to cover gas cost of ${gasCostToken.toFixed(
-                6
-              )} ${context.tokenSymbol}`;
-              shouldStopDueToGasCost = true;
-            } else {
-              dist.amountToken = adjustedAmount;
-            }
-          }
+      plan.plannedAmount += amountToken;
+      remainingAmount = Math.max(0, remainingAmount - totalCostToken);
+    }
 
-          const minimumRequired = gasCostToken * this.GAS_COST_VALUE_MULTIPLIER;
-          if (!estimationError && dist.amountToken <= minimumRequired) {
-            estimationError = this.buildGasCostMessage(context, gasCostToken, dist.amountToken);
-            shouldStopDueToGasCost = true;
-          }
+    return plan;
+  }
 
-          totalCostToken = dist.amountToken + gasCostToken;
-        } else {
-          totalCostToken = dist.amountToken;
-        }
+  /**
+   * Carry out the plan of a network: record deferrals, send the planned transfers and update the reserve.
+   * Each transfer is written as PREPARED under its idempotency key before broadcast, so a transfer already
+   * recorded by an interrupted execution of the plan is skipped instead of being paid twice.
+   */
+  private async executeNetworkPlan(
+    adapter: GasTokenNetworkAdapter,
+    context: GasTokenNetworkContext,
+    plan: NetworkDistributionPlan,
+    planId: number
+  ): Promise<NetworkDistributionResult> {
+    const result: NetworkDistributionResult = {
+      networkId: context.networkId,
+      networkName: context.networkName,
+      adapterType: context.adapterType,
+      tokenSymbol: context.tokenSymbol,
+      tokenType: context.tokenType,
+      tokenDecimals: context.tokenDecimals,
+      distributedAmount: 0,
+      reservedAmount: 0,
+      distributions: [],
+      errors: []
+    };
+
+    console.log(
+      `🔄 Processing ${plan.transfers.length} ${context.tokenSymbol} distributions on ${context.networkName} (${context.adapterType})...`
+    );
+
+    for (const transfer of plan.transfers) {
+      const idempotencyKey = buildTransferIdempotencyKey(planId, transfer.userId, context.networkId);
 
-        if (estimate?.deferReason) {
-          estimationError = estimate.deferReason;
+      try {
+        const existing = await this.prisma.gasTokenDistribution.findUnique({ where: { idempotencyKey } });
+        if (existing) {
+          result.distributions.push({
+            userId: transfer.userId,
+            amount: Number(existing.amount),
+            status: 'SKIPPED',
+            transactionHash: existing.transactionHash ?? undefined,
+            errorMessage: `Already recorded as ${existing.status}`
+          });
+          console.log(
+            `⏭️  [${context.networkName}] Skipping user ${transfer.userId}: already recorded as ${existing.status}`
+          );
+          continue;
         }
 
-        if (estimationError) {
-          result.reservedAmount += dist.amountToken;
+        const rowData = {
+          userId: transfer.userId,
+          network: context.networkId,
+          amount: transfer.amount,
+          amountUsd: 0,
+          tokenType: context.tokenType,
+          tokenSymbol: context.tokenSymbol,
+          tokenDecimals: context.tokenDecimals,
+          planId,
+          idempotencyKey,
+          recipientAddress: transfer.recipientAddress
+        };
 
-          await this.prisma.gasTokenDistribution.create({
-            data: {
-              userId: dist.userId,
-              network: context.networkId,
-              amount: dist.amountToken,
-              amountUsd: 0,
-              status: 'DEFERRED',
-              errorMessage: estimationError,
-              tokenType: context.tokenType,
-              tokenSymbol: context.tokenSymbol,
-              tokenDecimals: context.tokenDecimals
-            }
+        if (transfer.status === 'DEFERRED') {
+          result.reservedAmount += transfer.amount;
+
+          // Credited with the row, so that a resumed plan (which skips the row) doesn't lose the amount
+          await this.prisma.$transaction(async (tx) => {
+            await tx.gasTokenDistribution.create({
+              data: {
+                ...rowData,
+                status: 'DEFERRED',
+                errorMessage: transfer.deferReason
+              }
+            });
+            await this.creditGasTokenReserve(tx, context, transfer.amount);
           });
 
           result.distributions.push({
-            userId: dist.userId,
-            amount: dist.amountToken,
+            userId: transfer.userId,
+            amount: transfer.amount,
             status: 'DEFERRED',
-            errorMessage: estimationError,
-            gasCostToken
+            errorMessage: transfer.deferReason,
+            gasCostToken: transfer.gasCostToken
           });
 
           console.log(
-            `⏳ [${context.networkName}] Deferred distribution for user ${dist.userId}: ${estimationError}`
+            `⏳ [${context.networkName}] Deferred distribution for user ${transfer.userId}: ${transfer.deferReason}`
           );
-          remainingAmount = Math.max(0, remainingAmount - dist.amountToken);
-          if (shouldStopDueToGasCost) {
-            console.log(
-              `🛑 [${context.networkName}] Halting further distributions due to gas cost threshold.`
-            );
-            break;
-          }
           continue;
         }
 
+        // Write-ahead: if the process dies after broadcast, this row stays PREPARED and blocks a second payment
+        const prepared = await this.prisma.gasTokenDistribution.create({
+          data: {
+            ...rowData,
+            status: 'PREPARED'
+          }
+        });
+
         try {
           const transferResult = await adapter.sendTransfer(
             context,
-            dist.recipientAddress,
-            dist.amountToken
+            transfer.recipientAddress,
+            transfer.amount
           );
 
-          await this.prisma.gasTokenDistribution.create({
+          await this.prisma.gasTokenDistribution.update({
+            where: { id: prepared.id },
             data: {
-              userId: dist.userId,
-              network: context.networkId,
-              amount: dist.amountToken,
-              amountUsd: 0,
               status: 'SENT',
-              transactionHash: transferResult.transactionHash,
-              tokenType: context.tokenType,
-              tokenSymbol: context.tokenSymbol,
-              tokenDecimals: context.tokenDecimals
+              transactionHash: transferResult.transactionHash
             }
           });
 
           result.distributions.push({
-            userId: dist.userId,
-            amount: dist.amountToken,
+            userId: transfer.userId,
+            amount: transfer.amount,
             status: 'SENT',
             transactionHash: transferResult.transactionHash,
-            gasCostToken
+            gasCostToken: transfer.gasCostToken
           });
 
-          result.distributedAmount += dist.amountToken;
-          remainingAmount = Math.max(0, remainingAmount - totalCostToken);
+          result.distributedAmount += transfer.amount;
 
           const gasInfo =
-            gasCostToken !== undefined
-              ? ` (gas ${gasCostToken.toFixed(6)} ${context.tokenSymbol})`
+            transfer.gasCostToken !== undefined
+              ? ` (gas ${transfer.gasCostToken.toFixed(6)} ${context.tokenSymbol})`
               : '';
           console.log(
-            `✅ [${context.networkName}] Sent ${dist.amountToken.toFixed(6)} ${context.tokenSymbol} to user ${dist.userId}${gasInfo}`
+            `✅ [${context.networkName}] Sent ${transfer.amount.toFixed(6)} ${context.tokenSymbol} to user ${transfer.userId}${gasInfo}`
           );
         } catch (error) {
-          result.reservedAmount += dist.amountToken;
-          remainingAmount = Math.max(0, remainingAmount - dist.amountToken);
+          result.reservedAmount += transfer.amount;
 
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
-          await this.prisma.gasTokenDistribution.create({
-            data: {
-              userId: dist.userId,
-              network: context.networkId,
-              amount: dist.amountToken,
-              amountUsd: 0,
-              status: 'FAILED',
-              errorMessage,
-              tokenType: context.tokenType,
-              tokenSymbol: context.tokenSymbol,
-              tokenDecimals: context.tokenDecimals
-            }
+          await this.prisma.$transaction(async (tx) => {
+            await tx.gasTokenDistribution.update({
+              where: { id: prepared.id },
+              data: {
+                status: 'FAILED',
+                errorMessage
+              }
+            });
+            await this.creditGasTokenReserve(tx, context, transfer.amount);
           });
 
           result.distributions.push({
-            userId: dist.userId,
-            amount: dist.amountToken,
+            userId: transfer.userId,
+            amount: transfer.amount,
             status: 'FAILED',
             errorMessage,
-            gasCostToken
+            gasCostToken: transfer.gasCostToken
           });
 
-          const message = `Failed to send to user ${dist.userId}: ${errorMessage}`;
+          const message = `Failed to send to user ${transfer.userId}: ${errorMessage}`;
           result.errors.push(message);
           console.error(`❌ [${context.networkName}] ${message}`);
         }
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        result.errors.push(`Error processing user ${dist.userId}: ${errorMessage}`);
+        result.errors.push(`Error processing user ${transfer.userId}: ${errorMessage}`);
         console.error(
-          `❌ [${context.networkName}] Error processing user ${dist.userId}: ${errorMessage}`
+          `❌ [${context.networkName}] Error processing user ${transfer.userId}: ${errorMessage}`
         );
       }
     }
 
-    const currentReserve = await this.getTokenReserve(context);
-    const newReserve = currentReserve + result.reservedAmount;
-    await this.updateGasTokenReserve(context, newReserve);
+    // The deferred and failed amounts were credited to the reserve with their rows
+    await this.creditGasTokenReserve(this.prisma, context, 0);
 
     console.log(
       `📊 [${context.networkName}] Distribution completed: ${result.distributedAmount.toFixed(
@@ -569,123 +715,312 @@ export class MultiNetworkGasTokenDistributionService {
     };
   }
 
-  async processMultiNetworkDistribution(
+  /**
+   * Compute the distribution without sending anything: per network and user amounts, gas estimates and deferrals.
+   * The plan is carried out by `executeDistributionPlan`, see `DistributionPlanService` for the approval flow.
+   */
+  async planDistribution(
     overrides?: Partial<TokenDistributionOptions>
-  ): Promise<MultiNetworkDistributionResult> {
+  ): Promise<MultiNetworkDistributionPlan> {
     const tokenOptions = this.resolveTokenOptions(overrides);
-    console.log('🔄 Starting multi-network gas token distribution...');
+    console.log('📝 Planning multi-network gas token distribution...');
 
-    try {
-      const networkDistributions = await this.calculateDistributions(tokenOptions);
-      const networkResults = new Map<string, NetworkDistributionResult>();
-      let totalDistributedAmount = 0;
-      let totalReservedAmount = 0;
-      const errors: string[] = [];
-
-      const networkPromises = Array.from(networkDistributions.entries()).map(
-        async ([networkId, payload]) => {
-          const { adapter, context, distributions } = payload;
-
-          try {
-            if (distributions.length === 0) {
-              networkResults.set(networkId, {
-                networkId: context.networkId,
-                networkName: context.networkName,
-                adapterType: context.adapterType,
-                tokenSymbol: context.tokenSymbol,
-                tokenType: context.tokenType,
-                tokenDecimals: context.tokenDecimals,
-                distributedAmount: 0,
-                reservedAmount: 0,
-                distributions: [],
-                errors: [],
-                distributed: 0,
-                reserved: 0
-              });
-              return;
-            }
+    const networkDistributions = await this.calculateDistributions(tokenOptions);
+    const networks = await Promise.all(
+      Array.from(networkDistributions.values()).map(input => this.planNetworkDistribution(input))
+    );
+    const plan: MultiNetworkDistributionPlan = {
+      tokenType: tokenOptions.tokenType ?? 'NATIVE',
+      networks,
+      totalPlannedAmount: networks.reduce((sum, network) => sum + network.plannedAmount, 0),
+      totalDeferredAmount: networks.reduce((sum, network) => sum + network.deferredAmount, 0)
+    };
 
-            const networkResult = await this.processNetworkDistribution(
-              adapter,
-              context,
-              distributions
-            );
-            networkResults.set(networkId, networkResult);
-            totalDistributedAmount += networkResult.distributedAmount;
-            totalReservedAmount += networkResult.reservedAmount;
+    console.log(
+      `📝 Planned ${plan.totalPlannedAmount.toFixed(6)} tokens to send and ${plan.totalDeferredAmount.toFixed(
+        6
+      )} tokens to defer on ${plan.networks.length} networks`
+    );
+    return plan;
+  }
 
-            errors.push(
-              ...networkResult.errors.map(error => `[${context.networkName}] ${error}`)
-            );
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            errors.push(`[${context.networkName}] Fatal error: ${errorMessage}`);
-            console.error(`💥 [${context.networkName}] Fatal error:`, errorMessage);
-          }
+  /**
+   * Send the transfers of a plan computed by `planDistribution`.
+   * Transfers already recorded for the plan (see `buildTransferIdempotencyKey`) are skipped,
+   * so an interrupted execution can be resumed.
+   * @param planId - The stored plan, part of the idempotency keys
+   * @param plan - The plan, as reviewed
+   * @param balanceTolerance - Maximum relative change of a wallet balance since planning,
+   *   e.g. `0.05` for 5%; the plan is refused before any transfer if a balance changed more.
+   *   Not checked if undefined, e.g. when resuming after part of the plan was sent.
+   * @throws DistributionPlanStaleError if a network of the plan is gone or its wallet balance changed beyond the tolerance
+   */
+  async executeDistributionPlan(
+    planId: number,
+    plan: MultiNetworkDistributionPlan,
+    balanceTolerance?: number
+  ): Promise<MultiNetworkDistributionResult> {
+    const contextEntries = await this.collectNetworkAdapterContexts({ tokenType: plan.tokenType });
+
+    if (balanceTolerance !== undefined) {
+      const problems = await this.checkPlanBalances(plan, contextEntries, balanceTolerance);
+      if (problems.length > 0) {
+        throw new DistributionPlanStaleError(problems);
+      }
+    }
+
+    return await this.executeNetworkPlans(planId, plan, contextEntries);
+  }
+
+  /**
+   * Compare the wallet balances with those at planning time
+   * @returns The networks whose balance changed beyond the tolerance or couldn't be read
+   */
+  private async checkPlanBalances(
+    plan: MultiNetworkDistributionPlan,
+    contextEntries: Map<string, AdapterContextEntry>,
+    balanceTolerance: number
+  ): Promise<string[]> {
+    const problems: string[] = [];
+    for (const network of plan.networks) {
+      if (!network.transfers.some(transfer => transfer.status === 'PLANNED')) {
+        continue;
+      }
+      const entry = contextEntries.get(network.networkId);
+      if (!entry) {
+        problems.push(`[${network.networkName}] Network is no longer enabled`);
+        continue;
+      }
+      try {
+        const walletBalance = await entry.adapter.getWalletBalance(entry.context);
+        const change = Math.abs(walletBalance - network.walletBalance) / Math.max(network.walletBalance, Number.EPSILON);
+        if (change > balanceTolerance) {
+          problems.push(
+            `[${network.networkName}] Wallet balance changed from ${network.walletBalance.toFixed(6)} to ${walletBalance.toFixed(
+              6
+            )} ${network.tokenSymbol} (${(change * 100).toFixed(2)}% > ${(balanceTolerance * 100).toFixed(2)}%)`
+          );
         }
-      );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        problems.push(`[${network.networkName}] Failed to read wallet balance: ${message}`);
+      }
+    }
 
-      await Promise.all(networkPromises);
+    return problems;
+  }
 
-      const result: MultiNetworkDistributionResult = {
-        success: errors.length === 0,
-        totalDistributedAmount,
-        totalReservedAmount,
-        totalDistributed: totalDistributedAmount,
-        totalReserved: totalReservedAmount,
-        networkResults,
-        errors
-      };
+  private async executeNetworkPlans(
+    planId: number,
+    plan: MultiNetworkDistributionPlan,
+    contextEntries: Map<string, AdapterContextEntry>
+  ): Promise<MultiNetworkDistributionResult> {
+    const networkResults = new Map<string, NetworkDistributionResult>();
+    let totalDistributedAmount = 0;
+    let totalReservedAmount = 0;
+    const errors: string[] = [];
 
-      console.log('📊 Multi-network gas token distribution completed:');
-      console.log(`  💰 Total distributed: ${totalDistributedAmount.toFixed(6)} tokens`);
-      console.log(`  🏦 Total reserved: ${totalReservedAmount.toFixed(6)} tokens`);
+    const networkPromises = plan.networks.map(async network => {
+      const entry = contextEntries.get(network.networkId);
 
-      for (const [, networkResult] of networkResults) {
-        console.log(
-          `  🌐 [${networkResult.networkName}]: ${networkResult.distributedAmount.toFixed(
-            6
-          )} ${networkResult.tokenSymbol} distributed, ${networkResult.reservedAmount.toFixed(
-            6
-          )} ${networkResult.tokenSymbol} reserved`
-        );
-        console.log(
-          `    ✅ Successful: ${
-            networkResult.distributions.filter(d => d.status === 'SENT').length
-          }`
-        );
-        console.log(
-          `    ⏳ Deferred: ${
-            networkResult.distributions.filter(d => d.status === 'DEFERRED').length
-          }`
-        );
-        console.log(
-          `    ❌ Failed: ${
-            networkResult.distributions.filter(d => d.status === 'FAILED').length
-          }`
+      try {
+        if (!entry || network.transfers.length === 0) {
+          networkResults.set(network.networkId, {
+            networkId: network.networkId,
+            networkName: network.networkName,
+            adapterType: network.adapterType,
+            tokenSymbol: network.tokenSymbol,
+            tokenType: network.tokenType,
+            tokenDecimals: network.tokenDecimals,
+            distributedAmount: 0,
+            reservedAmount: 0,
+            distributions: [],
+            errors: [],
+            distributed: 0,
+            reserved: 0
+          });
+          return;
+        }
+
+        const networkResult = await this.executeNetworkPlan(entry.adapter, entry.context, network, planId);
+        networkResults.set(network.networkId, networkResult);
+        totalDistributedAmount += networkResult.distributedAmount;
+        totalReservedAmount += networkResult.reservedAmount;
+
+        errors.push(
+          ...networkResult.errors.map(error => `[${network.networkName}] ${error}`)
         );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        errors.push(`[${network.networkName}] Fatal error: ${errorMessage}`);
+        console.error(`💥 [${network.networkName}] Fatal error:`, errorMessage);
       }
+    });
 
-      if (errors.length > 0) {
-        console.log('⚠️  Errors occurred:');
-        errors.forEach(error => console.log(`  - ${error}`));
-      }
+    await Promise.all(networkPromises);
+
+    const result: MultiNetworkDistributionResult = {
+      success: errors.length === 0,
+      totalDistributedAmount,
+      totalReservedAmount,
+      totalDistributed: totalDistributedAmount,
+      totalReserved: totalReservedAmount,
+      networkResults,
+      errors
+    };
+
+    console.log('📊 Multi-network gas token distribution completed:');
+    console.log(`  💰 Total distributed: ${totalDistributedAmount.toFixed(6)} tokens`);
+    console.log(`  🏦 Total reserved: ${totalReservedAmount.toFixed(6)} tokens`);
+
+    for (const [, networkResult] of networkResults) {
+      console.log(
+        `  🌐 [${networkResult.networkName}]: ${networkResult.distributedAmount.toFixed(
+          6
+        )} ${networkResult.tokenSymbol} distributed, ${networkResult.reservedAmount.toFixed(
+          6
+        )} ${networkResult.tokenSymbol} reserved`
+      );
+      console.log(
+        `    ✅ Successful: ${
+          networkResult.distributions.filter(d => d.status === 'SENT').length
+        }`
+      );
+      console.log(
+        `    ⏳ Deferred: ${
+          networkResult.distributions.filter(d => d.status === 'DEFERRED').length
+        }`
+      );
+      console.log(
+        `    ❌ Failed: ${
+          networkResult.distributions.filter(d => d.status === 'FAILED').length
+        }`
+      );
+    }
+
+    if (errors.length > 0) {
+      console.log('⚠️  Errors occurred:');
+      errors.forEach(error => console.log(`  - ${error}`));
+    }
 
+    return result;
+  }
+
+  /**
+   * Move broadcast (SENT) transfers to CONFIRMED, FAILED or DROPPED by asking their adapter for the transaction status.
+   * FAILED and DROPPED amounts return to the reserve, like transfers that fail at broadcast.
+   * A transaction unknown to the network counts as DROPPED only once the transfer is older than the timeout,
+   * as it may not have propagated yet.
+   * @param dropTimeoutMinutes - Default: `GAS_TRANSFER_DROP_TIMEOUT_MINUTES` or 30
+   */
+  async reconcilePendingTransfers(
+    dropTimeoutMinutes: number = Number(process.env.GAS_TRANSFER_DROP_TIMEOUT_MINUTES ?? DEFAULT_TRANSFER_DROP_TIMEOUT_MINUTES)
+  ): Promise<TransferReconciliationResult> {
+    const result: TransferReconciliationResult = {
+      checked: 0,
+      confirmed: 0,
+      failed: 0,
+      dropped: 0,
+      pending: 0,
+      unresolved: [],
+      errors: []
+    };
+    const timeoutDate = new Date(Date.now() - dropTimeoutMinutes * 60 * 1000);
+
+    const interrupted = await this.prisma.gasTokenDistribution.findMany({
+      where: { status: 'PREPARED', updatedAt: { lt: timeoutDate } },
+      select: { id: true }
+    });
+    result.unresolved = interrupted.map(row => row.id);
+    if (result.unresolved.length > 0) {
+      console.warn(
+        `⚠️  ${result.unresolved.length} transfers were interrupted around broadcast and need manual review: ${result.unresolved.join(', ')}`
+      );
+    }
+
+    const rows = await this.prisma.gasTokenDistribution.findMany({
+      where: { status: 'SENT', transactionHash: { not: null } }
+    });
+    if (rows.length === 0) {
       return result;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error('💥 Fatal error in multi-network gas token distribution:', errorMessage);
-
-      return {
-        success: false,
-        totalDistributedAmount: 0,
-        totalReservedAmount: 0,
-        totalDistributed: 0,
-        totalReserved: 0,
-        networkResults: new Map(),
-        errors: [errorMessage]
-      };
     }
+
+    const contextsByTokenType = new Map<string, Map<string, AdapterContextEntry>>();
+    for (const row of rows) {
+      let contextEntries = contextsByTokenType.get(row.tokenType);
+      if (!contextEntries) {
+        contextEntries = await this.collectNetworkAdapterContexts({ tokenType: row.tokenType as TokenType });
+        contextsByTokenType.set(row.tokenType, contextEntries);
+      }
+      const entry = contextEntries.get(row.network);
+      if (!entry) {
+        result.errors.push(`Transfer ${row.id}: network ${row.network} is not enabled`);
+        continue;
+      }
+
+      result.checked++;
+      try {
+        let status = await entry.adapter.getTransferStatus(entry.context, row.transactionHash!);
+        if (status === 'DROPPED' && row.updatedAt >= timeoutDate) {
+          status = 'PENDING';
+        }
+
+        switch (status) {
+          case 'PENDING':
+            result.pending++;
+            break;
+          case 'CONFIRMED':
+            result.confirmed++;
+            await this.prisma.gasTokenDistribution.update({
+              where: { id: row.id },
+              data: { status, confirmedAt: new Date() }
+            });
+            break;
+          case 'FAILED':
+          case 'DROPPED':
+            if (status === 'FAILED') {
+              result.failed++;
+            } else {
+              result.dropped++;
+            }
+            await this.prisma.$transaction(async (tx) => {
+              await tx.gasTokenDistribution.update({
+                where: { id: row.id },
+                data: { status, errorMessage: `Transaction ${row.transactionHash} ${status.toLowerCase()}` }
+              });
+              await tx.gasTokenReserve.upsert({
+                where: {
+                  network_tokenSymbol_tokenType: {
+                    network: row.network,
+                    tokenSymbol: row.tokenSymbol,
+                    tokenType: row.tokenType
+                  }
+                },
+                update: { totalReserve: { increment: row.amount } },
+                create: {
+                  network: row.network,
+                  totalReserve: row.amount,
+                  tokenType: row.tokenType,
+                  tokenSymbol: row.tokenSymbol,
+                  tokenDecimals: row.tokenDecimals
+                }
+              });
+            });
+            console.warn(
+              `⚠️  [${entry.context.networkName}] Transfer ${row.id} to user ${row.userId} ${status.toLowerCase()}, amount returned to the reserve`
+            );
+            break;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result.errors.push(`Transfer ${row.id}: ${message}`);
+      }
+    }
+
+    console.log(
+      `🔎 Reconciled ${result.checked} transfers: ${result.confirmed} confirmed, ${result.failed} failed, ${result.dropped} dropped, ${result.pending} pending`
+    );
+    return result;
   }
 
   async getUserDistributionHistory(userId: number) {
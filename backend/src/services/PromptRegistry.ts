@@ -0,0 +1,360 @@
+import { Prisma, PrismaClient, PromptVersion } from '@prisma/client';
+import type { JSONSchema } from 'openai/lib/jsonschema';
+import {
+  onboardingPrompt,
+  randomizePrompt,
+  promptEquivalencePrompt,
+  worthPrompt,
+  injectionPrompt,
+  summarizeEvaluationPrompt,
+  scientistCheckSchema,
+  worthAssessmentSchema,
+  promptInjectionSchema,
+  randomizedPromptSchema,
+  promptEquivalenceSchema,
+  evaluationSummarySchema
+} from '../prompts.js';
+import { calculateMedian } from './worthEnsemble.js';
+
+export enum PromptName {
+  ONBOARDING = 'onboarding',
+  RANDOMIZE = 'randomize',
+  PROMPT_EQUIVALENCE = 'promptEquivalence',
+  WORTH = 'worth',
+  INJECTION = 'injection',
+  SUMMARIZE_EVALUATION = 'summarizeEvaluation'
+}
+
+/**
+ * Built-in prompts of `prompts.ts`, stored as version 1 of each prompt the first time it is used,
+ * and as a new version when they change, see `PromptRegistry.publishChangedBuiltinPrompts`
+ */
+const BUILTIN_PROMPTS: Record<PromptName, { text: string; schema: JSONSchema }> = {
+  [PromptName.ONBOARDING]: { text: onboardingPrompt, schema: scientistCheckSchema },
+  [PromptName.RANDOMIZE]: { text: randomizePrompt, schema: randomizedPromptSchema },
+  [PromptName.PROMPT_EQUIVALENCE]: { text: promptEquivalencePrompt, schema: promptEquivalenceSchema },
+  [PromptName.WORTH]: { text: worthPrompt, schema: worthAssessmentSchema },
+  [PromptName.INJECTION]: { text: injectionPrompt, schema: promptInjectionSchema },
+  [PromptName.SUMMARIZE_EVALUATION]: { text: summarizeEvaluationPrompt, schema: evaluationSummarySchema }
+};
+
+export const MAX_PROMPT_LENGTH = 20000;
+
+const BUILTIN_NOTES = 'Built-in prompt';
+
+/** Latest tasks of each version whose outputs are compared, by default and at most */
+export const DEFAULT_COMPARED_TASKS = 500;
+export const MAX_COMPARED_TASKS = 5000;
+
+/**
+ * Error in a prompt registry operation, to be reported to the client with `statusCode`
+ */
+export class PromptRegistryError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'PromptRegistryError';
+  }
+}
+
+export interface PromptVersionEntry extends Omit<PromptVersion, 'schema'> {
+  schema: JSONSchema;
+}
+
+export interface PromptPublication {
+  text: string;
+  /** Defaults to the schema of the current version */
+  schema?: JSONSchema;
+  notes?: string;
+}
+
+/**
+ * Statistics of the outputs of the tasks made with a prompt version
+ */
+export interface PromptVersionComparison {
+  promptVersionId: number;
+  version: number;
+  createdAt: Date;
+  tasksByStatus: Record<string, number>;
+  /** Latest tasks whose outputs the statistics below are computed from */
+  comparedTasks: number;
+  /** Per numeric property of the outputs of the completed tasks */
+  numeric: Record<string, { count: number; mean: number; median: number }>;
+  /** Per boolean property of the outputs of the finished tasks: fraction of true */
+  booleanRate: Record<string, { count: number; rate: number }>;
+}
+
+function toPromptVersionEntry(promptVersion: PromptVersion): PromptVersionEntry {
+  return { ...promptVersion, schema: JSON.parse(promptVersion.schema) };
+}
+
+function parsePromptName(name: string): PromptName {
+  if (!Object.values(PromptName).includes(name as PromptName)) {
+    throw new PromptRegistryError(`Unknown prompt '${name}' (known: ${Object.values(PromptName).join(', ')})`, 404);
+  }
+  return name as PromptName;
+}
+
+function getPlaceholders(text: string): string[] {
+  return [...new Set(text.match(/<[A-Z_]+>/g) ?? [])].sort();
+}
+
+/**
+ * Required properties of a built-in schema, which the runners read, missing from the required ones of a schema
+ */
+function getMissingRequiredProperties(schema: JSONSchema, builtinSchema: JSONSchema): string[] {
+  const required = Array.isArray(schema.required) ? schema.required : [];
+  return (builtinSchema.required as string[] ?? []).filter(property => !required.includes(property));
+}
+
+/**
+ * Whether an error is the violation of a unique constraint, e.g. a version of a prompt stored concurrently
+ */
+function isUniqueConstraintViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Fill the placeholders of a prompt, e.g. `<WORLD_GDP>`
+ * @param text - The text of the prompt version
+ * @param values - Values by placeholder name, without the angle brackets
+ */
+export function renderPrompt(text: string, values: Record<string, string>): string {
+  return text.replace(/<([A-Z_]+)>/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Versioned prompts and response schemas. Each AI task records the version it was made with
+ * (`Task.promptVersionId`, and `provenance` in its runner data), so that the results can be compared across versions.
+ */
+export class PromptRegistry {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Get the current (latest) version of a prompt, storing the built-in one as version 1 if there is none
+   * @param name - The name of the prompt
+   */
+  async getCurrentVersion(name: PromptName): Promise<PromptVersionEntry> {
+    const current = await this.prisma.promptVersion.findFirst({
+      where: { name },
+      orderBy: { version: 'desc' }
+    });
+    if (current) {
+      return toPromptVersionEntry(current);
+    }
+
+    const builtin = BUILTIN_PROMPTS[name];
+    try {
+      return toPromptVersionEntry(await this.prisma.promptVersion.create({
+        data: { name, version: 1, text: builtin.text, schema: JSON.stringify(builtin.schema), notes: BUILTIN_NOTES }
+      }));
+    } catch (error) {
+      if (!isUniqueConstraintViolation(error)) {
+        throw error;
+      }
+      // Stored concurrently by another task
+      return toPromptVersionEntry(await this.prisma.promptVersion.findUniqueOrThrow({
+        where: { name_version: { name, version: 1 } }
+      }));
+    }
+  }
+
+  /**
+   * Publish the built-in prompts that changed since they were last stored (e.g. a release asking for new response
+   * properties) as the next version, so that existing installs use them; called on startup.
+   * A prompt whose current version was published by an admin keeps its text, and gets the built-in schema
+   * only if its schema misses properties now required by the built-in one (e.g. the worth range and confidence).
+   * @returns The names of the published prompts
+   */
+  async publishChangedBuiltinPrompts(): Promise<PromptName[]> {
+    const published: PromptName[] = [];
+    for (const name of Object.values(PromptName)) {
+      const builtin = BUILTIN_PROMPTS[name];
+      const storedBuiltin = await this.prisma.promptVersion.findFirst({
+        where: { name, publishedById: null, notes: { startsWith: BUILTIN_NOTES } },
+        orderBy: { version: 'desc' }
+      });
+      if (!storedBuiltin || (storedBuiltin.text === builtin.text && storedBuiltin.schema === JSON.stringify(builtin.schema))) {
+        continue; // Stored on first use, or unchanged
+      }
+
+      const current = await this.getCurrentVersion(name);
+      let text = builtin.text;
+      let notes = `${BUILTIN_NOTES}, changed since version ${current.version}`;
+      if (current.id !== storedBuiltin.id) {
+        const missing = getMissingRequiredProperties(current.schema, builtin.schema);
+        if (missing.length === 0) {
+          console.warn(`⚠️ Built-in prompt '${name}' changed, but version ${current.version} published by an admin stays current`);
+          continue;
+        }
+        // The runners read the missing properties: keep the admin's text with the built-in schema
+        text = current.text;
+        notes = `Text of version ${current.version} with the schema of the changed built-in prompt, requiring ${missing.join(', ')}`;
+      }
+      try {
+        await this.prisma.promptVersion.create({
+          data: {
+            name,
+            version: current.version + 1,
+            text,
+            schema: JSON.stringify(builtin.schema),
+            notes
+          }
+        });
+        published.push(name);
+        console.log(`📝 Changed built-in prompt '${name}' published as version ${current.version + 1}`);
+      } catch (error) {
+        if (!isUniqueConstraintViolation(error)) {
+          throw error;
+        }
+        // Published concurrently by another process
+      }
+    }
+    return published;
+  }
+
+  /**
+   * Get a prompt version by ID
+   * @throws PromptRegistryError if it doesn't exist
+   */
+  async getVersion(promptVersionId: number): Promise<PromptVersionEntry> {
+    const promptVersion = await this.prisma.promptVersion.findUnique({ where: { id: promptVersionId } });
+    if (!promptVersion) {
+      throw new PromptRegistryError(`Prompt version ${promptVersionId} not found`, 404);
+    }
+    return toPromptVersionEntry(promptVersion);
+  }
+
+  /**
+   * List the versions of a prompt, latest first
+   * @param name - The name of the prompt
+   */
+  async listVersions(name: string): Promise<PromptVersionEntry[]> {
+    const promptName = parsePromptName(name);
+    await this.getCurrentVersion(promptName); // Store the built-in version if needed
+    const versions = await this.prisma.promptVersion.findMany({
+      where: { name: promptName },
+      orderBy: { version: 'desc' }
+    });
+    return versions.map(toPromptVersionEntry);
+  }
+
+  /**
+   * Publish a new version of a prompt, used by the tasks initiated from now on.
+   * The text must keep the placeholders of the built-in prompt, and the schema must keep its required properties,
+   * which the runners read.
+   * @param name - The name of the prompt
+   * @param publication - The new text, schema and notes
+   * @param publishedById - The admin publishing it
+   */
+  async publishVersion(name: string, publication: PromptPublication, publishedById: number): Promise<PromptVersionEntry> {
+    const promptName = parsePromptName(name);
+    const builtin = BUILTIN_PROMPTS[promptName];
+
+    if (typeof publication.text !== 'string' || !publication.text.trim() || publication.text.length > MAX_PROMPT_LENGTH) {
+      throw new PromptRegistryError(`text must be a non-empty string of at most ${MAX_PROMPT_LENGTH} characters`);
+    }
+    const expectedPlaceholders = getPlaceholders(builtin.text);
+    const placeholders = getPlaceholders(publication.text);
+    if (placeholders.join() !== expectedPlaceholders.join()) {
+      throw new PromptRegistryError(
+        `text must contain exactly the placeholders ${expectedPlaceholders.join(', ') || '(none)'}, found ${placeholders.join(', ') || '(none)'}`
+      );
+    }
+
+    const current = await this.getCurrentVersion(promptName);
+    const schema = publication.schema ?? current.schema;
+    if (!schema || typeof schema !== 'object' || schema.type !== 'object') {
+      throw new PromptRegistryError('schema must be a JSON schema of type object');
+    }
+    const missing = getMissingRequiredProperties(schema, builtin.schema);
+    if (missing.length > 0) {
+      throw new PromptRegistryError(`schema must require the properties ${missing.join(', ')}`);
+    }
+
+    try {
+      const created = await this.prisma.promptVersion.create({
+        data: {
+          name: promptName,
+          version: current.version + 1,
+          text: publication.text,
+          schema: JSON.stringify(schema),
+          notes: publication.notes ?? null,
+          publishedById
+        }
+      });
+      console.log(`📝 Prompt '${promptName}' version ${created.version} published by user ${publishedById}`);
+      return toPromptVersionEntry(created);
+    } catch (error) {
+      if (!isUniqueConstraintViolation(error)) {
+        throw error;
+      }
+      throw new PromptRegistryError(`Version ${current.version + 1} of prompt '${promptName}' was published concurrently`, 409);
+    }
+  }
+
+  /**
+   * Compare the outputs of the tasks made with each version of a prompt.
+   * All the tasks of a version are counted by status, but only the outputs of its latest `taskLimit` tasks are read.
+   * @param name - The name of the prompt
+   * @param taskLimit - Latest tasks of each version whose outputs are compared (at most `MAX_COMPARED_TASKS`)
+   */
+  async compareVersions(name: string, taskLimit: number = DEFAULT_COMPARED_TASKS): Promise<PromptVersionComparison[]> {
+    if (!Number.isInteger(taskLimit) || taskLimit < 1 || taskLimit > MAX_COMPARED_TASKS) {
+      throw new PromptRegistryError(`limit must be an integer between 1 and ${MAX_COMPARED_TASKS}`);
+    }
+    const versions = await this.listVersions(name);
+    const comparisons: PromptVersionComparison[] = [];
+    for (const promptVersion of versions) {
+      const statusCounts = await this.prisma.task.groupBy({
+        by: ['status'],
+        where: { promptVersionId: promptVersion.id },
+        _count: { _all: true }
+      });
+      const tasks = await this.prisma.task.findMany({
+        where: { promptVersionId: promptVersion.id },
+        select: { runnerData: true },
+        orderBy: { id: 'desc' },
+        take: taskLimit
+      });
+
+      const tasksByStatus = Object.fromEntries(statusCounts.map(count => [count.status, count._count._all]));
+      const numericValues: Record<string, number[]> = {};
+      const booleanValues: Record<string, boolean[]> = {};
+      for (const task of tasks) {
+        const output = task.runnerData ? JSON.parse(task.runnerData).output : undefined;
+        if (!output || typeof output !== 'object') {
+          continue;
+        }
+        for (const [property, value] of Object.entries(output)) {
+          if (typeof value === 'number' && Number.isFinite(value)) {
+            (numericValues[property] ??= []).push(value);
+          } else if (typeof value === 'boolean') {
+            (booleanValues[property] ??= []).push(value);
+          }
+        }
+      }
+
+      comparisons.push({
+        promptVersionId: promptVersion.id,
+        version: promptVersion.version,
+        createdAt: promptVersion.createdAt,
+        tasksByStatus,
+        comparedTasks: tasks.length,
+        numeric: Object.fromEntries(Object.entries(numericValues).map(([property, values]) => [property, {
+          count: values.length,
+          mean: values.reduce((sum, value) => sum + value, 0) / values.length,
+          median: calculateMedian(values)
+        }])),
+        booleanRate: Object.fromEntries(Object.entries(booleanValues).map(([property, values]) => [property, {
+          count: values.length,
+          rate: values.filter(Boolean).length / values.length
+        }]))
+      });
+    }
+    return comparisons;
+  }
+}
@@ -0,0 +1,76 @@
+import { PrismaClient } from '@prisma/client';
+
+export enum UserRole {
+  ADMIN = 'admin', // Operates the system: payouts, cleanup, appeals, roles
+  AUDITOR = 'auditor', // Reads logs, histories and queues, changes nothing
+  USER = 'user'
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return Object.values(UserRole).includes(value as UserRole);
+}
+
+export class RoleService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Get the role of a user
+   * @returns The role, or `null` if the user doesn't exist
+   */
+  async getUserRole(userId: number): Promise<UserRole | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true }
+    });
+    return user ? user.role as UserRole : null;
+  }
+
+  /**
+   * Change the role of a user
+   * @param userId - The user
+   * @param role - The new role
+   * @throws Error if this would leave the system without administrators
+   */
+  async setUserRole(userId: number, role: UserRole): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { role: true }
+      });
+      if (user.role === UserRole.ADMIN && role !== UserRole.ADMIN) {
+        const adminCount = await tx.user.count({ where: { role: UserRole.ADMIN } });
+        if (adminCount <= 1) {
+          throw new Error('Cannot remove the last administrator');
+        }
+      }
+      await tx.user.update({ where: { id: userId }, data: { role } });
+    });
+    console.log(`🔑 User ${userId} now has role ${role}`);
+  }
+
+  /**
+   * Give the admin role to the users listed in `ADMIN_USER_IDS` (comma-separated),
+   * so that a new installation has administrators to assign the other roles
+   */
+  async bootstrapAdmins(): Promise<void> {
+    const adminUserIds = (process.env.ADMIN_USER_IDS ?? '')
+      .split(',')
+      .map(id => parseInt(id.trim()))
+      .filter(id => !isNaN(id));
+    if (adminUserIds.length === 0) {
+      return;
+    }
+
+    const result = await this.prisma.user.updateMany({
+      where: { id: { in: adminUserIds }, role: { not: UserRole.ADMIN } },
+      data: { role: UserRole.ADMIN }
+    });
+    if (result.count > 0) {
+      console.log(`🔑 Granted admin role to ${result.count} users from ADMIN_USER_IDS`);
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { isConfigValueTrue } from './utils.js';
+import { calculateMedian, WORTH_COMPONENTS, WorthComponentMedian, WorthComponentName } from './worthEnsemble.js';
+
+/**
+ * How a newly computed share in GDP is combined with the previous effective one
+ */
+export interface ShareInGdpSmoothingPolicy {
+  /** Weight of the new value in the exponential moving average; 1 disables averaging */
+  emaAlpha: number;
+  /** Average logarithms (geometric EMA) instead of the values themselves */
+  logSpace: boolean;
+  /** Maximal factor by which the effective value may grow or shrink per cycle */
+  maxChangeFactor?: number;
+}
+
+export interface ShareInGdpHistoryEntry {
+  id: number;
+  taskId: number | null;
+  rawShareInGDP: number;
+  smoothedShareInGDP: number;
+  smoothingPolicy: ShareInGdpSmoothingPolicy;
+  /** Medians of the worth components, `null` for values computed without them */
+  components: Partial<Record<WorthComponentName, WorthComponentMedian>> | null;
+  createdAt: Date;
+}
+
+/**
+ * Statistics of a worth component over the latest component medians of the users who have them
+ */
+export interface WorthComponentStatistics {
+  /** Users with a positive value */
+  users: number;
+  /** Over the users with a positive value */
+  median: number;
+  mean: number;
+  total: number;
+}
+
+/**
+ * Read the smoothing policy from the environment:
+ * - `SHARE_IN_GDP_EMA_ALPHA` (default: 1, i.e. the latest value is used as is)
+ * - `SHARE_IN_GDP_LOG_SPACE` (default: false)
+ * - `SHARE_IN_GDP_MAX_CHANGE_FACTOR` (default: unlimited)
+ */
+export function readShareInGdpSmoothingPolicy(): ShareInGdpSmoothingPolicy {
+  const emaAlpha = parseFloat(process.env.SHARE_IN_GDP_EMA_ALPHA ?? '1');
+  if (isNaN(emaAlpha) || emaAlpha <= 0 || emaAlpha > 1) {
+    throw new Error(`Invalid SHARE_IN_GDP_EMA_ALPHA: ${process.env.SHARE_IN_GDP_EMA_ALPHA}`);
+  }
+  const maxChangeFactor = process.env.SHARE_IN_GDP_MAX_CHANGE_FACTOR ?
+    parseFloat(process.env.SHARE_IN_GDP_MAX_CHANGE_FACTOR) : undefined;
+  if (maxChangeFactor !== undefined && (isNaN(maxChangeFactor) || maxChangeFactor < 1)) {
+    throw new Error(`Invalid SHARE_IN_GDP_MAX_CHANGE_FACTOR: ${process.env.SHARE_IN_GDP_MAX_CHANGE_FACTOR}`);
+  }
+
+  return {
+    emaAlpha,
+    logSpace: isConfigValueTrue(process.env.SHARE_IN_GDP_LOG_SPACE),
+    maxChangeFactor
+  };
+}
+
+/**
+ * Combine a newly computed share in GDP with the previous effective one
+ * @param previous - The previous effective value, or `null` for the first cycle
+ * @param raw - The newly computed value
+ * @param policy - The smoothing policy
+ * @returns The new effective value
+ */
+export function smoothShareInGdp(previous: number | null, raw: number, policy: ShareInGdpSmoothingPolicy): number {
+  if (previous === null) {
+    return raw;
+  }
+
+  // Logarithms are undefined for zero, so a zero on either side falls back to linear averaging.
+  let smoothed = policy.logSpace && previous > 0 && raw > 0
+    ? Math.exp(policy.emaAlpha * Math.log(raw) + (1 - policy.emaAlpha) * Math.log(previous))
+    : policy.emaAlpha * raw + (1 - policy.emaAlpha) * previous;
+
+  if (policy.maxChangeFactor !== undefined && previous > 0) {
+    smoothed = Math.min(Math.max(smoothed, previous / policy.maxChangeFactor), previous * policy.maxChangeFactor);
+  }
+
+  return smoothed;
+}
+
+export class ShareInGdpService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Record a newly computed share in GDP and update the effective `User.shareInGDP`
+   * @param userId - The user
+   * @param rawShareInGDP - The value computed in this cycle
+   * @param taskId - The task that computed it
+   * @param policy - The smoothing policy (by default, the configured one)
+   * @param components - Medians of the worth components of this cycle, if the assessments gave them
+   * @param transaction - Transaction to record it in, e.g. with the approval of a worth review (default: a new one)
+   * @returns The new effective (smoothed) value, or the one recorded already for the same task (e.g. by a retry)
+   */
+  async recordShareInGdp(
+    userId: number,
+    rawShareInGDP: number,
+    taskId?: number,
+    policy: ShareInGdpSmoothingPolicy = readShareInGdpSmoothingPolicy(),
+    components?: Partial<Record<WorthComponentName, WorthComponentMedian>>,
+    transaction?: Prisma.TransactionClient
+  ): Promise<number> {
+    const record = async (tx: Prisma.TransactionClient): Promise<number> => {
+      if (taskId !== undefined) {
+        const recorded = await tx.shareInGdpHistory.findFirst({ where: { taskId } });
+        if (recorded) {
+          return recorded.smoothedShareInGDP;
+        }
+      }
+
+      const user = await tx.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { shareInGDP: true }
+      });
+      const smoothedShareInGDP = smoothShareInGdp(user.shareInGDP, rawShareInGDP, policy);
+
+      await tx.shareInGdpHistory.create({
+        data: {
+          userId,
+          taskId,
+          rawShareInGDP,
+          smoothedShareInGDP,
+          smoothingPolicy: JSON.stringify(policy),
+          components: components && Object.keys(components).length > 0 ? JSON.stringify(components) : null
+        }
+      });
+      await tx.user.update({
+        where: { id: userId },
+        data: { shareInGDP: smoothedShareInGDP }
+      });
+
+      return smoothedShareInGDP;
+    };
+
+    return transaction ? await record(transaction) : await this.prisma.$transaction(record);
+  }
+
+  /**
+   * Get the raw and smoothed series of a user, oldest first
+   * @param userId - The user
+   * @param limit - Maximal number of (latest) entries
+   */
+  async getHistory(userId: number, limit: number = 100): Promise<ShareInGdpHistoryEntry[]> {
+    const entries = await this.prisma.shareInGdpHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+
+    return entries.reverse().map(entry => ({
+      id: entry.id,
+      taskId: entry.taskId,
+      rawShareInGDP: entry.rawShareInGDP,
+      smoothedShareInGDP: entry.smoothedShareInGDP,
+      smoothingPolicy: JSON.parse(entry.smoothingPolicy),
+      components: entry.components ? JSON.parse(entry.components) : null,
+      createdAt: entry.createdAt
+    }));
+  }
+
+  /**
+   * Statistics per worth component (field: science, FOSS, and the platform of each account)
+   * over the latest component medians of each user
+   */
+  async getComponentStatistics(): Promise<Record<WorthComponentName, WorthComponentStatistics>> {
+    const entries = await this.prisma.shareInGdpHistory.findMany({
+      where: { components: { not: null } },
+      orderBy: { createdAt: 'desc' },
+      distinct: ['userId'],
+      select: { components: true }
+    });
+    const valuesByComponent = new Map<WorthComponentName, number[]>(WORTH_COMPONENTS.map(name => [name, []]));
+    for (const entry of entries) {
+      const components: Partial<Record<WorthComponentName, WorthComponentMedian>> = JSON.parse(entry.components!);
+      for (const name of WORTH_COMPONENTS) {
+        const value = components[name]?.worthAsFractionOfGDP;
+        if (value !== undefined && value > 0) {
+          valuesByComponent.get(name)!.push(value);
+        }
+      }
+    }
+
+    const statistics = {} as Record<WorthComponentName, WorthComponentStatistics>;
+    for (const [name, values] of valuesByComponent) {
+      const total = values.reduce((sum, value) => sum + value, 0);
+      statistics[name] = {
+        users: values.length,
+        median: values.length > 0 ? calculateMedian(values) : 0,
+        mean: values.length > 0 ? total / values.length : 0,
+        total
+      };
+    }
+    return statistics;
+  }
+}
@@ -1,13 +1,17 @@
 import { PrismaClient, Task, } from '@prisma/client';
 import { TaskStatus, TaskRunnerData, TaskRunnerRegistry } from '../types/task.js';
-import { createAIBatchStore, createAIOutputter, createAIRunner } from './openai.js';
-import { BaseOpenAIRunner } from '@/runners/OpenAIRunners.js';
+import { resolveTaskAIProvider } from './ai-providers/index.js';
+import { stripPromptCanary, verifyPromptCanary } from './promptCanary.js';
+import { recordAIUsage } from './aiUsage.js';
+import { acquireTaskLease, readTaskLeaseOptions, releaseTaskLease, TaskLeaseOptions } from './taskLease.js';
 
 export class TaskExecutor {
   private prisma: PrismaClient;
+  private leaseOptions: TaskLeaseOptions;
 
-  constructor(prisma: PrismaClient) {
+  constructor(prisma: PrismaClient, leaseOptions: TaskLeaseOptions = readTaskLeaseOptions()) {
     this.prisma = prisma;
+    this.leaseOptions = leaseOptions;
   }
 
   /**
@@ -71,7 +75,7 @@ export class TaskExecutor {
             console.log(`📊 Using runner data for task ${taskId}`);
           } catch (error) {
             console.error(`Failed to parse runner data for task ${taskId}:`, error);
-            await this.markTaskAsFailed(taskId);
+            await this.markTaskAsFailed(taskId, error);
             await this.releaseTaskLock(taskId);
             return false;
           }
@@ -84,18 +88,15 @@ export class TaskExecutor {
         const success = await TaskRunnerRegistry.runByTaskId(this.prisma, taskId);
         if (!success) {
           console.error(`Failed to run task ${taskId}`);
-          await this.markTaskAsFailed(taskId);
+          await this.markTaskAsFailed(taskId, `Runner ${task.runnerClassName || 'Unknown'} failed to run`);
           await this.releaseTaskLock(taskId);
           return false;
         }
 
         // Mark task as completed
-        await this.prisma.task.update({
-          where: { id: taskId },
-          data: {
-            status: TaskStatus.COMPLETED,
-            completedAt: new Date(),
-          },
+        await TaskRunnerRegistry.finishTask(this.prisma, taskId, {
+          status: TaskStatus.COMPLETED,
+          completedAt: new Date(),
         });
 
         console.log(`✅ Task ${taskId} completed successfully`);
@@ -107,7 +108,7 @@ export class TaskExecutor {
       }
     } catch (error) {
       console.error(`❌ Error executing task ${taskId}:`, error);
-      await this.markTaskAsFailed(taskId);
+      await this.markTaskAsFailed(taskId, error);
       await this.releaseTaskLock(taskId);
       return false;
     }
@@ -140,13 +141,7 @@ export class TaskExecutor {
     return await this.prisma.task.findMany({
       where: {
         status: TaskStatus.NOT_STARTED,
-        dependencies: {
-          every: {
-            dependency: {
-              status: TaskStatus.COMPLETED,
-            },
-          },
-        },
+        pendingDependencies: 0,
         OR: [
           { lockTime: null },
           { lockTime: { lt: now } } // Lock has expired (older than 30 seconds)
@@ -176,55 +171,71 @@ export class TaskExecutor {
   }
 
   /**
-   * Mark a task as failed
+   * Mark a task as failed, to be retried according to the retry policy of its runner
+   * @param taskId - The ID of the failed task
+   * @param error - The cause of the failure
    */
-  private async markTaskAsFailed(taskId: number): Promise<void> {
-    await this.prisma.task.update({
-      where: { id: taskId },
-      data: { status: TaskStatus.CANCELLED },
-    });
+  private async markTaskAsFailed(taskId: number, error: unknown): Promise<void> {
+    await TaskRunnerRegistry.markTaskAsFailed(this.prisma, taskId, error);
   }
 
   /**
-   * Execute non-batch mode task and process its outputs
-   * This function handles the execution of tasks when OPENAI_FLEX_MODE is set to 'nonbatch'
-   * @return true if we executed at least one task.
+   * Process the output of an INITIATED task, if available
+   * This function handles both tasks whose AI provider answers synchronously
+   * (OpenAI with OPENAI_FLEX_MODE set to 'nonbatch', or any non-OpenAI provider)
+   * and tasks whose request went into an OpenAI batch, whose output comes when the batch is done.
+   * The output is passed to the `onOutput` of the runner of the task.
+   * @return true if we processed the output of the task.
    */
   async executeNonBatchMode(taskId: number): Promise<boolean> {
-    const openAIFlexMode = process.env.OPENAI_FLEX_MODE as 'batch' | 'nonbatch';
-    
-    if (openAIFlexMode !== 'nonbatch') {
-      console.log(`📋 OPENAI_FLEX_MODE is batch, tasks queued for batch processing`);
-      return false;
-    }
-
-    let executed = false;
     const task = await this.prisma.task.findUniqueOrThrow({ // TODO@P3: Avoid repeated database queries.
       where: { id: taskId },
       select: {
         storeId: true,
-        NonBatches: {
-          include: {
-            nonbatchMappings: true,
-          },
-        },
+        runnerClassName: true,
+        runnerData: true,
       },
     });
-    for (const nonBatch of task.NonBatches) {
-      for (const mapping of nonBatch.nonbatchMappings) {
-        const store = await createAIBatchStore(task.storeId!, taskId);
-        const outputter = await createAIOutputter(store);
-        const output = await outputter.getOutput(mapping.customId); // Query output to warrant that the task fully ran.
-        if (output === undefined) {
-          await TaskRunnerRegistry.markTaskAsCancelled(this.prisma, taskId);
-        } else {
-          await TaskRunnerRegistry.completeTask(this.prisma, taskId, output);
-          executed = true;
-        }
+    const runnerData: TaskRunnerData = task.runnerData ? JSON.parse(task.runnerData) : {};
+    if (!runnerData.customId || !task.storeId) {
+      return false;
+    }
+
+    const provider = resolveTaskAIProvider(task.runnerClassName, runnerData.aiProvider);
+    const output = await provider.getResponse(task.storeId, runnerData.customId, taskId); // Query output to warrant that the task fully ran.
+    if (output === undefined) {
+      if (!provider.isSynchronous()) {
+        console.log(`📋 Output of task ${taskId} not ready yet, its request is batched by ${provider.name}`);
+        return false;
       }
+      await this.markTaskAsFailed(taskId, `No response received from AI provider ${provider.name}`);
+      return false;
     }
+    await recordAIUsage(this.prisma, runnerData.customId, provider, output, runnerData.aiModel);
 
-    return executed;
+    // Reject responses of a model possibly hijacked by a prompt injection.
+    if (runnerData.canary) {
+      let rejectionReason: string | undefined;
+      try {
+        rejectionReason = verifyPromptCanary(provider.extractStructuredOutput(output), runnerData.canary);
+      } catch (error) {
+        rejectionReason = `unparseable response: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      if (rejectionReason) {
+        console.warn(`🚨 Task ${taskId} response rejected by the canary check: ${rejectionReason}`);
+        await TaskRunnerRegistry.markTaskAsCancelled(this.prisma, taskId, `Canary check failed: ${rejectionReason}`);
+        return false;
+      }
+    }
+    await TaskRunnerRegistry.deliverOutput(
+      this.prisma,
+      taskId,
+      runnerData.customId,
+      runnerData.canary
+        ? stripPromptCanary(provider.extractStructuredOutput(output), runnerData.canary)
+        : provider.extractStructuredOutput(output)
+    );
+    return true;
   }
 
   /**
@@ -233,25 +244,8 @@ export class TaskExecutor {
    * @returns true if lock was acquired, false if task is already locked
    */
   private async acquireTaskLock(taskId: number): Promise<boolean> {
-    const now = new Date();
-    const lockTimeout = new Date(now.getTime() + 30 * 1000); // 30 seconds from now
-
     try {
-      // Try to acquire lock by setting lockTime if it's null or expired
-      const result = await this.prisma.task.updateMany({
-        where: {
-          id: taskId,
-          OR: [
-            { lockTime: null },
-            { lockTime: { lt: now } } // Lock has expired (older than 30 seconds)
-          ]
-        },
-        data: {
-          lockTime: lockTimeout
-        }
-      });
-
-      return result.count > 0;
+      return await acquireTaskLease(this.prisma, taskId, this.leaseOptions);
     } catch (error) {
       console.error(`Failed to acquire lock for task ${taskId}:`, error);
       return false;
@@ -264,10 +258,7 @@ export class TaskExecutor {
    */
   private async releaseTaskLock(taskId: number): Promise<void> {
     try {
-      await this.prisma.task.update({
-        where: { id: taskId },
-        data: { lockTime: null }
-      });
+      await releaseTaskLease(this.prisma, taskId, this.leaseOptions);
     } catch (error) {
       console.error(`Failed to release lock for task ${taskId}:`, error);
     }
@@ -1,16 +1,59 @@
 import { PrismaClient } from '@prisma/client';
-import { TaskStatus, TaskRunnerRegistry } from '../types/task.js';
+import { FINISHED_TASK_STATUSES, TaskStatus, TaskRunnerRegistry } from '../types/task.js';
 import { TaskExecutor } from './TaskExecutor.js';
+import { UserEvaluationFlow } from './UserEvaluationFlow.js';
+import { readTaskLeaseOptions, TaskLeaseOptions, withTaskLease } from './taskLease.js';
+
+/** Maximal number of tasks of each list (ready, in flight) fetched per scheduler iteration */
+const SCHEDULER_BATCH_SIZE = 500;
+
+/**
+ * Counts of the tasks processed by `TaskManager.runAllPendingTasks`
+ */
+export interface TaskRunSummary {
+  executed: number;
+  failed: number;
+  skipped: number;
+}
+
+function getTaskRunOutcome(status: TaskStatus | undefined): keyof TaskRunSummary {
+  switch (status) {
+    case TaskStatus.INITIATED:
+    case TaskStatus.COMPLETED:
+      return 'executed';
+    case TaskStatus.CANCELLED:
+    case TaskStatus.RETRY_WAIT:
+    case TaskStatus.FAILED:
+      return 'failed';
+    default:
+      return 'skipped';
+  }
+}
+
+/**
+ * Interval between two output checks of an INITIATED task, `TASK_OUTPUT_POLL_SECONDS` (default: 60)
+ */
+function readTaskOutputPollMs(): number {
+  const seconds = parseFloat(process.env.TASK_OUTPUT_POLL_SECONDS ?? '');
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : 60) * 1000;
+}
 
 export class TaskManager {
   private prisma: PrismaClient;
+  private leaseOptions: TaskLeaseOptions;
 
-  constructor(prisma: PrismaClient) {
+  /**
+   * @param prisma - Prisma client instance
+   * @param leaseOptions - Leases taken on the processed tasks, so that several workers can share the queue
+   */
+  constructor(prisma: PrismaClient, leaseOptions: TaskLeaseOptions = readTaskLeaseOptions()) {
     this.prisma = prisma;
+    this.leaseOptions = leaseOptions;
   }
 
   /**
-   * Run a task with a given taskId only if all tasks on which it depends are COMPLETED
+   * Run a task with a given taskId only if all tasks on which it depends are finished
+   * (COMPLETED, CANCELLED or FAILED); the runner decides whether to run on cancelled or failed dependencies
    * @param taskId - The ID of the task to run
    * @returns Promise<boolean> - True if the task was successfully run, false otherwise
    */
@@ -44,19 +87,24 @@ export class TaskManager {
         return false;
       }
 
-      if (task.status === TaskStatus.CANCELLED) {
-        console.log(`Task ${taskId} is cancelled and cannot be run`);
+      if (task.status !== TaskStatus.NOT_STARTED) {
+        console.log(`Task ${taskId} is ${task.status} and cannot be run`);
         return false;
       }
 
-      // Check if all dependencies are completed
-      const incompleteDependencies = task.dependencies.filter(
-        (dep) => dep.dependency.status !== TaskStatus.COMPLETED
+      // Check if all dependencies are finished
+      const unfinishedDependencies = task.dependencies.filter(
+        (dep) => !FINISHED_TASK_STATUSES.includes(dep.dependency.status as TaskStatus)
       );
 
-      if (incompleteDependencies.length > 0) {
-        const incompleteIds = incompleteDependencies.map(dep => dep.dependency.id);
-        console.log(`Task ${taskId} cannot be run - dependencies not completed: ${incompleteIds.join(', ')}`);
+      if (unfinishedDependencies.length > 0) {
+        const unfinishedIds = unfinishedDependencies.map(dep => dep.dependency.id);
+        console.log(`Task ${taskId} cannot be run - dependencies not finished: ${unfinishedIds.join(', ')}`);
+        // Repair the remaining-dependency counter, so that the scheduler waits for them
+        await this.prisma.task.update({
+          where: { id: taskId },
+          data: { pendingDependencies: unfinishedDependencies.length }
+        });
         return false;
       }
 
@@ -83,134 +131,112 @@ export class TaskManager {
     } catch (error) {
       console.error(`❌ Error running task ${taskId}:`, error);
       
-      TaskRunnerRegistry.markTaskAsCancelled(this.prisma, taskId);
+      await TaskRunnerRegistry.markTaskAsFailed(this.prisma, taskId, error);
       
       return false;
     }
   }
 
   /**
-   * Run all pending tasks following the algorithm:
-   * - In a loop, while no more tasks status changed:
-   *   - for each task, only if the status of its dependencies is COMPLETE or CANCELLED
-   *     - If the task is PENDING (NOT_STARTED), initiate it
-   *     - If the status is INITIATED, check task output
-   * @returns Promise<{ executed: number, failed: number, skipped: number }> - Summary of execution results
+   * Run all pending tasks. Instead of walking the dependencies of every pending task, the scheduler relies on
+   * the remaining-dependency counters (`pendingDependencies`), decremented when a dependency finishes:
+   * - In passes over the tasks in order of ID, until a pass changes no task:
+   *   - RETRY_WAIT tasks whose `retryAt` has passed go back to NOT_STARTED
+   *   - NOT_STARTED tasks whose counter is 0 are initiated
+   *   - INITIATED tasks (requests in flight) whose `nextPollAt` has passed have their output checked;
+   *     without output yet, the next check is `TASK_OUTPUT_POLL_SECONDS` later, so that batch jobs
+   *     are polled on their own cadence instead of on every run
+   *   - Both lists are fetched by index, `SCHEDULER_BATCH_SIZE` tasks at a time after the last ID fetched in
+   *     the pass, and skip the tasks leased by another worker; each task is processed under a lease renewed
+   *     by heartbeats
+   * - Close the evaluation flows whose tasks are all finished
+   * @returns Summary of the run, where each processed task counts once, by its status at the end of the run:
+   *   executed if INITIATED or COMPLETED, failed if CANCELLED, RETRY_WAIT or FAILED, skipped if left unchanged
    */
-  async runAllPendingTasks(): Promise<{ executed: number; failed: number; skipped: number }> {
+  async runAllPendingTasks(): Promise<TaskRunSummary> {
     try {
-      let executed = 0;
-      let failed = 0;
-      let skipped = 0;
-
-      // Loop while task status changes occur
-      let statusChanged = true;
-      while (statusChanged) {
-        statusChanged = false;
-
-        // Build a list of tasks that depend only on COMPLETED or CANCELLED tasks
-        const runnableTasks = await this.prisma.task.findMany({
-          where: { 
-            status: {
-              in: [TaskStatus.NOT_STARTED, TaskStatus.INITIATED]
-            },
-            dependencies: {
-              every: {
-                dependency: {
-                  status: {
-                    in: [TaskStatus.COMPLETED, TaskStatus.CANCELLED]
-                  }
-                }
-              }
-            }
-          },
-          include: {
-            dependencies: {
-              include: {
-                dependency: true,
-              },
-            },
+      const outcomes = new Map<number, keyof TaskRunSummary>();
+      // Last IDs fetched in the pass, not to fetch the tasks left unchanged again in the same pass
+      let readyAfterId = 0;
+      let dueAfterId = 0;
+      let passChangedTasks = false;
+
+      for (;;) {
+        if (await this.releaseDueRetries() > 0) {
+          passChangedTasks = true;
+        }
+
+        const now = new Date();
+        const notLeased = {
+          OR: [
+            { lockTime: null },
+            { lockTime: { lt: now } }
+          ]
+        };
+        const readyTasks = await this.prisma.task.findMany({
+          where: {
+            status: TaskStatus.NOT_STARTED,
+            pendingDependencies: 0,
+            id: { gt: readyAfterId },
+            ...notLeased
           },
+          select: { id: true, status: true },
           orderBy: { id: 'asc' }, // Process in order of creation
+          take: SCHEDULER_BATCH_SIZE
+        });
+        const dueTasks = await this.prisma.task.findMany({
+          where: {
+            status: TaskStatus.INITIATED,
+            id: { gt: dueAfterId },
+            AND: [
+              notLeased,
+              { OR: [{ nextPollAt: null }, { nextPollAt: { lte: now } }] }
+            ]
+          },
+          select: { id: true, status: true },
+          orderBy: { id: 'asc' },
+          take: SCHEDULER_BATCH_SIZE
         });
 
-        // If no runnable tasks found, exit the loop
-        if (runnableTasks.length === 0) {
-          console.log('No more runnable tasks found');
-          break;
-        }
-
-        console.log(`Found ${runnableTasks.length} runnable tasks to process in this iteration`);
-
-        // Process all tasks in the current batch
-        for (const task of runnableTasks) {
-          console.log(`Processing task ${task.id} (status: ${task.status})...`);
-          
-          let taskStatusChanged = false;
-          
-          if (task.status === TaskStatus.NOT_STARTED) {
-            // If the task is PENDING (NOT_STARTED), initiate it
-            const success = await this.runTaskWithDependencies(task.id);
-            taskStatusChanged = success;
-            
-            if (success) {
-              executed++;
-              console.log(`Task ${task.id} initiated successfully`);
-            } else {
-              // Check if it was skipped due to dependencies or failed
-              const currentTask = await this.prisma.task.findUnique({
-                where: { id: task.id },
-                select: { status: true }
-              });
-
-              if (currentTask?.status === TaskStatus.NOT_STARTED) {
-                // Still pending means dependencies weren't met
-                skipped++;
-                console.log(`Task ${task.id} skipped - dependencies not met`);
-              } else {
-                // Status changed to CANCELLED means it failed
-                failed++;
-                console.log(`Task ${task.id} failed to execute`);
-                taskStatusChanged = true;
-              }
-            }
-          } else if (task.status === TaskStatus.INITIATED) {
-            // If the status is INITIATED, check task output
-            // const outputChecked = await this.checkTaskOutput(task.id);
-            // taskStatusChanged = outputChecked;
-            
-            // Execute non-batch mode tasks if applicable
-            const taskExecutor = new TaskExecutor(this.prisma);
-            const executedNonBatch = await taskExecutor.executeNonBatchMode(task.id);
-            taskStatusChanged ||= executedNonBatch;
-
-            if (executedNonBatch) {
-              executed++; // TODO@P3: Seems to calculate wrongly.
-              console.log(`Task ${task.id} output checked and completed`);
-            } else {
-              // Check if task was cancelled or failed during output checking
-              const currentTask = await this.prisma.task.findUnique({
-                where: { id: task.id },
-                select: { status: true }
-              });
-
-              if (currentTask?.status === TaskStatus.CANCELLED) {
-                failed++;
-                console.log(`Task ${task.id} failed during output check`);
-                taskStatusChanged = true;
-              }
-            }
+        if (readyTasks.length === 0 && dueTasks.length === 0) {
+          if (!passChangedTasks) {
+            break;
           }
-          
-          // Track if any task status changed in this iteration
-          if (taskStatusChanged) {
-            statusChanged = true;
+          // Tasks made ready by the pass (e.g. dependents, released retries) may be behind the cursors
+          readyAfterId = 0;
+          dueAfterId = 0;
+          passChangedTasks = false;
+          continue;
+        }
+        if (readyTasks.length > 0) {
+          readyAfterId = readyTasks[readyTasks.length - 1].id;
+        }
+        if (dueTasks.length > 0) {
+          dueAfterId = dueTasks[dueTasks.length - 1].id;
+        }
+        console.log(`Processing ${readyTasks.length} ready and ${dueTasks.length} in-flight tasks`);
+
+        for (const task of [...readyTasks, ...dueTasks]) {
+          const status = await this.processTask(task.id, task.status as TaskStatus);
+          if (status !== task.status) {
+            outcomes.set(task.id, getTaskRunOutcome(status));
+            passChangedTasks = true;
+          } else if (!outcomes.has(task.id)) {
+            outcomes.set(task.id, 'skipped');
           }
         }
       }
 
-      console.log(`Task execution summary: ${executed} executed, ${failed} failed, ${skipped} skipped`);
-      return { executed, failed, skipped };
+      await new UserEvaluationFlow(this.prisma).closeFinishedFlows();
+
+      const summary: TaskRunSummary = { executed: 0, failed: 0, skipped: 0 };
+      for (const outcome of outcomes.values()) {
+        summary[outcome]++;
+      }
+      if (outcomes.size > 0) {
+        console.log(`Task execution summary: ${summary.executed} executed, ${summary.failed} failed, ${summary.skipped} skipped`);
+      }
+      return summary;
 
     } catch (error) {
       console.error('❌ Error running all pending tasks:', error);
@@ -218,6 +244,59 @@ export class TaskManager {
     }
   }
 
+  /**
+   * Initiate a NOT_STARTED task, or check the output of an INITIATED one, under the lease of the task
+   * @param taskId - The ID of the task to process
+   * @param status - The status of the task when it was selected
+   * @returns The status of the task after processing; unchanged if another worker holds the lease
+   *   or processed the task meanwhile
+   */
+  private async processTask(taskId: number, status: TaskStatus): Promise<TaskStatus | undefined> {
+    const leased = await withTaskLease(this.prisma, taskId, this.leaseOptions, async () => {
+      // Another worker may have processed the task between the query and the lease
+      const leasedTask = await this.prisma.task.findUnique({
+        where: { id: taskId },
+        select: { status: true }
+      });
+      if (leasedTask?.status !== status) {
+        return status;
+      }
+
+      console.log(`Processing task ${taskId} (status: ${status})...`);
+      if (status === TaskStatus.NOT_STARTED) {
+        await this.runTaskWithDependencies(taskId);
+      } else {
+        // Execute non-batch mode tasks if applicable, or check the output of batch mode tasks
+        const taskExecutor = new TaskExecutor(this.prisma, this.leaseOptions);
+        try {
+          await taskExecutor.executeNonBatchMode(taskId);
+        } catch (error) {
+          console.error(`❌ Error getting the output of task ${taskId}:`, error);
+          await TaskRunnerRegistry.markTaskAsFailed(this.prisma, taskId, error);
+        }
+      }
+
+      const processedTask = await this.prisma.task.findUnique({
+        where: { id: taskId },
+        select: { status: true }
+      });
+      if (status === TaskStatus.INITIATED && processedTask?.status === TaskStatus.INITIATED) {
+        // No output yet, check again on the polling cadence (a task just initiated is checked right away)
+        await this.prisma.task.update({
+          where: { id: taskId },
+          data: { nextPollAt: new Date(Date.now() + readTaskOutputPollMs()) }
+        });
+      }
+      return processedTask?.status as TaskStatus | undefined;
+    });
+
+    if (!leased) {
+      console.log(`Task ${taskId} skipped - leased by another worker`);
+      return status;
+    }
+    return leased.result;
+  }
+
   /**
    * Check the output of an INITIATED task and update its status accordingly
    * @param taskId - The ID of the task to check
@@ -243,12 +322,10 @@ export class TaskManager {
       // Check if task has a runner specified
       if (!task.runnerClassName) {
         console.error(`Task ${taskId} has no runner class specified during output check`);
-        await this.prisma.task.update({
-          where: { id: taskId },
-          data: { 
-            status: TaskStatus.CANCELLED,
-            updatedAt: new Date()
-          },
+        await TaskRunnerRegistry.finishTask(this.prisma, taskId, {
+          status: TaskStatus.CANCELLED,
+          completedAt: new Date(),
+          updatedAt: new Date()
         });
         return true;
       }
@@ -264,12 +341,10 @@ export class TaskManager {
         runnerData = JSON.parse(task.runnerData);
       } catch (error) {
         console.error(`Failed to parse runner data for task ${taskId}:`, error);
-        await this.prisma.task.update({
-          where: { id: taskId },
-          data: { 
-            status: TaskStatus.CANCELLED,
-            updatedAt: new Date()
-          },
+        await TaskRunnerRegistry.finishTask(this.prisma, taskId, {
+          status: TaskStatus.CANCELLED,
+          completedAt: new Date(),
+          updatedAt: new Date()
         });
         return true;
       }
@@ -310,13 +385,10 @@ export class TaskManager {
         // Check if they have completion data
         if (runnerData.completedAt || runnerData.status === 'COMPLETED') {
           console.log(`Task ${taskId} already has completion data, updating status`);
-          await this.prisma.task.update({
-            where: { id: taskId },
-            data: { 
-              status: TaskStatus.COMPLETED,
-              completedAt: new Date(),
-              updatedAt: new Date()
-            },
+          await TaskRunnerRegistry.finishTask(this.prisma, taskId, {
+            status: TaskStatus.COMPLETED,
+            completedAt: new Date(),
+            updatedAt: new Date()
           });
           return true;
         }
@@ -328,41 +400,52 @@ export class TaskManager {
     } catch (error) {
       console.error(`❌ Error checking task output for task ${taskId}:`, error);
       
-      // Mark task as cancelled due to error
-      try {
-        await this.prisma.task.update({
-          where: { id: taskId },
-          data: { 
-            status: TaskStatus.CANCELLED,
-            updatedAt: new Date()
-          },
-        });
-        return true;
-      } catch (updateError) {
-        console.error(`Failed to update task ${taskId} status after error:`, updateError);
-        return false;
+      // Record the failed attempt, to be retried
+      return await TaskRunnerRegistry.markTaskAsFailed(this.prisma, taskId, error);
+    }
+  }
+
+  /**
+   * Put the RETRY_WAIT tasks whose `retryAt` has passed back to NOT_STARTED
+   * @returns Number of tasks to retry
+   */
+  async releaseDueRetries(): Promise<number> {
+    const { count } = await this.prisma.task.updateMany({
+      where: {
+        status: TaskStatus.RETRY_WAIT,
+        retryAt: { lte: new Date() }
+      },
+      data: {
+        status: TaskStatus.NOT_STARTED,
+        retryAt: null,
+        nextPollAt: null,
+        storeId: null
       }
+    });
+    if (count > 0) {
+      console.log(`🔁 ${count} task(s) released for retry`);
     }
+    return count;
   }
 
   /**
-   * Delete all COMPLETED or CANCELLED tasks that are dependencies only of COMPLETED or CANCELLED tasks
+   * Delete all finished (COMPLETED, CANCELLED or FAILED) tasks that are dependencies only of finished tasks
    * @returns Promise<number> - Number of tasks deleted
    */
   async deleteOrphanedDependencies(): Promise<number> {
     try {
-      // Find all tasks where all dependents are COMPLETED or CANCELLED
+      // Find all tasks where all dependents are finished
       // This uses a single efficient Prisma query instead of multiple queries
       const orphanedTasks = await this.prisma.task.findMany({
         where: {
           status: {
-            in: [TaskStatus.COMPLETED, TaskStatus.CANCELLED]
+            in: FINISHED_TASK_STATUSES
           },
           dependents: {
             every: {
               task: {
                 status: {
-                  in: [TaskStatus.COMPLETED, TaskStatus.CANCELLED]
+                  in: FINISHED_TASK_STATUSES
                 }
               }
             }
@@ -0,0 +1,116 @@
+import { PrismaClient } from '@prisma/client';
+import { TaskManager } from './TaskManager.js';
+import { readTaskLeaseOptions, reapExpiredTaskLeases, TaskLeaseOptions } from './taskLease.js';
+import { onTaskQueueChanged } from './taskEvents.js';
+import { flushDueBatchStores } from './openAIBatchQueue.js';
+
+export interface TaskWorkerOptions {
+  pollMs: number;
+  lease: TaskLeaseOptions;
+}
+
+/**
+ * Read the worker options from the environment:
+ * - `TASK_WORKER_POLL_SECONDS` - interval between two scans of the task queue (default: 5)
+ * - the lease options, see `readTaskLeaseOptions`
+ */
+export function readTaskWorkerOptions(): TaskWorkerOptions {
+  const pollSeconds = parseFloat(process.env.TASK_WORKER_POLL_SECONDS ?? '');
+  return {
+    pollMs: (Number.isFinite(pollSeconds) && pollSeconds > 0 ? pollSeconds : 5) * 1000,
+    lease: readTaskLeaseOptions()
+  };
+}
+
+/**
+ * Worker processing the task queue: it reaps the tasks whose lease expired, runs the runnable tasks
+ * under leases, then submits the due OpenAI batches, repeatedly. Several workers (in the API server and in `npm run worker` processes) can share the queue.
+ * Besides polling, the worker wakes up when tasks of this process are enqueued or finished (see `taskEvents`).
+ */
+export class TaskWorker {
+  private prisma: PrismaClient;
+  private options: TaskWorkerOptions;
+  private taskManager: TaskManager;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<void> | null = null;
+  private stopped = true;
+  private wakeRequested = false;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(prisma: PrismaClient, options: TaskWorkerOptions = readTaskWorkerOptions()) {
+    this.prisma = prisma;
+    this.options = options;
+    this.taskManager = new TaskManager(prisma, options.lease);
+  }
+
+  /**
+   * Start polling the task queue
+   */
+  start() {
+    if (!this.stopped) {
+      console.log(`⚠️  Task worker ${this.options.lease.owner} is already running`);
+      return;
+    }
+    this.stopped = false;
+    this.unsubscribe = onTaskQueueChanged(() => this.wake());
+    console.log(`👷 Task worker ${this.options.lease.owner} started (polls every ${this.options.pollMs / 1000}s, lease ${this.options.lease.leaseMs / 1000}s)`);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the current run, so that no lease is left behind
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.currentRun;
+    console.log(`⏹️  Task worker ${this.options.lease.owner} stopped`);
+  }
+
+  /**
+   * Process the task queue once
+   */
+  async runOnce(): Promise<void> {
+    try {
+      await reapExpiredTaskLeases(this.prisma);
+      await this.taskManager.runAllPendingTasks();
+      // After the run, so that the requests of the tasks just initiated join the due batches
+      await flushDueBatchStores();
+    } catch (error) {
+      console.error(`❌ Error in task worker ${this.options.lease.owner}:`, error);
+    }
+  }
+
+  /**
+   * Run as soon as possible: now if the worker waits for its next poll, right after the current run otherwise
+   */
+  wake() {
+    if (this.stopped) {
+      return;
+    }
+    if (this.currentRun) {
+      this.wakeRequested = true;
+    } else if (this.timer) {
+      clearTimeout(this.timer);
+      this.schedule(0);
+    }
+  }
+
+  private schedule(delayMs: number) {
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      this.wakeRequested = false;
+      this.currentRun = this.runOnce();
+      await this.currentRun;
+      this.currentRun = null;
+      if (!this.stopped) {
+        this.schedule(this.wakeRequested ? 0 : this.options.pollMs);
+      }
+    }, delayMs);
+  }
+}
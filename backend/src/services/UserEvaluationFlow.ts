@@ -1,10 +1,34 @@
-import { PrismaClient, Task } from '@prisma/client';
-import { TaskStatus } from '../types/task.js';
-import { worthPrompt, injectionPrompt } from '../prompts.js';
+import { EvaluationFlow, PrismaClient, Task } from '@prisma/client';
+import { FINISHED_TASK_STATUSES, TaskStatus } from '../types/task.js';
+import { notifyTaskQueueChanged } from './taskEvents.js';
+import { PromptName, PromptRegistry, renderPrompt } from './PromptRegistry.js';
 import { GlobalDataService } from './GlobalDataService.js';
+import { AppealService } from './AppealService.js';
+import { readCassetteWorldGdp, recordCassetteWorldGdp } from './ai-providers/index.js';
+import {
+  DroppedWorthSample,
+  readWorthEnsembleConfig,
+  WorthAggregationStrategy,
+  WorthComponentMedian,
+  WorthComponentName,
+  WorthSample,
+  WorthUncertaintyBand
+} from './worthEnsemble.js';
+import {
+  EvaluationCycleType,
+  expandEvaluationPipeline,
+  getEvaluationPipeline,
+  PipelineVariables,
+  renderPipelineTaskData,
+  selectEvaluationPipeline
+} from './evaluationPipeline.js';
+
+export { EvaluationCycleType };
 
 export interface UserEvaluationData {
   userId: number;
+  /** Set when re-evaluating the user on an appeal, see `AppealService` */
+  appealId?: number;
   userData: {
     orcidId?: string;
     githubHandle?: string;
@@ -12,6 +36,81 @@ export interface UserEvaluationData {
     gitlabHandle?: string;
     [key: string]: any;
   };
+  /** OpenAI model replacing the configured ones in the AI tasks of the flow, e.g. once the soft AI budget cap is exceeded */
+  aiModel?: string;
+}
+
+export enum EvaluationFlowStatus {
+  RUNNING = 'RUNNING', // Some tasks of the flow are not finished
+  COMPLETED = 'COMPLETED', // The worth was aggregated, see `result`
+  FAILED = 'FAILED' // The flow ended without an aggregated worth (e.g. a cancelled task or a ban)
+}
+
+/**
+ * Error in an evaluation flow operation, to be reported to the client with `statusCode`
+ */
+export class EvaluationFlowError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'EvaluationFlowError';
+  }
+}
+
+/**
+ * Aggregated worth of a completed flow, stored in `EvaluationFlow.result`
+ */
+export interface EvaluationFlowResult {
+  medianWorth: number;
+  smoothedShareInGDP?: number;
+  aggregation: WorthAggregationStrategy;
+  componentMedians?: Partial<Record<WorthComponentName, WorthComponentMedian>>;
+  sourceValues: number[];
+  keptSamples: WorthSample[];
+  droppedSamples: DroppedWorthSample[];
+  /** Missing for flows without samples */
+  uncertainty?: WorthUncertaintyBand;
+  /** Times worth samples were added because the result was too uncertain */
+  extraSampleRounds?: number;
+  /** Set if the result was too uncertain to be recorded without review, see `WorthReviewService` */
+  manualReviewId?: number;
+  completedAt: string;
+}
+
+export interface EvaluationFlowEntry extends Omit<EvaluationFlow, 'result'> {
+  result: EvaluationFlowResult | null;
+}
+
+export interface EvaluationFlowProgress {
+  flow: EvaluationFlowEntry;
+  tasks: Pick<Task, 'id' | 'runnerClassName' | 'status' | 'createdAt' | 'updatedAt' | 'completedAt'>[];
+  /** Number of tasks per status */
+  counts: Record<string, number>;
+}
+
+/**
+ * Flow created by `createOnboardingFlow` or `createEvaluationFlow`
+ */
+export interface CreatedEvaluationFlow {
+  flowId: number;
+  /** Task to start the evaluation from */
+  rootTaskId: number;
+}
+
+// Generous for SQLite, which serializes the writes of concurrent flow creations
+const FLOW_CREATION_TIMEOUT_MS = 30000;
+
+/**
+ * Place of a task in the pipeline, recorded in its runner data (`pipelineNode`, `pipelineSample`)
+ */
+function getPipelineTaskKey(nodeId: string, sample?: number): string {
+  return sample === undefined ? nodeId : `${nodeId}#${sample}`;
+}
+
+function toEvaluationFlowEntry(flow: EvaluationFlow): EvaluationFlowEntry {
+  return {
+    ...flow,
+    result: flow.result ? JSON.parse(flow.result) : null
+  };
 }
 
 export class UserEvaluationFlow {
@@ -23,105 +122,233 @@ export class UserEvaluationFlow {
 
   /**
    * Create the complete flow graph for user evaluation
-   * Returns the root task ID that can be used to start the evaluation
+   * Returns the flow and the root task ID that can be used to start the evaluation
    * 
    * Flow according to new diagram:
    * 1. Actor → gpt-5-mini Assessment (scientist check)
    * 2. Bi-monthly trigger → Sequential randomization and assessment pairs
    * 3. Each pair: Randomize → Randomized (can lead to ban or median)
+   * @throws EvaluationFlowError if a flow of the user is still running
    */
-  async createOnboardingFlow(evaluationData: UserEvaluationData) {
+  async createOnboardingFlow(evaluationData: UserEvaluationData): Promise<CreatedEvaluationFlow> {
     console.log(`🔄 Creating onboarding flow for user ${evaluationData.userId}`);
-
-    // Step 1: Create the initial scientist check task
-    const scientistOnboardingTask = await this.createScientistOnboardingTask(evaluationData);
-    
-    return this.createEvaluationFlow(evaluationData, scientistOnboardingTask);
+    return await this.createFlow(evaluationData, EvaluationCycleType.ONBOARDING);
   }
 
   /**
-   * Create the flow graph for user evaluation according to the new diagram
-   * Returns the root task ID that can be used to start the evaluation
-   * 
-   * New Flow according to diagram:
-   * 1. Actor → gpt-5-mini Assessment (scientist check)
-   * 2. Bi-monthly trigger → Sequential randomization and assessment pairs
-   * 3. Each pair: Randomize → Randomized (can lead to ban or median)
-   * 4. 6 pairs total: 3 worth assessment pairs + 3 injection check pairs
+   * Create the flow graph for the re-evaluation of an onboarded user
+   * Returns the flow and the root task ID that can be used to start the evaluation
+   * @param evaluationData - The user
+   * @param cycleType - Why the user is evaluated (default: APPEAL if `appealId` is set, PERIODIC otherwise)
+   * @throws EvaluationFlowError if a flow of the user is still running
    */
-  async createEvaluationFlow(evaluationData: UserEvaluationData, scientistOnboardingTask?: Task) {
+  async createEvaluationFlow(
+    evaluationData: UserEvaluationData,
+    cycleType: EvaluationCycleType = evaluationData.appealId ? EvaluationCycleType.APPEAL : EvaluationCycleType.PERIODIC
+  ): Promise<CreatedEvaluationFlow> {
     console.log(`🔄 Creating evaluation flow for user ${evaluationData.userId}`);
+    return await this.createFlow(evaluationData, cycleType);
+  }
 
-    const worthPromptWithGdp = await this.getWorthPromptWithGdp();
-    const completionTasks: number[] = [];
-    
-    // Create 6 sequential pairs as per the new diagram:
-    // 3 pairs of "Randomize: How much the user is worth?" → "Randomized: How much the user is worth?"
-    // 3 pairs of "Randomize: Is there a prompt injection?" → "Randomized: Is there a prompt injection?"
-    
-    // Pair 1: Worth assessment
-    const pair1Randomize = await this.createRandomizePromptTask(
-      evaluationData,
-      scientistOnboardingTask ? [scientistOnboardingTask.id] : [],
-      worthPromptWithGdp
-    );
-    const pair1Worth = await this.createWorthAssessmentTask(evaluationData, [pair1Randomize.id]);
-    completionTasks.push(pair1Worth.id);
-    
-    // Pair 2: Injection check (depends on pair1 worth assessment for URLs)
-    const pair2Randomize = await this.createRandomizePromptTask(evaluationData, [pair1Worth.id], injectionPrompt);
-    const pair2Injection = await this.createPromptInjectionTask(evaluationData, [pair2Randomize.id, pair1Worth.id], 1);
-    completionTasks.push(pair2Injection.id);
-    
-    // Pair 3: Worth assessment
-    const pair3Randomize = await this.createRandomizePromptTask(evaluationData, [pair2Injection.id], worthPromptWithGdp);
-    const pair3Worth = await this.createWorthAssessmentTask(evaluationData, [pair3Randomize.id]);
-    completionTasks.push(pair3Worth.id);
-    
-    // Pair 4: Injection check (depends on all previous worth assessments for URLs)
-    const pair4Randomize = await this.createRandomizePromptTask(evaluationData, [pair3Worth.id], injectionPrompt);
-    const pair4Injection = await this.createPromptInjectionTask(evaluationData, [pair4Randomize.id, pair1Worth.id, pair3Worth.id], 2);
-    completionTasks.push(pair4Injection.id);
-    
-    // Pair 5: Worth assessment
-    const pair5Randomize = await this.createRandomizePromptTask(evaluationData, [pair4Injection.id], worthPromptWithGdp);
-    const pair5Worth = await this.createWorthAssessmentTask(evaluationData, [pair5Randomize.id]);
-    completionTasks.push(pair5Worth.id);
-    
-    // Pair 6: Injection check (depends on all previous worth assessments for URLs)
-    const pair6Randomize = await this.createRandomizePromptTask(evaluationData, [pair5Worth.id], injectionPrompt);
-    const pair6Injection = await this.createPromptInjectionTask(evaluationData, [pair6Randomize.id, pair1Worth.id, pair3Worth.id, pair5Worth.id], 3);
-    completionTasks.push(pair6Injection.id);
-    
-    // Create median task that depends on all worth assessment tasks
-    const worthTasks = [pair1Worth.id, pair3Worth.id, pair5Worth.id];
-    const medianTask = await this.createMedianTask(evaluationData, worthTasks);
-    
-    console.log(`✅ Evaluation flow created with root task ${scientistOnboardingTask?.id || 'N/A'}`);
-    console.log(`📊 Flow structure: Scientist → 6 sequential pairs (3 worth + 3 injection) → Median`);
-    console.log(`📊 Each injection check can lead to ban, each worth assessment contributes to median`);
-    return scientistOnboardingTask?.id || pair1Randomize.id;
+  /**
+   * Create the flow and its tasks from the pipeline of the user (see `evaluationPipeline.ts`).
+   * Everything is created in a single transaction, so that a half-built graph is never left in the `tasks` table
+   * and two flows can't be started concurrently for the same user.
+   */
+  private async createFlow(evaluationData: UserEvaluationData, cycleType: EvaluationCycleType): Promise<CreatedEvaluationFlow> {
+    const pipeline = selectEvaluationPipeline(evaluationData.userId);
+    const ensemble = readWorthEnsembleConfig();
+    const samples = pipeline.samples ?? ensemble.members.length;
+    const plannedTasks = expandEvaluationPipeline(pipeline, cycleType, samples);
+    if (plannedTasks.length === 0) {
+      throw new EvaluationFlowError(`Evaluation pipeline '${pipeline.name}' has no tasks for ${cycleType} cycles`, 500);
+    }
+    const prompts = new PromptRegistry(this.prisma);
+    const worthPrompt = await prompts.getCurrentVersion(PromptName.WORTH);
+    const injectionPrompt = await prompts.getCurrentVersion(PromptName.INJECTION);
+    const variables: PipelineVariables = {
+      userId: evaluationData.userId,
+      userData: evaluationData.userData,
+      appealId: evaluationData.appealId,
+      aggregation: ensemble.aggregation,
+      prompts: { worth: await this.getWorthPromptWithGdp(worthPrompt.text), injection: injectionPrompt.text },
+      promptVersions: { worth: worthPrompt.id, injection: injectionPrompt.id },
+      members: Array.from({ length: samples }, (_, i) => ({ ...ensemble.members[i % ensemble.members.length] }))
+    };
+
+    const { flow, taskIds } = await this.prisma.$transaction(async (tx) => {
+      const running = await tx.evaluationFlow.findFirst({
+        where: { userId: evaluationData.userId, status: EvaluationFlowStatus.RUNNING }
+      });
+      if (running) {
+        throw new EvaluationFlowError(
+          `An evaluation flow (${running.id}, ${running.cycleType}) is already running for user ${evaluationData.userId}`,
+          409
+        );
+      }
+
+      const flow = await tx.evaluationFlow.create({
+        data: {
+          userId: evaluationData.userId,
+          cycleType,
+          pipeline: pipeline.name,
+          appealId: evaluationData.appealId,
+          variables: JSON.stringify(variables),
+          aiModel: evaluationData.aiModel
+        }
+      });
+
+      const taskIds: number[] = [];
+      const taskIdsByNode = new Map<string, number[]>();
+      for (const planned of plannedTasks) {
+        const task = await tx.task.create({
+          data: {
+            flowId: flow.id,
+            status: TaskStatus.NOT_STARTED,
+            pendingDependencies: planned.dependencies.length,
+            runnerClassName: planned.runner,
+            runnerData: JSON.stringify({
+              ...renderPipelineTaskData(planned.data, variables, taskIdsByNode, planned.sample),
+              ...(evaluationData.aiModel ? { aiModelOverride: evaluationData.aiModel } : {}),
+              pipelineNode: planned.nodeId,
+              pipelineSample: planned.sample
+            })
+          }
+        });
+        if (planned.dependencies.length > 0) {
+          await tx.taskDependency.createMany({
+            data: planned.dependencies.map(index => ({ taskId: task.id, dependencyId: taskIds[index] }))
+          });
+        }
+        taskIds.push(task.id);
+        taskIdsByNode.set(planned.nodeId, [...(taskIdsByNode.get(planned.nodeId) ?? []), task.id]);
+      }
+
+      return { flow, taskIds };
+    }, { timeout: FLOW_CREATION_TIMEOUT_MS });
+    notifyTaskQueueChanged();
+
+    console.log(`✅ Evaluation flow ${flow.id} (${cycleType}) created for user ${evaluationData.userId} with root task ${taskIds[0]}`);
+    console.log(`📊 Pipeline '${pipeline.name}': ${taskIds.length} tasks, ${samples} worth samples`);
+    return { flowId: flow.id, rootTaskId: taskIds[0] };
   }
 
   /**
-   * Create the initial scientist check task
+   * Add worth samples to a running flow, e.g. because its result is too uncertain: the per-sample tasks of the new
+   * samples are created as if the flow had been created with more samples, and the unfinished tasks depending on
+   * all samples (e.g. the median) wait for them too, with their runner data rendered again (e.g. `$taskIds.worth`).
+   * @param flowId - The flow
+   * @param extraSamples - Number of samples to add; their ensemble members continue the round-robin of the flow
+   * @param waitingTaskId - Task being run that waits for the new samples, put back to NOT_STARTED
+   * @returns IDs of the created tasks
+   * @throws EvaluationFlowError if the flow doesn't exist or was created without its pipeline variables
    */
-  private async createScientistOnboardingTask(evaluationData: UserEvaluationData) {
-    return await this.prisma.task.create({
-      data: {
-        status: TaskStatus.NOT_STARTED,
-        runnerClassName: 'ScientistOnboardingRunner',
-        runnerData: JSON.stringify({
-          userData: evaluationData.userData
-        })
+  async addWorthSamples(flowId: number, extraSamples: number, waitingTaskId: number): Promise<number[]> {
+    const flow = await this.prisma.evaluationFlow.findUnique({ where: { id: flowId } });
+    if (!flow) {
+      throw new EvaluationFlowError('Evaluation flow not found', 404);
+    }
+    const pipeline = flow.pipeline ? getEvaluationPipeline(flow.pipeline) : undefined;
+    if (!flow.variables || !pipeline) {
+      throw new EvaluationFlowError(`Evaluation flow ${flowId} has no pipeline variables to add samples with`, 409);
+    }
+    const variables: PipelineVariables = JSON.parse(flow.variables);
+    const samples = variables.members.length + extraSamples;
+    const extended: PipelineVariables = {
+      ...variables,
+      members: Array.from({ length: samples }, (_, i) => variables.members[i % variables.members.length])
+    };
+    const plannedTasks = expandEvaluationPipeline(pipeline, flow.cycleType as EvaluationCycleType, samples);
+
+    const createdTaskIds = await this.prisma.$transaction(async (tx) => {
+      const existing = new Map<string, Task>();
+      for (const task of await tx.task.findMany({ where: { flowId } })) {
+        const data = task.runnerData ? JSON.parse(task.runnerData) : {};
+        if (typeof data.pipelineNode !== 'string') {
+          throw new EvaluationFlowError(`Task ${task.id} of evaluation flow ${flowId} has no pipeline node`, 409);
+        }
+        existing.set(getPipelineTaskKey(data.pipelineNode, data.pipelineSample), task);
       }
-    });
+
+      const createdTaskIds: number[] = [];
+      const taskIds: number[] = [];
+      const taskIdsByNode = new Map<string, number[]>();
+      for (const planned of plannedTasks) {
+        const dependencyIds = planned.dependencies.map(index => taskIds[index]);
+        const renderedData = {
+          ...renderPipelineTaskData(planned.data, extended, taskIdsByNode, planned.sample),
+          ...(flow.aiModel ? { aiModelOverride: flow.aiModel } : {}),
+          pipelineNode: planned.nodeId,
+          pipelineSample: planned.sample
+        };
+        const unfinishedDependencies = await tx.task.count({
+          where: { id: { in: dependencyIds }, status: { notIn: FINISHED_TASK_STATUSES } }
+        });
+
+        let task = existing.get(getPipelineTaskKey(planned.nodeId, planned.sample));
+        if (!task) {
+          task = await tx.task.create({
+            data: {
+              flowId,
+              status: TaskStatus.NOT_STARTED,
+              pendingDependencies: unfinishedDependencies,
+              runnerClassName: planned.runner,
+              runnerData: JSON.stringify(renderedData)
+            }
+          });
+          if (dependencyIds.length > 0) {
+            await tx.taskDependency.createMany({
+              data: dependencyIds.map(dependencyId => ({ taskId: task!.id, dependencyId }))
+            });
+          }
+          createdTaskIds.push(task.id);
+        } else {
+          const known = await tx.taskDependency.findMany({ where: { taskId: task.id }, select: { dependencyId: true } });
+          const addedIds = dependencyIds.filter(id => !known.some(dep => dep.dependencyId === id));
+          if (addedIds.length > 0 && FINISHED_TASK_STATUSES.includes(task.status as TaskStatus)) {
+            console.warn(`⚠️ Task ${task.id} of evaluation flow ${flowId} already ${task.status}, it won't see the added samples`);
+          } else if (addedIds.length > 0) {
+            await tx.taskDependency.createMany({
+              data: addedIds.map(dependencyId => ({ taskId: task!.id, dependencyId }))
+            });
+            const current = await tx.task.findUniqueOrThrow({ where: { id: task.id }, select: { runnerData: true } });
+            await tx.task.update({
+              where: { id: task.id },
+              data: {
+                // Everything added depends on the new samples, so nothing added is finished yet
+                pendingDependencies: { increment: addedIds.length },
+                runnerData: JSON.stringify({ ...(current.runnerData ? JSON.parse(current.runnerData) : {}), ...renderedData })
+              }
+            });
+          }
+        }
+        taskIds.push(task.id);
+        taskIdsByNode.set(planned.nodeId, [...(taskIdsByNode.get(planned.nodeId) ?? []), task.id]);
+      }
+
+      await tx.task.update({ where: { id: waitingTaskId }, data: { status: TaskStatus.NOT_STARTED } });
+      await tx.evaluationFlow.update({ where: { id: flowId }, data: { variables: JSON.stringify(extended) } });
+      return createdTaskIds;
+    }, { timeout: FLOW_CREATION_TIMEOUT_MS });
+    notifyTaskQueueChanged();
+
+    console.log(`➕ Added ${extraSamples} worth samples (${createdTaskIds.length} tasks) to evaluation flow ${flowId}`);
+    return createdTaskIds;
   }
 
+
   /**
    * Get the worth prompt with current GDP data
+   * @param worthPrompt - The text of the current worth prompt version
    */
-  private async getWorthPromptWithGdp(): Promise<string> {
+  private async getWorthPromptWithGdp(worthPrompt: string): Promise<string> {
+    // Replayed AI cassettes were recorded with their own world GDP
+    const cassetteWorldGdp = await readCassetteWorldGdp();
+    if (cassetteWorldGdp !== undefined) {
+      return renderPrompt(worthPrompt, { WORLD_GDP: cassetteWorldGdp });
+    }
+
+    let renderedWorldGdp: string;
     try {
       let worldGdp = await GlobalDataService.getWorldGdp();
       
@@ -135,190 +362,127 @@ export class UserEvaluationFlow {
       }
       
       if (worldGdp) {
-        return worthPrompt.replace('<WORLD_GDP>', worldGdp.toLocaleString());
+        renderedWorldGdp = worldGdp.toLocaleString();
       } else {
         throw Error('World GDP not available');
       }
     } catch (error) {
       console.error('Error fetching world GDP for prompt:', error);
-      return worthPrompt.replace('<WORLD_GDP>', 'Not available');
+      renderedWorldGdp = 'Not available';
     }
+
+    await recordCassetteWorldGdp(renderedWorldGdp);
+    return renderPrompt(worthPrompt, { WORLD_GDP: renderedWorldGdp });
   }
 
   /**
-   * Create a randomize prompt task
+   * Get the evaluation result for a user, from their latest completed flow
    */
-  private async createRandomizePromptTask(
-    evaluationData: UserEvaluationData,
-    dependencies: number[],
-    originalPrompt: string = worthPrompt,
-  ) {
-    const task = await this.prisma.task.create({
-      data: {
-        status: TaskStatus.NOT_STARTED,
-        runnerClassName: 'RandomizePromptRunner',
-        runnerData: JSON.stringify({
-          originalPrompt,
-          userData: evaluationData.userData,
-        })
-      }
+  async getEvaluationResult(userId: number): Promise<EvaluationFlowResult | null> {
+    const flow = await this.prisma.evaluationFlow.findFirst({
+      where: { userId, status: EvaluationFlowStatus.COMPLETED },
+      orderBy: { completedAt: 'desc' }
     });
-
-    // Create dependencies
-    for (const depId of dependencies) {
-      await this.prisma.taskDependency.create({
-        data: {
-          taskId: task.id,
-          dependencyId: depId
-        }
-      });
-    }
-
-    return task;
+    return flow ? toEvaluationFlowEntry(flow).result : null;
   }
 
-
-
   /**
-   * Create a worth assessment task using randomized prompts
+   * Get a flow with the status of each of its tasks
+   * @throws EvaluationFlowError if the flow doesn't exist
    */
-  private async createWorthAssessmentTask(
-    evaluationData: UserEvaluationData, 
-    dependencies: number[]
-  ) {
-    const task = await this.prisma.task.create({
-      data: {
-        status: TaskStatus.NOT_STARTED,
-        runnerClassName: 'WorthAssessmentRunner',
-        runnerData: JSON.stringify({
-          userData: evaluationData.userData
-        })
+  async getFlowProgress(flowId: number): Promise<EvaluationFlowProgress> {
+    const flow = await this.prisma.evaluationFlow.findUnique({
+      where: { id: flowId },
+      include: {
+        tasks: {
+          select: { id: true, runnerClassName: true, status: true, createdAt: true, updatedAt: true, completedAt: true },
+          orderBy: { id: 'asc' }
+        }
       }
     });
-
-    // Create dependencies
-    for (const depId of dependencies) {
-      await this.prisma.taskDependency.create({
-        data: {
-          taskId: task.id,
-          dependencyId: depId
-        }
-      });
+    if (!flow) {
+      throw new EvaluationFlowError('Evaluation flow not found', 404);
     }
 
-    return task;
+    const { tasks, ...flowRow } = flow;
+    const counts: Record<string, number> = {};
+    for (const task of tasks) {
+      counts[task.status] = (counts[task.status] ?? 0) + 1;
+    }
+    return { flow: toEvaluationFlowEntry(flowRow), tasks, counts };
   }
 
-
-
   /**
-   * Create a single prompt injection check task
-   * This corresponds to "Randomized: Is there a prompt injection?" in the diagram
+   * List the flows of a user, newest first
    */
-  private async createPromptInjectionTask(
-    evaluationData: UserEvaluationData,
-    dependencies: number[],
-    checkNumber: number
-  ) {
-    const task = await this.prisma.task.create({
-      data: {
-        status: TaskStatus.NOT_STARTED,
-        runnerClassName: 'PromptInjectionRunner',
-        runnerData: JSON.stringify({
-          userId: evaluationData.userId,
-          userData: evaluationData.userData,
-          checkNumber: checkNumber,
-          banDuration: '1y',
-          banReason: 'Prompt injection detected'
-        })
-      }
+  async getUserFlows(userId: number, limit: number = 20): Promise<EvaluationFlowEntry[]> {
+    const flows = await this.prisma.evaluationFlow.findMany({
+      where: { userId },
+      orderBy: { startedAt: 'desc' },
+      take: limit
     });
-
-    // Create dependencies
-    for (const depId of dependencies) {
-      await this.prisma.taskDependency.create({
-        data: {
-          taskId: task.id,
-          dependencyId: depId
-        }
-      });
-    }
-
-    return task;
+    return flows.map(toEvaluationFlowEntry);
   }
 
-
-
-
   /**
-   * Create median calculation task
-   * This corresponds to "Salary = the median" in the diagram
-   * It depends on all three worth assessment tasks (one from each path)
+   * Close the RUNNING flows whose tasks are all finished (COMPLETED, CANCELLED or FAILED):
+   * COMPLETED with the aggregated worth if the median task completed, FAILED otherwise
+   * @returns Number of closed flows
    */
-  private async createMedianTask(
-    evaluationData: UserEvaluationData,
-    worthTaskIds: number[]
-  ) {
-    const task = await this.prisma.task.create({
-      data: {
-        status: TaskStatus.NOT_STARTED,
-        runnerClassName: 'MedianRunner',
-        runnerData: JSON.stringify({
-          userId: evaluationData.userId,
-          sourceTaskIds: worthTaskIds // Track which tasks contribute to the median
-        })
+  async closeFinishedFlows(): Promise<number> {
+    const flows = await this.prisma.evaluationFlow.findMany({
+      where: {
+        status: EvaluationFlowStatus.RUNNING,
+        tasks: {
+          some: {},
+          every: { status: { in: FINISHED_TASK_STATUSES } }
+        }
+      },
+      include: {
+        tasks: { where: { runnerClassName: 'MedianRunner' } }
       }
     });
 
-    // Create dependencies on all worth assessment tasks
-    for (const depId of worthTaskIds) {
-      await this.prisma.taskDependency.create({
+    for (const flow of flows) {
+      const medianTask = flow.tasks.find(task => task.status === TaskStatus.COMPLETED);
+      let result: EvaluationFlowResult | null = null;
+      if (medianTask?.runnerData) {
+        try {
+          const data = JSON.parse(medianTask.runnerData);
+          result = {
+            medianWorth: data.medianWorth,
+            smoothedShareInGDP: data.smoothedShareInGDP,
+            aggregation: data.aggregation,
+            componentMedians: data.componentMedians,
+            sourceValues: data.sourceValues,
+            keptSamples: data.keptSamples,
+            droppedSamples: data.droppedSamples,
+            uncertainty: data.uncertainty,
+            extraSampleRounds: data.extraSampleRounds,
+            manualReviewId: data.manualReviewId,
+            completedAt: data.completedAt
+          };
+        } catch (error) {
+          console.error('Failed to parse median task data:', error);
+        }
+      }
+
+      const status = result ? EvaluationFlowStatus.COMPLETED : EvaluationFlowStatus.FAILED;
+      const { count } = await this.prisma.evaluationFlow.updateMany({
+        where: { id: flow.id, status: EvaluationFlowStatus.RUNNING },
         data: {
-          taskId: task.id,
-          dependencyId: depId
+          status,
+          result: result ? JSON.stringify(result) : null,
+          completedAt: new Date()
         }
       });
-    }
+      console.log(`${result ? '🏁' : '⚠️'} Evaluation flow ${flow.id} of user ${flow.userId} ${status}`);
 
-    return task;
-  }
-
-  /**
-   * Get the evaluation result for a user
-   */
-  async getEvaluationResult(userId: number): Promise<any> {
-    // Find the most recent evaluation flow for this user
-    const tasks = await this.prisma.task.findMany({
-      where: {
-        runnerData: {
-          contains: `"userId":${userId}`
-        },
-        status: TaskStatus.COMPLETED
-      },
-      orderBy: {
-        completedAt: 'desc'
-      }
-    });
-
-    // Look for median task result
-    const medianTask = tasks.find(task => 
-      task.runnerClassName === 'MedianRunner' && 
-      task.runnerData?.includes(`"userId":${userId}`)
-    );
-
-    if (medianTask && medianTask.runnerData) {
-      try {
-        const data = JSON.parse(medianTask.runnerData);
-        return {
-          medianWorth: data.medianWorth,
-          sourceValues: data.sourceValues,
-          completedAt: data.completedAt
-        };
-      } catch (error) {
-        console.error('Failed to parse median task data:', error);
+      if (count > 0 && flow.appealId) {
+        await new AppealService(this.prisma).finishReevaluation(flow.appealId, { id: flow.id, completed: result !== null });
       }
     }
 
-    return null;
+    return flows.length;
   }
 }
@@ -0,0 +1,201 @@
+import { PrismaClient, WorthReview } from '@prisma/client';
+import { ShareInGdpService } from './ShareInGdpService.js';
+import { AppealService } from './AppealService.js';
+import type { WorthComponentMedian, WorthComponentName, WorthUncertaintyBand } from './worthEnsemble.js';
+
+export enum WorthReviewStatus {
+  PENDING = 'PENDING', // Waiting for an admin; the user's share in GDP is unchanged meanwhile
+  APPROVED = 'APPROVED', // The share was recorded
+  REJECTED = 'REJECTED' // The result was discarded, the user keeps the previous share
+}
+
+export type WorthReviewDecision = 'approve' | 'reject';
+
+/**
+ * Error in a worth review operation, to be reported to the client with `statusCode`
+ */
+export class WorthReviewError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'WorthReviewError';
+  }
+}
+
+/**
+ * Evaluation result too uncertain to be recorded without review, see `MedianRunner`
+ */
+export interface UncertainWorthResult {
+  userId: number;
+  flowId?: number;
+  /** MedianRunner task */
+  taskId: number;
+  appealId?: number;
+  medianWorth: number;
+  /** `undefined` if the evaluation has no valid sample */
+  band?: WorthUncertaintyBand;
+  componentMedians?: Partial<Record<WorthComponentName, WorthComponentMedian>>;
+  reason: string;
+}
+
+export interface WorthReviewEntry extends Omit<WorthReview, 'band' | 'componentMedians'> {
+  band: WorthUncertaintyBand | null;
+  componentMedians: Partial<Record<WorthComponentName, WorthComponentMedian>> | null;
+}
+
+function toWorthReviewEntry(review: WorthReview): WorthReviewEntry {
+  return {
+    ...review,
+    band: JSON.parse(review.band),
+    componentMedians: review.componentMedians ? JSON.parse(review.componentMedians) : null
+  };
+}
+
+export class WorthReviewService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Put an uncertain evaluation result in the review queue instead of recording it
+   * @param result - The result and why it is too uncertain
+   * @returns The review, or the one already opened for the same task (e.g. by a retry)
+   */
+  async openReview(result: UncertainWorthResult): Promise<WorthReviewEntry> {
+    const existing = await this.prisma.worthReview.findFirst({ where: { taskId: result.taskId } });
+    if (existing) {
+      return toWorthReviewEntry(existing);
+    }
+    const review = await this.prisma.worthReview.create({
+      data: {
+        userId: result.userId,
+        flowId: result.flowId,
+        taskId: result.taskId,
+        appealId: result.appealId,
+        medianWorth: result.medianWorth,
+        band: JSON.stringify(result.band ?? null),
+        componentMedians: result.componentMedians ? JSON.stringify(result.componentMedians) : null,
+        reason: result.reason
+      }
+    });
+    console.log(`🔍 Worth review ${review.id} opened for user ${result.userId}: ${result.reason}`);
+    return toWorthReviewEntry(review);
+  }
+
+  /**
+   * Get the reviews of a user, newest first
+   */
+  async getUserReviews(userId: number): Promise<WorthReviewEntry[]> {
+    const reviews = await this.prisma.worthReview.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+    return reviews.map(toWorthReviewEntry);
+  }
+
+  /**
+   * Get the reviews waiting for a decision, oldest first
+   * @param status - Status of the reviews to list
+   */
+  async getReviewQueue(status: WorthReviewStatus = WorthReviewStatus.PENDING) {
+    const reviews = await this.prisma.worthReview.findMany({
+      where: { status },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true, orcidId: true, githubHandle: true, shareInGDP: true }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+    return reviews.map(review => ({ ...toWorthReviewEntry(review), user: review.user }));
+  }
+
+  /**
+   * Decide on a pending review
+   * - `approve`: record the share in GDP, the median unless the reviewer sets another one, as the flow would have
+   * - `reject`: discard the result; the user keeps the previous share (and an appeal re-evaluated by the flow is upheld)
+   * @param reviewId - The review
+   * @param reviewerId - The admin deciding
+   * @param decision - The decision
+   * @param options - Reviewer's explanation, shown to the user, and the raw share in GDP to record on approval
+   * @throws WorthReviewError if the review doesn't exist, isn't pending or the share is invalid
+   */
+  async resolveReview(
+    reviewId: number,
+    reviewerId: number,
+    decision: WorthReviewDecision,
+    options: { note?: string; shareInGDP?: number } = {}
+  ): Promise<WorthReviewEntry> {
+    const review = await this.prisma.worthReview.findUnique({ where: { id: reviewId } });
+    if (!review) {
+      throw new WorthReviewError('Worth review not found', 404);
+    }
+    if (review.status !== WorthReviewStatus.PENDING) {
+      throw new WorthReviewError(`Worth review is already ${review.status}`, 409);
+    }
+
+    let updated: WorthReview;
+    switch (decision) {
+      case 'approve': {
+        const shareInGDP = options.shareInGDP ?? review.medianWorth;
+        if (typeof shareInGDP !== 'number' || !(shareInGDP >= 0 && shareInGDP <= 1)) {
+          throw new WorthReviewError('shareInGDP must be a number between 0 and 1');
+        }
+        // A re-evaluation on appeal replaces the appealed value instead of being averaged with it, as in `MedianRunner`.
+        const policy = review.appealId ? { emaAlpha: 1, logSpace: false } : undefined;
+        // Claim the review and record the share together: two admins can't record it twice,
+        // and a failed recording leaves the review pending
+        const smoothedShareInGDP = await this.prisma.$transaction(async (tx) => {
+          const { count } = await tx.worthReview.updateMany({
+            where: { id: reviewId, status: WorthReviewStatus.PENDING },
+            data: {
+              status: WorthReviewStatus.APPROVED,
+              reviewerId,
+              reviewerNote: options.note,
+              approvedShareInGDP: shareInGDP,
+              resolvedAt: new Date()
+            }
+          });
+          if (count === 0) {
+            throw new WorthReviewError('Worth review was resolved meanwhile', 409);
+          }
+          return await new ShareInGdpService(this.prisma).recordShareInGdp(
+            review.userId,
+            shareInGDP,
+            review.taskId ?? undefined,
+            policy,
+            review.componentMedians ? JSON.parse(review.componentMedians) : undefined,
+            tx
+          );
+        });
+        if (review.appealId) {
+          await new AppealService(this.prisma).recordReevaluationScore(review.appealId, smoothedShareInGDP);
+        }
+        updated = await this.prisma.worthReview.findUniqueOrThrow({ where: { id: reviewId } });
+        break;
+      }
+
+      case 'reject': {
+        const { count } = await this.prisma.worthReview.updateMany({
+          where: { id: reviewId, status: WorthReviewStatus.PENDING },
+          data: { status: WorthReviewStatus.REJECTED, reviewerId, reviewerNote: options.note, resolvedAt: new Date() }
+        });
+        if (count === 0) {
+          throw new WorthReviewError('Worth review was resolved meanwhile', 409);
+        }
+        if (review.appealId) {
+          await new AppealService(this.prisma).recordReevaluationRejected(review.appealId, options.note);
+        }
+        updated = await this.prisma.worthReview.findUniqueOrThrow({ where: { id: reviewId } });
+        break;
+      }
+
+      default:
+        throw new WorthReviewError('decision must be one of: approve, reject');
+    }
+
+    console.log(`🔍 Worth review ${reviewId} resolved by user ${reviewerId}: ${decision} → ${updated.status}`);
+    return toWorthReviewEntry(updated);
+  }
+}
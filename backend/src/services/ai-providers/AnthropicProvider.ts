@@ -0,0 +1,140 @@
+import fetch from 'node-fetch';
+import type { AIRequest, AISource, AIUsage } from './types.js';
+import { AICompletion, SynchronousAIProvider } from './SynchronousAIProvider.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const RESPONSE_TOOL_NAME = 'response';
+const DEFAULT_TEMPERATURE = 0.2;
+
+interface AnthropicConfig {
+  apiKey?: string;
+  baseURL: string;
+  model?: string;
+  maxTokens: number;
+}
+
+const readAnthropicConfig = (): AnthropicConfig => ({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+  baseURL: process.env.ANTHROPIC_BASE_URL ?? 'https://api.anthropic.com',
+  model: process.env.ANTHROPIC_MODEL,
+  maxTokens: Number(process.env.ANTHROPIC_MAX_TOKENS ?? '4096')
+});
+
+/**
+ * Anthropic Messages API.
+ * The structured output is obtained by making the model call a `response` tool whose input schema is the response schema.
+ */
+export class AnthropicProvider extends SynchronousAIProvider {
+  readonly type = 'ANTHROPIC';
+  readonly name = 'anthropic';
+
+  getDefaultModel(): string | undefined {
+    return readAnthropicConfig().model;
+  }
+
+  private buildRequestBody(request: AIRequest, config: AnthropicConfig) {
+    const responseTool = {
+      name: RESPONSE_TOOL_NAME,
+      description: 'Submit the final answer.',
+      input_schema: request.schema
+    };
+
+    // A forced tool choice would forbid searching, so with Web search we only ask for the `response` tool.
+    return {
+      model: request.model ?? config.model,
+      max_tokens: config.maxTokens,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      system: request.useWebSearch
+        ? `${request.instructions}\n\nWhen done, call the \`${RESPONSE_TOOL_NAME}\` tool with your final answer.`
+        : request.instructions,
+      messages: [{ role: 'user', content: request.input }],
+      tools: request.useWebSearch
+        ? [
+            { type: 'web_search_20250305', name: 'web_search', max_uses: request.maxToolCalls ?? 10 },
+            responseTool
+          ]
+        : [responseTool],
+      tool_choice: request.useWebSearch
+        ? { type: 'auto' }
+        : { type: 'tool', name: RESPONSE_TOOL_NAME }
+    };
+  }
+
+  protected async complete(request: AIRequest): Promise<AICompletion> {
+    const config = readAnthropicConfig();
+    if (!config.apiKey) {
+      throw new Error('[Anthropic] ANTHROPIC_API_KEY not configured');
+    }
+
+    const requestBody = this.buildRequestBody(request, config);
+    const response = await fetch(`${config.baseURL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: JSON.stringify(requestBody)
+    });
+
+    if (!response.ok) {
+      throw new Error(`[Anthropic] HTTP error! status: ${response.status}: ${await response.text()}`);
+    }
+
+    return { requestData: requestBody, response: await response.json() };
+  }
+
+  extractStructuredOutput(response: any): any {
+    const content: any[] = response?.content ?? [];
+    const toolUse = content.find(block => block.type === 'tool_use' && block.name === RESPONSE_TOOL_NAME);
+    if (toolUse) {
+      return toolUse.input;
+    }
+
+    // Fall back to a JSON answer given as plain text.
+    const textBlocks = content.filter(block => block.type === 'text' && block.text);
+    if (textBlocks.length === 0) {
+      throw new Error('No response content received from Anthropic');
+    }
+    return JSON.parse(textBlocks[textBlocks.length - 1].text);
+  }
+
+  extractUsage(response: any): AIUsage | undefined {
+    const usage = response?.usage;
+    if (!usage) {
+      return undefined;
+    }
+    // Anthropic reports the cached and cache-writing input tokens apart from `input_tokens`
+    const cachedInputTokens = usage.cache_read_input_tokens ?? 0;
+    return {
+      model: response.model,
+      inputTokens: (usage.input_tokens ?? 0) + cachedInputTokens + (usage.cache_creation_input_tokens ?? 0),
+      cachedInputTokens,
+      outputTokens: usage.output_tokens ?? 0,
+      reasoningTokens: 0,
+      toolCalls: usage.server_tool_use?.web_search_requests ?? 0
+    };
+  }
+
+  extractSources(response: any): AISource[] {
+    const sources: AISource[] = [];
+    for (const block of response?.content ?? []) {
+      if (block.type === 'web_search_tool_result' && Array.isArray(block.content)) {
+        for (const result of block.content) {
+          if (result.type === 'web_search_result' && result.url) {
+            sources.push({ url: result.url, title: result.title || undefined, origin: 'search' });
+          }
+        }
+      } else if (block.type === 'text') {
+        for (const citation of block.citations ?? []) {
+          if (citation.type === 'web_search_result_location' && citation.url) {
+            sources.push({ url: citation.url, title: citation.title || undefined, snippet: citation.cited_text || undefined, origin: 'citation' });
+          }
+        }
+      }
+    }
+    return sources;
+  }
+}
+
+export const anthropicProvider = new AnthropicProvider();
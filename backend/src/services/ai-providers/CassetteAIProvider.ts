@@ -0,0 +1,224 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { AIProvider, AIProviderType, AIRequest, AISource, AIUsage } from './types.js';
+import type { PromptCanary } from '../promptCanary.js';
+import { createNonBatchAIStore } from '../openai.js';
+
+export type AICassetteMode = 'off' | 'record' | 'replay';
+
+/**
+ * Recorded request/response pairs of one request fingerprint, in `<AI_CASSETTES_DIR>/<fingerprint>.json`.
+ * The canary delimiters and nonce are replaced by placeholders, so that the pairs match any canary.
+ */
+interface AICassette {
+  fingerprint: string;
+  provider: string;
+  runnerClassName: string;
+  /** Provider-specific request body, e.g. of `/v1/responses` */
+  request: unknown;
+  /** Raw responses, in the order they were recorded; replayed in the same order */
+  responses: unknown[];
+}
+
+// World GDP rendered in the worth prompt of the recorded requests, see `readCassetteWorldGdp`
+const WORLD_GDP_FILE = 'world-gdp.json';
+
+const CANARY_PLACEHOLDERS: Record<keyof PromptCanary, string> = {
+  delimiter: '{{CANARY_DELIMITER}}',
+  nonceKey: '{{CANARY_NONCE_KEY}}',
+  nonce: '{{CANARY_NONCE}}'
+};
+
+/**
+ * Read the cassette configuration from the environment:
+ * - `AI_CASSETTE_MODE` - `off` (default), `record` (save the pairs of the real requests) or `replay`
+ *   (serve the recorded responses, without calling any AI provider)
+ * - `AI_CASSETTES_DIR` - directory of the cassettes (default: ./test/ai-cassettes)
+ */
+export function readAICassetteConfig(): { mode: AICassetteMode; directory: string } {
+  const mode = (process.env.AI_CASSETTE_MODE ?? 'off').toLowerCase() as AICassetteMode;
+  if (!['off', 'record', 'replay'].includes(mode)) {
+    throw new Error(`Unknown AI_CASSETTE_MODE: ${mode}`);
+  }
+  return { mode, directory: process.env.AI_CASSETTES_DIR ?? './test/ai-cassettes' };
+}
+
+/**
+ * World GDP the AI cassettes were recorded with, in `replay` mode: replayed flows render it in the worth prompt
+ * instead of the one of the database (e.g. none on a fresh database offline), so that their requests match
+ * @returns undefined unless replaying cassettes recorded with a world GDP
+ */
+export async function readCassetteWorldGdp(): Promise<string | undefined> {
+  const { mode, directory } = readAICassetteConfig();
+  if (mode !== 'replay') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(await readFile(path.join(directory, WORLD_GDP_FILE), 'utf8')).worldGdp;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Save the world GDP rendered in the worth prompt with the AI cassettes, in `record` mode
+ * @param worldGdp - The world GDP as rendered in the prompt
+ */
+export async function recordCassetteWorldGdp(worldGdp: string): Promise<void> {
+  const { mode, directory } = readAICassetteConfig();
+  if (mode !== 'record') {
+    return;
+  }
+  await mkdir(directory, { recursive: true });
+  await writeFile(path.join(directory, WORLD_GDP_FILE), JSON.stringify({ worldGdp }, null, 2));
+}
+
+/**
+ * Replace the canary values by placeholders (`record`) or the placeholders by the canary values (`replay`)
+ */
+function substituteCanary(json: string, canary: PromptCanary | undefined, direction: 'record' | 'replay'): string {
+  if (!canary) {
+    return json;
+  }
+  for (const key of Object.keys(CANARY_PLACEHOLDERS) as (keyof PromptCanary)[]) {
+    const [from, to] = direction === 'record' ? [canary[key], CANARY_PLACEHOLDERS[key]] : [CANARY_PLACEHOLDERS[key], canary[key]];
+    json = json.split(from).join(to);
+  }
+  return json;
+}
+
+/**
+ * Fingerprint of a request: hash of what determines the response, i.e. everything but the IDs, the stub output
+ * and the canary values
+ */
+export function fingerprintAIRequest(providerName: string, request: AIRequest): string {
+  const { customId: _customId, taskId: _taskId, stubOutput: _stubOutput, canary, ...determining } = request;
+  const normalized = substituteCanary(JSON.stringify({ provider: providerName, ...determining }), canary, 'record');
+  return createHash('sha256').update(normalized).digest('hex').slice(0, 32);
+}
+
+/**
+ * Records the request/response pairs of a provider to cassette files, or replays them instead of calling it,
+ * for deterministic offline runs (e.g. end-to-end evaluation flows) with real response shapes.
+ * Replayed requests are answered synchronously; parsing is left to the wrapped provider.
+ */
+export class CassetteAIProvider implements AIProvider {
+  readonly type: AIProviderType;
+  readonly name: string;
+  /** Responses replayed so far per fingerprint */
+  private replayCounts = new Map<string, number>();
+
+  constructor(private readonly provider: AIProvider, private readonly mode: 'record' | 'replay', private readonly directory: string) {
+    this.type = provider.type;
+    this.name = provider.name;
+  }
+
+  getDefaultModel(): string | undefined {
+    return this.provider.getDefaultModel();
+  }
+
+  isSynchronous(): boolean {
+    return this.mode === 'replay' || this.provider.isSynchronous();
+  }
+
+  async createStore(taskId: number): Promise<string> {
+    if (this.mode === 'replay') {
+      const store = await createNonBatchAIStore(undefined, taskId);
+      return store.getStoreId();
+    }
+    return await this.provider.createStore(taskId);
+  }
+
+  async submitRequest(storeId: string, request: AIRequest): Promise<unknown> {
+    const fingerprint = fingerprintAIRequest(this.name, request);
+    if (this.mode === 'replay') {
+      const cassette = await this.readCassette(fingerprint);
+      if (!cassette || cassette.responses.length === 0) {
+        throw new Error(`No AI cassette for request ${fingerprint} of ${request.runnerClassName} (${this.name}), record it with AI_CASSETTE_MODE=record`);
+      }
+      const count = this.replayCounts.get(fingerprint) ?? 0;
+      this.replayCounts.set(fingerprint, count + 1);
+      const response = JSON.parse(substituteCanary(JSON.stringify(cassette.responses[count % cassette.responses.length]), request.canary, 'replay'));
+      const store = await createNonBatchAIStore(storeId, request.taskId);
+      await store.storeResponseByCustomId({ customId: request.customId, response });
+      console.log(`📼 Replayed AI cassette ${fingerprint} for ${request.runnerClassName}`);
+      return JSON.parse(substituteCanary(JSON.stringify(cassette.request), request.canary, 'replay'));
+    }
+
+    const requestData = await this.provider.submitRequest(storeId, request);
+    const pending = { fingerprint, runnerClassName: request.runnerClassName, canary: request.canary, request: requestData };
+    if (this.provider.isSynchronous()) {
+      await this.recordResponse(pending, await this.provider.getResponse(storeId, request.customId, request.taskId));
+    } else {
+      // The response of a batched request is recorded when it is first fetched
+      await mkdir(path.join(this.directory, 'pending'), { recursive: true });
+      await writeFile(this.getPendingPath(request.customId), JSON.stringify(pending));
+    }
+    return requestData;
+  }
+
+  async getResponse(storeId: string, customId: string, taskId: number): Promise<any | undefined> {
+    if (this.mode === 'replay') {
+      const store = await createNonBatchAIStore(storeId, taskId);
+      return await store.getResponseByCustomId(customId);
+    }
+
+    const response = await this.provider.getResponse(storeId, customId, taskId);
+    if (response !== undefined) {
+      const pending = await readFile(this.getPendingPath(customId), 'utf8').catch(() => undefined);
+      if (pending !== undefined) {
+        await this.recordResponse(JSON.parse(pending), response);
+        await rm(this.getPendingPath(customId), { force: true });
+      }
+    }
+    return response;
+  }
+
+  extractStructuredOutput(response: any): any {
+    return this.provider.extractStructuredOutput(response);
+  }
+
+  extractUsage(response: any): AIUsage | undefined {
+    return this.provider.extractUsage(response);
+  }
+
+  extractSources(response: any): AISource[] {
+    return this.provider.extractSources(response);
+  }
+
+  private getPendingPath(customId: string): string {
+    return path.join(this.directory, 'pending', `${customId}.json`);
+  }
+
+  private async readCassette(fingerprint: string): Promise<AICassette | undefined> {
+    try {
+      return JSON.parse(await readFile(path.join(this.directory, `${fingerprint}.json`), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Append a response to the cassette of its request
+   */
+  private async recordResponse(
+    pending: { fingerprint: string; runnerClassName: string; canary?: PromptCanary; request: unknown },
+    response: unknown
+  ): Promise<void> {
+    if (response === undefined) {
+      return;
+    }
+    const cassette: AICassette = await this.readCassette(pending.fingerprint) ?? {
+      fingerprint: pending.fingerprint,
+      provider: this.name,
+      runnerClassName: pending.runnerClassName,
+      request: JSON.parse(substituteCanary(JSON.stringify(pending.request), pending.canary, 'record')),
+      responses: []
+    };
+    cassette.responses.push(JSON.parse(substituteCanary(JSON.stringify(response), pending.canary, 'record')));
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(path.join(this.directory, `${pending.fingerprint}.json`), JSON.stringify(cassette, null, 2));
+    console.log(`📼 Recorded AI cassette ${pending.fingerprint} for ${pending.runnerClassName} (${cassette.responses.length} response(s))`);
+  }
+}
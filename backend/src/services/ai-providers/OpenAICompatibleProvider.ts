@@ -0,0 +1,110 @@
+import OpenAI from 'openai';
+import type { ChatCompletion, ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions';
+import fetch from 'node-fetch';
+import type { AIRequest, AISource, AIUsage } from './types.js';
+import { AICompletion, SynchronousAIProvider } from './SynchronousAIProvider.js';
+
+const DEFAULT_TEMPERATURE = 0.2;
+
+interface OpenAICompatibleConfig {
+  baseURL?: string;
+  apiKey?: string;
+  model?: string;
+}
+
+const readOpenAICompatibleConfig = (): OpenAICompatibleConfig => ({
+  baseURL: process.env.AI_LOCAL_BASE_URL,
+  apiKey: process.env.AI_LOCAL_API_KEY,
+  model: process.env.AI_LOCAL_MODEL
+});
+
+/**
+ * Local OpenAI-compatible server (llama.cpp, vLLM, ...) via `/v1/chat/completions`.
+ * Web search is not available there, so such runners work from the input alone.
+ */
+export class OpenAICompatibleProvider extends SynchronousAIProvider {
+  readonly type = 'OPENAI_COMPATIBLE';
+  readonly name = 'local';
+  private client?: OpenAI;
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const config = readOpenAICompatibleConfig();
+      if (!config.baseURL) {
+        throw new Error('[Local AI] AI_LOCAL_BASE_URL not configured');
+      }
+      this.client = new OpenAI({
+        baseURL: config.baseURL,
+        apiKey: config.apiKey || 'not-needed',
+        fetch: fetch as any,
+      });
+    }
+    return this.client;
+  }
+
+  getDefaultModel(): string | undefined {
+    return readOpenAICompatibleConfig().model;
+  }
+
+  protected async complete(request: AIRequest): Promise<AICompletion> {
+    if (request.useWebSearch) {
+      console.warn(`⚠️  [Local AI] Web search is not supported, ${request.runnerClassName} runs without it`);
+    }
+
+    const requestBody: ChatCompletionCreateParamsNonStreaming = {
+      model: request.model ?? this.getDefaultModel() ?? 'default',
+      messages: [
+        { role: 'system', content: request.instructions },
+        { role: 'user', content: request.input }
+      ],
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: 'response',
+          schema: request.schema as Record<string, unknown>,
+          strict: true
+        }
+      }
+    };
+
+    const response = await this.getClient().chat.completions.create(requestBody);
+    return { requestData: requestBody, response };
+  }
+
+  extractStructuredOutput(response: ChatCompletion): any {
+    const text = response.choices[0]?.message?.content;
+    if (!text) {
+      throw new Error('No response content received from local AI server');
+    }
+    return JSON.parse(text);
+  }
+
+  extractUsage(response: ChatCompletion): AIUsage | undefined {
+    if (!response.usage) {
+      return undefined;
+    }
+    return {
+      model: response.model,
+      inputTokens: response.usage.prompt_tokens,
+      cachedInputTokens: response.usage.prompt_tokens_details?.cached_tokens ?? 0,
+      outputTokens: response.usage.completion_tokens,
+      reasoningTokens: response.usage.completion_tokens_details?.reasoning_tokens ?? 0,
+      toolCalls: 0
+    };
+  }
+
+  extractSources(response: ChatCompletion): AISource[] {
+    const message = response.choices[0]?.message;
+    return (message?.annotations ?? [])
+      .filter(annotation => annotation.type === 'url_citation' && annotation.url_citation.url)
+      .map(annotation => ({
+        url: annotation.url_citation.url,
+        title: annotation.url_citation.title || undefined,
+        snippet: message?.content?.slice(annotation.url_citation.start_index, annotation.url_citation.end_index) || undefined,
+        origin: 'citation' as const
+      }));
+  }
+}
+
+export const openAICompatibleProvider = new OpenAICompatibleProvider();
@@ -0,0 +1,176 @@
+import type { ResponseCreateParamsNonStreaming, ResponseTextConfig, Tool } from 'openai/resources/responses/responses';
+import type { ReasoningEffort } from 'openai/resources';
+import type { AIProvider, AIRequest, AISource, AIUsage } from './types.js';
+import { createAIBatchStore, createAIOutputter, createAIRunner } from '../openai.js';
+import { isConfigValueTrue } from '../utils.js';
+import { isBatchStoreSubmitted, queueBatchRequest, reserveSharedBatchStore } from '../openAIBatchQueue.js';
+
+const DEFAULT_TEMPERATURE = 0.2;
+
+const USE_WEB_SEARCH_TOOL = {
+  tools: <Tool[]>[
+    {
+      // "name": "web",
+      "type": "web_search"
+    }
+  ],
+  // tool_choice: <ToolChoiceOptions>'required', // commented out to eliminate infinite loop with Web search.
+};
+
+interface OpenAIProviderConfig {
+  model?: string;
+  flexMode: 'batch' | 'nonbatch';
+  noReasoning: boolean;
+  overrideReasoningEffort?: ReasoningEffort;
+  overrideMaxToolCalls?: number;
+}
+
+const readOpenAIConfig = (): OpenAIProviderConfig => ({
+  model: process.env.OPENAI_MODEL,
+  flexMode: process.env.OPENAI_FLEX_MODE as 'batch' | 'nonbatch',
+  noReasoning: isConfigValueTrue(process.env.OPENAI_NO_REASONING),
+  overrideReasoningEffort: process.env.OPENAI_OVERRIDE_REASONING_EFFORT ?
+    process.env.OPENAI_OVERRIDE_REASONING_EFFORT as ReasoningEffort : undefined,
+  overrideMaxToolCalls: process.env.OPENAI_OVERRIDE_MAX_TOOL_CALLS ?
+    parseInt(process.env.OPENAI_OVERRIDE_MAX_TOOL_CALLS) : undefined
+});
+
+/**
+ * OpenAI `/v1/responses` through `flexible-batches` (batch or non-batch, per `OPENAI_FLEX_MODE`).
+ * In batch mode, the requests of all tasks are coalesced into shared stores submitted as one batch each
+ * (see `openAIBatchQueue`).
+ */
+export class OpenAIProvider implements AIProvider {
+  readonly type = 'OPENAI';
+  readonly name = 'openai';
+
+  getDefaultModel(): string | undefined {
+    return readOpenAIConfig().model;
+  }
+
+  isSynchronous(): boolean {
+    return readOpenAIConfig().flexMode !== 'batch';
+  }
+
+  async createStore(taskId: number): Promise<string> {
+    if (readOpenAIConfig().flexMode === 'batch') {
+      return await reserveSharedBatchStore();
+    }
+    const store = await createAIBatchStore(undefined, taskId);
+    return store.getStoreId();
+  }
+
+  private buildRequestBody(request: AIRequest): ResponseCreateParamsNonStreaming | {max_tool_calls: number} {
+    const config = readOpenAIConfig();
+    const model = request.model ?? config.model!;
+    return <ResponseCreateParamsNonStreaming | {max_tool_calls: number}>{
+      instructions: request.instructions, // system/developer message.
+      input: request.input, // user's message
+      model,
+      ...(/gpt-5-mini/.test(model)
+        ? {/* temperature not supported */} : { temperature: request.temperature ?? DEFAULT_TEMPERATURE }),
+      // The SDK types lack this value (https://github.com/openai/openai-node/issues/1645), hence the cast of the body
+      ...(request.useWebSearch ? { include: ['web_search_call.action.sources'] } : {}),
+      reasoning: config.noReasoning ? null : request.reasoningEffort === null ? null : {
+        effort: config.overrideReasoningEffort ?? request.reasoningEffort ?? 'medium'
+      },
+      max_tool_calls: config.overrideMaxToolCalls ?? request.maxToolCalls ?? 10, // TODO@P3
+      ...(request.promptCacheKey ? { prompt_cache_key: request.promptCacheKey } : {}),
+      ...(request.useWebSearch ? USE_WEB_SEARCH_TOOL : {}),
+      text: <ResponseTextConfig>{
+        format: {
+          type: "json_schema" as const,
+          name: "response",
+          schema: request.schema,
+          strict: true
+        },
+        verbosity: 'medium'
+      }
+    };
+  }
+
+  async submitRequest(storeId: string, request: AIRequest): Promise<unknown> {
+    const requestBody = this.buildRequestBody(request);
+    if (readOpenAIConfig().flexMode === 'batch') {
+      // Submitted with the other requests of the shared store
+      await queueBatchRequest(storeId, request.taskId, request.customId, requestBody);
+      return requestBody;
+    }
+
+    const store = await createAIBatchStore(storeId, request.taskId);
+    const runner = await createAIRunner(store);
+
+    await runner.addItem({
+      custom_id: request.customId,
+      method: "POST",
+      body: requestBody
+    });
+
+    // Flush to execute the request
+    await runner.flush();
+
+    return requestBody;
+  }
+
+  async getResponse(storeId: string, customId: string, taskId: number): Promise<any | undefined> {
+    if (readOpenAIConfig().flexMode === 'batch' && !await isBatchStoreSubmitted(storeId)) {
+      return undefined;
+    }
+    const store = await createAIBatchStore(storeId, taskId);
+    const outputter = await createAIOutputter(store);
+    return await outputter.getOutput(customId);
+  }
+
+  extractStructuredOutput(response: any): any {
+    const text = (response.output[response.output.length - 1]! as any).content[0].text;
+    if (!text) {
+      throw new Error('No response content received from OpenAI');
+    }
+    return JSON.parse(text);
+  }
+
+  extractUsage(response: any): AIUsage | undefined {
+    const usage = response?.usage;
+    if (!usage) {
+      return undefined;
+    }
+    return {
+      model: response.model,
+      inputTokens: usage.input_tokens ?? 0,
+      cachedInputTokens: usage.input_tokens_details?.cached_tokens ?? 0,
+      outputTokens: usage.output_tokens ?? 0,
+      reasoningTokens: usage.output_tokens_details?.reasoning_tokens ?? 0,
+      toolCalls: (response.output ?? []).filter((item: any) => item.type === 'web_search_call').length
+    };
+  }
+
+  extractSources(response: any): AISource[] {
+    const sources: AISource[] = [];
+    for (const item of response?.output ?? []) {
+      if (item.type === 'web_search_call') {
+        // Only present with `include: ['web_search_call.action.sources']`
+        for (const source of item.action?.sources ?? []) {
+          if (source.url) {
+            sources.push({ url: source.url, origin: 'search' });
+          }
+        }
+      } else if (item.type === 'message') {
+        for (const content of item.content ?? []) {
+          for (const annotation of content.annotations ?? []) {
+            if (annotation.type === 'url_citation' && annotation.url) {
+              sources.push({
+                url: annotation.url,
+                title: annotation.title || undefined,
+                snippet: typeof content.text === 'string' ? content.text.slice(annotation.start_index, annotation.end_index) || undefined : undefined,
+                origin: 'citation'
+              });
+            }
+          }
+        }
+      }
+    }
+    return sources;
+  }
+}
+
+export const openAIProvider = new OpenAIProvider();
@@ -0,0 +1,72 @@
+import type { AIRequest, AISource, AIUsage } from './types.js';
+import { AICompletion, SynchronousAIProvider } from './SynchronousAIProvider.js';
+
+/**
+ * Build a deterministic value conforming to a (strict) JSON schema.
+ * Used when a runner doesn't supply its own stub output.
+ */
+export function buildStubValue(schema: any): unknown {
+  switch (schema?.type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        result[key] = buildStubValue(propertySchema);
+      }
+      return result;
+    }
+    case 'array':
+      return [];
+    case 'boolean':
+      return false;
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'string':
+      return 'Stub response';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Deterministic provider that never leaves the machine.
+ * Replaces the former `OPEN_AI_FAKE` special-casing in the runners.
+ */
+export class StubAIProvider extends SynchronousAIProvider {
+  readonly type = 'STUB';
+  readonly name = 'stub';
+
+  getDefaultModel(): string | undefined {
+    return 'stub';
+  }
+
+  protected async complete(request: AIRequest): Promise<AICompletion> {
+    const output = request.stubOutput ?? buildStubValue(request.schema);
+    return {
+      requestData: {
+        model: 'stub',
+        runnerClassName: request.runnerClassName,
+        stubOutput: output
+      },
+      response: {
+        id: request.customId,
+        model: 'stub',
+        output_parsed: output
+      }
+    };
+  }
+
+  extractStructuredOutput(response: any): any {
+    return response.output_parsed;
+  }
+
+  extractUsage(response: any): AIUsage | undefined {
+    return { model: 'stub', inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, reasoningTokens: 0, toolCalls: 0 };
+  }
+
+  extractSources(response: any): AISource[] {
+    return [];
+  }
+}
+
+export const stubAIProvider = new StubAIProvider();
@@ -0,0 +1,53 @@
+import type { AIProvider, AIProviderType, AIRequest, AISource, AIUsage } from './types.js';
+import { createNonBatchAIStore } from '../openai.js';
+
+export interface AICompletion {
+  /** Provider-specific request body, for logging. */
+  requestData: unknown;
+  /** Provider-specific raw response, stored as is. */
+  response: unknown;
+}
+
+/**
+ * Base for providers that answer within the request itself.
+ * Responses are kept in the same non-batch store as OpenAI non-batch responses,
+ * so they survive restarts and can be read by dependent tasks.
+ */
+export abstract class SynchronousAIProvider implements AIProvider {
+  abstract readonly type: AIProviderType;
+  abstract readonly name: string;
+
+  abstract getDefaultModel(): string | undefined;
+
+  protected abstract complete(request: AIRequest): Promise<AICompletion>;
+
+  abstract extractStructuredOutput(response: any): any;
+
+  abstract extractUsage(response: any): AIUsage | undefined;
+
+  abstract extractSources(response: any): AISource[];
+
+  isSynchronous(): boolean {
+    return true;
+  }
+
+  async createStore(taskId: number): Promise<string> {
+    const store = await createNonBatchAIStore(undefined, taskId);
+    return store.getStoreId();
+  }
+
+  async submitRequest(storeId: string, request: AIRequest): Promise<unknown> {
+    const { requestData, response } = await this.complete(request);
+    const store = await createNonBatchAIStore(storeId, request.taskId);
+    await store.storeResponseByCustomId({
+      customId: request.customId,
+      response: response as any
+    });
+    return requestData;
+  }
+
+  async getResponse(storeId: string, customId: string, taskId: number): Promise<any | undefined> {
+    const store = await createNonBatchAIStore(storeId, taskId);
+    return await store.getResponseByCustomId(customId);
+  }
+}
@@ -0,0 +1,8 @@
+export * from './types.js';
+export * from './SynchronousAIProvider.js';
+export * from './OpenAIProvider.js';
+export * from './OpenAICompatibleProvider.js';
+export * from './AnthropicProvider.js';
+export * from './StubAIProvider.js';
+export * from './CassetteAIProvider.js';
+export * from './registry.js';
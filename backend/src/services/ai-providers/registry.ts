@@ -0,0 +1,99 @@
+import type { AIProvider, AIProviderBinding } from './types.js';
+import { openAIProvider } from './OpenAIProvider.js';
+import { openAICompatibleProvider } from './OpenAICompatibleProvider.js';
+import { anthropicProvider } from './AnthropicProvider.js';
+import { stubAIProvider } from './StubAIProvider.js';
+import { CassetteAIProvider, readAICassetteConfig } from './CassetteAIProvider.js';
+import { isConfigValueTrue } from '../utils.js';
+
+const providers: Map<string, AIProvider> = new Map(
+  [openAIProvider, openAICompatibleProvider, anthropicProvider, stubAIProvider]
+    .map(provider => [provider.name, provider])
+);
+
+// Providers wrapped for recording or replaying cassettes, by `mode:directory:name`
+const cassetteProviders: Map<string, CassetteAIProvider> = new Map();
+
+export interface AIProviderSpec {
+  providerName: string;
+  model?: string;
+}
+
+/**
+ * Parse `provider` or `provider:model`, e.g. `anthropic:claude-sonnet-4-5`.
+ */
+export function parseProviderSpec(spec: string): AIProviderSpec {
+  const separatorIndex = spec.indexOf(':');
+  if (separatorIndex === -1) {
+    return { providerName: spec.trim() };
+  }
+  return {
+    providerName: spec.slice(0, separatorIndex).trim(),
+    model: spec.slice(separatorIndex + 1).trim() || undefined
+  };
+}
+
+/**
+ * `AI_PROVIDER` is the default for all runners (`stub` when `OPEN_AI_FAKE` is set, `openai` otherwise).
+ * `AI_RUNNER_PROVIDERS` overrides it per runner class: `WorthAssessmentRunner=anthropic:claude-sonnet-4-5,ScientistOnboardingRunner=local`.
+ */
+function readRunnerProviderSpec(runnerClassName: string): AIProviderSpec {
+  for (const entry of (process.env.AI_RUNNER_PROVIDERS ?? '').split(',')) {
+    const [className, spec] = entry.split('=');
+    if (className?.trim() === runnerClassName && spec) {
+      return parseProviderSpec(spec);
+    }
+  }
+  const defaultSpec = process.env.AI_PROVIDER ??
+    (isConfigValueTrue(process.env.OPEN_AI_FAKE) ? 'stub' : 'openai');
+  return parseProviderSpec(defaultSpec);
+}
+
+/**
+ * Get an AI provider by its configuration name, wrapped in a `CassetteAIProvider` if `AI_CASSETTE_MODE` is set
+ * @throws Error if no such provider exists
+ */
+export function getAIProvider(name: string): AIProvider {
+  const provider = providers.get(name);
+  if (provider === undefined) {
+    throw new Error(`AI provider '${name}' not found (available: ${[...providers.keys()].join(', ')})`);
+  }
+  const { mode, directory } = readAICassetteConfig();
+  if (mode === 'off') {
+    return provider;
+  }
+  const key = `${mode}:${directory}:${name}`;
+  if (!cassetteProviders.has(key)) {
+    cassetteProviders.set(key, new CassetteAIProvider(provider, mode, directory));
+  }
+  return cassetteProviders.get(key)!;
+}
+
+/**
+ * Get the provider and model configured for a runner class
+ * @param runnerClassName - The runner class name
+ * @param preferredModel - Model requested by the runner itself; runners name OpenAI models,
+ *   so it only applies to the OpenAI provider
+ * @param overrideSpec - `provider[:model]` requested for this particular task, taking precedence over the configuration
+ */
+export function getAIProviderBinding(runnerClassName: string, preferredModel?: string, overrideSpec?: string): AIProviderBinding {
+  const spec = overrideSpec ? parseProviderSpec(overrideSpec) : readRunnerProviderSpec(runnerClassName);
+  const provider = getAIProvider(spec.providerName);
+  return {
+    provider,
+    model: spec.model ??
+      (provider.type === 'OPENAI' ? preferredModel : undefined) ??
+      provider.getDefaultModel()
+  };
+}
+
+/**
+ * Get the provider that served a task's request.
+ * Prefers the provider recorded in the task's runner data, as configuration may have changed since.
+ */
+export function resolveTaskAIProvider(runnerClassName: string, recordedProviderName?: string): AIProvider {
+  if (recordedProviderName) {
+    return getAIProvider(recordedProviderName);
+  }
+  return getAIProviderBinding(runnerClassName).provider;
+}
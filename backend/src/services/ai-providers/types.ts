@@ -0,0 +1,89 @@
+import type { JSONSchema } from 'openai/lib/jsonschema';
+import type { ReasoningEffort } from 'openai/resources';
+import type { PromptCanary } from '../promptCanary.js';
+
+export type AIProviderType = 'OPENAI' | 'OPENAI_COMPATIBLE' | 'ANTHROPIC' | 'STUB';
+
+/**
+ * Provider-neutral model options a runner may ask for.
+ * Providers ignore options they have no equivalent for.
+ */
+export interface AIModelOptions {
+  model?: string;
+  temperature?: number;
+  /** `null` disables reasoning entirely. */
+  reasoningEffort?: ReasoningEffort | null;
+  maxToolCalls?: number;
+  promptCacheKey?: string;
+}
+
+export interface AIRequest extends AIModelOptions {
+  customId: string;
+  taskId: number;
+  runnerClassName: string;
+  /** System/developer message. */
+  instructions: string;
+  /** User message. */
+  input: string;
+  schema: JSONSchema;
+  useWebSearch: boolean;
+  /** Deterministic output used by the stub provider instead of calling a model. */
+  stubOutput?: Record<string, unknown>;
+  /** Random delimiters and nonce in the request, ignored by the cassette fingerprints. */
+  canary?: PromptCanary;
+}
+
+/**
+ * Token and tool usage of a response, as billed by the provider.
+ */
+export interface AIUsage {
+  /** Model that served the request, as reported in the response. */
+  model?: string;
+  /** Input tokens, including the cached ones. */
+  inputTokens: number;
+  cachedInputTokens: number;
+  /** Output tokens, including the reasoning ones. */
+  outputTokens: number;
+  reasoningTokens: number;
+  /** Web search calls. */
+  toolCalls: number;
+}
+
+/**
+ * Web page a response was based on.
+ */
+export interface AISource {
+  url: string;
+  title?: string;
+  /** Text of the response citing the page, or quoted from the page. */
+  snippet?: string;
+  /** `citation` if the response cites the page, `search` if a Web search only returned it. */
+  origin: 'citation' | 'search';
+}
+
+export interface AIProvider {
+  readonly type: AIProviderType;
+  /** Name used in configuration and recorded in task runner data. */
+  readonly name: string;
+  /** Model used when neither the runner binding nor the request specifies one. */
+  getDefaultModel(): string | undefined;
+  /** Whether responses are available right after `submitRequest` returns (i.e. no batch API). */
+  isSynchronous(): boolean;
+  /** Create the store that will hold the responses of a task; returns its ID. */
+  createStore(taskId: number): Promise<string>;
+  /** Send the request; returns the provider-specific request body for logging. */
+  submitRequest(storeId: string, request: AIRequest): Promise<unknown>;
+  /** Raw provider response, or `undefined` if it isn't available (yet). */
+  getResponse(storeId: string, customId: string, taskId: number): Promise<any | undefined>;
+  /** Parse the structured (JSON schema) output out of a raw response. */
+  extractStructuredOutput(response: any): any;
+  /** Parse the usage out of a raw response, or `undefined` if the response reports none. */
+  extractUsage(response: any): AIUsage | undefined;
+  /** Parse the URL citations and Web search results out of a raw response, in order of appearance. */
+  extractSources(response: any): AISource[];
+}
+
+export interface AIProviderBinding {
+  provider: AIProvider;
+  model?: string;
+}
@@ -0,0 +1,137 @@
+import { PrismaClient } from '@prisma/client';
+import { getMonthlyAICost } from './aiUsage.js';
+import { EvaluationFlowStatus } from './UserEvaluationFlow.js';
+
+/**
+ * Monthly AI budget caps, checked against the cost recorded in `OpenAILog` (see `aiUsage.ts`)
+ * plus the cost reserved for the running evaluation flows, before evaluation flows are created
+ * by the bi-monthly evaluation.
+ */
+
+// Number of recently completed flows whose mean cost is reserved for each running flow
+const FLOW_COST_SAMPLE_SIZE = 20;
+
+export enum AIBudgetState {
+  OK = 'OK',
+  SOFT_CAP_EXCEEDED = 'SOFT_CAP_EXCEEDED', // New flows use the cheaper `downgradeModel`
+  HARD_CAP_EXCEEDED = 'HARD_CAP_EXCEEDED' // No new flows until next month
+}
+
+export interface AIBudgetConfig {
+  softCapUSD?: number;
+  hardCapUSD?: number;
+  downgradeModel: string;
+  /** Cost reserved per running flow until completed flows give an estimate */
+  defaultFlowCostUSD: number;
+}
+
+export interface AIBudgetStatus {
+  state: AIBudgetState;
+  /** Cost of the AI requests initiated this month */
+  spentUSD: number;
+  /** Estimated cost of the running flows not recorded yet, counted toward the caps with `spentUSD` */
+  reservedUSD: number;
+  /** Estimated cost of a flow, see `estimateFlowCostUSD` */
+  flowCostEstimateUSD: number;
+  softCapUSD?: number;
+  hardCapUSD?: number;
+  /** Model of the new flows while the soft cap is exceeded */
+  downgradeModel?: string;
+}
+
+function readOptionalPositiveNumber(name: string): number | undefined {
+  const value = parseFloat(process.env[name] ?? '');
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Read the budget caps from the environment (no cap when unset):
+ * - `AI_MONTHLY_BUDGET_USD` - hard cap: no evaluation flows are created once this month's cost reaches it
+ * - `AI_MONTHLY_SOFT_BUDGET_USD` - soft cap: evaluation flows use `AI_BUDGET_DOWNGRADE_MODEL` (default: gpt-5-mini)
+ *   for their OpenAI requests once this month's cost reaches it
+ * - `AI_FLOW_COST_ESTIMATE_USD` - cost reserved per running flow while no flow has completed yet (default: 1)
+ */
+export function readAIBudgetConfig(): AIBudgetConfig {
+  return {
+    softCapUSD: readOptionalPositiveNumber('AI_MONTHLY_SOFT_BUDGET_USD'),
+    hardCapUSD: readOptionalPositiveNumber('AI_MONTHLY_BUDGET_USD'),
+    downgradeModel: process.env.AI_BUDGET_DOWNGRADE_MODEL || 'gpt-5-mini',
+    defaultFlowCostUSD: readOptionalPositiveNumber('AI_FLOW_COST_ESTIMATE_USD') ?? 1
+  };
+}
+
+/**
+ * Sum the recorded AI cost of each of the given flows
+ */
+async function getFlowCosts(prisma: PrismaClient, flowIds: number[]): Promise<Map<number, number>> {
+  const groups = await prisma.openAILog.groupBy({
+    by: ['flowId'],
+    where: { flowId: { in: flowIds } },
+    _sum: { costUSD: true }
+  });
+  return new Map(groups.map(group => [group.flowId!, group._sum.costUSD ?? 0]));
+}
+
+/**
+ * Estimate the AI cost of an evaluation flow: the mean cost of the latest completed flows
+ * @param prisma - Prisma client instance
+ * @param defaultFlowCostUSD - The estimate while no flow has completed
+ */
+export async function estimateFlowCostUSD(prisma: PrismaClient, defaultFlowCostUSD: number): Promise<number> {
+  const flows = await prisma.evaluationFlow.findMany({
+    where: { status: EvaluationFlowStatus.COMPLETED },
+    orderBy: { completedAt: 'desc' },
+    take: FLOW_COST_SAMPLE_SIZE,
+    select: { id: true }
+  });
+  if (flows.length === 0) {
+    return defaultFlowCostUSD;
+  }
+  const costs = await getFlowCosts(prisma, flows.map(flow => flow.id));
+  return flows.reduce((sum, flow) => sum + (costs.get(flow.id) ?? 0), 0) / flows.length;
+}
+
+/**
+ * Estimate the cost of the running flows not recorded yet: the estimated cost of a flow,
+ * less what each running flow has cost so far
+ * @param prisma - Prisma client instance
+ * @param flowCostEstimateUSD - The estimated cost of a flow
+ */
+async function getReservedFlowCostUSD(prisma: PrismaClient, flowCostEstimateUSD: number): Promise<number> {
+  const flows = await prisma.evaluationFlow.findMany({
+    where: { status: EvaluationFlowStatus.RUNNING },
+    select: { id: true }
+  });
+  if (flows.length === 0) {
+    return 0;
+  }
+  const costs = await getFlowCosts(prisma, flows.map(flow => flow.id));
+  return flows.reduce((sum, flow) => sum + Math.max(flowCostEstimateUSD - (costs.get(flow.id) ?? 0), 0), 0);
+}
+
+/**
+ * Compare this month's AI cost, with the cost reserved for the running flows, with the budget caps
+ * @param prisma - Prisma client instance
+ */
+export async function getAIBudgetStatus(prisma: PrismaClient): Promise<AIBudgetStatus> {
+  const config = readAIBudgetConfig();
+  const spentUSD = await getMonthlyAICost(prisma);
+  const flowCostEstimateUSD = await estimateFlowCostUSD(prisma, config.defaultFlowCostUSD);
+  const reservedUSD = await getReservedFlowCostUSD(prisma, flowCostEstimateUSD);
+  const committedUSD = spentUSD + reservedUSD;
+  const status: AIBudgetStatus = {
+    state: AIBudgetState.OK,
+    spentUSD,
+    reservedUSD,
+    flowCostEstimateUSD,
+    softCapUSD: config.softCapUSD,
+    hardCapUSD: config.hardCapUSD
+  };
+  if (config.hardCapUSD !== undefined && committedUSD >= config.hardCapUSD) {
+    status.state = AIBudgetState.HARD_CAP_EXCEEDED;
+  } else if (config.softCapUSD !== undefined && committedUSD >= config.softCapUSD) {
+    status.state = AIBudgetState.SOFT_CAP_EXCEEDED;
+    status.downgradeModel = config.downgradeModel;
+  }
+  return status;
+}
@@ -0,0 +1,242 @@
+import { PrismaClient } from '@prisma/client';
+import type { AIProvider, AIUsage } from './ai-providers/index.js';
+
+/**
+ * Token usage and cost of the AI requests logged in `OpenAILog` (all providers), priced with a model price table.
+ */
+
+export interface AIModelPrice {
+  /** USD per million input tokens */
+  input: number;
+  /** USD per million cached input tokens */
+  cachedInput: number;
+  /** USD per million output tokens (reasoning tokens are billed as output) */
+  output: number;
+}
+
+/**
+ * Standard (non-batch) list prices; a model is priced by the longest entry its name starts with,
+ * so that e.g. `gpt-5-mini-2025-08-07` is priced as `gpt-5-mini`
+ */
+export const DEFAULT_AI_MODEL_PRICES: Record<string, AIModelPrice> = {
+  'gpt-5': { input: 1.25, cachedInput: 0.125, output: 10 },
+  'gpt-5-mini': { input: 0.25, cachedInput: 0.025, output: 2 },
+  'gpt-5-nano': { input: 0.05, cachedInput: 0.005, output: 0.4 },
+  'gpt-4.1': { input: 2, cachedInput: 0.5, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  'gpt-4o': { input: 2.5, cachedInput: 1.25, output: 10 },
+  'gpt-4o-mini': { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  'claude-sonnet-4': { input: 3, cachedInput: 0.3, output: 15 },
+  'claude-opus-4': { input: 15, cachedInput: 1.5, output: 75 },
+  'claude-haiku-4-5': { input: 1, cachedInput: 0.1, output: 5 },
+  'stub': { input: 0, cachedInput: 0, output: 0 }
+};
+
+// The OpenAI Batch API bills half of the list prices
+const BATCH_PRICE_FACTOR = 0.5;
+
+export interface AIPricingConfig {
+  prices: Record<string, AIModelPrice>;
+  /** USD per thousand web search calls */
+  webSearchPer1000: number;
+}
+
+/**
+ * Read the price table from the environment:
+ * - `AI_MODEL_PRICES` - overrides and additions to `DEFAULT_AI_MODEL_PRICES`, comma-separated
+ *   `model=input/output[/cachedInput]` in USD per million tokens (cached input defaults to the input price)
+ * - `AI_WEB_SEARCH_PRICE_PER_1000` - USD per thousand web search calls (default: 10)
+ */
+export function readAIPricingConfig(): AIPricingConfig {
+  const prices = { ...DEFAULT_AI_MODEL_PRICES };
+  for (const entry of (process.env.AI_MODEL_PRICES ?? '').split(',')) {
+    if (!entry.trim()) {
+      continue;
+    }
+    const [model, spec] = entry.split('=').map(part => part.trim());
+    const [input, output, cachedInput] = (spec ?? '').split('/').map(part => parseFloat(part));
+    if (!model || !(input >= 0) || !(output >= 0) || (cachedInput !== undefined && !(cachedInput >= 0))) {
+      console.warn(`⚠️ Invalid AI_MODEL_PRICES entry '${entry}', ignored`);
+      continue;
+    }
+    prices[model] = { input, output, cachedInput: cachedInput ?? input };
+  }
+
+  const webSearchPer1000 = parseFloat(process.env.AI_WEB_SEARCH_PRICE_PER_1000 ?? '');
+  return {
+    prices,
+    webSearchPer1000: Number.isFinite(webSearchPer1000) && webSearchPer1000 >= 0 ? webSearchPer1000 : 10
+  };
+}
+
+/**
+ * Find the price of a model: the entry of the table with the longest name the model starts with
+ * @returns undefined for models missing from the table
+ */
+export function findAIModelPrice(model: string, config: AIPricingConfig = readAIPricingConfig()): AIModelPrice | undefined {
+  let best: string | undefined;
+  for (const name of Object.keys(config.prices)) {
+    if (model.startsWith(name) && (best === undefined || name.length > best.length)) {
+      best = name;
+    }
+  }
+  return best !== undefined ? config.prices[best] : undefined;
+}
+
+/**
+ * Compute the cost of a response
+ * @param usage - The usage of the response
+ * @param model - The model to price, if the response doesn't name it
+ * @param batched - Whether the request went through the OpenAI Batch API
+ * @returns The cost in USD, or undefined if the model has no price
+ */
+export function computeAICost(usage: AIUsage, model: string | undefined, batched: boolean, config: AIPricingConfig = readAIPricingConfig()): number | undefined {
+  const pricedModel = usage.model ?? model;
+  const price = pricedModel !== undefined ? findAIModelPrice(pricedModel, config) : undefined;
+  if (!price) {
+    return undefined;
+  }
+  const uncachedInputTokens = Math.max(usage.inputTokens - usage.cachedInputTokens, 0);
+  const tokenCost = (uncachedInputTokens * price.input + usage.cachedInputTokens * price.cachedInput + usage.outputTokens * price.output) / 1e6;
+  const toolCost = usage.toolCalls * config.webSearchPer1000 / 1000;
+  return tokenCost * (batched ? BATCH_PRICE_FACTOR : 1) + toolCost;
+}
+
+/**
+ * Record the usage and cost of a response in its `OpenAILog` entry
+ * @param prisma - Prisma client instance
+ * @param customId - The custom ID of the request
+ * @param provider - The provider that served the request
+ * @param response - The raw response
+ * @param model - The model the request was bound to, used if the response doesn't name it
+ */
+export async function recordAIUsage(
+  prisma: PrismaClient,
+  customId: string,
+  provider: AIProvider,
+  response: any,
+  model?: string
+): Promise<void> {
+  try {
+    const usage = provider.extractUsage(response);
+    if (!usage) {
+      console.warn(`⚠️ No usage reported in the response to request ${customId} (${provider.name})`);
+      return;
+    }
+    const costUSD = computeAICost(usage, model, !provider.isSynchronous());
+    if (costUSD === undefined) {
+      console.warn(`⚠️ No price for model ${usage.model ?? model ?? 'unknown'}, see AI_MODEL_PRICES`);
+    }
+    await prisma.openAILog.updateMany({
+      where: { customId },
+      data: {
+        model: usage.model ?? model ?? null,
+        inputTokens: usage.inputTokens,
+        cachedInputTokens: usage.cachedInputTokens,
+        outputTokens: usage.outputTokens,
+        reasoningTokens: usage.reasoningTokens,
+        toolCalls: usage.toolCalls,
+        costUSD: costUSD ?? null
+      }
+    });
+  } catch (error) {
+    console.error(`❌ Error recording the usage of request ${customId}:`, error instanceof Error ? error.message : String(error));
+  }
+}
+
+export interface AIUsageTotals {
+  requests: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  toolCalls: number;
+  costUSD: number;
+}
+
+export interface AIUsageStats {
+  total: AIUsageTotals;
+  byUser: Record<number, AIUsageTotals>;
+  byRunnerClass: Record<string, AIUsageTotals>;
+  /** Per evaluation flow, i.e. per evaluation cycle of a user */
+  byFlow: Record<number, AIUsageTotals>;
+}
+
+type UsageGroup = {
+  _count: { _all: number };
+  _sum: {
+    inputTokens: number | null;
+    cachedInputTokens: number | null;
+    outputTokens: number | null;
+    reasoningTokens: number | null;
+    toolCalls: number | null;
+    costUSD: number | null;
+  };
+};
+
+function toUsageTotals(group: UsageGroup): AIUsageTotals {
+  return {
+    requests: group._count._all,
+    inputTokens: group._sum.inputTokens ?? 0,
+    cachedInputTokens: group._sum.cachedInputTokens ?? 0,
+    outputTokens: group._sum.outputTokens ?? 0,
+    reasoningTokens: group._sum.reasoningTokens ?? 0,
+    toolCalls: group._sum.toolCalls ?? 0,
+    costUSD: group._sum.costUSD ?? 0
+  };
+}
+
+const USAGE_SUM = {
+  inputTokens: true,
+  cachedInputTokens: true,
+  outputTokens: true,
+  reasoningTokens: true,
+  toolCalls: true,
+  costUSD: true
+} as const;
+
+/**
+ * Aggregate the usage of the logged AI requests, in total, per user, per runner class and per evaluation flow
+ * @param prisma - Prisma client instance
+ * @param since - Only count the requests initiated since then, if given
+ */
+export async function getAIUsageStats(prisma: PrismaClient, since?: Date): Promise<AIUsageStats> {
+  const where = since ? { requestInitiated: { gte: since } } : {};
+  const [total, byUser, byRunnerClass, byFlow] = await Promise.all([
+    prisma.openAILog.aggregate({ where, _count: { _all: true }, _sum: USAGE_SUM }),
+    prisma.openAILog.groupBy({ by: ['userId'], where: { ...where, userId: { not: null } }, _count: { _all: true }, _sum: USAGE_SUM }),
+    prisma.openAILog.groupBy({ by: ['runnerClassName'], where, _count: { _all: true }, _sum: USAGE_SUM }),
+    prisma.openAILog.groupBy({ by: ['flowId'], where: { ...where, flowId: { not: null } }, _count: { _all: true }, _sum: USAGE_SUM })
+  ]);
+
+  const stats: AIUsageStats = { total: toUsageTotals(total), byUser: {}, byRunnerClass: {}, byFlow: {} };
+  for (const group of byUser) {
+    stats.byUser[group.userId!] = toUsageTotals(group);
+  }
+  for (const group of byRunnerClass) {
+    stats.byRunnerClass[group.runnerClassName] = toUsageTotals(group);
+  }
+  for (const group of byFlow) {
+    stats.byFlow[group.flowId!] = toUsageTotals(group);
+  }
+  return stats;
+}
+
+/**
+ * Start of the current calendar month (UTC), from which the monthly AI budget is counted
+ */
+export function getMonthStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Total cost of the AI requests initiated this month
+ * @param prisma - Prisma client instance
+ */
+export async function getMonthlyAICost(prisma: PrismaClient): Promise<number> {
+  const { _sum } = await prisma.openAILog.aggregate({
+    where: { requestInitiated: { gte: getMonthStart() } },
+    _sum: { costUSD: true }
+  });
+  return _sum.costUSD ?? 0;
+}
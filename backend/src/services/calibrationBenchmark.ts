@@ -0,0 +1,376 @@
+import { PrismaClient } from '@prisma/client';
+import fs from 'fs';
+import { TaskStatus } from '../types/task.js';
+import { TaskWorker, readTaskWorkerOptions } from './TaskWorker.js';
+import { EvaluationFlowResult, EvaluationFlowStatus, UserEvaluationFlow } from './UserEvaluationFlow.js';
+
+/**
+ * Calibration benchmark of the evaluation prompts and models (`npm run benchmark`, see USER_EVALUATION.md):
+ * evaluation flows are run for the profiles of a golden set, their runner outputs and costs are recorded,
+ * and the recording is scored against the expected labels and worth ranges of the profiles.
+ * Recordings can be scored again offline, without a database or AI provider.
+ */
+
+export interface GoldenProfile {
+  id: string;
+  description?: string;
+  /** As in `UserEvaluationData.userData` */
+  userData: Record<string, unknown>;
+  expected: {
+    isActiveScientistOrFOSSDev?: boolean;
+    /** Acceptable fraction of world GDP, `[low, high]` */
+    worthRange?: [number, number];
+    hasPromptInjectionOrPlagiarism?: boolean;
+  };
+}
+
+export interface GoldenSet {
+  name: string;
+  description?: string;
+  profiles: GoldenProfile[];
+}
+
+/**
+ * Outputs of the evaluation flow of a profile
+ */
+export interface ProfileRecording {
+  flowId: number;
+  flowStatus: string;
+  isActiveScientistOrFOSSDev?: boolean;
+  /** `worthAsFractionOfGDP` of each completed worth assessment */
+  worthSamples: number[];
+  /** Aggregated worth of the flow */
+  medianWorth?: number;
+  /** Whether any injection check detected an injection */
+  hasPromptInjectionOrPlagiarism?: boolean;
+  costUSD: number;
+  tasksByStatus: Record<string, number>;
+}
+
+export interface BenchmarkRecording {
+  goldenSet: string;
+  recordedAt: string;
+  /** AI provider configuration of the run */
+  configuration: Record<string, string | undefined>;
+  profiles: Record<string, ProfileRecording>;
+}
+
+export interface ProfileScore {
+  id: string;
+  isActiveScientistOrFOSSDev?: { expected: boolean; actual?: boolean; correct: boolean };
+  worth?: { expectedRange: [number, number]; medianWorth?: number; inRange: boolean };
+  hasPromptInjectionOrPlagiarism?: { expected: boolean; actual?: boolean; correct: boolean };
+  samples: number;
+  /** Standard deviation of the log10 of the worth samples */
+  log10StdDev?: number;
+  costUSD: number;
+}
+
+export interface BenchmarkReport {
+  goldenSet: string;
+  recordedAt: string;
+  profiles: ProfileScore[];
+  /** Fraction of the profiles with an expected value for which the result is right */
+  onboardingAccuracy?: number;
+  worthInRangeRate?: number;
+  injectionAccuracy?: number;
+  /** Spearman correlation between the expected worths (geometric middle of the ranges) and the median worths */
+  worthRankCorrelation?: number;
+  /** Mean over the profiles of the standard deviation of the log10 of the worth samples */
+  meanLog10StdDev?: number;
+  totalCostUSD: number;
+  missingProfiles: string[];
+}
+
+export interface BenchmarkRunOptions {
+  /** Give up waiting for the flows after this long */
+  timeoutMs: number;
+}
+
+/**
+ * Read and check a golden set
+ * @param path - Path of the JSON file
+ * @throws Error if the file is not a valid golden set
+ */
+export function loadGoldenSet(path: string): GoldenSet {
+  const goldenSet: GoldenSet = JSON.parse(fs.readFileSync(path, 'utf8'));
+  if (!goldenSet.name || !Array.isArray(goldenSet.profiles) || goldenSet.profiles.length === 0) {
+    throw new Error(`Golden set ${path} must have a name and profiles`);
+  }
+  const ids = new Set<string>();
+  for (const profile of goldenSet.profiles) {
+    if (!profile.id || ids.has(profile.id)) {
+      throw new Error(`Golden set ${path}: missing or duplicate profile id '${profile.id}'`);
+    }
+    ids.add(profile.id);
+    const range = profile.expected?.worthRange;
+    if (range && !(range.length === 2 && range[0] > 0 && range[0] <= range[1])) {
+      throw new Error(`Golden set ${path}: profile '${profile.id}' has an invalid worthRange`);
+    }
+  }
+  return goldenSet;
+}
+
+/**
+ * Read a recording saved by `runBenchmark`
+ * @param path - Path of the JSON file
+ */
+export function loadBenchmarkRecording(path: string): BenchmarkRecording {
+  if (!fs.existsSync(path)) {
+    throw new Error(`No benchmark recording at ${path}: record one first with npm run benchmark -- --record ${path}`);
+  }
+  return JSON.parse(fs.readFileSync(path, 'utf8'));
+}
+
+/**
+ * Run an onboarding evaluation flow per profile with the configured runners and AI providers, and record the outputs.
+ * Each run creates fresh users, so that no previous evaluation summary is reused: use a dedicated database.
+ * @param prisma - Prisma client of the benchmark database
+ * @param goldenSet - The profiles
+ * @param options - Run options
+ */
+export async function runBenchmark(prisma: PrismaClient, goldenSet: GoldenSet, options: BenchmarkRunOptions): Promise<BenchmarkRecording> {
+  const runId = Date.now().toString(36);
+  const evaluationFlow = new UserEvaluationFlow(prisma);
+  const flowIds = new Map<string, number>();
+  for (const profile of goldenSet.profiles) {
+    const user = await prisma.user.create({
+      data: { email: `benchmark-${runId}-${profile.id}@benchmark.invalid`, name: `Benchmark ${profile.id}` }
+    });
+    const { flowId } = await evaluationFlow.createOnboardingFlow({ userId: user.id, userData: profile.userData });
+    flowIds.set(profile.id, flowId);
+  }
+  console.log(`🧪 Benchmark run ${runId}: ${flowIds.size} evaluation flows created`);
+
+  const workerOptions = readTaskWorkerOptions();
+  const worker = new TaskWorker(prisma, workerOptions);
+  const deadline = Date.now() + options.timeoutMs;
+  while (await prisma.evaluationFlow.count({ where: { id: { in: [...flowIds.values()] }, status: EvaluationFlowStatus.RUNNING } }) > 0) {
+    if (Date.now() > deadline) {
+      console.warn(`⚠️ Benchmark timed out after ${options.timeoutMs / 1000}s, recording the finished flows only`);
+      break;
+    }
+    await worker.runOnce();
+    await new Promise(resolve => setTimeout(resolve, workerOptions.pollMs));
+  }
+
+  const recording: BenchmarkRecording = {
+    goldenSet: goldenSet.name,
+    recordedAt: new Date().toISOString(),
+    configuration: {
+      AI_PROVIDER: process.env.AI_PROVIDER,
+      AI_RUNNER_PROVIDERS: process.env.AI_RUNNER_PROVIDERS,
+      OPENAI_MODEL: process.env.OPENAI_MODEL,
+      WORTH_ENSEMBLE: process.env.WORTH_ENSEMBLE,
+      WORTH_AGGREGATION: process.env.WORTH_AGGREGATION,
+      EVALUATION_PIPELINES: process.env.EVALUATION_PIPELINES
+    },
+    profiles: {}
+  };
+  for (const [profileId, flowId] of flowIds) {
+    recording.profiles[profileId] = await recordFlow(prisma, flowId);
+  }
+  return recording;
+}
+
+/**
+ * Collect the outputs recorded by the runners of a flow (`runnerData.output`) and the cost of its AI requests
+ */
+async function recordFlow(prisma: PrismaClient, flowId: number): Promise<ProfileRecording> {
+  const flow = await prisma.evaluationFlow.findUniqueOrThrow({
+    where: { id: flowId },
+    include: { tasks: { select: { runnerClassName: true, status: true, runnerData: true } } }
+  });
+  const { _sum } = await prisma.openAILog.aggregate({ where: { flowId }, _sum: { costUSD: true } });
+
+  const recording: ProfileRecording = {
+    flowId,
+    flowStatus: flow.status,
+    worthSamples: [],
+    costUSD: _sum.costUSD ?? 0,
+    tasksByStatus: {}
+  };
+  const result: EvaluationFlowResult | null = flow.result ? JSON.parse(flow.result) : null;
+  if (result) {
+    recording.medianWorth = result.medianWorth;
+  }
+  for (const task of flow.tasks) {
+    recording.tasksByStatus[task.status] = (recording.tasksByStatus[task.status] ?? 0) + 1;
+    const output = task.runnerData ? JSON.parse(task.runnerData).output : undefined;
+    if (!output) {
+      continue;
+    }
+    if (task.runnerClassName === 'ScientistOnboardingRunner') {
+      recording.isActiveScientistOrFOSSDev = output.isActiveScientistOrFOSSDev;
+    } else if (task.runnerClassName === 'WorthAssessmentRunner' && task.status === TaskStatus.COMPLETED) {
+      recording.worthSamples.push(output.worthAsFractionOfGDP);
+    } else if (task.runnerClassName === 'PromptInjectionRunner') {
+      recording.hasPromptInjectionOrPlagiarism = recording.hasPromptInjectionOrPlagiarism || output.hasPromptInjectionOrPlagiarism;
+    }
+  }
+  return recording;
+}
+
+function mean(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+}
+
+function standardDeviation(values: number[]): number | undefined {
+  const average = mean(values);
+  if (average === undefined || values.length < 2) {
+    return undefined;
+  }
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+/**
+ * Ranks from 1, ties getting the average of their ranks
+ */
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) {
+      end++;
+    }
+    for (let i = start; i <= end; i++) {
+      result[order[i].index] = (start + end) / 2 + 1;
+    }
+    start = end + 1;
+  }
+  return result;
+}
+
+/**
+ * Spearman rank correlation
+ * @returns undefined with less than 3 pairs or constant values
+ */
+export function spearmanCorrelation(xs: number[], ys: number[]): number | undefined {
+  if (xs.length < 3) {
+    return undefined;
+  }
+  const rx = ranks(xs);
+  const ry = ranks(ys);
+  const mx = mean(rx)!;
+  const my = mean(ry)!;
+  let covariance = 0, varianceX = 0, varianceY = 0;
+  for (let i = 0; i < rx.length; i++) {
+    covariance += (rx[i] - mx) * (ry[i] - my);
+    varianceX += (rx[i] - mx) ** 2;
+    varianceY += (ry[i] - my) ** 2;
+  }
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : undefined;
+}
+
+function rate(values: boolean[]): number | undefined {
+  return values.length > 0 ? values.filter(Boolean).length / values.length : undefined;
+}
+
+/**
+ * Score a recording against the expectations of the golden set
+ * @param goldenSet - The profiles and their expectations
+ * @param recording - The outputs of a run
+ */
+export function scoreBenchmark(goldenSet: GoldenSet, recording: BenchmarkRecording): BenchmarkReport {
+  const profiles: ProfileScore[] = [];
+  const missingProfiles: string[] = [];
+  const expectedWorths: number[] = [];
+  const actualWorths: number[] = [];
+
+  for (const profile of goldenSet.profiles) {
+    const recorded = recording.profiles[profile.id];
+    if (!recorded) {
+      missingProfiles.push(profile.id);
+      continue;
+    }
+    const { expected } = profile;
+    const score: ProfileScore = {
+      id: profile.id,
+      samples: recorded.worthSamples.length,
+      log10StdDev: standardDeviation(recorded.worthSamples.filter(value => value > 0).map(Math.log10)),
+      costUSD: recorded.costUSD
+    };
+    if (expected.isActiveScientistOrFOSSDev !== undefined) {
+      score.isActiveScientistOrFOSSDev = {
+        expected: expected.isActiveScientistOrFOSSDev,
+        actual: recorded.isActiveScientistOrFOSSDev,
+        correct: recorded.isActiveScientistOrFOSSDev === expected.isActiveScientistOrFOSSDev
+      };
+    }
+    if (expected.worthRange) {
+      const [low, high] = expected.worthRange;
+      score.worth = {
+        expectedRange: expected.worthRange,
+        medianWorth: recorded.medianWorth,
+        inRange: recorded.medianWorth !== undefined && recorded.medianWorth >= low && recorded.medianWorth <= high
+      };
+      if (recorded.medianWorth !== undefined) {
+        expectedWorths.push(Math.sqrt(low * high));
+        actualWorths.push(recorded.medianWorth);
+      }
+    }
+    if (expected.hasPromptInjectionOrPlagiarism !== undefined) {
+      score.hasPromptInjectionOrPlagiarism = {
+        expected: expected.hasPromptInjectionOrPlagiarism,
+        actual: recorded.hasPromptInjectionOrPlagiarism,
+        correct: (recorded.hasPromptInjectionOrPlagiarism ?? false) === expected.hasPromptInjectionOrPlagiarism
+      };
+    }
+    profiles.push(score);
+  }
+
+  return {
+    goldenSet: goldenSet.name,
+    recordedAt: recording.recordedAt,
+    profiles,
+    onboardingAccuracy: rate(profiles.flatMap(score => score.isActiveScientistOrFOSSDev ? [score.isActiveScientistOrFOSSDev.correct] : [])),
+    worthInRangeRate: rate(profiles.flatMap(score => score.worth ? [score.worth.inRange] : [])),
+    injectionAccuracy: rate(profiles.flatMap(score => score.hasPromptInjectionOrPlagiarism ? [score.hasPromptInjectionOrPlagiarism.correct] : [])),
+    worthRankCorrelation: spearmanCorrelation(expectedWorths, actualWorths),
+    meanLog10StdDev: mean(profiles.flatMap(score => score.log10StdDev !== undefined ? [score.log10StdDev] : [])),
+    totalCostUSD: profiles.reduce((sum, score) => sum + score.costUSD, 0),
+    missingProfiles
+  };
+}
+
+const formatMetric = (value: number | undefined, digits: number = 2) => value === undefined ? 'n/a' : value.toFixed(digits);
+const formatWorth = (value: number | undefined) => value === undefined ? 'n/a' : value.toExponential(2);
+const formatCheck = (check?: { actual?: boolean; correct: boolean }) => check === undefined ? '-' : `${check.actual ?? 'n/a'} ${check.correct ? '✅' : '❌'}`;
+
+/**
+ * Format a report for the console
+ */
+export function formatBenchmarkReport(report: BenchmarkReport): string {
+  const lines = [
+    `📊 Calibration benchmark '${report.goldenSet}' (recorded ${report.recordedAt})`,
+    '',
+    'profile | scientist/FOSS dev | median worth (expected range) | samples | log10 std dev | injection | cost USD'
+  ];
+  for (const score of report.profiles) {
+    const worth = score.worth ?
+      `${formatWorth(score.worth.medianWorth)} (${formatWorth(score.worth.expectedRange[0])}..${formatWorth(score.worth.expectedRange[1])}) ${score.worth.inRange ? '✅' : '❌'}` : '-';
+    lines.push([
+      score.id,
+      formatCheck(score.isActiveScientistOrFOSSDev),
+      worth,
+      score.samples,
+      formatMetric(score.log10StdDev),
+      formatCheck(score.hasPromptInjectionOrPlagiarism),
+      score.costUSD.toFixed(4)
+    ].join(' | '));
+  }
+  lines.push(
+    '',
+    `Onboarding accuracy: ${formatMetric(report.onboardingAccuracy)}`,
+    `Worth in expected range: ${formatMetric(report.worthInRangeRate)}`,
+    `Worth rank correlation (Spearman): ${formatMetric(report.worthRankCorrelation)}`,
+    `Mean std dev of log10 worth across samples: ${formatMetric(report.meanLog10StdDev)}`,
+    `Injection check accuracy: ${formatMetric(report.injectionAccuracy)}`,
+    `Total cost: ${report.totalCostUSD.toFixed(4)} USD`
+  );
+  if (report.missingProfiles.length > 0) {
+    lines.push(`⚠️ Not in the recording: ${report.missingProfiles.join(', ')}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,143 @@
+import { PrismaClient } from '@prisma/client';
+import type { AISource } from './ai-providers/index.js';
+
+/**
+ * Web pages the worth assessments were based on, captured from the URL citations and Web search results
+ * of their AI responses and stored in the `Source` table.
+ */
+
+// Longest citation snippet stored
+const MAX_SNIPPET_LENGTH = 500;
+
+export interface CitedSourceEntry {
+  id: number;
+  url: string;
+  title: string | null;
+  snippet: string | null;
+  origin: AISource['origin'];
+  retrievedAt: Date;
+  /** WorthAssessmentRunner task that cited the page */
+  taskId: number;
+  /** Archived copy of the page, see `sourceSnapshots.ts`; `null` if none was taken */
+  snapshot: { contentHash: string | null; httpStatus: number | null; error: string | null; capturedAt: Date } | null;
+}
+
+/**
+ * Merge the sources of a response by URL: a page counts as cited if any annotation cites it,
+ * and keeps the first title and snippet given for it
+ * @param sources - Sources in order of appearance, as parsed by `AIProvider.extractSources`
+ */
+export function mergeCitedSources(sources: AISource[]): AISource[] {
+  const byUrl = new Map<string, AISource>();
+  for (const source of sources) {
+    const url = source.url.trim();
+    if (!/^https?:\/\//i.test(url)) {
+      continue;
+    }
+    const existing = byUrl.get(url);
+    byUrl.set(url, {
+      url,
+      title: existing?.title ?? source.title,
+      snippet: existing?.snippet ?? source.snippet?.trim().slice(0, MAX_SNIPPET_LENGTH),
+      origin: existing?.origin === 'citation' || source.origin === 'citation' ? 'citation' : 'search'
+    });
+  }
+  return [...byUrl.values()];
+}
+
+/**
+ * Store the sources of a worth assessment response, replacing those stored for the task before (e.g. by a retry)
+ * @param prisma - Prisma client
+ * @param taskId - WorthAssessmentRunner task
+ * @param userId - Assessed user, if known
+ * @param sources - Sources as parsed by `AIProvider.extractSources`
+ * @param retrievedAt - When the response was received
+ * @returns The merged sources
+ */
+export async function recordCitedSources(
+  prisma: PrismaClient,
+  taskId: number,
+  userId: number | undefined,
+  sources: AISource[],
+  retrievedAt: Date = new Date()
+): Promise<AISource[]> {
+  const merged = mergeCitedSources(sources);
+  await prisma.$transaction([
+    prisma.source.deleteMany({ where: { taskId } }),
+    prisma.source.createMany({
+      data: merged.map(source => ({
+        taskId,
+        userId: userId ?? null,
+        url: source.url,
+        title: source.title ?? null,
+        snippet: source.snippet ?? null,
+        origin: source.origin,
+        retrievedAt
+      }))
+    })
+  ]);
+  return merged;
+}
+
+/**
+ * Get the stored sources of tasks, cited pages first
+ * @param prisma - Prisma client
+ * @param taskIds - WorthAssessmentRunner tasks
+ */
+export async function getCitedSources(prisma: PrismaClient, taskIds: number[]): Promise<CitedSourceEntry[]> {
+  if (taskIds.length === 0) {
+    return [];
+  }
+  const rows = await prisma.source.findMany({
+    where: { taskId: { in: taskIds } },
+    include: { snapshot: { select: { contentHash: true, httpStatus: true, error: true, capturedAt: true } } },
+    orderBy: [{ taskId: 'asc' }, { id: 'asc' }]
+  });
+  const entries = rows.map(row => ({
+    id: row.id,
+    url: row.url,
+    title: row.title,
+    snippet: row.snippet,
+    origin: row.origin as AISource['origin'],
+    retrievedAt: row.retrievedAt,
+    taskId: row.taskId,
+    snapshot: row.snapshot
+  }));
+  return [...entries.filter(entry => entry.origin === 'citation'), ...entries.filter(entry => entry.origin !== 'citation')];
+}
+
+/**
+ * Get the sources of the worth assessments the current score of a user was computed from,
+ * i.e. the dependencies of the MedianRunner task of the latest GDP share history entry
+ * @param prisma - Prisma client
+ * @param userId - The user
+ * @returns The MedianRunner task and its sources, or `undefined` if the user has no score computed by a task yet
+ */
+export async function getCurrentScoreSources(
+  prisma: PrismaClient,
+  userId: number
+): Promise<{ taskId: number; computedAt: Date; sources: CitedSourceEntry[] } | undefined> {
+  const latest = await prisma.shareInGdpHistory.findFirst({
+    where: { userId, taskId: { not: null } },
+    orderBy: { createdAt: 'desc' },
+    include: { task: { include: { dependencies: { select: { dependencyId: true } } } } }
+  });
+  if (!latest?.task) {
+    return undefined;
+  }
+  const taskIds = latest.task.dependencies.map(dep => dep.dependencyId);
+  return { taskId: latest.task.id, computedAt: latest.createdAt, sources: await getCitedSources(prisma, taskIds) };
+}
+
+/**
+ * Get the sources of the worth assessments of an evaluation flow
+ * @param prisma - Prisma client
+ * @param flowId - The evaluation flow
+ */
+export async function getFlowCitedSources(prisma: PrismaClient, flowId: number): Promise<CitedSourceEntry[]> {
+  const tasks = await prisma.task.findMany({
+    where: { flowId, runnerClassName: 'WorthAssessmentRunner' },
+    select: { id: true }
+  });
+  return await getCitedSources(prisma, tasks.map(task => task.id));
+}
@@ -0,0 +1,438 @@
+/**
+ * Declarative evaluation pipelines: the task graph of an evaluation flow described as data.
+ *
+ * A pipeline is a JSON file in `EVALUATION_PIPELINES_DIR` (default: `./pipelines`), named `<name>.json`:
+ * ```json
+ * {
+ *   "name": "default",
+ *   "samples": 3,
+ *   "tasks": [
+ *     { "id": "scientist", "runner": "ScientistOnboardingRunner", "cycles": ["ONBOARDING"], "data": { "userData": "$userData" } },
+ *     { "id": "worth", "runner": "WorthAssessmentRunner", "perSample": true, "dependsOn": ["scientist"], "data": { ... } },
+ *     { "id": "median", "runner": "MedianRunner", "dependsOn": ["worth[all]"], "data": { "sourceTaskIds": "$taskIds.worth" } }
+ *   ]
+ * }
+ * ```
+ * See `USER_EVALUATION.md` for the reference of the format.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { TaskRunnerRegistry } from '../types/task.js';
+
+export enum EvaluationCycleType {
+  ONBOARDING = 'ONBOARDING', // First evaluation, after the scientist check
+  PERIODIC = 'PERIODIC', // Bi-monthly re-evaluation by the cron job
+  APPEAL = 'APPEAL' // Re-evaluation on an accepted appeal
+}
+
+/**
+ * A node of the pipeline graph, i.e. one task (or one task per sample if `perSample` is set)
+ */
+export interface PipelineTaskDefinition {
+  /** Unique in the pipeline, used in `dependsOn` and `$taskIds.<id>` */
+  id: string;
+  /** Registered TaskRunner class */
+  runner: string;
+  /** Create one task per worth sample instead of a single task */
+  perSample?: boolean;
+  /** Cycles in which the task is created (default: all) */
+  cycles?: EvaluationCycleType[];
+  /**
+   * Dependencies, each `<id>` (the same sample for a per-sample task), `<id>[previous]` (the previous sample),
+   * `<id>[upTo]` (samples up to the current one) or `<id>[all]` (all samples).
+   * Alternatives separated by `|` resolve to the first one with tasks, e.g. `injection[previous]|scientist`.
+   */
+  dependsOn?: string[];
+  /** `runnerData` template; strings starting with `$` are variables, `$$` escapes a literal `$` */
+  data?: Record<string, unknown>;
+}
+
+export interface EvaluationPipeline {
+  name: string;
+  description?: string;
+  /** Number of worth samples (default: `WORTH_ENSEMBLE_SIZE`) */
+  samples?: number;
+  tasks: PipelineTaskDefinition[];
+}
+
+/**
+ * A task to create, after expanding per-sample tasks and dropping tasks of other cycles
+ */
+export interface PlannedPipelineTask {
+  nodeId: string;
+  runner: string;
+  /** Index of the sample for per-sample tasks */
+  sample?: number;
+  /** Indexes in the planned task list, always lower than the index of this task */
+  dependencies: number[];
+  data: Record<string, unknown>;
+}
+
+/**
+ * Values of the variables of `runnerData` templates
+ */
+export interface PipelineVariables {
+  userId: number;
+  userData: Record<string, unknown>;
+  appealId?: number;
+  aggregation: string;
+  prompts: { worth: string; injection: string };
+  /** Prompt registry versions the prompts were made from */
+  promptVersions: { worth: number; injection: number };
+  /** Ensemble member of each sample */
+  members: Record<string, unknown>[];
+}
+
+type DependencySelector = 'same' | 'previous' | 'upTo' | 'all';
+
+interface DependencyReference {
+  nodeId: string;
+  selector: DependencySelector;
+}
+
+/**
+ * Group the tasks in creation blocks: each single task alone, consecutive per-sample tasks together
+ */
+function groupPipelineBlocks(tasks: PipelineTaskDefinition[]): PipelineTaskDefinition[][] {
+  const blocks: PipelineTaskDefinition[][] = [];
+  for (const task of tasks) {
+    const last = blocks[blocks.length - 1];
+    if (task.perSample && last?.[0].perSample) {
+      last.push(task);
+    } else {
+      blocks.push([task]);
+    }
+  }
+  return blocks;
+}
+
+const DEPENDENCY_PATTERN = /^([A-Za-z0-9_-]+)(?:\[(previous|upTo|all)\])?$/;
+const GLOBAL_VARIABLES = ['userId', 'userData', 'appealId', 'aggregation', 'prompts', 'promptVersions'];
+const SAMPLE_VARIABLES = ['member', 'sampleNumber'];
+
+function parseDependency(spec: string): DependencyReference[] {
+  return spec.split('|').map(alternative => {
+    const match = DEPENDENCY_PATTERN.exec(alternative.trim());
+    if (!match) {
+      throw new Error(`invalid dependency '${spec}'`);
+    }
+    return { nodeId: match[1], selector: (match[2] as DependencySelector | undefined) ?? 'same' };
+  });
+}
+
+function collectTemplateVariables(value: unknown, variables: string[] = []): string[] {
+  if (typeof value === 'string') {
+    if (value.startsWith('$') && !value.startsWith('$$')) {
+      variables.push(value.slice(1));
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectTemplateVariables(item, variables));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectTemplateVariables(item, variables));
+  }
+  return variables;
+}
+
+/**
+ * Check the structure of a pipeline: unique ids, registered runners, dependencies on earlier tasks only
+ * (so that the graph is acyclic), per-sample selectors on per-sample tasks, known template variables
+ * @throws Error describing the first problem found
+ */
+export function validateEvaluationPipeline(pipeline: EvaluationPipeline): void {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid evaluation pipeline '${pipeline.name}': ${message}`);
+  };
+
+  if (!pipeline.name || typeof pipeline.name !== 'string') {
+    fail('name is required');
+  }
+  if (pipeline.samples !== undefined && (!Number.isInteger(pipeline.samples) || pipeline.samples < 1)) {
+    fail(`samples must be a positive integer, got ${pipeline.samples}`);
+  }
+  if (!Array.isArray(pipeline.tasks) || pipeline.tasks.length === 0) {
+    fail('tasks must be a non-empty array');
+  }
+
+  const defined = new Map<string, PipelineTaskDefinition>();
+  const ids = new Set(pipeline.tasks.map(task => task?.id));
+  const blocks = groupPipelineBlocks(pipeline.tasks);
+  const blockOf = (task: PipelineTaskDefinition) => blocks.findIndex(block => block.includes(task));
+  for (const task of pipeline.tasks) {
+    if (!task.id || typeof task.id !== 'string') {
+      fail('every task needs an id');
+    }
+    if (defined.has(task.id)) {
+      fail(`duplicate task id '${task.id}'`);
+    }
+    try {
+      TaskRunnerRegistry.getRunnerClass(task.runner);
+    } catch {
+      fail(`task '${task.id}' uses unknown runner '${task.runner}'`);
+    }
+    for (const cycle of task.cycles ?? []) {
+      if (!Object.values(EvaluationCycleType).includes(cycle)) {
+        fail(`task '${task.id}' has unknown cycle '${cycle}'`);
+      }
+    }
+
+    for (const spec of task.dependsOn ?? []) {
+      let references: DependencyReference[] = [];
+      try {
+        references = parseDependency(spec);
+      } catch (error) {
+        fail(`task '${task.id}': ${error instanceof Error ? error.message : String(error)}`);
+      }
+      for (const { nodeId, selector } of references) {
+        if (!ids.has(nodeId)) {
+          fail(`task '${task.id}' depends on unknown task '${nodeId}'`);
+        }
+        const target = pipeline.tasks.find(other => other.id === nodeId)!;
+        if (selector === 'previous') {
+          // Within a block, the previous sample was fully created before the current one.
+          if (!task.perSample || !target.perSample || blockOf(task) !== blockOf(target)) {
+            fail(`'${spec}' in task '${task.id}': [previous] links per-sample tasks of the same block`);
+          }
+          continue;
+        }
+        if (!defined.has(nodeId)) {
+          fail(`task '${task.id}' depends on '${nodeId}', which must be defined before it`);
+        }
+        if (selector === 'upTo' && !task.perSample) {
+          fail(`'${spec}' in task '${task.id}': [upTo] is only available in per-sample tasks`);
+        }
+        if (selector !== 'same' && !target.perSample) {
+          fail(`'${spec}' in task '${task.id}': '${nodeId}' is not a per-sample task`);
+        }
+        if (selector === 'same' && target.perSample && !task.perSample) {
+          fail(`'${spec}' in task '${task.id}': use '${nodeId}[all]' to depend on all samples`);
+        }
+      }
+    }
+
+    for (const variable of collectTemplateVariables(task.data ?? {})) {
+      const [root, ...rest] = variable.split('.');
+      if (root === 'taskIds') {
+        if (rest.length !== 1 || !defined.has(rest[0])) {
+          fail(`task '${task.id}' uses '$${variable}', which must name a task defined before it`);
+        }
+      } else if (SAMPLE_VARIABLES.includes(root)) {
+        if (!task.perSample) {
+          fail(`task '${task.id}' uses '$${variable}', which is only available in per-sample tasks`);
+        }
+      } else if (!GLOBAL_VARIABLES.includes(root)) {
+        fail(`task '${task.id}' uses unknown variable '$${variable}'`);
+      }
+    }
+
+    defined.set(task.id, task);
+  }
+}
+
+/**
+ * Expand a pipeline into the tasks of one flow, in creation order.
+ * Consecutive per-sample tasks form a block created sample after sample.
+ * @param pipeline - A validated pipeline
+ * @param cycleType - Tasks restricted to other cycles are left out
+ * @param samples - Number of worth samples
+ */
+export function expandEvaluationPipeline(
+  pipeline: EvaluationPipeline,
+  cycleType: EvaluationCycleType,
+  samples: number
+): PlannedPipelineTask[] {
+  const included = (task: PipelineTaskDefinition) => !task.cycles || task.cycles.includes(cycleType);
+  const planned: PlannedPipelineTask[] = [];
+  // Planned indexes per task id, by sample (index 0 for single tasks)
+  const created = new Map<string, number[]>();
+
+  const resolve = (references: DependencyReference[], sample?: number): number[] => {
+    for (const { nodeId, selector } of references) {
+      const indexes = created.get(nodeId) ?? [];
+      const target = pipeline.tasks.find(task => task.id === nodeId)!;
+      let selected: (number | undefined)[];
+      if (!target.perSample) {
+        selected = indexes;
+      } else if (selector === 'same') {
+        selected = [indexes[sample!]];
+      } else if (selector === 'previous') {
+        selected = sample! > 0 ? [indexes[sample! - 1]] : [];
+      } else if (selector === 'upTo') {
+        selected = indexes.slice(0, sample! + 1);
+      } else {
+        selected = indexes;
+      }
+      const found = selected.filter((index): index is number => index !== undefined);
+      if (found.length > 0) {
+        return found;
+      }
+    }
+    return [];
+  };
+
+  const plan = (task: PipelineTaskDefinition, sample?: number) => {
+    const dependencies = (task.dependsOn ?? []).flatMap(spec => resolve(parseDependency(spec), sample));
+    planned.push({
+      nodeId: task.id,
+      runner: task.runner,
+      sample,
+      dependencies: [...new Set(dependencies)],
+      data: task.data ?? {}
+    });
+    created.set(task.id, [...(created.get(task.id) ?? []), planned.length - 1]);
+  };
+
+  for (const block of groupPipelineBlocks(pipeline.tasks)) {
+    const tasks = block.filter(included);
+    if (!block[0].perSample) {
+      tasks.forEach(task => plan(task));
+      continue;
+    }
+    for (let sample = 0; sample < samples; sample++) {
+      tasks.forEach(task => plan(task, sample));
+    }
+  }
+
+  return planned;
+}
+
+/**
+ * Fill the variables of a `runnerData` template
+ * @param template - The `data` of the task definition
+ * @param variables - Values of the global variables
+ * @param taskIds - IDs of the tasks created so far, by task id of the pipeline
+ * @param sample - Index of the sample for per-sample tasks
+ */
+export function renderPipelineTaskData(
+  template: Record<string, unknown>,
+  variables: PipelineVariables,
+  taskIds: Map<string, number[]>,
+  sample?: number
+): Record<string, unknown> {
+  const lookup = (variable: string): unknown => {
+    const [root, ...rest] = variable.split('.');
+    let value: unknown;
+    if (root === 'taskIds') {
+      return taskIds.get(rest[0]) ?? [];
+    } else if (root === 'member') {
+      value = variables.members[sample!];
+    } else if (root === 'sampleNumber') {
+      return sample! + 1;
+    } else {
+      value = (variables as unknown as Record<string, unknown>)[root];
+    }
+    for (const key of root === 'member' || root === 'prompts' || root === 'promptVersions' ? rest : []) {
+      value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    return value;
+  };
+
+  const render = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      if (value.startsWith('$$')) {
+        return value.slice(1);
+      }
+      return value.startsWith('$') ? lookup(value.slice(1)) : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(render);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, render(item)]));
+    }
+    return value;
+  };
+
+  return render(template) as Record<string, unknown>;
+}
+
+export interface EvaluationPipelineSelection {
+  name: string;
+  weight: number;
+}
+
+/**
+ * Parse `EVALUATION_PIPELINES`: comma-separated `name[:weight]` (default: `default`).
+ * With several pipelines, users are split between them in proportion to the weights (A/B testing).
+ */
+export function readEvaluationPipelineSelection(): EvaluationPipelineSelection[] {
+  const specs = (process.env.EVALUATION_PIPELINES ?? 'default').split(',').filter(spec => spec.trim() !== '');
+  const selection = specs.map(spec => {
+    const [name, weightPart] = spec.trim().split(':');
+    const weight = weightPart === undefined ? 1 : parseInt(weightPart);
+    if (!name || isNaN(weight) || weight < 1) {
+      throw new Error(`Invalid EVALUATION_PIPELINES entry '${spec}'`);
+    }
+    return { name, weight };
+  });
+  if (selection.length === 0) {
+    throw new Error('EVALUATION_PIPELINES is empty');
+  }
+  return selection;
+}
+
+let loadedPipelines: Map<string, EvaluationPipeline> | undefined;
+
+/**
+ * Load and validate the pipelines of `EVALUATION_PIPELINES_DIR` and check that the ones selected by
+ * `EVALUATION_PIPELINES` exist. Called on startup, after the runners are registered.
+ * @param directory - Directory of the pipeline files (default: `EVALUATION_PIPELINES_DIR` or `./pipelines`)
+ * @throws Error if a pipeline is invalid or missing
+ */
+export function loadEvaluationPipelines(directory?: string): Map<string, EvaluationPipeline> {
+  const dir = directory ?? process.env.EVALUATION_PIPELINES_DIR ?? './pipelines';
+  const pipelines = new Map<string, EvaluationPipeline>();
+
+  for (const file of readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+    let pipeline: EvaluationPipeline;
+    try {
+      pipeline = JSON.parse(readFileSync(path.join(dir, file), 'utf8'));
+    } catch (error) {
+      throw new Error(`Invalid evaluation pipeline file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    validateEvaluationPipeline(pipeline);
+    if (`${pipeline.name}.json` !== file) {
+      throw new Error(`Evaluation pipeline '${pipeline.name}' must be in ${pipeline.name}.json, found in ${file}`);
+    }
+    pipelines.set(pipeline.name, pipeline);
+  }
+
+  for (const { name } of readEvaluationPipelineSelection()) {
+    if (!pipelines.has(name)) {
+      throw new Error(`Evaluation pipeline '${name}' (EVALUATION_PIPELINES) not found in ${dir}`);
+    }
+  }
+
+  loadedPipelines = pipelines;
+  console.log(`🧩 Loaded ${pipelines.size} evaluation pipeline(s): ${[...pipelines.keys()].join(', ')}`);
+  return pipelines;
+}
+
+/**
+ * A loaded pipeline by name, e.g. to extend a flow created from it
+ * @returns The pipeline, or `undefined` if no pipeline file has this name
+ */
+export function getEvaluationPipeline(name: string): EvaluationPipeline | undefined {
+  return (loadedPipelines ?? loadEvaluationPipelines()).get(name);
+}
+
+/**
+ * The pipeline of a new flow of the user. The split between the pipelines of `EVALUATION_PIPELINES`
+ * depends only on the user ID, so that a user stays in the same arm of an A/B test across cycles.
+ */
+export function selectEvaluationPipeline(userId: number): EvaluationPipeline {
+  const pipelines = loadedPipelines ?? loadEvaluationPipelines();
+  const selection = readEvaluationPipelineSelection();
+  const totalWeight = selection.reduce((sum, entry) => sum + entry.weight, 0);
+
+  // Multiplicative hash, so that consecutive user IDs don't fall in the same arm
+  let position = Math.imul(userId, 2654435761) >>> 0;
+  position %= totalWeight;
+  for (const entry of selection) {
+    if (position < entry.weight) {
+      return pipelines.get(entry.name)!;
+    }
+    position -= entry.weight;
+  }
+  return pipelines.get(selection[0].name)!;
+}
@@ -7,6 +7,7 @@ import type {
   GasTokenNetworkContext,
   GasTransferEstimate,
   GasTransferResult,
+  GasTransferStatus,
   TokenDistributionOptions
 } from './types.js';
 
@@ -440,6 +441,38 @@ export class BitcoinGasTokenNetworkAdapter implements GasTokenNetworkAdapter {
     const txId = await client.command('sendtoaddress', recipientAddress, amountToken);
     return { transactionHash: txId };
   }
+
+  async getTransferStatus(_context: GasTokenNetworkContext, transactionHash: string): Promise<GasTransferStatus> {
+    const client = await this.getClient();
+    if (!this.walletRpcUnavailable) {
+      // The transfers are paid by the wallet (`sendtoaddress`), which keeps track of them without -txindex
+      try {
+        const transaction = await client.command('gettransaction', transactionHash);
+        const confirmations = Number(transaction?.confirmations ?? 0);
+        const abandoned = Array.isArray(transaction?.details) && transaction.details.some((detail: { abandoned?: boolean }) => detail.abandoned);
+        if (confirmations < 0 || abandoned) {
+          return 'DROPPED'; // Conflicted with a confirmed transaction, or abandoned
+        }
+        return confirmations > 0 ? 'CONFIRMED' : 'PENDING';
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (!message.includes('Invalid or non-wallet transaction id')) {
+          throw error;
+        }
+      }
+    }
+
+    try {
+      const transaction = await client.command('getrawtransaction', transactionHash, true);
+      return Number(transaction?.confirmations ?? 0) > 0 ? 'CONFIRMED' : 'PENDING';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('No such mempool or blockchain transaction')) {
+        return 'DROPPED';
+      }
+      throw error;
+    }
+  }
 }
 
 export const bitcoinGasTokenNetworkAdapter = new BitcoinGasTokenNetworkAdapter();
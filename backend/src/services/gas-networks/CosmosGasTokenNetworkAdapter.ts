@@ -12,6 +12,7 @@ import type {
   GasTokenNetworkContext,
   GasTransferEstimate,
   GasTransferResult,
+  GasTransferStatus,
   TokenDistributionOptions
 } from './types.js';
 
@@ -282,6 +283,17 @@ export class CosmosGasTokenNetworkAdapter implements GasTokenNetworkAdapter {
 
     return { transactionHash: result.transactionHash };
   }
+
+  async getTransferStatus(_context: GasTokenNetworkContext, transactionHash: string): Promise<GasTransferStatus> {
+    const config = this.ensureEnabledConfig();
+    const client = await this.getClient(config);
+    const transaction = await client.getTx(transactionHash);
+    if (!transaction) {
+      // Not indexed yet, or evicted from the mempool; the caller decides by the age of the transfer
+      return 'DROPPED';
+    }
+    return transaction.code === 0 ? 'CONFIRMED' : 'FAILED';
+  }
 }
 
 export const cosmosGasTokenNetworkAdapter = new CosmosGasTokenNetworkAdapter();
@@ -4,6 +4,7 @@ import type {
   GasTokenNetworkContext,
   GasTransferEstimate,
   GasTransferResult,
+  GasTransferStatus,
   TokenDistributionOptions
 } from './types.js';
 import { multiNetworkEthereumService } from '../MultiNetworkEthereumService.js';
@@ -111,6 +112,10 @@ export class EvmGasTokenNetworkAdapter implements GasTokenNetworkAdapter {
 
     return { transactionHash };
   }
+
+  async getTransferStatus(context: GasTokenNetworkContext, transactionHash: string): Promise<GasTransferStatus> {
+    return await multiNetworkEthereumService.getTransactionStatus(context.networkId, transactionHash as `0x${string}`);
+  }
 }
 
 export const evmGasTokenNetworkAdapter = new EvmGasTokenNetworkAdapter();
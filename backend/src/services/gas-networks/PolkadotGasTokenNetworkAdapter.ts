@@ -7,6 +7,7 @@ import type {
   GasTokenNetworkContext,
   GasTransferEstimate,
   GasTransferResult,
+  GasTransferStatus,
   TokenDistributionOptions
 } from './types.js';
 
@@ -45,6 +46,8 @@ export class PolkadotGasTokenNetworkAdapter implements GasTokenNetworkAdapter {
   readonly type = 'POLKADOT';
   private apiPromise?: Promise<ApiPromise>;
   private signer?: ReturnType<Keyring['addFromUri']>;
+  /** Block each transfer sent by this process was included in, by transaction hash */
+  private inclusionBlocks = new Map<string, string>();
 
   private ensureConfigEnabled(): PolkadotNetworkConfig {
     const config = readPolkadotConfig();
@@ -226,7 +229,10 @@ export class PolkadotGasTokenNetworkAdapter implements GasTokenNetworkAdapter {
           if (unsubscribe) {
             unsubscribe();
           }
-          resolve({ transactionHash: result.txHash.toHex() });
+          const transactionHash = result.txHash.toHex();
+          const blockHash = (result.status.isInBlock ? result.status.asInBlock : result.status.asFinalized).toHex();
+          this.inclusionBlocks.set(transactionHash, blockHash);
+          resolve({ transactionHash, metadata: { blockHash } });
         }
       })
         .then(unsub => {
@@ -235,6 +241,33 @@ export class PolkadotGasTokenNetworkAdapter implements GasTokenNetworkAdapter {
         .catch(error => reject(error));
     });
   }
+
+  async getTransferStatus(_context: GasTokenNetworkContext, transactionHash: string): Promise<GasTransferStatus> {
+    // Extrinsics can't be looked up by hash without an indexer, so only the transfers sent by this process,
+    // whose inclusion block is known, can be confirmed; the others stay PENDING for a manual check.
+    // `sendTransfer` only returns once the transfer is in a block without dispatch error.
+    const blockHash = this.inclusionBlocks.get(transactionHash);
+    if (!blockHash) {
+      return 'PENDING';
+    }
+    const config = this.ensureConfigEnabled();
+    const api = await this.getApi(config);
+
+    const blockNumber = (await api.rpc.chain.getHeader(blockHash)).number.toNumber();
+    const finalizedHead = await api.rpc.chain.getFinalizedHead();
+    const finalizedNumber = (await api.rpc.chain.getHeader(finalizedHead)).number.toNumber();
+    if (blockNumber > finalizedNumber) {
+      return 'PENDING';
+    }
+
+    const canonicalHash = (await api.rpc.chain.getBlockHash(blockNumber)).toHex();
+    if (canonicalHash !== blockHash) {
+      // The block was abandoned; the transfer may have been included in another one, so it is left for a manual check
+      return 'PENDING';
+    }
+    this.inclusionBlocks.delete(transactionHash);
+    return 'CONFIRMED';
+  }
 }
 
 export const polkadotGasTokenNetworkAdapter = new PolkadotGasTokenNetworkAdapter();
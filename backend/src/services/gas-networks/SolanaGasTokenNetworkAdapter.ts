@@ -6,6 +6,7 @@ import type {
   GasTokenNetworkContext,
   GasTransferEstimate,
   GasTransferResult,
+  GasTransferStatus,
   TokenDistributionOptions
 } from './types.js';
 
@@ -206,6 +207,19 @@ export class SolanaGasTokenNetworkAdapter implements GasTokenNetworkAdapter {
 
     return { transactionHash: signature };
   }
+
+  async getTransferStatus(_context: GasTokenNetworkContext, transactionHash: string): Promise<GasTransferStatus> {
+    const config = this.ensureEnabledConfig();
+    const connection = this.getConnection(config);
+    const { value } = await connection.getSignatureStatus(transactionHash, { searchTransactionHistory: true });
+    if (!value) {
+      return 'DROPPED';
+    }
+    if (value.err) {
+      return 'FAILED';
+    }
+    return value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized' ? 'CONFIRMED' : 'PENDING';
+  }
 }
 
 export const solanaGasTokenNetworkAdapter = new SolanaGasTokenNetworkAdapter();
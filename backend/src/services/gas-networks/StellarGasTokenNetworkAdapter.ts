@@ -4,11 +4,12 @@ import type {
   GasTokenNetworkContext,
   GasTransferEstimate,
   GasTransferResult,
+  GasTransferStatus,
   TokenDistributionOptions
 } from './types.js';
 import StellarSdk from 'stellar-sdk';
 
-const { Asset, Keypair, Networks, Operation, Server, StrKey, TransactionBuilder } = StellarSdk;
+const { Asset, Keypair, Networks, NotFoundError, Operation, Server, StrKey, TransactionBuilder } = StellarSdk;
 
 type HorizonServer = InstanceType<typeof Server>;
 type HorizonKeypair = InstanceType<typeof Keypair>;
@@ -261,6 +262,20 @@ export class StellarGasTokenNetworkAdapter implements GasTokenNetworkAdapter {
       throw new Error(`[Stellar] Transaction failed: ${message}`);
     }
   }
+
+  async getTransferStatus(_context: GasTokenNetworkContext, transactionHash: string): Promise<GasTransferStatus> {
+    const config = this.ensureEnabledConfig();
+    const server = this.getServer(config);
+    try {
+      const transaction = await server.transactions().transaction(transactionHash).call();
+      return transaction.successful ? 'CONFIRMED' : 'FAILED';
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return 'DROPPED';
+      }
+      throw error;
+    }
+  }
 }
 
 export const stellarGasTokenNetworkAdapter = new StellarGasTokenNetworkAdapter();
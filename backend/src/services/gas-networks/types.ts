@@ -28,6 +28,15 @@ export interface GasTransferResult {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * On-chain state of a broadcast transfer:
+ * - `PENDING`: known to the network but not final yet
+ * - `CONFIRMED`: included and successful
+ * - `FAILED`: included but reverted or rejected
+ * - `DROPPED`: unknown to the network, e.g. evicted from the mempool or expired
+ */
+export type GasTransferStatus = 'PENDING' | 'CONFIRMED' | 'FAILED' | 'DROPPED';
+
 export interface GasTokenNetworkAdapter {
   readonly type: GasTokenNetworkType;
   getNetworkContexts(tokenOptions: TokenDistributionOptions): Promise<GasTokenNetworkContext[]>;
@@ -44,4 +53,8 @@ export interface GasTokenNetworkAdapter {
     recipientAddress: string,
     amountToken: number
   ): Promise<GasTransferResult>;
+  getTransferStatus(
+    context: GasTokenNetworkContext,
+    transactionHash: string
+  ): Promise<GasTransferStatus>;
 }
@@ -0,0 +1,218 @@
+import { PrismaClient } from '@prisma/client';
+import { createAIBatchStore, createAIRunner } from './openai.js';
+import { TaskRunnerRegistry } from '../types/task.js';
+
+/**
+ * Coalescing of the OpenAI requests of all tasks (of all users) into shared batch stores, submitted as one
+ * OpenAI batch each, for batch prices instead of a batch per request (`OPENAI_FLEX_MODE=batch`).
+ *
+ * A shared store (`Batches` without `taskId`) is open while it accumulates requests: `reserveSharedBatchStore`
+ * reserves a place in it when a task creates its store, and `queueBatchRequest` stores the request body.
+ * The store is submitted when it is full (`OPENAI_BATCH_MAX_REQUESTS`), or when its window
+ * (`OPENAI_BATCH_WINDOW_SECONDS`) elapsed and every reserved request was queued. The outputs are then fetched
+ * per task, by custom ID, from the shared store.
+ */
+
+const prisma = new PrismaClient();
+
+// OpenAI accepts at most 50,000 requests per batch
+const MAX_BATCH_REQUESTS = 50000;
+
+// Delay after the window after which a store is submitted even if reserved requests were never queued
+// (e.g. their worker died in between), and a submission still queued is considered crashed
+const SUBMISSION_GRACE_MS = 5 * 60 * 1000;
+
+export interface OpenAIBatchQueueConfig {
+  windowMs: number;
+  maxRequests: number;
+}
+
+/**
+ * Read the coalescing configuration from the environment:
+ * - `OPENAI_BATCH_WINDOW_SECONDS` - how long a shared store accumulates requests (default: 300)
+ * - `OPENAI_BATCH_MAX_REQUESTS` - requests after which it is submitted right away (default: 1000, at most 50000)
+ */
+export function readOpenAIBatchQueueConfig(): OpenAIBatchQueueConfig {
+  const windowSeconds = parseFloat(process.env.OPENAI_BATCH_WINDOW_SECONDS ?? '');
+  const maxRequests = parseInt(process.env.OPENAI_BATCH_MAX_REQUESTS ?? '');
+  return {
+    windowMs: (Number.isFinite(windowSeconds) && windowSeconds >= 0 ? windowSeconds : 300) * 1000,
+    maxRequests: Math.min(Number.isFinite(maxRequests) && maxRequests > 0 ? maxRequests : 1000, MAX_BATCH_REQUESTS)
+  };
+}
+
+/**
+ * Reserve a place for a request in the open shared store, opening a new store if there is none
+ * @returns The ID of the store
+ */
+export async function reserveSharedBatchStore(): Promise<string> {
+  const config = readOpenAIBatchQueueConfig();
+  const storeId = await prisma.$transaction(async (tx) => {
+    const open = await tx.batches.findFirst({
+      where: {
+        taskId: null,
+        submittedAt: null,
+        requestCount: { lt: config.maxRequests },
+        createdAt: { gt: new Date(Date.now() - config.windowMs) }
+      },
+      orderBy: { id: 'asc' }
+    });
+    if (open) {
+      await tx.batches.update({
+        where: { id: open.id },
+        data: { requestCount: { increment: 1 } }
+      });
+      return open.id;
+    }
+    const created = await tx.batches.create({ data: { requestCount: 1 } });
+    console.log(`📦 Opened shared OpenAI batch store ${created.id}`);
+    return created.id;
+  });
+  return storeId.toString();
+}
+
+/**
+ * Queue a request in the shared store where it has a reserved place; submits the store once full
+ * @param storeId - The shared store returned by `reserveSharedBatchStore`
+ * @param taskId - The task of the request
+ * @param customId - The custom ID of the request, by which its output is fetched
+ * @param body - The body of the `/v1/responses` request
+ */
+export async function queueBatchRequest(storeId: string, taskId: number, customId: string, body: unknown): Promise<void> {
+  const batchId = parseInt(storeId);
+  const queued = await prisma.queuedAIRequest.create({
+    data: { batchId, taskId, customId, body: JSON.stringify(body) }
+  });
+
+  const store = await prisma.batches.findUnique({
+    where: { id: batchId },
+    select: { requestCount: true, submittedAt: true, _count: { select: { queuedRequests: true } } }
+  });
+  if (!store) {
+    throw new Error(`Shared OpenAI batch store ${storeId} not found`);
+  }
+  if (store.submittedAt) {
+    // Claimed as abandoned by `flushDueBatchStores` before this request was queued: the task is retried with a new store
+    await prisma.queuedAIRequest.deleteMany({ where: { id: queued.id } });
+    throw new Error(`Shared OpenAI batch store ${storeId} was submitted before the request was queued`);
+  }
+  const config = readOpenAIBatchQueueConfig();
+  if (store.requestCount >= config.maxRequests && store._count.queuedRequests >= store.requestCount) {
+    await submitBatchStore(batchId);
+  }
+}
+
+/**
+ * Whether the requests of a store were submitted to OpenAI, i.e. whether their outputs can be asked for
+ * @param storeId - The ID of the store
+ */
+export async function isBatchStoreSubmitted(storeId: string): Promise<boolean> {
+  const store = await prisma.batches.findUnique({
+    where: { id: parseInt(storeId) },
+    select: { submittedAt: true }
+  });
+  return !!store?.submittedAt;
+}
+
+/**
+ * Submit the shared stores that are due: full or past their window with all reserved requests queued,
+ * or abandoned by some of their requests. Fail the requests of submissions that crashed.
+ * @returns Number of submitted stores
+ */
+export async function flushDueBatchStores(): Promise<number> {
+  const config = readOpenAIBatchQueueConfig();
+  const now = Date.now();
+
+  const openStores = await prisma.batches.findMany({
+    where: { taskId: null, submittedAt: null },
+    select: { id: true, createdAt: true, requestCount: true, _count: { select: { queuedRequests: true } } },
+    orderBy: { id: 'asc' }
+  });
+  let submitted = 0;
+  for (const store of openStores) {
+    const age = now - store.createdAt.getTime();
+    const complete = store._count.queuedRequests >= store.requestCount;
+    const due = store.requestCount >= config.maxRequests || age >= config.windowMs;
+    if ((due && complete) || age >= config.windowMs + SUBMISSION_GRACE_MS) {
+      if (await submitBatchStore(store.id)) {
+        submitted++;
+      }
+    }
+  }
+
+  // Requests are dequeued once submitted: requests still queued long after the claim of their store
+  // belong to a submission whose process died
+  const crashedStores = await prisma.batches.findMany({
+    where: {
+      taskId: null,
+      submittedAt: { lt: new Date(now - SUBMISSION_GRACE_MS) },
+      queuedRequests: { some: {} }
+    },
+    select: { id: true }
+  });
+  for (const store of crashedStores) {
+    await failBatchStore(store.id, 'The submission of the OpenAI batch was interrupted');
+  }
+
+  return submitted;
+}
+
+/**
+ * Submit the queued requests of a shared store as one OpenAI batch, once
+ * @returns false if the store was already claimed by another submission
+ */
+async function submitBatchStore(batchId: number): Promise<boolean> {
+  // Claim the store, so that no other worker submits it and no request joins it
+  const { count } = await prisma.batches.updateMany({
+    where: { id: batchId, submittedAt: null },
+    data: { submittedAt: new Date() }
+  });
+  if (count === 0) {
+    return false;
+  }
+
+  const queued = await prisma.queuedAIRequest.findMany({
+    where: { batchId },
+    orderBy: { id: 'asc' }
+  });
+  if (queued.length === 0) {
+    await prisma.batches.delete({ where: { id: batchId } });
+    return false;
+  }
+
+  try {
+    const store = await createAIBatchStore(batchId.toString(), queued[0].taskId);
+    const runner = await createAIRunner(store);
+    for (const request of queued) {
+      await runner.addItem({
+        custom_id: request.customId,
+        method: "POST",
+        body: JSON.parse(request.body)
+      });
+    }
+    await runner.flush();
+    await prisma.queuedAIRequest.deleteMany({ where: { batchId } });
+    console.log(`📦 Submitted shared OpenAI batch store ${batchId} with ${queued.length} request(s)`);
+    return true;
+  } catch (error) {
+    console.error(`❌ Error submitting shared OpenAI batch store ${batchId}:`, error);
+    await failBatchStore(batchId, `Submission of the OpenAI batch failed: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+/**
+ * Record a failed attempt for the tasks of the queued requests of a store (to be retried with a new store),
+ * and delete the store
+ */
+async function failBatchStore(batchId: number, reason: string): Promise<void> {
+  const queued = await prisma.queuedAIRequest.findMany({
+    where: { batchId },
+    select: { taskId: true }
+  });
+  for (const request of queued) {
+    await TaskRunnerRegistry.markTaskAsFailed(prisma, request.taskId, reason);
+  }
+  await prisma.batches.delete({ where: { id: batchId } });
+  console.warn(`⚠️ Shared OpenAI batch store ${batchId} dropped (${queued.length} request(s)): ${reason}`);
+}
@@ -67,7 +67,7 @@ class OurBatchStore extends OurClearer implements FlexibleBatchStore {
   async init(): Promise<void> {
     if (this.storeId !== undefined) throw "cannot initialize storeId second time";
     const batches = await this.prisma.batches.create({
-      data: {taskId: this.taskId}
+      data: {taskId: this.taskId, submittedAt: new Date(), requestCount: 1}
     });
     this.storeId = batches.id.toString();
   }
@@ -139,6 +139,15 @@ export async function createAIBatchStore(storeId: string | undefined, taskId: nu
   return result;
 }
 
+/// Store for AI providers that answer synchronously, without `flexible-batches`.
+export async function createNonBatchAIStore(storeId: string | undefined, taskId: number) {
+  const result = new OurNonBatchStore(prisma, storeId, taskId);
+  if (storeId === undefined) {
+    await result.init();
+  }
+  return result;
+}
+
 export async function createAIRunner(store: FlexibleBatchStore | FlexibleNonBatchStore) {
   const result = openAIFlexMode === 'batch' ?
     new FlexibleOpenAIBatch(openai, "/v1/responses", new FlexibleBatchStoreCache(store as FlexibleBatchStore)) :
@@ -0,0 +1,106 @@
+/**
+ * Checks that a prompt rewritten by `RandomizePromptRunner` still means the same as the original:
+ * structural checks here, then (optionally) a comparison by a model.
+ */
+
+export enum PromptEquivalenceVerdict {
+  EQUIVALENT = 'EQUIVALENT', // The rewritten prompt is used
+  REPLACED_BY_ORIGINAL = 'REPLACED_BY_ORIGINAL' // Every rewrite drifted: the original prompt is used
+}
+
+export interface PromptEquivalenceConfig {
+  /** Rewrites tried before falling back to the original prompt */
+  maxAttempts: number;
+  /** Whether a model compares the rewrite with the original after the structural checks */
+  semanticCheck: boolean;
+}
+
+export interface RejectedRewrite {
+  attempt: number;
+  randomizedPrompt: string;
+  reasons: string[];
+}
+
+/**
+ * Outcome of the checks, stored in the runner data and the output of the randomization task
+ */
+export interface PromptEquivalenceResult {
+  verdict: PromptEquivalenceVerdict;
+  attempts: number;
+  rejectedRewrites: RejectedRewrite[];
+}
+
+// A rewrite much shorter or longer than the original has likely lost or added instructions
+const MIN_LENGTH_RATIO = 0.5;
+const MAX_LENGTH_RATIO = 2;
+
+/**
+ * Read the configuration from the environment:
+ * - `RANDOMIZED_PROMPT_MAX_ATTEMPTS` - rewrites tried before using the original prompt (default: 3)
+ * - `RANDOMIZED_PROMPT_SEMANTIC_CHECK` - set to `false` to skip the comparison by a model
+ */
+export function readPromptEquivalenceConfig(): PromptEquivalenceConfig {
+  const maxAttempts = parseInt(process.env.RANDOMIZED_PROMPT_MAX_ATTEMPTS ?? '');
+  return {
+    maxAttempts: Number.isFinite(maxAttempts) && maxAttempts > 0 ? maxAttempts : 3,
+    semanticCheck: process.env.RANDOMIZED_PROMPT_SEMANTIC_CHECK !== 'false'
+  };
+}
+
+/**
+ * Figures of a prompt (e.g. the world GDP), without thousands separators
+ */
+function getFigures(text: string): string[] {
+  return (text.match(/\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d{4,}(?:\.\d+)?/g) ?? []).map(figure => figure.replace(/,/g, ''));
+}
+
+/**
+ * Check that a rewrite keeps what a rewording must not change: placeholders, figures, URLs,
+ * the step-by-step instruction, and roughly the length
+ * @param original - The original prompt
+ * @param rewritten - The randomized prompt
+ * @returns The reasons to reject the rewrite (empty if it passes)
+ */
+export function checkPromptStructure(original: string, rewritten: string): string[] {
+  if (!rewritten.trim()) {
+    return ['the rewritten prompt is empty'];
+  }
+  const reasons: string[] = [];
+
+  const missingPlaceholders = [...new Set(original.match(/<[A-Z_]+>/g) ?? [])].filter(placeholder => !rewritten.includes(placeholder));
+  if (missingPlaceholders.length > 0) {
+    reasons.push(`missing placeholders: ${missingPlaceholders.join(', ')}`);
+  }
+
+  const rewrittenFigures = new Set(getFigures(rewritten));
+  const missingFigures = [...new Set(getFigures(original))].filter(figure => !rewrittenFigures.has(figure));
+  if (missingFigures.length > 0) {
+    reasons.push(`missing figures: ${missingFigures.join(', ')}`);
+  }
+
+  const missingUrls = [...new Set(original.match(/https?:\/\/[^\s)>"']+/g) ?? [])].filter(url => !rewritten.includes(url));
+  if (missingUrls.length > 0) {
+    reasons.push(`missing URLs: ${missingUrls.join(', ')}`);
+  }
+
+  const stepByStep = /step[-\s]by[-\s]step/i;
+  if (stepByStep.test(original) && !stepByStep.test(rewritten)) {
+    reasons.push('missing the step-by-step instruction');
+  }
+
+  const lengthRatio = rewritten.length / original.length;
+  if (lengthRatio < MIN_LENGTH_RATIO || lengthRatio > MAX_LENGTH_RATIO) {
+    reasons.push(`length changed by a factor of ${lengthRatio.toFixed(2)}`);
+  }
+
+  return reasons;
+}
+
+/**
+ * Build the input of the comparison by a model
+ * @param original - The original prompt
+ * @param rewritten - The randomized prompt
+ */
+export function buildPromptComparisonInput(original: string, rewritten: string): string {
+  return `Original prompt:\n${original}\n\nRewritten prompt:\n${rewritten}`;
+}
@@ -0,0 +1,57 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { FetchedPage, PageFetcher } from './types.js';
+
+interface FixtureEntry {
+  /** Path of the page body, relative to the fixtures directory */
+  file: string;
+  status?: number;
+  contentType?: string;
+}
+
+/**
+ * Serves pages from a directory instead of the Web, for tests and offline runs.
+ *
+ * The directory (`SOURCE_FIXTURES_DIR`) contains `index.json` mapping URLs to files:
+ * ```json
+ * { "https://example.org/": { "file": "example.html", "contentType": "text/html" } }
+ * ```
+ * URLs missing from the index are reported with status 404.
+ */
+export class FixturePageFetcher implements PageFetcher {
+  readonly name = 'fixture';
+  private index?: Record<string, FixtureEntry>;
+
+  constructor(private readonly directory?: string) {}
+
+  private getDirectory(): string {
+    const directory = this.directory ?? process.env.SOURCE_FIXTURES_DIR;
+    if (!directory) {
+      throw new Error('[Fixture fetcher] SOURCE_FIXTURES_DIR not configured');
+    }
+    return directory;
+  }
+
+  private async getIndex(): Promise<Record<string, FixtureEntry>> {
+    if (!this.index) {
+      this.index = JSON.parse(await readFile(path.join(this.getDirectory(), 'index.json'), 'utf8'));
+    }
+    return this.index!;
+  }
+
+  async fetch(url: string): Promise<FetchedPage> {
+    const entry = (await this.getIndex())[url];
+    if (!entry) {
+      return { url, status: 404, body: '' };
+    }
+
+    return {
+      url,
+      status: entry.status ?? 200,
+      contentType: entry.contentType ?? 'text/html',
+      body: await readFile(path.join(this.getDirectory(), entry.file), 'utf8')
+    };
+  }
+}
+
+export const fixturePageFetcher = new FixturePageFetcher();
@@ -0,0 +1,140 @@
+import fetch from 'node-fetch';
+import { lookup } from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import type { FetchedPage, PageFetcher } from './types.js';
+
+interface HttpPageFetcherConfig {
+  timeoutMs: number;
+  maxBytes: number;
+}
+
+const MAX_REDIRECTS = 5;
+
+const readHttpPageFetcherConfig = (): HttpPageFetcherConfig => ({
+  timeoutMs: parseInt(process.env.SOURCE_FETCH_TIMEOUT_MS ?? '15000'),
+  maxBytes: parseInt(process.env.SOURCE_FETCH_MAX_BYTES ?? '2000000')
+});
+
+// Addresses that aren't on the public Internet: private, loopback, link-local, shared (CGNAT), reserved, multicast,
+// and the IPv6 ranges embedding IPv4 addresses (NAT64, 6to4). IPv4-mapped IPv6 addresses are checked as IPv4.
+const internalAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  internalAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001:db8::', 32], ['2002::', 16],
+  ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8]
+] as const) {
+  internalAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address belongs to the backend itself or to a non-public network
+ */
+export function isInternalAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true; // Not an address at all: refuse rather than guess.
+  }
+  return internalAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolve the host of a URL and refuse it if any of its addresses is internal, so that the backend never reaches
+ * itself or the internal network, even through a public name pointing there.
+ * @returns The checked address the request must connect to
+ */
+async function resolveAllowedAddress(url: URL): Promise<{ address: string; family: number }> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol: ${url.protocol}`);
+  }
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) {
+    throw new Error(`Refusing to fetch internal address: ${url.hostname}`);
+  }
+  const addresses = net.isIP(host)
+    ? [{ address: host, family: net.isIP(host) }]
+    : await lookup(host, { all: true, verbatim: true });
+  if (addresses.length === 0) {
+    throw new Error(`No address found for ${url.hostname}`);
+  }
+  const internal = addresses.find(entry => isInternalAddress(entry.address));
+  if (internal) {
+    throw new Error(`Refusing to fetch internal address: ${url.hostname} (${internal.address})`);
+  }
+  return addresses[0];
+}
+
+/**
+ * An agent connecting to the checked address whatever the name resolves to by then (DNS rebinding)
+ */
+function createPinnedAgent(url: URL, pinned: { address: string; family: number }): http.Agent {
+  const pinnedLookup = ((_hostname: string, options: { all?: boolean }, callback: (...args: unknown[]) => void) => {
+    if (options?.all) {
+      callback(null, [pinned]);
+    } else {
+      callback(null, pinned.address, pinned.family);
+    }
+  }) as unknown as net.LookupFunction;
+  return url.protocol === 'https:' ? new https.Agent({ lookup: pinnedLookup }) : new http.Agent({ lookup: pinnedLookup });
+}
+
+/**
+ * Fetches pages from the Web.
+ */
+export class HttpPageFetcher implements PageFetcher {
+  readonly name = 'http';
+
+  async fetch(url: string): Promise<FetchedPage> {
+    const config = readHttpPageFetcherConfig();
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+    try {
+      // Follow redirects by hand, to check every hop.
+      let currentUrl = new URL(url);
+      for (let redirects = 0; ; ++redirects) {
+        const pinned = await resolveAllowedAddress(currentUrl);
+        const agent = createPinnedAgent(currentUrl, pinned);
+        try {
+          const response = await fetch(currentUrl.toString(), {
+            signal: controller.signal as any,
+            size: config.maxBytes,
+            redirect: 'manual',
+            agent,
+            headers: { 'user-agent': 'socialism-source-verifier/1.0' }
+          });
+
+          const location = response.headers.get('location');
+          if (response.status >= 300 && response.status < 400 && location) {
+            if (redirects >= MAX_REDIRECTS) {
+              throw new Error(`Too many redirects fetching ${url}`);
+            }
+            currentUrl = new URL(location, currentUrl);
+            continue;
+          }
+
+          return {
+            url,
+            status: response.status,
+            contentType: response.headers.get('content-type') ?? undefined,
+            body: await response.text(),
+            address: pinned.address
+          };
+        } finally {
+          agent.destroy();
+        }
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+export const httpPageFetcher = new HttpPageFetcher();
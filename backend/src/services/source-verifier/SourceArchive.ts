@@ -0,0 +1,74 @@
+import { createHash } from 'crypto';
+import { access, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/**
+ * Content-addressed store of page bodies: each body is gzipped to `<directory>/<hash[0..2]>/<hash>.gz`,
+ * where `hash` is the SHA-256 of the body, so identical pages are stored once and stored pages never change.
+ */
+export class SourceArchive {
+  constructor(readonly directory: string) {}
+
+  /**
+   * The archive in `SOURCE_ARCHIVE_DIR` (default: ./source-archive)
+   */
+  static fromEnv(): SourceArchive {
+    return new SourceArchive(process.env.SOURCE_ARCHIVE_DIR ?? './source-archive');
+  }
+
+  static hashContent(body: string): string {
+    return createHash('sha256').update(body, 'utf8').digest('hex');
+  }
+
+  private getPath(hash: string): string {
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      throw new Error(`Invalid content hash: ${hash}`);
+    }
+    return path.join(this.directory, hash.slice(0, 2), `${hash}.gz`);
+  }
+
+  /**
+   * Store a body, unless already stored
+   * @returns The content hash of the body
+   */
+  async put(body: string): Promise<string> {
+    const hash = SourceArchive.hashContent(body);
+    const filePath = this.getPath(hash);
+    if (await this.has(hash)) {
+      return hash;
+    }
+    await mkdir(path.dirname(filePath), { recursive: true });
+    // Written aside and renamed, so that readers never see a partial file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, await gzipAsync(Buffer.from(body, 'utf8')));
+    await rename(tempPath, filePath);
+    return hash;
+  }
+
+  async has(hash: string): Promise<boolean> {
+    return await access(this.getPath(hash)).then(() => true, () => false);
+  }
+
+  /**
+   * @returns The body stored under a hash, or `undefined` if there is none
+   * @throws Error if the stored body doesn't match its hash
+   */
+  async get(hash: string): Promise<string | undefined> {
+    let compressed: Buffer;
+    try {
+      compressed = await readFile(this.getPath(hash));
+    } catch {
+      return undefined;
+    }
+    const body = (await gunzipAsync(compressed)).toString('utf8');
+    if (SourceArchive.hashContent(body) !== hash) {
+      throw new Error(`Archived content ${hash} is corrupted`);
+    }
+    return body;
+  }
+}
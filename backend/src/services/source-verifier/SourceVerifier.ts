@@ -0,0 +1,128 @@
+import { extractHtmlText } from './htmlAnalysis.js';
+import { analyzePageContent } from './heuristics.js';
+import { httpPageFetcher } from './HttpPageFetcher.js';
+import { fixturePageFetcher } from './FixturePageFetcher.js';
+import type { PageFetcher, SourceReport, SourceVerificationReport } from './types.js';
+
+interface SourceVerifierConfig {
+  fetcher: PageFetcher | null;
+  maxUrls: number;
+}
+
+const PAGE_FETCHERS: Record<string, PageFetcher> = {
+  [httpPageFetcher.name]: httpPageFetcher,
+  [fixturePageFetcher.name]: fixturePageFetcher
+};
+
+/**
+ * Read the source verifier configuration from environment variables:
+ * `SOURCE_FETCHER` (`http`, `fixture` or `none`) and `SOURCE_VERIFIER_MAX_URLS`.
+ */
+export function readSourceVerifierConfig(): SourceVerifierConfig {
+  const fetcherName = (process.env.SOURCE_FETCHER ?? 'http').toLowerCase();
+  if (fetcherName !== 'none' && !PAGE_FETCHERS[fetcherName]) {
+    throw new Error(`Unknown SOURCE_FETCHER: ${fetcherName}`);
+  }
+  return {
+    fetcher: fetcherName === 'none' ? null : PAGE_FETCHERS[fetcherName],
+    maxUrls: parseInt(process.env.SOURCE_VERIFIER_MAX_URLS ?? '20')
+  };
+}
+
+/**
+ * Deterministic pre-pass of prompt injection detection: fetches the pages cited by worth assessments
+ * and looks for content aimed at AI readers, before the AI is asked to check the same pages.
+ */
+export class SourceVerifier {
+  constructor(private readonly fetcher: PageFetcher, private readonly maxUrls: number) {}
+
+  /**
+   * @returns The verifier configured by environment variables, or `null` if source verification is disabled
+   */
+  static fromEnv(): SourceVerifier | null {
+    const config = readSourceVerifierConfig();
+    return config.fetcher ? new SourceVerifier(config.fetcher, config.maxUrls) : null;
+  }
+
+  /**
+   * Fetch and check the pages (one at a time, to be gentle with the sites)
+   * @param urls - URLs of the pages, only the first `SOURCE_VERIFIER_MAX_URLS` are checked
+   */
+  async verify(urls: string[]): Promise<SourceVerificationReport> {
+    const sources: SourceReport[] = [];
+    for (const url of [...new Set(urls)].slice(0, this.maxUrls)) {
+      sources.push(await this.verifyUrl(url));
+    }
+
+    return {
+      verifiedAt: new Date().toISOString(),
+      fetcher: this.fetcher.name,
+      sources,
+      suspicious: sources.some(source => source.findings.some(finding => finding.severity !== 'info'))
+    };
+  }
+
+  private async verifyUrl(url: string): Promise<SourceReport> {
+    let page;
+    try {
+      page = await this.fetcher.fetch(url);
+    } catch (error) {
+      return {
+        url,
+        fetched: false,
+        textLength: 0,
+        findings: [{
+          type: 'FETCH_FAILED',
+          severity: 'info',
+          detail: error instanceof Error ? error.message : String(error)
+        }]
+      };
+    }
+
+    if (page.status >= 400) {
+      return {
+        url,
+        fetched: false,
+        httpStatus: page.status,
+        contentType: page.contentType,
+        textLength: 0,
+        findings: [{ type: 'FETCH_FAILED', severity: 'info', detail: `HTTP status ${page.status}` }]
+      };
+    }
+
+    const isHtml = !page.contentType || /html|xml/i.test(page.contentType);
+    const content = isHtml
+      ? extractHtmlText(page.body)
+      : { visibleText: page.body, hiddenTexts: [], comments: [] };
+
+    return {
+      url,
+      fetched: true,
+      httpStatus: page.status,
+      contentType: page.contentType,
+      textLength: content.visibleText.length,
+      findings: analyzePageContent(content, page.body)
+    };
+  }
+}
+
+/**
+ * Format the findings for the prompt injection detector
+ * @param report - The verification report
+ * @returns Text listing the findings per URL, for the user prompt
+ */
+export function formatSourceVerificationReport(report: SourceVerificationReport): string {
+  const lines: string[] = [];
+  for (const source of report.sources) {
+    if (source.findings.length === 0) {
+      lines.push(`- ${source.url}: no findings`);
+      continue;
+    }
+    lines.push(`- ${source.url}:`);
+    for (const finding of source.findings) {
+      const quoted = finding.excerpt ? ` (${JSON.stringify(finding.excerpt)})` : '';
+      lines.push(`  - [${finding.severity}] ${finding.type}: ${finding.detail}${quoted}`);
+    }
+  }
+  return lines.length > 0 ? lines.join('\n') : 'No sources were checked.';
+}
@@ -0,0 +1,98 @@
+import type { SourceFinding } from './types.js';
+import type { HtmlTextContent } from './htmlAnalysis.js';
+
+const MAX_EXCERPT_LENGTH = 200;
+
+/** Zero-width and bidirectional control characters, invisible in a rendered page */
+const INVISIBLE_CHARACTERS = /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/g;
+
+/** A few of them occur in legitimate texts (e.g. joiners in some scripts) */
+const INVISIBLE_CHARACTERS_THRESHOLD = 10;
+
+/**
+ * Phrases addressing an AI reading the page rather than a human
+ */
+const INJECTION_PHRASES: RegExp[] = [
+  /\b(?:ignore|disregard|forget|override)\s+(?:all\s+|any\s+)?(?:the\s+)?(?:previous|prior|above|earlier|preceding|other)\s+(?:instructions|prompts?|rules|directions)/i,
+  /\b(?:ignore|disregard)\s+(?:all\s+|any\s+)?(?:your\s+)?instructions/i,
+  /\bsystem\s+prompt\b/i,
+  /\bnew\s+instructions\s*:/i,
+  /\byou\s+are\s+now\s+(?:a|an|in)\b/i,
+  /\b(?:as\s+an?\s+)?(?:AI|LLM|language\s+model|assistant)\s*,?\s+(?:you\s+)?(?:must|should|are\s+instructed\s+to)\b/i,
+  /\b(?:assign|allocate|give|rate|grant)\b[^.]{0,60}\b(?:percent|%|fraction|share)\s+of\s+(?:the\s+)?(?:world\s+)?GDP\b/i,
+  /\bdo\s+not\s+(?:report|flag|mention)\b[^.]{0,40}\b(?:injection|plagiarism)\b/i
+];
+
+function excerpt(text: string, index = 0): string {
+  const start = Math.max(0, index - MAX_EXCERPT_LENGTH / 4);
+  const result = text.slice(start, start + MAX_EXCERPT_LENGTH);
+  return (start > 0 ? '…' : '') + result + (start + MAX_EXCERPT_LENGTH < text.length ? '…' : '');
+}
+
+function findInjectionPhrases(text: string, location: string, severity: SourceFinding['severity']): SourceFinding[] {
+  const findings: SourceFinding[] = [];
+  for (const phrase of INJECTION_PHRASES) {
+    const match = phrase.exec(text);
+    if (match) {
+      findings.push({
+        type: 'INJECTION_PHRASE',
+        severity,
+        detail: `Instruction-like phrase "${match[0]}" in ${location}`,
+        excerpt: excerpt(text, match.index)
+      });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Run the local heuristics over the text of a page
+ * @param content - Text extracted from the page
+ * @param rawBody - Page as fetched, for characters lost in the extraction
+ */
+export function analyzePageContent(content: HtmlTextContent, rawBody: string): SourceFinding[] {
+  const findings: SourceFinding[] = [];
+
+  const invisibleCount = rawBody.match(INVISIBLE_CHARACTERS)?.length ?? 0;
+  if (invisibleCount >= INVISIBLE_CHARACTERS_THRESHOLD) {
+    findings.push({
+      type: 'ZERO_WIDTH_CHARACTERS',
+      severity: 'warning',
+      detail: `${invisibleCount} zero-width or bidirectional control characters`
+    });
+  }
+
+  // The heuristics below look for phrases, so strip the characters that could split them.
+  const clean = (text: string) => text.replace(INVISIBLE_CHARACTERS, '');
+
+  findings.push(...findInjectionPhrases(clean(content.visibleText), 'visible text', 'warning'));
+
+  for (const hiddenText of content.hiddenTexts) {
+    const phrases = findInjectionPhrases(clean(hiddenText), 'hidden text', 'critical');
+    findings.push(...phrases);
+    if (phrases.length === 0) {
+      // Hidden text is common (menus, screen reader labels), so alone it's only informative.
+      findings.push({
+        type: 'HIDDEN_TEXT',
+        severity: 'info',
+        detail: 'Text hidden by HTML attributes or CSS',
+        excerpt: excerpt(hiddenText)
+      });
+    }
+  }
+
+  for (const comment of content.comments) {
+    const phrases = findInjectionPhrases(clean(comment), 'HTML comment', 'critical');
+    findings.push(...phrases);
+    if (phrases.length === 0 && comment.length >= 200) {
+      findings.push({
+        type: 'HTML_COMMENT_TEXT',
+        severity: 'info',
+        detail: 'Long HTML comment',
+        excerpt: excerpt(comment)
+      });
+    }
+  }
+
+  return findings;
+}
@@ -0,0 +1,175 @@
+/**
+ * Minimal HTML processing for source verification: no rendering, just enough structure
+ * to tell visible text from text a reader of the page wouldn't see.
+ */
+
+export interface HtmlTextContent {
+  /** Text a reader sees */
+  visibleText: string;
+  /** Text of elements hidden by attributes or CSS, one entry per outermost hidden element */
+  hiddenTexts: string[];
+  /** Text of HTML comments */
+  comments: string[];
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+/** Elements whose content is never displayed as text */
+const NON_TEXT_ELEMENTS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'head']);
+
+const HIDING_STYLE = /display\s*:\s*none|visibility\s*:\s*hidden|font-size\s*:\s*0(?![.\d]*[1-9])|opacity\s*:\s*0(?![.\d]*[1-9])|(?:left|top|text-indent)\s*:\s*-\d{3,}px|clip\s*:\s*rect\(\s*0/i;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' '
+};
+
+/**
+ * Decode the common character references
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1));
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Class names that `<style>` blocks hide, e.g. `.sr-only { position: absolute; left: -10000px }`
+ */
+function collectHidingClasses(html: string): Set<string> {
+  const classes = new Set<string>();
+  for (const [, css] of html.matchAll(/<style[^>]*>([\s\S]*?)<\/style>/gi)) {
+    for (const [, selectors, body] of css.matchAll(/([^{}]+)\{([^}]*)\}/g)) {
+      if (!HIDING_STYLE.test(body)) {
+        continue;
+      }
+      for (const [, className] of selectors.matchAll(/\.([\w-]+)/g)) {
+        classes.add(className);
+      }
+    }
+  }
+  return classes;
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name}\\s*(?:=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+)))?`, 'i'));
+  if (!match) {
+    return undefined;
+  }
+  return match[1] ?? match[2] ?? match[3] ?? '';
+}
+
+function isHidingElement(tag: string, attributes: string, hidingClasses: Set<string>): boolean {
+  if (getAttribute(attributes, 'hidden') !== undefined || getAttribute(attributes, 'aria-hidden') === 'true') {
+    return true;
+  }
+  const style = getAttribute(attributes, 'style');
+  if (style && HIDING_STYLE.test(style)) {
+    return true;
+  }
+  const classNames = (getAttribute(attributes, 'class') ?? '').split(/\s+/);
+  return classNames.some(className => hidingClasses.has(className));
+}
+
+interface OpenElement {
+  tag: string;
+  hiding: boolean;
+  nonText: boolean;
+}
+
+/**
+ * Split an HTML document into visible text, hidden text and comments
+ */
+export function extractHtmlText(html: string): HtmlTextContent {
+  const hidingClasses = collectHidingClasses(html);
+  const visible: string[] = [];
+  const hiddenTexts: string[] = [];
+  const comments: string[] = [];
+  const stack: OpenElement[] = [];
+  let currentHidden: string[] | undefined; // Text of the outermost hidden element being read
+
+  const addText = (rawText: string) => {
+    if (stack.some(element => element.nonText)) {
+      return;
+    }
+    const text = decodeHtmlEntities(rawText);
+    if (currentHidden) {
+      currentHidden.push(text);
+    } else {
+      visible.push(text);
+    }
+  };
+
+  const tokenPattern = /<!--([\s\S]*?)-->|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+  let position = 0;
+  for (const match of html.matchAll(tokenPattern)) {
+    addText(html.slice(position, match.index));
+    position = match.index! + match[0].length;
+
+    const [, comment, closing, rawTag, attributes] = match;
+    if (comment !== undefined) {
+      const text = normalizeWhitespace(comment);
+      if (text) {
+        comments.push(text);
+      }
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      const index = stack.map(element => element.tag).lastIndexOf(tag);
+      if (index === -1) {
+        continue; // Stray closing tag
+      }
+      const closed = stack.splice(index);
+      if (currentHidden && closed.some(element => element.hiding) && !stack.some(element => element.hiding)) {
+        const text = normalizeWhitespace(currentHidden.join(' '));
+        if (text) {
+          hiddenTexts.push(text);
+        }
+        currentHidden = undefined;
+      }
+      continue;
+    }
+
+    if (VOID_ELEMENTS.has(tag) || attributes.trim().endsWith('/')) {
+      if (tag === 'br') {
+        addText('\n');
+      }
+      continue;
+    }
+
+    const hiding = isHidingElement(tag, attributes, hidingClasses);
+    if (hiding && !currentHidden) {
+      currentHidden = [];
+    }
+    stack.push({ tag, hiding, nonText: NON_TEXT_ELEMENTS.has(tag) });
+    if (tag === 'p' || tag === 'div' || tag === 'li' || /^h[1-6]$/.test(tag)) {
+      addText('\n');
+    }
+  }
+  addText(html.slice(position));
+
+  // An unclosed hidden element hides everything after it.
+  if (currentHidden) {
+    const text = normalizeWhitespace(currentHidden.join(' '));
+    if (text) {
+      hiddenTexts.push(text);
+    }
+  }
+
+  return {
+    visibleText: normalizeWhitespace(visible.join(' ')),
+    hiddenTexts,
+    comments
+  };
+}
@@ -0,0 +1,7 @@
+export * from './types.js';
+export * from './HttpPageFetcher.js';
+export * from './FixturePageFetcher.js';
+export * from './htmlAnalysis.js';
+export * from './heuristics.js';
+export * from './SourceVerifier.js';
+export * from './SourceArchive.js';
\ No newline at end of file
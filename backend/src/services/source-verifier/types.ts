@@ -0,0 +1,54 @@
+export interface FetchedPage {
+  url: string;
+  /** HTTP status (fixture fetchers report 404 for unknown URLs) */
+  status: number;
+  contentType?: string;
+  body: string;
+  /** IP address the page was fetched from, for fetchers that connect to the network */
+  address?: string;
+}
+
+/**
+ * Fetches the pages cited by worth assessments
+ */
+export interface PageFetcher {
+  /** Name used in configuration and recorded in reports. */
+  readonly name: string;
+  /** @throws Error if the page can't be fetched at all (network error, forbidden URL, ...) */
+  fetch(url: string): Promise<FetchedPage>;
+}
+
+export type SourceFindingType =
+  | 'FETCH_FAILED'
+  | 'HIDDEN_TEXT'
+  | 'HTML_COMMENT_TEXT'
+  | 'ZERO_WIDTH_CHARACTERS'
+  | 'INJECTION_PHRASE';
+
+export type SourceFindingSeverity = 'info' | 'warning' | 'critical';
+
+export interface SourceFinding {
+  type: SourceFindingType;
+  severity: SourceFindingSeverity;
+  detail: string;
+  /** Offending text, shortened */
+  excerpt?: string;
+}
+
+export interface SourceReport {
+  url: string;
+  fetched: boolean;
+  httpStatus?: number;
+  contentType?: string;
+  /** Length of the visible text */
+  textLength: number;
+  findings: SourceFinding[];
+}
+
+export interface SourceVerificationReport {
+  verifiedAt: string;
+  fetcher: string;
+  sources: SourceReport[];
+  /** Whether any finding is at least a warning */
+  suspicious: boolean;
+}
@@ -0,0 +1,290 @@
+import { PrismaClient } from '@prisma/client';
+import { extractHtmlText, isInternalAddress, readSourceVerifierConfig, SourceArchive } from './source-verifier/index.js';
+import type { PageFetcher } from './source-verifier/index.js';
+
+/**
+ * Snapshots of the pages cited by worth assessments, taken when the assessment completes, so that appeals and audits
+ * can see the pages as the model saw them even after they changed or vanished. Bodies are kept in the
+ * content-addressed `SourceArchive`, the `SourceSnapshot` rows link them to the `Source` rows of the assessments.
+ */
+
+// Unchanged segments shown around changes in diffs
+const DIFF_CONTEXT = 2;
+// Largest product of the segment counts of two texts that are diffed; larger ones are only reported as changed
+const MAX_DIFF_CELLS = 4_000_000;
+
+export interface SourceSnapshotConfig {
+  /** `null` if snapshots are disabled (`SOURCE_FETCHER=none` or `SOURCE_SNAPSHOT_MAX_URLS=0`) */
+  fetcher: PageFetcher | null;
+  maxUrls: number;
+}
+
+/**
+ * Read the snapshot configuration from the environment: the page fetcher of the source verifier (`SOURCE_FETCHER`,
+ * `fixture` for offline runs) and `SOURCE_SNAPSHOT_MAX_URLS` (default: 50), the most pages snapshotted per assessment
+ */
+export function readSourceSnapshotConfig(): SourceSnapshotConfig {
+  const maxUrls = parseInt(process.env.SOURCE_SNAPSHOT_MAX_URLS ?? '50');
+  return { fetcher: maxUrls > 0 ? readSourceVerifierConfig().fetcher : null, maxUrls };
+}
+
+/**
+ * Snapshot the sources of an assessment that have no snapshot yet, cited pages first (one page at a time,
+ * to be gentle with the sites). Pages that can't be fetched get a snapshot without content, recording why.
+ * @param prisma - Prisma client
+ * @param taskId - WorthAssessmentRunner task
+ * @param archive - Archive of the page bodies
+ * @returns Number of pages archived and of pages that couldn't be fetched
+ */
+export async function snapshotTaskSources(
+  prisma: PrismaClient,
+  taskId: number,
+  archive: SourceArchive = SourceArchive.fromEnv()
+): Promise<{ archived: number; failed: number }> {
+  const { fetcher, maxUrls } = readSourceSnapshotConfig();
+  if (!fetcher) {
+    return { archived: 0, failed: 0 };
+  }
+
+  const sources = await prisma.source.findMany({ where: { taskId, snapshot: null }, orderBy: { id: 'asc' } });
+  const ordered = [...sources.filter(source => source.origin === 'citation'), ...sources.filter(source => source.origin !== 'citation')];
+  let archived = 0;
+  let failed = 0;
+  for (const source of ordered.slice(0, maxUrls)) {
+    try {
+      const page = await fetcher.fetch(source.url);
+      // Snapshot bodies are shown to users: never keep a response from the internal network, whatever the fetcher.
+      const internal = page.address !== undefined && isInternalAddress(page.address);
+      const contentHash = page.status < 400 && !internal ? await archive.put(page.body) : null;
+      await prisma.sourceSnapshot.create({
+        data: {
+          sourceId: source.id,
+          contentHash,
+          contentType: page.contentType ?? null,
+          httpStatus: page.status,
+          fetcher: fetcher.name,
+          error: contentHash ? null : internal ? `Refused internal address ${page.address}` : `HTTP status ${page.status}`
+        }
+      });
+      contentHash ? ++archived : ++failed;
+    } catch (error) {
+      await prisma.sourceSnapshot.create({
+        data: {
+          sourceId: source.id,
+          fetcher: fetcher.name,
+          error: error instanceof Error ? error.message : String(error)
+        }
+      });
+      ++failed;
+    }
+  }
+  return { archived, failed };
+}
+
+export interface SourceSnapshotContent {
+  sourceId: number;
+  url: string;
+  /** WorthAssessmentRunner task that cited the page */
+  taskId: number;
+  userId: number | null;
+  contentHash: string | null;
+  contentType: string | null;
+  httpStatus: number | null;
+  fetcher: string;
+  error: string | null;
+  capturedAt: Date;
+  /** Archived body, `null` if the page couldn't be fetched or the archive lost it */
+  body: string | null;
+}
+
+/**
+ * Get the snapshot of a source with its archived body
+ * @returns The snapshot, or `undefined` if the source has none
+ */
+export async function getSourceSnapshot(
+  prisma: PrismaClient,
+  sourceId: number,
+  archive: SourceArchive = SourceArchive.fromEnv()
+): Promise<SourceSnapshotContent | undefined> {
+  const source = await prisma.source.findUnique({ where: { id: sourceId }, include: { snapshot: true } });
+  if (!source?.snapshot) {
+    return undefined;
+  }
+  const { snapshot } = source;
+  return {
+    sourceId: source.id,
+    url: source.url,
+    taskId: source.taskId,
+    userId: source.userId,
+    contentHash: snapshot.contentHash,
+    contentType: snapshot.contentType,
+    httpStatus: snapshot.httpStatus,
+    fetcher: snapshot.fetcher,
+    error: snapshot.error,
+    capturedAt: snapshot.capturedAt,
+    body: snapshot.contentHash ? await archive.get(snapshot.contentHash) ?? null : null
+  };
+}
+
+/**
+ * Visible text of an archived body, one sentence (HTML) or line (other content types) per segment
+ */
+export function getSnapshotSegments(body: string, contentType: string | null): string[] {
+  const isHtml = !contentType || /html|xml/i.test(contentType);
+  const segments = isHtml
+    ? extractHtmlText(body).visibleText.split(/(?<=[.!?])\s+/)
+    : body.split(/\r?\n/);
+  return segments.map(segment => segment.trim()).filter(segment => segment.length > 0);
+}
+
+/**
+ * Diff two texts given as segments (longest common subsequence), as lines prefixed by `- ` (removed), `+ ` (added)
+ * or `  ` (unchanged), with the unchanged segments far from any change elided
+ * @returns The diff, or `undefined` if the texts are too long to diff
+ */
+export function diffSegments(before: string[], after: string[]): string | undefined {
+  const n = before.length;
+  const m = after.length;
+  if (n * m > MAX_DIFF_CELLS) {
+    return undefined;
+  }
+
+  // lcs[i][j]: length of the longest common subsequence of before[i..] and after[j..]
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; --i) {
+    for (let j = m - 1; j >= 0; --j) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: { prefix: '- ' | '+ ' | '  '; text: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[i] === after[j]) {
+      lines.push({ prefix: '  ', text: before[i++] });
+      ++j;
+    } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ prefix: '- ', text: before[i++] });
+    } else {
+      lines.push({ prefix: '+ ', text: after[j++] });
+    }
+  }
+
+  const changed = lines.map(line => line.prefix !== '  ');
+  const output: string[] = [];
+  let elided = false;
+  lines.forEach((line, index) => {
+    const nearChange = changed
+      .slice(Math.max(0, index - DIFF_CONTEXT), index + DIFF_CONTEXT + 1)
+      .some(isChanged => isChanged);
+    if (nearChange) {
+      output.push(line.prefix + line.text);
+      elided = false;
+    } else if (!elided) {
+      output.push('…');
+      elided = true;
+    }
+  });
+  return output.join('\n');
+}
+
+export type SourceDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged' | 'unavailable';
+
+export interface SourceDiffEntry {
+  url: string;
+  /** `added`/`removed`: cited in one flow only; `unavailable`: no archived content in one of the flows */
+  status: SourceDiffStatus;
+  fromSourceId: number | null;
+  toSourceId: number | null;
+  fromHash: string | null;
+  toHash: string | null;
+  /** Text diff of `changed` pages, omitted for pages too long to diff */
+  diff?: string;
+}
+
+/**
+ * Per URL, the source of a flow whose snapshot has content, captured last (or any source of the URL if none has)
+ */
+async function getFlowSnapshots(prisma: PrismaClient, flowId: number) {
+  const sources = await prisma.source.findMany({
+    where: { task: { flowId, runnerClassName: 'WorthAssessmentRunner' } },
+    include: { snapshot: true },
+    orderBy: { id: 'asc' }
+  });
+  const byUrl = new Map<string, typeof sources[number]>();
+  for (const source of sources) {
+    const existing = byUrl.get(source.url);
+    if (!existing || (!existing.snapshot?.contentHash && source.snapshot?.contentHash) ||
+      (source.snapshot?.contentHash && existing.snapshot!.capturedAt <= source.snapshot.capturedAt)) {
+      byUrl.set(source.url, source);
+    }
+  }
+  return byUrl;
+}
+
+/**
+ * Compare the pages cited in two evaluation flows (cycles) of a user: which pages were added or dropped,
+ * and how the archived content of the pages cited in both changed
+ * @param prisma - Prisma client
+ * @param fromFlowId - The earlier flow
+ * @param toFlowId - The later flow
+ * @param archive - Archive of the page bodies
+ */
+export async function diffFlowSources(
+  prisma: PrismaClient,
+  fromFlowId: number,
+  toFlowId: number,
+  archive: SourceArchive = SourceArchive.fromEnv()
+): Promise<SourceDiffEntry[]> {
+  const fromSources = await getFlowSnapshots(prisma, fromFlowId);
+  const toSources = await getFlowSnapshots(prisma, toFlowId);
+
+  const entries: SourceDiffEntry[] = [];
+  for (const url of new Set([...fromSources.keys(), ...toSources.keys()])) {
+    const from = fromSources.get(url);
+    const to = toSources.get(url);
+    const fromHash = from?.snapshot?.contentHash ?? null;
+    const toHash = to?.snapshot?.contentHash ?? null;
+    const entry: SourceDiffEntry = {
+      url,
+      status: !from ? 'added' : !to ? 'removed' : !fromHash || !toHash ? 'unavailable' : fromHash === toHash ? 'unchanged' : 'changed',
+      fromSourceId: from?.id ?? null,
+      toSourceId: to?.id ?? null,
+      fromHash,
+      toHash
+    };
+    if (entry.status === 'changed') {
+      const fromBody = await archive.get(fromHash!);
+      const toBody = await archive.get(toHash!);
+      if (fromBody === undefined || toBody === undefined) {
+        entry.status = 'unavailable';
+      } else {
+        entry.diff = diffSegments(
+          getSnapshotSegments(fromBody, from!.snapshot!.contentType),
+          getSnapshotSegments(toBody, to!.snapshot!.contentType)
+        );
+      }
+    }
+    entries.push(entry);
+  }
+
+  const order: SourceDiffStatus[] = ['changed', 'added', 'removed', 'unavailable', 'unchanged'];
+  return entries.sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status));
+}
+
+/**
+ * @returns The flow of the same user started last before a flow, or `undefined` if it is the first one
+ */
+export async function findPreviousFlowId(prisma: PrismaClient, flowId: number): Promise<number | undefined> {
+  const flow = await prisma.evaluationFlow.findUnique({ where: { id: flowId } });
+  if (!flow) {
+    return undefined;
+  }
+  const previous = await prisma.evaluationFlow.findFirst({
+    where: { userId: flow.userId, startedAt: { lt: flow.startedAt } },
+    orderBy: { startedAt: 'desc' },
+    select: { id: true }
+  });
+  return previous?.id;
+}
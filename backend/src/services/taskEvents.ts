@@ -0,0 +1,26 @@
+import { EventEmitter } from 'events';
+
+/**
+ * In-process notifications of changes of the task queue (tasks enqueued, finished or released for retry),
+ * so that the task worker of this process reacts without waiting for its next poll.
+ * Workers in other processes notice the changes at their next poll.
+ */
+
+const taskQueueEvents = new EventEmitter();
+
+/**
+ * Notify the listeners in this process that tasks may have become runnable
+ */
+export function notifyTaskQueueChanged(): void {
+  taskQueueEvents.emit('changed');
+}
+
+/**
+ * Listen to the changes of the task queue in this process
+ * @param listener - Called on each change
+ * @returns A function removing the listener
+ */
+export function onTaskQueueChanged(listener: () => void): () => void {
+  taskQueueEvents.on('changed', listener);
+  return () => taskQueueEvents.off('changed', listener);
+}
@@ -0,0 +1,165 @@
+import { PrismaClient } from '@prisma/client';
+import { hostname } from 'os';
+import { TaskRunnerRegistry, TaskStatus } from '../types/task.js';
+
+/**
+ * Time-bounded leases of the tasks being processed, so that several workers can share the task queue.
+ * The lease of a task is `Task.leaseOwner` (the worker) and `Task.lockTime` (its expiry), renewed by heartbeats.
+ */
+
+export interface TaskLeaseOptions {
+  /** Identifier of the worker holding the leases */
+  owner: string;
+  leaseMs: number;
+  heartbeatMs: number;
+}
+
+function readPositiveNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] ?? '');
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Identifier of this process as a lease owner: `<hostname>:<pid>`
+ */
+export function getDefaultLeaseOwner(): string {
+  return `${hostname()}:${process.pid}`;
+}
+
+/**
+ * Read the lease options from the environment:
+ * - `TASK_LEASE_SECONDS` - duration of a lease not renewed by a heartbeat (default: 120)
+ * - `TASK_HEARTBEAT_SECONDS` - interval of the heartbeats renewing the leases (default: 30)
+ * @param owner - The lease owner, defaults to this process
+ */
+export function readTaskLeaseOptions(owner: string = getDefaultLeaseOwner()): TaskLeaseOptions {
+  const leaseMs = readPositiveNumber('TASK_LEASE_SECONDS', 120) * 1000;
+  const heartbeatMs = Math.min(readPositiveNumber('TASK_HEARTBEAT_SECONDS', 30) * 1000, leaseMs / 2);
+  return { owner, leaseMs, heartbeatMs };
+}
+
+/**
+ * Acquire the lease of a task if it is free or expired
+ * @param prisma - Prisma client instance
+ * @param taskId - The ID of the task to lease
+ * @param options - The lease options of the worker
+ * @returns true if the lease was acquired, false if another worker holds it
+ */
+export async function acquireTaskLease(prisma: PrismaClient, taskId: number, options: TaskLeaseOptions): Promise<boolean> {
+  const now = new Date();
+  const { count } = await prisma.task.updateMany({
+    where: {
+      id: taskId,
+      OR: [
+        { lockTime: null },
+        { lockTime: { lt: now } }
+      ]
+    },
+    data: {
+      leaseOwner: options.owner,
+      lockTime: new Date(now.getTime() + options.leaseMs)
+    }
+  });
+  return count > 0;
+}
+
+/**
+ * Extend the lease of a task held by the worker
+ * @param prisma - Prisma client instance
+ * @param taskId - The ID of the leased task
+ * @param options - The lease options of the worker
+ * @returns false if the worker lost the lease (e.g. reaped after missed heartbeats)
+ */
+export async function renewTaskLease(prisma: PrismaClient, taskId: number, options: TaskLeaseOptions): Promise<boolean> {
+  const { count } = await prisma.task.updateMany({
+    where: { id: taskId, leaseOwner: options.owner },
+    data: { lockTime: new Date(Date.now() + options.leaseMs) }
+  });
+  return count > 0;
+}
+
+/**
+ * Release the lease of a task held by the worker
+ * @param prisma - Prisma client instance
+ * @param taskId - The ID of the leased task
+ * @param options - The lease options of the worker
+ */
+export async function releaseTaskLease(prisma: PrismaClient, taskId: number, options: TaskLeaseOptions): Promise<void> {
+  await prisma.task.updateMany({
+    where: { id: taskId, leaseOwner: options.owner },
+    data: { leaseOwner: null, lockTime: null }
+  });
+}
+
+/**
+ * Run a function while holding the lease of a task, renewed by heartbeats until it returns
+ * @param prisma - Prisma client instance
+ * @param taskId - The ID of the task to lease
+ * @param options - The lease options of the worker
+ * @param fn - The processing of the task
+ * @returns The result of `fn`, or undefined if another worker holds the lease
+ */
+export async function withTaskLease<T>(
+  prisma: PrismaClient,
+  taskId: number,
+  options: TaskLeaseOptions,
+  fn: () => Promise<T>
+): Promise<{ result: T } | undefined> {
+  if (!await acquireTaskLease(prisma, taskId, options)) {
+    return undefined;
+  }
+
+  const heartbeat = setInterval(async () => {
+    try {
+      if (!await renewTaskLease(prisma, taskId, options)) {
+        console.warn(`⚠️ Worker ${options.owner} lost the lease of task ${taskId}`);
+      }
+    } catch (error) {
+      console.error(`❌ Error renewing the lease of task ${taskId}:`, error);
+    }
+  }, options.heartbeatMs);
+
+  try {
+    return { result: await fn() };
+  } finally {
+    clearInterval(heartbeat);
+    try {
+      await releaseTaskLease(prisma, taskId, options);
+    } catch (error) {
+      console.error(`❌ Error releasing the lease of task ${taskId}:`, error);
+    }
+  }
+}
+
+/**
+ * Return the tasks whose lease expired (their worker died or hung) to the queue:
+ * an INITIATED task counts as a failed attempt and is retried according to its retry policy,
+ * other tasks just lose the lease.
+ * @param prisma - Prisma client instance
+ * @returns Number of reaped tasks
+ */
+export async function reapExpiredTaskLeases(prisma: PrismaClient): Promise<number> {
+  const now = new Date();
+  const expiredTasks = await prisma.task.findMany({
+    where: { lockTime: { lt: now } },
+    select: { id: true, status: true, leaseOwner: true }
+  });
+
+  let reaped = 0;
+  for (const task of expiredTasks) {
+    // Conditional on the lease still being expired, in case its owner renewed it meanwhile
+    const { count } = await prisma.task.updateMany({
+      where: { id: task.id, leaseOwner: task.leaseOwner, lockTime: { lt: now } },
+      data: { leaseOwner: null, lockTime: null }
+    });
+    if (count === 0) {
+      continue;
+    }
+    reaped++;
+    console.warn(`🪦 Lease of task ${task.id} held by ${task.leaseOwner ?? 'unknown worker'} expired (status: ${task.status})`);
+    if (task.status === TaskStatus.INITIATED) {
+      await TaskRunnerRegistry.markTaskAsFailed(prisma, task.id, `Lease of worker ${task.leaseOwner ?? 'unknown'} expired while the task was running`);
+    }
+  }
+  return reaped;
+}
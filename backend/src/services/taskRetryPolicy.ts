@@ -0,0 +1,67 @@
+/**
+ * Retry policies of failed tasks (crashes, timeouts, AI provider errors), per runner class
+ */
+
+export interface TaskRetryPolicy {
+  /** Attempts including the first one; 1 disables retries */
+  maxAttempts: number;
+  /** Delay before the first retry, doubled for each further retry */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_TASK_RETRY_POLICY: TaskRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 60 * 60 * 1000
+};
+
+function readNonNegativeNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] ?? '');
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Read the retry policy of a runner class from the environment:
+ * - `TASK_RETRY_MAX_ATTEMPTS` - attempts including the first one (default: 3)
+ * - `TASK_RETRY_BASE_DELAY_SECONDS` - delay before the first retry (default: 60)
+ * - `TASK_RETRY_MAX_DELAY_SECONDS` - upper bound of the delay (default: 3600)
+ * - `TASK_RETRY_POLICIES` - per runner class overrides, comma-separated `RunnerClass=maxAttempts[@baseDelaySeconds]`
+ * @param runnerClassName - The runner class of the failed task
+ */
+export function readTaskRetryPolicy(runnerClassName: string): TaskRetryPolicy {
+  const policy: TaskRetryPolicy = {
+    maxAttempts: Math.max(1, Math.floor(readNonNegativeNumber('TASK_RETRY_MAX_ATTEMPTS', DEFAULT_TASK_RETRY_POLICY.maxAttempts))),
+    baseDelayMs: readNonNegativeNumber('TASK_RETRY_BASE_DELAY_SECONDS', DEFAULT_TASK_RETRY_POLICY.baseDelayMs / 1000) * 1000,
+    maxDelayMs: readNonNegativeNumber('TASK_RETRY_MAX_DELAY_SECONDS', DEFAULT_TASK_RETRY_POLICY.maxDelayMs / 1000) * 1000
+  };
+
+  for (const entry of (process.env.TASK_RETRY_POLICIES ?? '').split(',')) {
+    const [name, spec] = entry.split('=').map(part => part.trim());
+    if (name !== runnerClassName || !spec) {
+      continue;
+    }
+    const [attemptsPart, delayPart] = spec.split('@');
+    const maxAttempts = parseInt(attemptsPart);
+    const baseDelaySeconds = delayPart !== undefined ? parseFloat(delayPart) : undefined;
+    if (isNaN(maxAttempts) || maxAttempts < 1 || (baseDelaySeconds !== undefined && !(baseDelaySeconds >= 0))) {
+      console.warn(`⚠️ Invalid TASK_RETRY_POLICIES entry '${entry}', using the default policy`);
+      continue;
+    }
+    policy.maxAttempts = maxAttempts;
+    if (baseDelaySeconds !== undefined) {
+      policy.baseDelayMs = baseDelaySeconds * 1000;
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Exponential backoff: `baseDelayMs * 2^(attempt - 1)`, capped at `maxDelayMs`
+ * @param policy - The retry policy of the task
+ * @param attempt - Number of the failed attempt, from 1
+ */
+export function getTaskRetryDelayMs(policy: TaskRetryPolicy, attempt: number): number {
+  return Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+}
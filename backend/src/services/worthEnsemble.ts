@@ -0,0 +1,418 @@
+/**
+ * Ensemble of worth assessments and aggregation of their results into `User.shareInGDP`
+ */
+
+import { getAIProvider, parseProviderSpec } from './ai-providers/index.js';
+
+export type WorthAggregationStrategy = 'median' | 'trimmed-mean' | 'mad' | 'geometric-mean';
+
+const AGGREGATION_STRATEGIES: WorthAggregationStrategy[] = ['median', 'trimmed-mean', 'mad', 'geometric-mean'];
+
+/**
+ * Parts of a worth assessment (`components` of `worthAssessmentSchema`): the worth as a scientist and as a FOSS dev,
+ * which sum up to the worth before any division for GEO-optimized data, and the parts of the sum owed to the work
+ * found through each connected account
+ */
+export const WORTH_COMPONENTS = ['scientist', 'foss', 'orcid', 'github', 'gitlab', 'bitbucket'] as const;
+
+export type WorthComponentName = typeof WORTH_COMPONENTS[number];
+
+export interface WorthComponent {
+  worthAsFractionOfGDP: number;
+  why: string;
+}
+
+export type WorthComponents = Record<WorthComponentName, WorthComponent>;
+
+/**
+ * Median of a component over the samples of an evaluation, with the rationale of the sample closest to it
+ */
+export interface WorthComponentMedian {
+  worthAsFractionOfGDP: number;
+  why: string;
+  /** Number of samples giving the component */
+  samples: number;
+}
+
+/**
+ * One worth assessment of the ensemble.
+ * Fields left undefined fall back to the provider configuration of `WorthAssessmentRunner`.
+ */
+export interface WorthEnsembleMember {
+  /** `provider` or `provider:model`, as in `AI_PROVIDER` */
+  aiProviderSpec?: string;
+  temperature?: number;
+}
+
+export interface WorthEnsembleConfig {
+  members: WorthEnsembleMember[];
+  aggregation: WorthAggregationStrategy;
+  /** Fraction of samples removed from each end by `trimmed-mean` */
+  trimFraction: number;
+  /** Modified z-score above which `mad` rejects a sample */
+  madThreshold: number;
+}
+
+/**
+ * Range a worth assessment finds plausible (`lowWorthAsFractionOfGDP`, `highWorthAsFractionOfGDP` and `confidence`
+ * of `worthAssessmentSchema`)
+ */
+export interface WorthRange {
+  low: number;
+  high: number;
+  /** Probability given by the model that the worth lies in the range */
+  confidence: number;
+}
+
+/**
+ * How unsure an evaluation is, combining the ranges of the samples with their disagreement
+ */
+export interface WorthUncertaintyBand {
+  low: number;
+  high: number;
+  /** Median confidence of the samples in their ranges, missing if no sample gives one */
+  confidence?: number;
+  /** `high / low`, `null` if the band starts at 0 but doesn't end there */
+  widthFactor: number | null;
+  /** Number of samples giving a range */
+  rangedSamples: number;
+}
+
+/**
+ * When an evaluation is too uncertain to be paid as is
+ */
+export interface WorthUncertaintyConfig {
+  /** Widest band accepted, as `high / low` */
+  maxWidthFactor: number;
+  /** Band width (`high - low`) under which a band is certain enough whatever its factor, e.g. from 0 to a tiny value */
+  certainWidth: number;
+  /** Lowest median confidence accepted */
+  minConfidence: number;
+  /** Worth samples added to a flow whose result is too uncertain */
+  extraSamples: number;
+  /** Times samples are added to a flow before its result goes to manual review */
+  maxExtraRounds: number;
+}
+
+export interface WorthSample {
+  taskId: number;
+  value: number;
+  /** Missing in responses to prompt versions without uncertainty */
+  range?: WorthRange;
+  /** Missing in responses to prompt versions without components */
+  components?: Partial<WorthComponents>;
+  aiProvider?: string;
+  aiModel?: string;
+  temperature?: number;
+}
+
+export interface DroppedWorthSample {
+  taskId: number;
+  value?: number;
+  reason: string;
+}
+
+export interface WorthAggregationResult {
+  value: number;
+  strategy: WorthAggregationStrategy;
+  keptSamples: WorthSample[];
+  droppedSamples: DroppedWorthSample[];
+}
+
+/**
+ * Parse `[provider[:model]][@temperature]`, e.g. `anthropic:claude-sonnet-4-5@0.5` or `@0.7`.
+ */
+function parseEnsembleMember(spec: string): WorthEnsembleMember {
+  const [providerPart, temperaturePart] = spec.trim().split('@');
+  const member: WorthEnsembleMember = {};
+
+  if (providerPart) {
+    getAIProvider(parseProviderSpec(providerPart).providerName); // Fail early on a typo.
+    member.aiProviderSpec = providerPart;
+  }
+  if (temperaturePart) {
+    const temperature = parseFloat(temperaturePart);
+    if (isNaN(temperature)) {
+      throw new Error(`Invalid temperature in WORTH_ENSEMBLE member '${spec}'`);
+    }
+    member.temperature = temperature;
+  }
+  return member;
+}
+
+/**
+ * Read the ensemble configuration from the environment:
+ * - `WORTH_ENSEMBLE` - comma-separated members (default: one member with the runner's own configuration)
+ * - `WORTH_ENSEMBLE_SIZE` - number of assessments; members are used round-robin (default: 3)
+ * - `WORTH_AGGREGATION` - `median` (default), `trimmed-mean`, `mad` or `geometric-mean`
+ * - `WORTH_TRIM_FRACTION` - for `trimmed-mean` (default: 0.2)
+ * - `WORTH_MAD_THRESHOLD` - for `mad` (default: 3.5)
+ */
+export function readWorthEnsembleConfig(): WorthEnsembleConfig {
+  const memberSpecs = (process.env.WORTH_ENSEMBLE ?? '').split(',').filter(spec => spec.trim() !== '');
+  const baseMembers = memberSpecs.length === 0 ? [{}] : memberSpecs.map(parseEnsembleMember);
+  const size = parseInt(process.env.WORTH_ENSEMBLE_SIZE ?? '3');
+  if (isNaN(size) || size < 1) {
+    throw new Error(`Invalid WORTH_ENSEMBLE_SIZE: ${process.env.WORTH_ENSEMBLE_SIZE}`);
+  }
+
+  const aggregation = (process.env.WORTH_AGGREGATION ?? 'median') as WorthAggregationStrategy;
+  if (!AGGREGATION_STRATEGIES.includes(aggregation)) {
+    throw new Error(`Invalid WORTH_AGGREGATION '${aggregation}' (available: ${AGGREGATION_STRATEGIES.join(', ')})`);
+  }
+
+  // At 0.5 or more, trimming both ends would leave no sample.
+  const trimFraction = parseFloat(process.env.WORTH_TRIM_FRACTION ?? '0.2');
+  if (isNaN(trimFraction) || trimFraction < 0 || trimFraction >= 0.5) {
+    throw new Error(`Invalid WORTH_TRIM_FRACTION: ${process.env.WORTH_TRIM_FRACTION} (must be at least 0 and below 0.5)`);
+  }
+  const madThreshold = parseFloat(process.env.WORTH_MAD_THRESHOLD ?? '3.5');
+  if (isNaN(madThreshold) || madThreshold <= 0) {
+    throw new Error(`Invalid WORTH_MAD_THRESHOLD: ${process.env.WORTH_MAD_THRESHOLD}`);
+  }
+
+  return {
+    members: Array.from({ length: size }, (_, i) => baseMembers[i % baseMembers.length]),
+    aggregation,
+    trimFraction,
+    madThreshold
+  };
+}
+
+/**
+ * Read the uncertainty limits from the environment:
+ * - `WORTH_MAX_UNCERTAINTY_FACTOR` - widest accepted band, as high / low (default: 100)
+ * - `WORTH_CERTAIN_BAND_WIDTH` - band width (high - low, as a fraction of world GDP) accepted whatever its factor (default: 1e-10)
+ * - `WORTH_MIN_CONFIDENCE` - lowest accepted median confidence of the samples (default: 0.5)
+ * - `WORTH_EXTRA_SAMPLES` - samples added to a flow whose result is too uncertain (default: 2)
+ * - `WORTH_MAX_EXTRA_SAMPLE_ROUNDS` - times samples are added before manual review (default: 1, 0 to never add any)
+ */
+export function readWorthUncertaintyConfig(): WorthUncertaintyConfig {
+  const config = {
+    maxWidthFactor: parseFloat(process.env.WORTH_MAX_UNCERTAINTY_FACTOR ?? '100'),
+    certainWidth: parseFloat(process.env.WORTH_CERTAIN_BAND_WIDTH ?? '1e-10'),
+    minConfidence: parseFloat(process.env.WORTH_MIN_CONFIDENCE ?? '0.5'),
+    extraSamples: parseInt(process.env.WORTH_EXTRA_SAMPLES ?? '2'),
+    maxExtraRounds: parseInt(process.env.WORTH_MAX_EXTRA_SAMPLE_ROUNDS ?? '1')
+  };
+  if (isNaN(config.maxWidthFactor) || config.maxWidthFactor < 1) {
+    throw new Error(`Invalid WORTH_MAX_UNCERTAINTY_FACTOR: ${process.env.WORTH_MAX_UNCERTAINTY_FACTOR}`);
+  }
+  if (isNaN(config.certainWidth) || config.certainWidth < 0) {
+    throw new Error(`Invalid WORTH_CERTAIN_BAND_WIDTH: ${process.env.WORTH_CERTAIN_BAND_WIDTH}`);
+  }
+  if (isNaN(config.extraSamples) || config.extraSamples < 1) {
+    throw new Error(`Invalid WORTH_EXTRA_SAMPLES: ${process.env.WORTH_EXTRA_SAMPLES}`);
+  }
+  if (isNaN(config.maxExtraRounds) || config.maxExtraRounds < 0) {
+    throw new Error(`Invalid WORTH_MAX_EXTRA_SAMPLE_ROUNDS: ${process.env.WORTH_MAX_EXTRA_SAMPLE_ROUNDS}`);
+  }
+  return config;
+}
+
+/**
+ * Calculate the median value from an array of numbers
+ * @param values - Array of numbers to calculate median from
+ * @returns The median value
+ */
+export function calculateMedian(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+
+  if (sorted.length % 2 === 0) {
+    return (sorted[mid - 1] + sorted[mid]) / 2;
+  } else {
+    return sorted[mid];
+  }
+}
+
+function calculateMean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Read the range of a worth assessment response, widened to include its value
+ * @param response - The response, with `lowWorthAsFractionOfGDP`, `highWorthAsFractionOfGDP` and `confidence`
+ * @param value - `worthAsFractionOfGDP` of the response
+ * @returns The range, or `undefined` if the response has none or a malformed one
+ */
+export function parseWorthRange(
+  response: { lowWorthAsFractionOfGDP?: unknown; highWorthAsFractionOfGDP?: unknown; confidence?: unknown },
+  value: number
+): WorthRange | undefined {
+  const { lowWorthAsFractionOfGDP: low, highWorthAsFractionOfGDP: high, confidence } = response;
+  if (typeof low !== 'number' || typeof high !== 'number' || typeof confidence !== 'number' ||
+    low < 0 || high < low || confidence < 0 || confidence > 1) {
+    return undefined;
+  }
+  return { low: Math.min(low, value), high: Math.max(high, value), confidence };
+}
+
+/**
+ * Combine the samples into an uncertainty band: from the lower of the median low bound and the lowest value,
+ * to the higher of the median high bound and the highest value, so that the band is wide both when each sample
+ * is unsure and when the samples disagree (outliers are left to the aggregation strategy, which drops them from
+ * the kept samples). Samples without a range count as a range of their value.
+ * @param samples - Samples kept by the aggregation of the total
+ * @returns The band, or `undefined` if there are no samples
+ */
+export function aggregateWorthUncertainty(samples: WorthSample[]): WorthUncertaintyBand | undefined {
+  if (samples.length === 0) {
+    return undefined;
+  }
+  const values = samples.map(sample => sample.value);
+  const ranged = samples.filter(sample => sample.range !== undefined);
+  const low = Math.min(calculateMedian(samples.map(sample => sample.range?.low ?? sample.value)), ...values);
+  const high = Math.max(calculateMedian(samples.map(sample => sample.range?.high ?? sample.value)), ...values);
+  return {
+    low,
+    high,
+    confidence: ranged.length > 0 ? calculateMedian(ranged.map(sample => sample.range!.confidence)) : undefined,
+    widthFactor: low > 0 ? high / low : high > 0 ? null : 1,
+    rangedSamples: ranged.length
+  };
+}
+
+/**
+ * Check a band against the uncertainty limits
+ * @param band - Band of the evaluation, `undefined` if it has no samples
+ * @returns Why the evaluation is too uncertain, or `undefined` if it is certain enough
+ */
+export function getWorthUncertaintyIssue(
+  band: WorthUncertaintyBand | undefined,
+  config: Pick<WorthUncertaintyConfig, 'maxWidthFactor' | 'certainWidth' | 'minConfidence'>
+): string | undefined {
+  if (!band) {
+    return 'no valid worth sample';
+  }
+  // A narrow band near 0 spans a large (or unbounded) factor without being uncertain
+  const narrow = band.high - band.low <= config.certainWidth;
+  if (!narrow && (band.widthFactor === null || band.widthFactor > config.maxWidthFactor)) {
+    const factor = band.widthFactor === null ? 'an unbounded factor' : `a factor of ${band.widthFactor.toFixed(1)}`;
+    return `band ${band.low}-${band.high} spans ${factor} (at most ${config.maxWidthFactor})`;
+  }
+  if (band.confidence !== undefined && band.confidence < config.minConfidence) {
+    return `median confidence ${band.confidence} is below ${config.minConfidence}`;
+  }
+  return undefined;
+}
+
+/**
+ * Keep the well-formed components of a worth assessment response
+ * @param components - `components` of the response
+ * @returns The components, or `undefined` if the response has none
+ */
+export function parseWorthComponents(components: unknown): Partial<WorthComponents> | undefined {
+  if (!components || typeof components !== 'object') {
+    return undefined;
+  }
+  const parsed: Partial<WorthComponents> = {};
+  for (const name of WORTH_COMPONENTS) {
+    const component = (components as Record<string, any>)[name];
+    if (typeof component?.worthAsFractionOfGDP === 'number' && component.worthAsFractionOfGDP >= 0) {
+      parsed[name] = { worthAsFractionOfGDP: component.worthAsFractionOfGDP, why: String(component.why ?? '') };
+    }
+  }
+  return Object.keys(parsed).length > 0 ? parsed : undefined;
+}
+
+/**
+ * Median of each component over the samples, whatever the aggregation strategy of the total
+ * @param samples - Samples kept by the aggregation of the total
+ * @returns The component medians, without the components no sample gives
+ */
+export function aggregateWorthComponents(samples: WorthSample[]): Partial<Record<WorthComponentName, WorthComponentMedian>> {
+  const medians: Partial<Record<WorthComponentName, WorthComponentMedian>> = {};
+  for (const name of WORTH_COMPONENTS) {
+    const components = samples
+      .map(sample => sample.components?.[name])
+      .filter((component): component is WorthComponent => component !== undefined);
+    if (components.length === 0) {
+      continue;
+    }
+    const median = calculateMedian(components.map(component => component.worthAsFractionOfGDP));
+    const closest = components.reduce((best, component) =>
+      Math.abs(component.worthAsFractionOfGDP - median) < Math.abs(best.worthAsFractionOfGDP - median) ? component : best);
+    medians[name] = { worthAsFractionOfGDP: median, why: closest.why, samples: components.length };
+  }
+  return medians;
+}
+
+/**
+ * Aggregate worth samples according to the strategy
+ * @param samples - Valid samples to aggregate
+ * @param config - Ensemble configuration (strategy and its parameters)
+ * @returns The aggregated value with the kept samples and the ones rejected by the strategy
+ */
+export function aggregateWorthSamples(
+  samples: WorthSample[],
+  config: Pick<WorthEnsembleConfig, 'aggregation' | 'trimFraction' | 'madThreshold'>
+): WorthAggregationResult {
+  const strategy = config.aggregation;
+  const sorted = [...samples].sort((a, b) => a.value - b.value);
+  let kept = sorted;
+  const dropped: DroppedWorthSample[] = [];
+  const drop = (sample: WorthSample, reason: string) =>
+    dropped.push({ taskId: sample.taskId, value: sample.value, reason });
+
+  switch (strategy) {
+    case 'trimmed-mean': {
+      const trimCount = Math.floor(sorted.length * config.trimFraction);
+      sorted.slice(0, trimCount).forEach(sample =>
+        drop(sample, `trimmed: among the ${trimCount} lowest of ${sorted.length} samples`));
+      sorted.slice(sorted.length - trimCount).forEach(sample =>
+        drop(sample, `trimmed: among the ${trimCount} highest of ${sorted.length} samples`));
+      kept = sorted.slice(trimCount, sorted.length - trimCount);
+      break;
+    }
+    case 'mad': {
+      if (sorted.length === 0) {
+        break;
+      }
+      const median = calculateMedian(sorted.map(sample => sample.value));
+      const mad = calculateMedian(sorted.map(sample => Math.abs(sample.value - median)));
+      if (mad === 0) {
+        break; // Most samples agree exactly; nothing to measure deviation against.
+      }
+      kept = [];
+      for (const sample of sorted) {
+        // Modified z-score (Iglewicz and Hoaglin)
+        const score = 0.6745 * (sample.value - median) / mad;
+        if (Math.abs(score) > config.madThreshold) {
+          drop(sample, `outlier: modified z-score ${score.toFixed(2)} exceeds ${config.madThreshold} (median ${median}, MAD ${mad})`);
+        } else {
+          kept.push(sample);
+        }
+      }
+      break;
+    }
+    case 'geometric-mean': {
+      kept = [];
+      for (const sample of sorted) {
+        if (sample.value > 0) {
+          kept.push(sample);
+        } else {
+          drop(sample, 'non-positive value has no logarithm for the geometric mean');
+        }
+      }
+      break;
+    }
+  }
+
+  const values = kept.map(sample => sample.value);
+  let value = 0;
+  if (values.length !== 0) {
+    switch (strategy) {
+      case 'trimmed-mean':
+        value = calculateMean(values);
+        break;
+      case 'geometric-mean':
+        value = Math.exp(calculateMean(values.map(Math.log)));
+        break;
+      default: // `mad` takes the median of the samples left after rejection.
+        value = calculateMedian(values);
+    }
+  }
+
+  return { value, strategy, keptSamples: kept, droppedSamples: dropped };
+}
@@ -1,11 +1,21 @@
+import { getTaskRetryDelayMs, readTaskRetryPolicy } from '../services/taskRetryPolicy.js';
+import { notifyTaskQueueChanged } from '../services/taskEvents.js';
+
 // Task status enum for type safety
 export enum TaskStatus {
   NOT_STARTED = 'NOT_STARTED', // task create in the DB but not yet initiated.
   INITIATED = 'INITIATED', // `initiateTask` has been called.
   COMPLETED = 'COMPLETED',
-  CANCELLED = 'CANCELLED'
+  CANCELLED = 'CANCELLED', // Business decision, e.g. threshold not exceeded or injection detected; never retried.
+  RETRY_WAIT = 'RETRY_WAIT', // An attempt failed, the task runs again at `retryAt`.
+  FAILED = 'FAILED' // Crash, timeout or AI provider error, and the attempts of the retry policy are exhausted.
 }
 
+/**
+ * Statuses after which a task never runs again; its dependents can then run
+ */
+export const FINISHED_TASK_STATUSES = [TaskStatus.COMPLETED, TaskStatus.CANCELLED, TaskStatus.FAILED];
+
 /**
  * Core interface that all task runners must implement.
  * 
@@ -60,6 +70,15 @@ export interface TaskRunner {
    * ```
    */
   initiateTask(taskId: number): Promise<void>;
+
+  /**
+   * Processes the AI output of an INITIATED task once available (synchronously or from an OpenAI batch),
+   * completing or cancelling the task.
+   *
+   * @param customId - The custom ID of the AI request
+   * @param output - The structured output, without the prompt canary
+   */
+  handleOutput(customId: string, output: any): Promise<void>;
 }
 
 // Task runner data interface for type safety
@@ -128,6 +147,7 @@ export class TaskRunnerRegistry {
           runnerData = JSON.parse(task.runnerData);
         } catch (error) {
           console.error(`Failed to parse runner data for task ${taskId}:`, error);
+          await this.markTaskAsFailed(prisma, taskId, error);
           return false;
         }
       }
@@ -146,13 +166,35 @@ export class TaskRunnerRegistry {
       return true;
     } catch (error) {
       console.error(`❌ Error running TaskRunner by task ID ${taskId}:`, error);
+      await this.markTaskAsFailed(prisma, taskId, error);
       return false;
     }
   }
 
+  /**
+   * Hand the AI output of an INITIATED task to its runner (`onOutput`), which completes or cancels the task
+   * @param customId - The custom ID of the AI request
+   * @param output - The structured output, without the prompt canary
+   */
+  static async deliverOutput(
+    prisma: any,
+    taskId: number,
+    customId: string,
+    output: any
+  ): Promise<void> {
+    const task = await prisma.task.findUniqueOrThrow({
+      where: { id: taskId },
+      select: { runnerClassName: true, runnerData: true }
+    });
+    const runnerData: TaskRunnerData = task.runnerData ? JSON.parse(task.runnerData) : {};
+    const runnerInstance = this.createRunner(task.runnerClassName, runnerData, taskId);
+    await runnerInstance!.handleOutput(customId, output);
+  }
+
   /**
    * Mark a task as completed by task ID
-   * This method updates the task status to COMPLETED and sets the completedAt timestamp
+   * This method updates the task status to COMPLETED, sets the completedAt timestamp
+   * and records the output in the runner data (`output`), e.g. to compare prompt versions
    */
   static async completeTask(
     prisma: any,
@@ -176,14 +218,16 @@ export class TaskRunnerRegistry {
     }
 
     // Update the task status to COMPLETED and set data
-    const updatedTask = await prisma.task.update({
-      where: { id: taskId },
-      data: {
-        status: TaskStatus.COMPLETED,
-        completedAt: new Date(),
-        updatedAt: new Date(),
-      }
+    const finished = await this.finishTask(prisma, taskId, {
+      status: TaskStatus.COMPLETED,
+      completedAt: new Date(),
+      updatedAt: new Date(),
+      runnerData: JSON.stringify({ ...existingData, output })
     });
+    if (!finished) {
+      console.warn(`⚠️ Task ${taskId} was already finished, not marked as COMPLETED`);
+      return false;
+    }
 
     console.log(`✅ Task ${taskId} marked as COMPLETED`);
     return true;
@@ -192,27 +236,152 @@ export class TaskRunnerRegistry {
   /**
    * Mark a task as cancelled by task ID
    * This method updates the task status to CANCELLED and sets the cancellation reason
+   * @param reason - Recorded as `cancellationReason` in the runner data, if given
+   * @param output - The AI output the cancellation was decided on, recorded as `output` in the runner data, if given
    */
   static async markTaskAsCancelled(
     prisma: any,
     taskId: number,
+    reason?: string,
+    output?: object
   ): Promise<boolean> {
     try {
+      let runnerData: string | undefined;
+      if (reason !== undefined || output !== undefined) {
+        const currentTask = await prisma.task.findUnique({
+          where: { id: taskId },
+          select: { runnerData: true }
+        });
+        runnerData = JSON.stringify({
+          ...(currentTask?.runnerData ? JSON.parse(currentTask.runnerData) : {}),
+          ...(reason !== undefined ? { cancellationReason: reason } : {}),
+          ...(output !== undefined ? { output } : {})
+        });
+      }
+
       // Update the task status to CANCELLED and add cancellation info to runnerData
-      const updatedTask = await prisma.task.update({
+      const finished = await this.finishTask(prisma, taskId, {
+        status: TaskStatus.CANCELLED,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+        ...(runnerData !== undefined ? { runnerData } : {})
+      });
+      if (!finished) {
+        console.warn(`⚠️ Task ${taskId} was already finished, not marked as CANCELLED`);
+        return false;
+      }
+
+      console.log(`❌ Task ${taskId} marked as CANCELLED${reason !== undefined ? `: ${reason}` : ''}`);
+      return true;
+    } catch (error) {
+      console.error(`❌ Error cancelling task ${taskId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Record a failed attempt of a task (crash, timeout, AI provider error), as opposed to a cancellation.
+   * The task waits in RETRY_WAIT for a retry with exponential backoff while the retry policy of its runner
+   * class allows it (see `readTaskRetryPolicy`), and is FAILED afterwards.
+   * Tasks already COMPLETED or CANCELLED, e.g. by the runner before throwing, are left unchanged.
+   * @param error - Recorded in `lastError` and the attempt history (`TaskAttempt`)
+   */
+  static async markTaskAsFailed(
+    prisma: any,
+    taskId: number,
+    error: unknown
+  ): Promise<boolean> {
+    try {
+      const task = await prisma.task.findUnique({
         where: { id: taskId },
-        data: {
-          status: TaskStatus.CANCELLED,
-          completedAt: new Date(),
+        select: { status: true, runnerClassName: true, attempts: true }
+      });
+      // Already finished, or the failure of this attempt was already recorded
+      if (!task || FINISHED_TASK_STATUSES.includes(task.status) || task.status === TaskStatus.RETRY_WAIT) {
+        return false;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      const attempt = task.attempts + 1;
+      const policy = readTaskRetryPolicy(task.runnerClassName);
+      const retryAt = attempt < policy.maxAttempts ? new Date(Date.now() + getTaskRetryDelayMs(policy, attempt)) : null;
+      const status = retryAt ? TaskStatus.RETRY_WAIT : TaskStatus.FAILED;
+
+      const recorded = await prisma.$transaction(async (tx: any) => {
+        const data = {
+          status,
+          attempts: attempt,
+          retryAt,
+          lastError: message,
+          leaseOwner: null,
+          lockTime: null,
+          completedAt: retryAt ? null : new Date(),
           updatedAt: new Date()
+        };
+        const updated = retryAt
+          ? (await tx.task.updateMany({ where: { id: taskId, status: task.status }, data })).count > 0
+          : await this.finishInTransaction(tx, taskId, data);
+        if (updated) {
+          await tx.taskAttempt.create({
+            data: { taskId, attempt, outcome: status, error: message, retryAt }
+          });
         }
+        return updated;
       });
+      if (!recorded) {
+        return false;
+      }
+      if (!retryAt) {
+        notifyTaskQueueChanged();
+      }
 
-      console.log(`❌ Task ${taskId} marked as CANCELLED`);
+      if (retryAt) {
+        console.warn(`🔁 Task ${taskId} attempt ${attempt}/${policy.maxAttempts} failed, retry at ${retryAt.toISOString()}: ${message}`);
+      } else {
+        console.error(`💥 Task ${taskId} FAILED after ${attempt} attempt(s): ${message}`);
+      }
       return true;
-    } catch (error) {
-      console.error(`❌ Error cancelling task ${taskId}:`, error);
+    } catch (updateError) {
+      console.error(`❌ Error recording the failure of task ${taskId}:`, updateError);
       return false;
     }
   }
+
+  /**
+   * Move a task to a finished status (COMPLETED, CANCELLED or FAILED) and, in the same transaction, decrement
+   * the remaining-dependency counters (`pendingDependencies`) of its dependents, which become ready at 0.
+   * A task already finished is left unchanged, so that the counters are decremented once per dependency.
+   * @param data - The update of the task, including its finished `status`
+   * @returns false if the task was already finished
+   */
+  static async finishTask(
+    prisma: any,
+    taskId: number,
+    data: Record<string, unknown> & { status: TaskStatus }
+  ): Promise<boolean> {
+    const finished: boolean = await prisma.$transaction((tx: any) => this.finishInTransaction(tx, taskId, data));
+    if (finished) {
+      notifyTaskQueueChanged();
+    }
+    return finished;
+  }
+
+  private static async finishInTransaction(
+    tx: any,
+    taskId: number,
+    data: Record<string, unknown>
+  ): Promise<boolean> {
+    const { count } = await tx.task.updateMany({
+      where: { id: taskId, status: { notIn: FINISHED_TASK_STATUSES } },
+      data
+    });
+    if (count === 0) {
+      return false;
+    }
+    await tx.task.updateMany({
+      where: { dependencies: { some: { dependencyId: taskId } } },
+      data: { pendingDependencies: { decrement: 1 } }
+    });
+    return true;
+  }
 }
@@ -0,0 +1,44 @@
+// Polyfill fetch for Node.js - must be first
+import fetch from 'node-fetch';
+if (!globalThis.fetch) {
+  globalThis.fetch = fetch as any;
+}
+
+import dotenv from 'dotenv';
+
+// TODO@P3: duplicate code
+dotenv.config();
+dotenv.config({ path: 'ethereum-keys.secret' });
+dotenv.config({ path: 'solana-keys.secret' });
+dotenv.config({ path: 'bitcoin-keys.secret' });
+dotenv.config({ path: 'polkadot-keys.secret' });
+
+import { PrismaClient } from '@prisma/client';
+import { registerAllRunners } from './runners/OpenAIRunners.js';
+import { loadEvaluationPipelines } from './services/evaluationPipeline.js';
+import { PromptRegistry } from './services/PromptRegistry.js';
+import { TaskWorker } from './services/TaskWorker.js';
+
+/**
+ * Standalone task worker: processes the task queue without serving the API.
+ * Run as many as needed with `npm run worker`, and set TASK_WORKER_EMBEDDED=false on the API server
+ * if it should only enqueue tasks.
+ */
+
+registerAllRunners();
+loadEvaluationPipelines();
+
+const prisma = new PrismaClient();
+await new PromptRegistry(prisma).publishChangedBuiltinPrompts();
+const worker = new TaskWorker(prisma);
+worker.start();
+
+async function shutdown() {
+  console.log('🛑 Shutting down gracefully...');
+  await worker.stop();
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
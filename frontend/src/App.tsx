@@ -6,6 +6,7 @@ import { AuthProvider } from './contexts/AuthContext'
 import Navigation from './components/Navigation'
 import Home from './pages/Home'
 import Logs from './pages/Logs'
+import DistributionPlans from './pages/DistributionPlans'
 import ConnectForm from './components/ConnectForm'
 import OAuthCallback from './components/OAuthCallback'
 import VerifyEmail from './pages/VerifyEmail'
@@ -24,6 +25,7 @@ function App() {
               <Routes>
                 <Route path="/" element={<Home />} />
                 <Route path="/logs" element={<Logs />} />
+                <Route path="/distribution-plans" element={<DistributionPlans />} />
                 <Route path="/connect" element={<ConnectForm />} />
                 <Route path="/verify-email" element={<VerifyEmail />} />
                 {/* Redirect old login route to new connect route */}
@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react'
+import { appealsApi, Appeal } from '../services/api'
+
+const STATUS_LABELS: Record<Appeal['status'], string> = {
+  PENDING: '⏳ Waiting for review',
+  REEVALUATING: '🔄 Being re-evaluated',
+  UPHELD: '❌ Decision upheld',
+  LIFTED: '✅ Ban lifted',
+  RESCORED: '✅ Re-scored'
+}
+
+function Appeals() {
+  const [appeals, setAppeals] = useState<Appeal[]>([])
+  const [kind, setKind] = useState<Appeal['kind']>('ASSESSMENT')
+  const [statement, setStatement] = useState('')
+  const [evidenceLinks, setEvidenceLinks] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchAppeals = async () => {
+    try {
+      const response = await appealsApi.getMy()
+      if (response.data.success) {
+        setAppeals(response.data.data)
+      }
+    } catch (err) {
+      console.error('Failed to fetch appeals:', err)
+    }
+  }
+
+  useEffect(() => {
+    fetchAppeals()
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setSubmitting(true)
+      setError(null)
+      await appealsApi.submit({
+        kind,
+        statement,
+        evidenceLinks: evidenceLinks.split('\n').map(link => link.trim()).filter(Boolean)
+      })
+      setStatement('')
+      setEvidenceLinks('')
+      await fetchAppeals()
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to submit appeal')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const hasOpenAppeal = appeals.some(appeal => appeal.status === 'PENDING' || appeal.status === 'REEVALUATING')
+
+  return (
+    <div className="card">
+      <h3>⚖️ Appeals</h3>
+      <p style={{ fontSize: '0.9rem', color: '#888' }}>
+        If you were banned or your GDP share looks wrong, explain why and give links supporting it; an administrator will review it
+      </p>
+
+      {appeals.map((appeal) => (
+        <div key={appeal.id} style={{ padding: '0.5rem', borderBottom: '1px solid #333', fontSize: '0.9rem' }}>
+          <div>
+            <strong>{appeal.kind === 'BAN' ? 'Ban' : 'Assessment'}</strong>
+            {' · '}{new Date(appeal.createdAt).toLocaleDateString()}
+            {' · '}{STATUS_LABELS[appeal.status]}
+          </div>
+          {appeal.reviewerNote && <div style={{ color: '#888' }}>{appeal.reviewerNote}</div>}
+          {appeal.newShareInGDP !== null && (
+            <div style={{ color: '#888' }}>GDP share: {appeal.previousShareInGDP ?? '-'} → {appeal.newShareInGDP}</div>
+          )}
+        </div>
+      ))}
+
+      {!hasOpenAppeal && (
+        <form onSubmit={handleSubmit} style={{ marginTop: '1rem' }}>
+          <div style={{ marginBottom: '0.5rem' }}>
+            <select value={kind} onChange={(e) => setKind(e.target.value as Appeal['kind'])}>
+              <option value="ASSESSMENT">My GDP share</option>
+              <option value="BAN">My ban</option>
+            </select>
+          </div>
+          <textarea
+            value={statement}
+            onChange={(e) => setStatement(e.target.value)}
+            placeholder="Why should the decision be reconsidered?"
+            rows={4}
+            maxLength={5000}
+            required
+            style={{ width: '100%', marginBottom: '0.5rem' }}
+          />
+          <textarea
+            value={evidenceLinks}
+            onChange={(e) => setEvidenceLinks(e.target.value)}
+            placeholder="Evidence links, one per line (optional)"
+            rows={3}
+            style={{ width: '100%', marginBottom: '0.5rem' }}
+          />
+          {error && <div className="error">❌ {error}</div>}
+          <button type="submit" disabled={submitting || !statement.trim()}>
+            {submitting ? 'Submitting...' : 'Submit Appeal'}
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
+
+export default Appeals
@@ -26,6 +26,14 @@ function Navigation() {
         >
           OpenAI Logs
         </Link>
+        {(user?.role === 'admin' || user?.role === 'auditor') && (
+          <Link 
+            to="/distribution-plans" 
+            className={`nav-link ${isActive('/distribution-plans') ? 'active' : ''}`}
+          >
+            Distribution Plans
+          </Link>
+        )}
       </div>
       
       <div className="nav-right">
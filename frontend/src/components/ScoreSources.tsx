@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react'
+import { usersApi, CitedSource } from '../services/api'
+
+// Pages the worth assessments of the current user's latest GDP share cited or found
+function ScoreSources() {
+  const [sources, setSources] = useState<CitedSource[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchSources = async () => {
+      try {
+        setLoading(true)
+        const response = await usersApi.getMyGdpShareSources()
+        if (response.data.success) {
+          // The same page may be cited by several assessments
+          const byUrl = new Map<string, CitedSource>()
+          for (const source of response.data.data.sources) {
+            if (!byUrl.has(source.url)) {
+              byUrl.set(source.url, source)
+            }
+          }
+          setSources([...byUrl.values()])
+        }
+      } catch (err) {
+        console.error('Failed to fetch GDP share sources:', err)
+        setError('Failed to load the sources of your GDP share')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchSources()
+  }, [])
+
+  if (loading) {
+    return <div className="loading">Loading sources...</div>
+  }
+
+  if (error) {
+    return <div className="error">❌ {error}</div>
+  }
+
+  if (sources.length === 0) {
+    return null
+  }
+
+  return (
+    <div style={{ marginTop: '1rem' }}>
+      <h4>📚 Sources</h4>
+      <p style={{ fontSize: '0.9rem', color: '#888' }}>
+        Pages your latest GDP share was based on: cited by the assessments, or found by their Web searches
+      </p>
+      <ul style={{ maxHeight: '300px', overflowY: 'auto', fontSize: '0.9rem' }}>
+        {sources.map((source) => (
+          <li key={source.url} style={{ marginBottom: '0.5rem' }}>
+            <a href={source.url} target="_blank" rel="noopener noreferrer">{source.title || source.url}</a>
+            {source.origin === 'search' && <span style={{ color: '#888' }}> (search result)</span>}
+            {source.snippet && <div style={{ color: '#888' }}>“{source.snippet}”</div>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default ScoreSources
@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react'
+import { usersApi, ShareInGdpHistoryEntry } from '../services/api'
+
+interface ShareInGdpHistoryProps {
+  userId?: number; // Current user if not specified
+  limit?: number;
+}
+
+function ShareInGdpHistory({ userId, limit = 24 }: ShareInGdpHistoryProps) {
+  const [history, setHistory] = useState<ShareInGdpHistoryEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true)
+        const response = userId === undefined
+          ? await usersApi.getMyGdpShareHistory(limit)
+          : await usersApi.getGdpShareHistory(userId, limit)
+        if (response.data.success) {
+          setHistory(response.data.data.history)
+        }
+      } catch (err) {
+        console.error('Failed to fetch GDP share history:', err)
+        setError('Failed to load GDP share history')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [userId, limit])
+
+  if (loading) {
+    return <div className="loading">Loading GDP share history...</div>
+  }
+
+  if (error) {
+    return <div className="error">❌ {error}</div>
+  }
+
+  if (history.length === 0) {
+    return null
+  }
+
+  return (
+    <div style={{ marginTop: '1rem' }}>
+      <h4>📈 GDP Share History</h4>
+      <p style={{ fontSize: '0.9rem', color: '#888' }}>
+        Each evaluation computes a raw value; payouts use the smoothed value, so that a single noisy evaluation doesn't swing them
+      </p>
+      <div style={{ maxHeight: '300px', overflowY: 'auto' }}>
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: '1fr 1fr 1fr',
+          gap: '0.5rem',
+          padding: '0.5rem',
+          backgroundColor: '#2a2a2a',
+          borderRadius: '4px',
+          marginBottom: '0.5rem',
+          fontSize: '0.9rem',
+          fontWeight: 'bold'
+        }}>
+          <div>Date</div>
+          <div style={{ textAlign: 'right' }}>Raw</div>
+          <div style={{ textAlign: 'right' }}>Smoothed</div>
+        </div>
+
+        {[...history].reverse().map((entry) => (
+          <div
+            key={entry.id}
+            style={{
+              display: 'grid',
+              gridTemplateColumns: '1fr 1fr 1fr',
+              gap: '0.5rem',
+              padding: '0.5rem',
+              borderBottom: '1px solid #333',
+              fontSize: '0.9rem'
+            }}
+          >
+            <div>{new Date(entry.createdAt).toLocaleDateString()}</div>
+            <div style={{ textAlign: 'right', color: '#888' }}>{entry.rawShareInGDP}</div>
+            <div style={{ textAlign: 'right', fontWeight: 'bold', color: '#4caf50' }}>{entry.smoothedShareInGDP}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default ShareInGdpHistory
@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react'
+import { usersApi, ShareInGdpHistoryEntry, WorthComponentName, WorthComponentStatistics } from '../services/api'
+
+const COMPONENT_LABELS: Record<WorthComponentName, string> = {
+  scientist: '🔬 Science',
+  foss: '💻 FOSS',
+  orcid: 'ORCID',
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket'
+}
+
+// Parts of the current user's latest GDP share, compared with the other users of each field
+function WorthComponents() {
+  const [components, setComponents] = useState<ShareInGdpHistoryEntry['components']>(null)
+  const [statistics, setStatistics] = useState<Record<WorthComponentName, WorthComponentStatistics> | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchComponents = async () => {
+      try {
+        setLoading(true)
+        const [historyResponse, statisticsResponse] = await Promise.all([
+          usersApi.getMyGdpShareHistory(1),
+          usersApi.getWorthComponentStatistics()
+        ])
+        if (historyResponse.data.success) {
+          setComponents(historyResponse.data.data.history[0]?.components ?? null)
+        }
+        if (statisticsResponse.data.success) {
+          setStatistics(statisticsResponse.data.data.statistics)
+        }
+      } catch (err) {
+        console.error('Failed to fetch worth components:', err)
+        setError('Failed to load the components of your GDP share')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchComponents()
+  }, [])
+
+  if (loading) {
+    return <div className="loading">Loading worth components...</div>
+  }
+
+  if (error) {
+    return <div className="error">❌ {error}</div>
+  }
+
+  if (!components) {
+    return null
+  }
+
+  const names = (Object.keys(COMPONENT_LABELS) as WorthComponentName[]).filter(name => components[name] !== undefined)
+
+  return (
+    <div style={{ marginTop: '1rem' }}>
+      <h4>🧩 Worth Components</h4>
+      <p style={{ fontSize: '0.9rem', color: '#888' }}>
+        Medians of the assessments of your latest evaluation: your worth as a scientist and as a FOSS dev, and the parts owed to the work found through each account, before smoothing
+      </p>
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: '1fr 1fr 1fr',
+        gap: '0.5rem',
+        padding: '0.5rem',
+        backgroundColor: '#2a2a2a',
+        borderRadius: '4px',
+        marginBottom: '0.5rem',
+        fontSize: '0.9rem',
+        fontWeight: 'bold'
+      }}>
+        <div>Component</div>
+        <div style={{ textAlign: 'right' }}>Yours</div>
+        <div style={{ textAlign: 'right' }}>Field median</div>
+      </div>
+
+      {names.map((name) => (
+        <div key={name} style={{ padding: '0.5rem', borderBottom: '1px solid #333', fontSize: '0.9rem' }}>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '0.5rem' }}>
+            <div>{COMPONENT_LABELS[name]}</div>
+            <div style={{ textAlign: 'right', fontWeight: 'bold', color: '#4caf50' }}>{components[name]!.worthAsFractionOfGDP}</div>
+            <div style={{ textAlign: 'right', color: '#888' }}>
+              {statistics && statistics[name].users > 0 ? `${statistics[name].median} (${statistics[name].users} users)` : '—'}
+            </div>
+          </div>
+          {components[name]!.why && <div style={{ color: '#888', marginTop: '0.25rem' }}>{components[name]!.why}</div>}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default WorthComponents
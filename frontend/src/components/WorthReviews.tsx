@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react'
+import { worthReviewsApi, WorthReview } from '../services/api'
+
+const STATUS_LABELS: Record<WorthReview['status'], string> = {
+  PENDING: '⏳ Waiting for an administrator',
+  APPROVED: '✅ Approved',
+  REJECTED: '❌ Rejected, previous GDP share kept'
+}
+
+// Evaluations of the current user too uncertain to set their GDP share without an administrator
+function WorthReviews() {
+  const [reviews, setReviews] = useState<WorthReview[]>([])
+
+  useEffect(() => {
+    const fetchReviews = async () => {
+      try {
+        const response = await worthReviewsApi.getMy()
+        if (response.data.success) {
+          setReviews(response.data.data)
+        }
+      } catch (err) {
+        console.error('Failed to fetch worth reviews:', err)
+      }
+    }
+    fetchReviews()
+  }, [])
+
+  if (reviews.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="card">
+      <h3>🔍 Manual Reviews</h3>
+      <p style={{ fontSize: '0.9rem', color: '#888' }}>
+        When the assessments of an evaluation disagree too much or are too unsure, an administrator decides on your GDP share instead
+      </p>
+
+      {reviews.map((review) => (
+        <div key={review.id} style={{ padding: '0.5rem', borderBottom: '1px solid #333', fontSize: '0.9rem' }}>
+          <div>
+            {new Date(review.createdAt).toLocaleDateString()}
+            {' · '}{STATUS_LABELS[review.status]}
+          </div>
+          <div style={{ color: '#888' }}>
+            Median: {review.medianWorth}
+            {review.band && <> · plausible range: {review.band.low} – {review.band.high}</>}
+            {review.band?.confidence !== undefined && <> · confidence: {Math.round(review.band.confidence * 100)}%</>}
+          </div>
+          {review.approvedShareInGDP !== null && <div style={{ color: '#888' }}>Recorded GDP share: {review.approvedShareInGDP}</div>}
+          {review.reviewerNote && <div style={{ color: '#888' }}>{review.reviewerNote}</div>}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default WorthReviews
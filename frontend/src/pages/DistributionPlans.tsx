@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react'
+import { distributionPlansApi, DistributionPlan, NetworkDistributionPlan } from '../services/api'
+import { useAuth } from '../contexts/AuthContext'
+
+const STATUS_LABELS: Record<DistributionPlan['status'], string> = {
+  PENDING_APPROVAL: '⏳ Waiting for approval',
+  APPROVED: '👍 Approved',
+  EXECUTING: '🔄 Executing',
+  EXECUTED: '✅ Executed',
+  FAILED: '💥 Failed',
+  REJECTED: '🚫 Rejected',
+  SUPERSEDED: '⏭️ Superseded',
+  STALE: '⚠️ Stale (balances changed)'
+}
+
+function NetworkPlan({ network }: { network: NetworkDistributionPlan }) {
+  return (
+    <div style={{ marginTop: '0.75rem' }}>
+      <div>
+        <strong>{network.networkName}</strong> ({network.adapterType})
+        {' · '}wallet {network.walletBalance.toFixed(6)} {network.tokenSymbol}
+        {' · '}reserve {network.reserve.toFixed(6)} {network.tokenSymbol}
+      </div>
+      <div style={{ fontSize: '0.9rem', color: '#888' }}>
+        To send: {network.plannedAmount.toFixed(6)} {network.tokenSymbol}
+        {' · '}To defer: {network.deferredAmount.toFixed(6)} {network.tokenSymbol}
+      </div>
+      {network.transfers.length > 0 && (
+        <table style={{ width: '100%', fontSize: '0.85rem', marginTop: '0.25rem' }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: 'left' }}>User</th>
+              <th style={{ textAlign: 'left' }}>Recipient</th>
+              <th style={{ textAlign: 'right' }}>Amount</th>
+              <th style={{ textAlign: 'right' }}>Gas</th>
+              <th style={{ textAlign: 'left' }}>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {network.transfers.map((transfer) => (
+              <tr key={transfer.userId}>
+                <td>{transfer.userId}</td>
+                <td style={{ fontFamily: 'monospace' }}>{transfer.recipientAddress}</td>
+                <td style={{ textAlign: 'right' }}>
+                  {transfer.amount.toFixed(6)}
+                  {transfer.backlogToken > 0 && ` (incl. ${transfer.backlogToken.toFixed(6)} backlog)`}
+                </td>
+                <td style={{ textAlign: 'right' }}>{transfer.gasCostToken !== undefined ? transfer.gasCostToken.toFixed(6) : '-'}</td>
+                <td title={transfer.deferReason}>{transfer.status === 'PLANNED' ? 'Send' : `Defer: ${transfer.deferReason}`}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+function DistributionPlans() {
+  const { user } = useAuth()
+  const canView = user?.role === 'admin' || user?.role === 'auditor'
+  const canOperate = user?.role === 'admin'
+  const [plans, setPlans] = useState<DistributionPlan[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPlans = async () => {
+    try {
+      setLoading(true)
+      const response = await distributionPlansApi.getAll()
+      if (response.data.success) {
+        setPlans(response.data.data)
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to fetch distribution plans')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (canView) {
+      fetchPlans()
+    }
+  }, [canView])
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setBusy(true)
+      setError(null)
+      await action()
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Action failed')
+    } finally {
+      setBusy(false)
+      await fetchPlans()
+    }
+  }
+
+  const handleReject = (plan: DistributionPlan) => {
+    const reason = window.prompt('Why is this plan rejected?')
+    if (reason !== null) {
+      runAction(() => distributionPlansApi.reject(plan.id, reason || undefined))
+    }
+  }
+
+  const handleExecute = (plan: DistributionPlan) => {
+    if (window.confirm(`Send the transfers of plan #${plan.id}? This moves funds.`)) {
+      runAction(() => distributionPlansApi.execute(plan.id))
+    }
+  }
+
+  if (!canView) {
+    return (
+      <div className="card">
+        <h2>💸 Distribution Plans</h2>
+        <p>Only administrators and auditors can review distribution plans.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="card">
+        <h2>💸 Distribution Plans</h2>
+        <p style={{ fontSize: '0.9rem', color: '#888' }}>
+          Gas token distributions are planned first; nothing is sent until an approved plan is executed,
+          and execution is refused if wallet balances changed since planning
+        </p>
+        {canOperate && (
+          <button onClick={() => runAction(() => distributionPlansApi.create())} disabled={busy}>
+            {busy ? 'Working...' : 'Plan Distribution'}
+          </button>
+        )}
+        {error && <div className="error">❌ {error}</div>}
+      </div>
+
+      {loading && plans.length === 0 && <div className="card">Loading...</div>}
+
+      {plans.map((plan) => (
+        <div key={plan.id} className="card">
+          <div>
+            <strong>Plan #{plan.id}</strong>
+            {' · '}{new Date(plan.createdAt).toLocaleString()}
+            {' · '}{STATUS_LABELS[plan.status]}
+            {plan.autoApproved && ' · auto-approved'}
+          </div>
+          {plan.errorMessage && (
+            <div style={{ color: '#e57373', whiteSpace: 'pre-wrap', fontSize: '0.9rem' }}>{plan.errorMessage}</div>
+          )}
+          {plan.result && (
+            <div style={{ fontSize: '0.9rem', color: '#888' }}>
+              Distributed {plan.result.totalDistributed.toFixed(6)} · Reserved {plan.result.totalReserved.toFixed(6)}
+            </div>
+          )}
+
+          {plan.networks.map((network) => (
+            <NetworkPlan key={network.networkId} network={network} />
+          ))}
+
+          {canOperate && (plan.status === 'PENDING_APPROVAL' || plan.status === 'APPROVED') && (
+            <div style={{ marginTop: '0.75rem', display: 'flex', gap: '0.5rem' }}>
+              {plan.status === 'PENDING_APPROVAL' && (
+                <button onClick={() => runAction(() => distributionPlansApi.approve(plan.id))} disabled={busy}>
+                  Approve
+                </button>
+              )}
+              {plan.status === 'APPROVED' && (
+                <button onClick={() => handleExecute(plan)} disabled={busy}>
+                  Execute
+                </button>
+              )}
+              <button onClick={() => handleReject(plan)} disabled={busy}>
+                Reject
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default DistributionPlans
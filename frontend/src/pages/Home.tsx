@@ -3,6 +3,11 @@ import { useNavigate } from 'react-router-dom'
 import api, { usersApi } from '../services/api'
 import { ethers } from 'ethers'
 import Leaderboard from '../components/Leaderboard'
+import ShareInGdpHistory from '../components/ShareInGdpHistory'
+import ScoreSources from '../components/ScoreSources'
+import WorthComponents from '../components/WorthComponents'
+import Appeals from '../components/Appeals'
+import WorthReviews from '../components/WorthReviews'
 import MultiNetworkGasBalances from '../components/MultiNetworkGasBalances'
 import { useAuth } from '../contexts/AuthContext'
 
@@ -239,6 +244,9 @@ function Home() {
               <p style={{ fontSize: '0.9rem', color: '#888' }}>
                 This represents your calculated portion of the world economy based on your contributions
               </p>
+              <ShareInGdpHistory />
+              <WorthComponents />
+              <ScoreSources />
             </div>
           ) : (
             <div>
@@ -251,6 +259,9 @@ function Home() {
         </div>
       )}
 
+      {isAuthenticated && <WorthReviews />}
+      {isAuthenticated && <Appeals />}
+
       <Leaderboard limit={100} showTop={10} />
       
       {/* Onboarding Section */}
@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { logsApi, DBLogEntry, LogsFilter, LogStats, LogTypes } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
 import './Logs.css';
 
 const Logs: React.FC = () => {
+  const { user } = useAuth();
+  // Other users' logs and the statistics are restricted to admins and auditors
+  const canViewAllLogs = user?.role === 'admin' || user?.role === 'auditor';
   const [logs, setLogs] = useState<DBLogEntry[]>([]);
   const [stats, setStats] = useState<LogStats | null>(null);
   const [logTypes, setLogTypes] = useState<LogTypes | null>(null);
@@ -18,21 +22,21 @@ const Logs: React.FC = () => {
 
   useEffect(() => {
     loadInitialData();
-  }, []);
+  }, [canViewAllLogs]);
 
   useEffect(() => {
     loadLogs();
-  }, [filter, selectedUserId, showMyLogs]);
+  }, [filter, selectedUserId, showMyLogs, canViewAllLogs]);
 
   const loadInitialData = async () => {
     try {
       setLoading(true);
       const [statsResponse, typesResponse] = await Promise.all([
-        logsApi.getStats(),
+        canViewAllLogs ? logsApi.getStats() : Promise.resolve(null),
         logsApi.getTypes()
       ]);
       
-      setStats(statsResponse.data.stats);
+      setStats(statsResponse?.data.stats ?? null);
       setLogTypes(typesResponse.data.logTypes);
     } catch (err: any) {
       setError(err.response?.data?.error || 'Failed to load initial data');
@@ -47,7 +51,7 @@ const Logs: React.FC = () => {
       setError(null);
       
       let response;
-      if (showMyLogs) {
+      if (showMyLogs || !canViewAllLogs) {
         response = await logsApi.getMy(filter);
       } else if (selectedUserId) {
         response = await logsApi.getUser(selectedUserId, filter);
@@ -86,7 +90,9 @@ const Logs: React.FC = () => {
       openai: '#3b82f6',
       task: '#10b981',
       user: '#f59e0b',
-      session: '#8b5cf6'
+      session: '#8b5cf6',
+      appeal: '#ec4899',
+      audit: '#14b8a6'
     };
     return colors[type as keyof typeof colors] || '#6b7280';
   };
@@ -201,6 +207,20 @@ const Logs: React.FC = () => {
             <p className="stat-number">{stats.recentActivity.toLocaleString()}</p>
             <p className="stat-label">Last 24 hours</p>
           </div>
+          <div className="stat-card">
+            <h3>AI Spend</h3>
+            <p className="stat-number">${stats.aiBudget.spentUSD.toFixed(2)}</p>
+            <p className="stat-label">
+              This month{stats.aiBudget.hardCapUSD !== undefined ? ` of $${stats.aiBudget.hardCapUSD}` : ''}
+              {stats.aiBudget.reservedUSD > 0 ? `, $${stats.aiBudget.reservedUSD.toFixed(2)} reserved for running flows` : ''}
+              {stats.aiBudget.state !== 'OK' ? ` (${stats.aiBudget.state === 'HARD_CAP_EXCEEDED' ? 'budget exhausted' : `downgraded to ${stats.aiBudget.downgradeModel}`})` : ''}
+            </p>
+          </div>
+          <div className="stat-card">
+            <h3>AI Tokens</h3>
+            <p className="stat-number">{(stats.aiUsage.total.inputTokens + stats.aiUsage.total.outputTokens).toLocaleString()}</p>
+            <p className="stat-label">{stats.aiUsage.total.requests.toLocaleString()} requests, ${stats.aiUsage.total.costUSD.toFixed(2)} in total</p>
+          </div>
           {Object.entries(stats.logsByType).map(([type, count]) => (
             <div key={type} className="stat-card">
               <h3>{logTypes?.[type]?.name || type}</h3>
@@ -217,7 +237,7 @@ const Logs: React.FC = () => {
           <div className="filter-group">
             <label>View Mode</label>
             <div className="radio-group">
-              <label>
+              {canViewAllLogs && <label>
                 <input
                   type="radio"
                   name="viewMode"
@@ -228,17 +248,17 @@ const Logs: React.FC = () => {
                   }}
                 />
                 All Logs
-              </label>
+              </label>}
               <label>
                 <input
                   type="radio"
                   name="viewMode"
-                  checked={showMyLogs}
+                  checked={showMyLogs || !canViewAllLogs}
                   onChange={() => setShowMyLogs(true)}
                 />
                 My Logs
               </label>
-              <label>
+              {canViewAllLogs && <label>
                 <input
                   type="radio"
                   name="viewMode"
@@ -246,11 +266,11 @@ const Logs: React.FC = () => {
                   onChange={() => setSelectedUserId(0)}
                 />
                 User Logs
-              </label>
+              </label>}
             </div>
           </div>
 
-          {!showMyLogs && (
+          {!showMyLogs && canViewAllLogs && (
             <div className="filter-group">
               <label>User ID</label>
               <input
@@ -34,6 +34,7 @@ interface User {
   bitbucketHandle?: string;
   gitlabHandle?: string;
   onboarded: boolean;
+  role?: 'admin' | 'auditor' | 'user';
   shareInGDP?: number;
   // KYC fields
   kycStatus?: string;
@@ -99,7 +100,7 @@ interface AuthData {
 
 interface DBLogEntry {
   id: string;
-  type: 'openai' | 'task' | 'user' | 'session';
+  type: 'openai' | 'task' | 'user' | 'session' | 'appeal' | 'audit';
   timestamp: string;
   userId?: number;
   taskId?: number;
@@ -124,18 +125,43 @@ interface DBLogEntry {
 interface LogsFilter {
   userId?: number;
   taskId?: number;
-  type?: 'openai' | 'task' | 'user' | 'session';
+  type?: 'openai' | 'task' | 'user' | 'session' | 'appeal' | 'audit';
   startDate?: string;
   endDate?: string;
   limit?: number;
   offset?: number;
 }
 
+interface AIUsageTotals {
+  requests: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  toolCalls: number;
+  costUSD: number;
+}
+
 interface LogStats {
   totalLogs: number;
   logsByType: Record<string, number>;
   logsByUser: Record<number, number>;
   recentActivity: number;
+  aiUsage: {
+    total: AIUsageTotals;
+    byUser: Record<number, AIUsageTotals>;
+    byRunnerClass: Record<string, AIUsageTotals>;
+    byFlow: Record<number, AIUsageTotals>;
+  };
+  aiBudget: {
+    state: 'OK' | 'SOFT_CAP_EXCEEDED' | 'HARD_CAP_EXCEEDED';
+    spentUSD: number;
+    reservedUSD: number;
+    flowCostEstimateUSD: number;
+    softCapUSD?: number;
+    hardCapUSD?: number;
+    downgradeModel?: string;
+  };
 }
 
 interface LogTypes {
@@ -153,6 +179,44 @@ interface LeaderboardEntry {
   shareInGDP: number;
 }
 
+interface ShareInGdpHistoryEntry {
+  id: number;
+  taskId: number | null;
+  rawShareInGDP: number;
+  smoothedShareInGDP: number;
+  smoothingPolicy: {
+    emaAlpha: number;
+    logSpace: boolean;
+    maxChangeFactor?: number;
+  };
+  components: Partial<Record<WorthComponentName, WorthComponentMedian>> | null;
+  createdAt: string;
+}
+
+type WorthComponentName = 'scientist' | 'foss' | 'orcid' | 'github' | 'gitlab' | 'bitbucket';
+
+interface WorthComponentMedian {
+  worthAsFractionOfGDP: number;
+  why: string;
+  samples: number;
+}
+
+interface WorthComponentStatistics {
+  users: number;
+  median: number;
+  mean: number;
+  total: number;
+}
+
+interface CitedSource {
+  url: string;
+  title: string | null;
+  snippet: string | null;
+  origin: 'citation' | 'search';
+  retrievedAt: string;
+  taskId: number;
+}
+
 // Users API
 export const usersApi = {
   getAll: (): Promise<AxiosResponse<User[]>> => api.get('/api/users'),
@@ -162,10 +226,147 @@ export const usersApi = {
   delete: (id: number): Promise<AxiosResponse<void>> => api.delete(`/api/users/${id}`),
   getMyGdpShare: (): Promise<AxiosResponse<{ success: boolean; data?: { userId: number; name?: string; email?: string; shareInGDP: number | null; formatted?: string }; message?: string }>> => 
     api.get('/api/users/me/gdp-share'),
+  getMyGdpShareHistory: (limit?: number): Promise<AxiosResponse<{ success: boolean; data: { userId: number; history: ShareInGdpHistoryEntry[] } }>> => 
+    api.get('/api/users/me/gdp-share/history', { params: limit ? { limit } : {} }),
+  getMyGdpShareSources: (): Promise<AxiosResponse<{ success: boolean; data: { userId: number; taskId: number | null; computedAt: string | null; sources: CitedSource[] }; message?: string }>> => 
+    api.get('/api/users/me/gdp-share/sources'),
+  getGdpShareHistory: (userId: number, limit?: number): Promise<AxiosResponse<{ success: boolean; data: { userId: number; history: ShareInGdpHistoryEntry[] } }>> => 
+    api.get(`/api/users/${userId}/gdp-share/history`, { params: limit ? { limit } : {} }),
+  getWorthComponentStatistics: (): Promise<AxiosResponse<{ success: boolean; data: { statistics: Record<WorthComponentName, WorthComponentStatistics> } }>> => 
+    api.get('/api/users/gdp-share/components'),
   getLeaderboard: (limit?: number): Promise<AxiosResponse<{ success: boolean; data: { leaderboard: LeaderboardEntry[]; total: number; limit: number } }>> => 
     api.get('/api/users/leaderboard', { params: limit ? { limit } : {} }),
 }
 
+interface Appeal {
+  id: number;
+  userId: number;
+  kind: 'BAN' | 'ASSESSMENT';
+  taskId: number | null;
+  statement: string;
+  evidenceLinks: string[];
+  status: 'PENDING' | 'REEVALUATING' | 'UPHELD' | 'LIFTED' | 'RESCORED';
+  reviewerId: number | null;
+  reviewerNote: string | null;
+  reevaluationTaskId: number | null;
+  previousShareInGDP: number | null;
+  newShareInGDP: number | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Appeals API
+export const appealsApi = {
+  submit: (data: { kind: Appeal['kind']; statement: string; evidenceLinks?: string[] }): Promise<AxiosResponse<{ success: boolean; data: Appeal }>> => 
+    api.post('/api/appeals', data),
+  getMy: (): Promise<AxiosResponse<{ success: boolean; data: Appeal[] }>> => 
+    api.get('/api/appeals/my'),
+  getQueue: (status?: Appeal['status']): Promise<AxiosResponse<{ success: boolean; data: (Appeal & { user: Pick<User, 'id' | 'name' | 'email'> })[]; count: number }>> => 
+    api.get('/api/appeals/queue', { params: status ? { status } : {} }),
+  resolve: (id: number, decision: 'uphold' | 'lift' | 'reevaluate', note?: string): Promise<AxiosResponse<{ success: boolean; data: Appeal }>> => 
+    api.post(`/api/appeals/${id}/resolve`, { decision, note }),
+}
+
+interface WorthUncertaintyBand {
+  low: number;
+  high: number;
+  confidence?: number;
+  /** high / low, null if the band starts at 0 */
+  widthFactor: number | null;
+  rangedSamples: number;
+}
+
+interface WorthReview {
+  id: number;
+  userId: number;
+  flowId: number | null;
+  taskId: number | null;
+  appealId: number | null;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  medianWorth: number;
+  band: WorthUncertaintyBand | null;
+  componentMedians: Partial<Record<WorthComponentName, WorthComponentMedian>> | null;
+  reason: string;
+  reviewerId: number | null;
+  reviewerNote: string | null;
+  approvedShareInGDP: number | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Manual reviews of evaluation results too uncertain to be recorded as is
+export const worthReviewsApi = {
+  getMy: (): Promise<AxiosResponse<{ success: boolean; data: WorthReview[] }>> => 
+    api.get('/api/worth-reviews/my'),
+  getQueue: (status?: WorthReview['status']): Promise<AxiosResponse<{ success: boolean; data: (WorthReview & { user: Pick<User, 'id' | 'name' | 'email'> })[]; count: number }>> => 
+    api.get('/api/worth-reviews/queue', { params: status ? { status } : {} }),
+  resolve: (id: number, decision: 'approve' | 'reject', options: { note?: string; shareInGDP?: number } = {}): Promise<AxiosResponse<{ success: boolean; data: WorthReview }>> => 
+    api.post(`/api/worth-reviews/${id}/resolve`, { decision, ...options }),
+}
+
+interface PlannedTransfer {
+  userId: number;
+  recipientAddress: string;
+  amount: number;
+  backlogToken: number;
+  gasCostToken?: number;
+  status: 'PLANNED' | 'DEFERRED';
+  deferReason?: string;
+}
+
+interface NetworkDistributionPlan {
+  networkId: string;
+  networkName: string;
+  adapterType: string;
+  tokenSymbol: string;
+  tokenType: string;
+  tokenDecimals: number;
+  walletBalance: number;
+  reserve: number;
+  plannedAmount: number;
+  deferredAmount: number;
+  transfers: PlannedTransfer[];
+}
+
+interface DistributionPlan {
+  id: number;
+  status: 'PENDING_APPROVAL' | 'APPROVED' | 'EXECUTING' | 'EXECUTED' | 'FAILED' | 'REJECTED' | 'SUPERSEDED' | 'STALE';
+  tokenType: string;
+  networks: NetworkDistributionPlan[];
+  createdById: number | null;
+  approvedById: number | null;
+  autoApproved: boolean;
+  approvedAt: string | null;
+  executedAt: string | null;
+  result: {
+    success: boolean;
+    totalDistributed: number;
+    totalReserved: number;
+    errors: string[];
+  } | null;
+  errorMessage: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Distribution plans API
+export const distributionPlansApi = {
+  getAll: (status?: DistributionPlan['status']): Promise<AxiosResponse<{ success: boolean; data: DistributionPlan[]; count: number }>> => 
+    api.get('/api/multi-network-gas/plans', { params: status ? { status } : {} }),
+  getById: (id: number): Promise<AxiosResponse<{ success: boolean; data: DistributionPlan }>> => 
+    api.get(`/api/multi-network-gas/plans/${id}`),
+  create: (): Promise<AxiosResponse<{ success: boolean; data: DistributionPlan }>> => 
+    api.post('/api/multi-network-gas/plans'),
+  approve: (id: number): Promise<AxiosResponse<{ success: boolean; data: DistributionPlan }>> => 
+    api.post(`/api/multi-network-gas/plans/${id}/approve`),
+  reject: (id: number, reason?: string): Promise<AxiosResponse<{ success: boolean; data: DistributionPlan }>> => 
+    api.post(`/api/multi-network-gas/plans/${id}/reject`, { reason }),
+  execute: (id: number): Promise<AxiosResponse<{ success: boolean; data: DistributionPlan; error?: string }>> => 
+    api.post(`/api/multi-network-gas/plans/${id}/execute`),
+}
+
 // Posts API
 export const postsApi = {
   getAll: (published?: boolean): Promise<AxiosResponse<Post[]>> => {
@@ -222,4 +423,4 @@ api.interceptors.response.use(
 )
 
 export default api
-export type { User, Post, CreateUserData, CreatePostData, UpdateUserData, UpdatePostData, AuthData, DBLogEntry, LogsFilter, LogStats, LogTypes, LeaderboardEntry }
+export type { User, Post, CreateUserData, CreatePostData, UpdateUserData, UpdatePostData, AuthData, DBLogEntry, LogsFilter, LogStats, LogTypes, LeaderboardEntry, ShareInGdpHistoryEntry, WorthComponentName, WorthComponentMedian, WorthComponentStatistics, CitedSource, Appeal, WorthUncertaintyBand, WorthReview, DistributionPlan, NetworkDistributionPlan }